@@ -5,6 +5,7 @@ import { useEffect, useState } from "react";
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 import { useRegisterSW } from "virtual:pwa-register/react";
 
+import { Debugger, debuggerOpenAtom } from "@/components/Debugger";
 import { Examples, examplesOpenAtom } from "@/components/Examples";
 import { Footer } from "@/components/Footer";
 import { Header } from "@/components/Header";
@@ -67,6 +68,7 @@ export default function App() {
 function DesktopLayout() {
   const [settingsOpen] = useAtom(settingsOpenAtom);
   const [examplesOpen] = useAtom(examplesOpenAtom);
+  const [debuggerOpen] = useAtom(debuggerOpenAtom);
 
   return (
     <PanelGroup
@@ -97,12 +99,26 @@ function DesktopLayout() {
       >
         {examplesOpen ? <Examples className="size-full" /> : <ComputerContainer />}
       </Panel>
+      {debuggerOpen && (
+        <>
+          <PanelResizeHandle className="w-2" />
+          <Panel
+            id="panel-debugger"
+            order={3}
+            minSize={25}
+            tagName="section"
+            className="border-border bg-background-1 rounded-lg border"
+          >
+            <Debugger className="size-full" />
+          </Panel>
+        </>
+      )}
       {settingsOpen && (
         <>
           <PanelResizeHandle className="w-2" />
           <Panel
             id="panel-settings"
-            order={3}
+            order={4}
             minSize={30}
             tagName="section"
             className="border-border bg-background-1 rounded-lg border"
@@ -121,11 +137,19 @@ function MobileLayout() {
   const [selectedTab, setSelectedTab] = useState<"editor" | "computer">("editor");
   const [settingsOpen, setSettingsOpen] = useAtom(settingsOpenAtom);
   const [examplesOpen, setExamplesOpen] = useAtom(examplesOpenAtom);
+  const [debuggerOpen, setDebuggerOpen] = useAtom(debuggerOpenAtom);
 
-  const tab = settingsOpen ? "settings" : examplesOpen ? "examples" : selectedTab;
+  const tab = settingsOpen
+    ? "settings"
+    : examplesOpen
+      ? "examples"
+      : debuggerOpen
+        ? "debugger"
+        : selectedTab;
   const setTab = (tab: string) => {
     if (settingsOpen) setSettingsOpen(false);
     if (examplesOpen) setExamplesOpen(false);
+    if (debuggerOpen) setDebuggerOpen(false);
     setSelectedTab(tab as typeof selectedTab);
   };
 
@@ -147,6 +171,11 @@ function MobileLayout() {
             <Settings className="size-full" />
           </section>
         </TabsContent>
+        <TabsContent value="debugger" asChild>
+          <section className="border-border bg-background-1 mx-2 grow overflow-hidden rounded-lg border data-[state=inactive]:hidden">
+            <Debugger className="size-full" />
+          </section>
+        </TabsContent>
         <TabsContent value="examples" asChild>
           <section className="border-border bg-background-1 mx-2 grow overflow-hidden rounded-lg border data-[state=inactive]:hidden">
             <Examples className="size-full" />
@@ -2,16 +2,19 @@ import clsx from "clsx";
 import { useCallback } from "react";
 import { useKey } from "react-use";
 
-import { RunUntil, useSimulation } from "@/computer/simulation";
+import { RunUntil, StepBackUnit, useSimulation } from "@/computer/simulation";
 import { useTranslate } from "@/lib/i18n";
 
 export function Controls({ className }: { className?: string }) {
   return (
     <div className={clsx("flex items-center justify-center", className)}>
-      <div className="bg-background-1 border-border flex h-12 grid-cols-4 items-center rounded-md border">
+      <div className="bg-background-1 border-border flex h-12 grid-cols-7 items-center rounded-md border">
         <RunButton until="cycle-change" shortcut="F1" icon="icon-[lucide--play]" />
         <RunButton until="end-of-instruction" shortcut="F2" icon="icon-[lucide--skip-forward]" />
         <RunButton until="infinity" shortcut="F3" icon="icon-[lucide--infinity]" />
+        <RunButton until="turbo" shortcut="F5" icon="icon-[lucide--zap]" />
+        <StepBackButton unit="cycle-change" shortcut="F6" icon="icon-[lucide--undo-2]" />
+        <StepBackButton unit="end-of-instruction" shortcut="F7" icon="icon-[lucide--step-back]" />
         <StopButton />
       </div>
     </div>
@@ -93,6 +96,50 @@ function RunButton({ until, shortcut, icon }: { until: RunUntil; shortcut: strin
   );
 }
 
+function StepBackButton({
+  unit,
+  shortcut,
+  icon,
+}: {
+  unit: StepBackUnit;
+  shortcut: string;
+  icon: string;
+}) {
+  const translate = useTranslate();
+  const { status, dispatch } = useSimulation();
+
+  const stepBack = useCallback(() => {
+    if (status.type !== "paused") return;
+    dispatch("cpu.stepBack", unit);
+  }, [status.type, dispatch, unit]);
+
+  useKey(
+    shortcut,
+    ev => {
+      ev.preventDefault();
+      stepBack();
+    },
+    undefined,
+    [stepBack, shortcut],
+  );
+
+  return (
+    <button
+      className="enabled:hover:bg-background-2 py-1.25 flex size-full flex-col items-center justify-between rounded-md transition-colors disabled:opacity-50"
+      onClick={stepBack}
+      disabled={status.type !== "paused"}
+    >
+      <div className="flex items-center justify-center gap-1">
+        <span className={clsx(icon, "text-primary-1 size-5")} />
+        <kbd className="hidden font-mono text-[0.6rem] leading-none text-stone-600 sm:block dark:text-stone-400">
+          {shortcut}
+        </kbd>
+      </div>
+      <span className="block text-xs leading-none">{translate(`control.back.${unit}`)}</span>
+    </button>
+  );
+}
+
 function StopButton() {
   const translate = useTranslate();
   const { status, dispatch } = useSimulation();
@@ -0,0 +1,403 @@
+import { MemoryAddress } from "@vonsim/common/address";
+import type { Position } from "@vonsim/common/position";
+import { Condition, SimulatorError } from "@vonsim/simulator";
+import clsx from "clsx";
+import { atom, useAtom, useAtomValue } from "jotai";
+import { Fragment, useState } from "react";
+
+import { Input } from "@/components/ui/Input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/Select";
+import { Switch } from "@/components/ui/Switch";
+import {
+  addConditionalBreakpoint,
+  addWatchpoint,
+  conditionalBreakpointsAtom,
+  profileAtom,
+  profilerEnabledAtom,
+  trace,
+  traceEnabledAtom,
+  WATCHPOINT_ACCESSES,
+  WatchpointAccess,
+  watchpointsAtom,
+} from "@/computer/debugger";
+import { getSavedProgram, resolveInclude } from "@/editor/files";
+import { downloadFile } from "@/lib/download";
+import { useTranslate } from "@/lib/i18n";
+import { useLanguage } from "@/lib/settings";
+import { toast } from "@/lib/toast";
+
+export const debuggerOpenAtom = atom(false);
+
+export function Debugger({ className }: { className?: string }) {
+  const translate = useTranslate();
+
+  return (
+    <div className={clsx("scrollbar-border overflow-auto", className)}>
+      <h3 className="border-border flex items-center gap-2 border-b py-2 pl-4 text-xl font-semibold">
+        <span className="icon-[lucide--bug] size-6" /> {translate("debugger.title")}
+      </h3>
+
+      <p className="m-4 text-xs text-stone-600 dark:text-stone-400">
+        {translate("debugger.line-breakpoints")}
+      </p>
+
+      <hr className="border-border" />
+
+      <ConditionalBreakpoints />
+
+      <hr className="border-border" />
+
+      <Watchpoints />
+
+      <hr className="border-border" />
+
+      <Trace />
+
+      <hr className="border-border" />
+
+      <Profiler />
+    </div>
+  );
+}
+
+function ConditionalBreakpoints() {
+  const translate = useTranslate();
+  const lang = useLanguage();
+  const [breakpoints, setBreakpoints] = useAtom(conditionalBreakpointsAtom);
+  const [source, setSource] = useState("");
+
+  const add = () => {
+    try {
+      addConditionalBreakpoint(Condition.parse(source));
+      setSource("");
+    } catch (error) {
+      toast({ title: SimulatorError.from(error).translate(lang), variant: "error" });
+    }
+  };
+
+  return (
+    <div className="m-4">
+      <SectionTitle icon="icon-[lucide--circle-dot]">
+        {translate("debugger.conditions.label")}
+      </SectionTitle>
+      <SectionSubtitle>{translate("debugger.conditions.description")}</SectionSubtitle>
+
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={ev => {
+          ev.preventDefault();
+          add();
+        }}
+      >
+        <Input
+          className="font-mono"
+          value={source}
+          onChange={ev => setSource(ev.currentTarget.value)}
+          placeholder={translate("debugger.conditions.placeholder")}
+        />
+        <AddButton title={translate("debugger.conditions.add")} />
+      </form>
+
+      <ul className="mt-3 space-y-1">
+        {breakpoints.length === 0 && <Empty>{translate("debugger.conditions.empty")}</Empty>}
+        {breakpoints.map(breakpoint => (
+          <Item
+            key={breakpoint.id}
+            enabled={breakpoint.enabled}
+            onEnabledChange={enabled =>
+              setBreakpoints(prev =>
+                prev.map(bp => (bp.id === breakpoint.id ? { ...bp, enabled } : bp)),
+              )
+            }
+            onRemove={() => setBreakpoints(prev => prev.filter(bp => bp.id !== breakpoint.id))}
+          >
+            <code>{breakpoint.condition.source}</code>
+          </Item>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Watchpoints() {
+  const translate = useTranslate();
+  const [watchpoints, setWatchpoints] = useAtom(watchpointsAtom);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [access, setAccess] = useState<WatchpointAccess>("write");
+
+  const add = () => {
+    const parse = (value: string) => {
+      const match = /^([\da-f]+)h?$/i.exec(value.trim());
+      return match ? parseInt(match[1], 16) : NaN;
+    };
+    const start = parse(from);
+    const end = to.trim() ? parse(to) : start;
+    if (!MemoryAddress.inRange(start) || !MemoryAddress.inRange(end) || start > end) {
+      toast({ title: translate("debugger.watchpoints.invalid-range"), variant: "error" });
+      return;
+    }
+
+    addWatchpoint(start, end, access);
+    setFrom("");
+    setTo("");
+  };
+
+  return (
+    <div className="m-4">
+      <SectionTitle icon="icon-[lucide--eye]">
+        {translate("debugger.watchpoints.label")}
+      </SectionTitle>
+      <SectionSubtitle>{translate("debugger.watchpoints.description")}</SectionSubtitle>
+
+      <form
+        className="mt-3 flex flex-wrap gap-2"
+        onSubmit={ev => {
+          ev.preventDefault();
+          add();
+        }}
+      >
+        <Input
+          className="w-28 font-mono"
+          value={from}
+          onChange={ev => setFrom(ev.currentTarget.value)}
+          placeholder={translate("debugger.watchpoints.from")}
+        />
+        <Input
+          className="w-28 font-mono"
+          value={to}
+          onChange={ev => setTo(ev.currentTarget.value)}
+          placeholder={translate("debugger.watchpoints.to")}
+        />
+        <Select value={access} onValueChange={value => setAccess(value as WatchpointAccess)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WATCHPOINT_ACCESSES.map(value => (
+              <SelectItem key={value} value={value}>
+                {translate(`debugger.watchpoints.access.${value}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <AddButton title={translate("debugger.watchpoints.add")} />
+      </form>
+
+      <ul className="mt-3 space-y-1">
+        {watchpoints.length === 0 && <Empty>{translate("debugger.watchpoints.empty")}</Empty>}
+        {watchpoints.map(watchpoint => (
+          <Item
+            key={watchpoint.id}
+            enabled={watchpoint.enabled}
+            onEnabledChange={enabled =>
+              setWatchpoints(prev =>
+                prev.map(wp => (wp.id === watchpoint.id ? { ...wp, enabled } : wp)),
+              )
+            }
+            onRemove={() => setWatchpoints(prev => prev.filter(wp => wp.id !== watchpoint.id))}
+          >
+            <code>
+              {MemoryAddress.format(watchpoint.from)}
+              {watchpoint.to !== watchpoint.from && `–${MemoryAddress.format(watchpoint.to)}`}
+            </code>
+            <span className="text-stone-600 dark:text-stone-400">
+              {translate(`debugger.watchpoints.access.${watchpoint.access}`)}
+            </span>
+          </Item>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Trace() {
+  const translate = useTranslate();
+  const [enabled, setEnabled] = useAtom(traceEnabledAtom);
+
+  const download = (format: "csv" | "json") => {
+    if (trace.entries.length === 0) {
+      toast({ title: translate("debugger.trace.empty"), variant: "error" });
+      return;
+    }
+
+    const filename = `vonsim-trace-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === "csv") downloadFile(filename, trace.toCSV(), "text/csv");
+    else downloadFile(filename, JSON.stringify(trace, null, 2), "application/json");
+  };
+
+  return (
+    <div className="m-4">
+      <div className="flex items-center justify-between gap-2">
+        <SectionTitle icon="icon-[lucide--footprints]">
+          {translate("debugger.trace.label")}
+        </SectionTitle>
+        <Switch checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+      <SectionSubtitle>{translate("debugger.trace.description")}</SectionSubtitle>
+
+      <div className="mt-3 flex gap-2">
+        {(["csv", "json"] as const).map(format => (
+          <button
+            key={format}
+            className="border-border bg-background-0 hover:bg-background-2 flex h-10 grow items-center justify-center gap-2 rounded-md border text-sm transition-colors"
+            onClick={() => download(format)}
+          >
+            <span className="icon-[lucide--download] size-4" />
+            {translate(`debugger.trace.export.${format}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const PROFILE_COUNTERS = [
+  "memoryReads",
+  "memoryWrites",
+  "ioReads",
+  "ioWrites",
+  "interrupts",
+  "units",
+] as const;
+
+function Profiler() {
+  const translate = useTranslate();
+  const profile = useAtomValue(profileAtom);
+  const [enabled, setEnabled] = useAtom(profilerEnabledAtom);
+
+  // Lines of included files are shown along with the name of the file
+  const lineOf = (position: Position) => {
+    const source = position.file === null ? getSavedProgram() : resolveInclude(position.file);
+    if (source === null || position.start > source.length) return null;
+    const line = source.slice(0, position.start).split("\n").length;
+    return position.file === null ? line : `${position.file}:${line}`;
+  };
+
+  return (
+    <div className="m-4">
+      <div className="flex items-center justify-between gap-2">
+        <SectionTitle icon="icon-[lucide--gauge]">
+          {translate("debugger.profiler.label")}
+        </SectionTitle>
+        <Switch checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+      <SectionSubtitle>{translate("debugger.profiler.description")}</SectionSubtitle>
+
+      {!profile || profile.total.instructions === 0 ? (
+        <p className="mt-3 text-sm italic text-stone-600 dark:text-stone-400">
+          {translate("debugger.profiler.empty")}
+        </p>
+      ) : (
+        <>
+          <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            <dt>{translate("debugger.profiler.counters.instructions")}</dt>
+            <dd className="text-right font-mono">{profile.total.instructions}</dd>
+            {PROFILE_COUNTERS.map(counter => (
+              <Fragment key={counter}>
+                <dt>{translate(`debugger.profiler.counters.${counter}`)}</dt>
+                <dd className="text-right font-mono">{profile.total[counter]}</dd>
+              </Fragment>
+            ))}
+          </dl>
+
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-right font-mono text-xs">
+              <thead className="text-stone-600 dark:text-stone-400">
+                <tr>
+                  <th className="text-left">{translate("debugger.profiler.table.line")}</th>
+                  <th className="text-left">{translate("debugger.profiler.table.instruction")}</th>
+                  <th>{translate("debugger.profiler.table.executions")}</th>
+                  <th title={translate("debugger.profiler.counters.memoryReads")}>R</th>
+                  <th title={translate("debugger.profiler.counters.memoryWrites")}>W</th>
+                  <th title={translate("debugger.profiler.counters.ioReads")}>IN</th>
+                  <th title={translate("debugger.profiler.counters.ioWrites")}>OUT</th>
+                  <th>{translate("debugger.profiler.table.units")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.instructions.map(instruction => (
+                  <tr key={instruction.position.toString()}>
+                    <td className="text-left">{lineOf(instruction.position) ?? "?"}</td>
+                    <td className="text-left">{instruction.name}</td>
+                    <td>{instruction.executions}</td>
+                    <td>{instruction.memoryReads}</td>
+                    <td>{instruction.memoryWrites}</td>
+                    <td>{instruction.ioReads}</td>
+                    <td>{instruction.ioWrites}</td>
+                    <td>{instruction.units}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SectionTitle({ icon, children }: { icon: string; children?: React.ReactNode }) {
+  return (
+    <p className="flex items-center gap-2 font-medium">
+      <span className={clsx(icon, "size-6")} />
+      {children}
+    </p>
+  );
+}
+
+function SectionSubtitle({ children }: { children?: React.ReactNode }) {
+  return <p className="mt-1 text-xs text-stone-600 dark:text-stone-400">{children}</p>;
+}
+
+function Empty({ children }: { children?: React.ReactNode }) {
+  return <li className="text-sm italic text-stone-600 dark:text-stone-400">{children}</li>;
+}
+
+function AddButton({ title }: { title: string }) {
+  return (
+    <button
+      type="submit"
+      className="border-border bg-background-0 hover:bg-background-2 flex size-10 shrink-0 items-center justify-center rounded-md border transition-colors"
+      title={title}
+    >
+      <span className="icon-[lucide--plus] size-4" />
+    </button>
+  );
+}
+
+function Item({
+  enabled,
+  onEnabledChange,
+  onRemove,
+  children,
+}: {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onRemove: () => void;
+  children?: React.ReactNode;
+}) {
+  const translate = useTranslate();
+
+  return (
+    <li className="bg-background-0 flex items-center gap-3 rounded-md px-3 py-2 text-sm">
+      <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+      <span className={clsx("flex grow items-center gap-3", !enabled && "opacity-50")}>
+        {children}
+      </span>
+      <button
+        className="text-destructive transition-opacity hover:opacity-75"
+        onClick={onRemove}
+        title={translate("debugger.remove")}
+      >
+        <span className="icon-[lucide--trash-2] block size-4" />
+      </button>
+    </li>
+  );
+}
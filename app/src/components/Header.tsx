@@ -2,6 +2,7 @@ import clsx from "clsx";
 import { useAtom } from "jotai";
 
 import { Controls } from "@/components/Controls";
+import { debuggerOpenAtom } from "@/components/Debugger";
 import { examplesOpenAtom } from "@/components/Examples";
 import { settingsOpenAtom } from "@/components/Settings";
 import { useTranslate } from "@/lib/i18n";
@@ -12,6 +13,7 @@ export function Header() {
   const translate = useTranslate();
   const [settingsOpen, setSettingsOpen] = useAtom(settingsOpenAtom);
   const [examplesOpen, setExamplesOpen] = useAtom(examplesOpenAtom);
+  const [debuggerOpen, setDebuggerOpen] = useAtom(debuggerOpenAtom);
 
   return (
     <header className="text-foreground relative h-28 p-2 text-sm max-sm:min-h-28 sm:h-16">
@@ -48,6 +50,18 @@ export function Header() {
         >
           <span className="icon-[lucide--folder-code] block size-6" />
         </button>
+        <button
+          className={clsx(
+            "focus:outline-border size-min rounded-md p-2 transition-colors",
+            debuggerOpen
+              ? "bg-background-2 hover:bg-background-3 focus:bg-background-3"
+              : "hover:bg-background-1 focus:bg-background-1",
+          )}
+          title={translate("debugger.title")}
+          onClick={() => setDebuggerOpen(!debuggerOpen)}
+        >
+          <span className="icon-[lucide--bug] block size-6" />
+        </button>
         <button
           className={clsx(
             "focus:outline-border size-min rounded-md p-2 transition-colors",
@@ -152,6 +152,22 @@ export function Settings({ className }: { className?: string }) {
         </Select>
       </Setting>
 
+      <Setting>
+        <SettingInfo>
+          <SettingTitle>
+            <span className="icon-[lucide--file-pen] size-6" />
+            {translate("settings.selfModifyingCode.label")}
+          </SettingTitle>
+          <SettingSubtitle>{translate("settings.selfModifyingCode.description")}</SettingSubtitle>
+        </SettingInfo>
+
+        <Switch
+          className="ml-8"
+          checked={settings.selfModifyingCode}
+          onCheckedChange={value => setSettings(prev => ({ ...prev, selfModifyingCode: value }))}
+        />
+      </Setting>
+
       <hr className="border-border" />
 
       <Setting>
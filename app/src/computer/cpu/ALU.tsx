@@ -2,21 +2,40 @@ import clsx from "clsx";
 import { useAtomValue } from "jotai";
 
 import { animated, getSpring } from "@/computer/shared/springs";
+import { useTranslate } from "@/lib/i18n";
 
-import { aluOperationAtom, registerAtoms } from "./state";
+import { aluOperationAtom, aluPartAtom, registerAtoms } from "./state";
+
+/**
+ * Icons shown next to the operation of the shift and rotate instructions,
+ * telling which way the bits move.
+ */
+const OPERATION_ICONS: Partial<Record<string, string>> = {
+  SHL: "icon-[lucide--chevrons-left]",
+  SHR: "icon-[lucide--chevrons-right]",
+  SAR: "icon-[lucide--chevrons-right]",
+  ROL: "icon-[lucide--rotate-ccw]",
+  ROR: "icon-[lucide--rotate-cw]",
+  RCL: "icon-[lucide--rotate-ccw]",
+  RCR: "icon-[lucide--rotate-cw]",
+};
 
 /**
  * ALU component, to be used inside <CPU />
  */
 export function ALU() {
+  const translate = useTranslate();
   const FLAGS = useAtomValue(registerAtoms.FLAGS);
   const operation = useAtomValue(aluOperationAtom);
+  const operationIcon = OPERATION_ICONS[operation];
+  const part = useAtomValue(aluPartAtom);
 
   // https://vonsim.github.io/en/computer/cpu#flags
   const CF = FLAGS.bit(0);
   const ZF = FLAGS.bit(6);
   const SF = FLAGS.bit(7);
   const IF = FLAGS.bit(9);
+  const DF = FLAGS.bit(10);
   const OF = FLAGS.bit(11);
 
   return (
@@ -71,10 +90,16 @@ export function ALU() {
       />
 
       <animated.span
-        className="border-border absolute left-[260px] top-[50px] flex w-min items-center rounded-md border px-2 py-1 font-mono leading-none"
+        className="border-border absolute left-[260px] top-[50px] flex w-min items-center gap-1 rounded-md border px-2 py-1 font-mono leading-none"
         style={getSpring("cpu.alu.operation")}
       >
         {operation}
+        {operationIcon && <span className={clsx(operationIcon, "size-3")} />}
+        {part && (
+          <span className="whitespace-nowrap text-xs text-stone-400">
+            {translate(`computer.cpu.alu-part.${part}`)}
+          </span>
+        )}
       </animated.span>
 
       {/* Flags */}
@@ -102,6 +127,11 @@ export function ALU() {
         >
           IF
         </span>
+        <span
+          className={clsx("rounded-sm p-1 font-light", DF ? "bg-primary-1" : "bg-background-0")}
+        >
+          DF
+        </span>
         <span
           className={clsx("rounded-sm p-1 font-light", OF ? "bg-primary-1" : "bg-background-0")}
         >
@@ -34,6 +34,10 @@ export function CPU() {
       <Reg name="DX" emphasis className="left-[520px] top-[150px]" />
       <Reg name="id" className="left-[520px] top-[190px]" />
 
+      <Reg name="BP" emphasis className="left-[380px] top-[138px]" />
+      <Reg name="SI" emphasis className="left-[380px] top-[172px]" />
+      <Reg name="DI" emphasis className="left-[380px] top-[206px]" />
+
       <Reg name="MBR" className="right-[-38px] top-[233px]" />
 
       <Reg name="IR" className="left-[171px] top-[270px]" />
@@ -93,7 +93,10 @@ export function Control() {
               <span className="italic text-stone-600 dark:text-stone-400">???</span>
             ) : (
               <>
-                <span className="text-primary-1">{cycle.metadata.name}</span>
+                <span className="text-primary-1">
+                  {cycle.metadata.prefix && `${cycle.metadata.prefix} `}
+                  {cycle.metadata.name}
+                </span>
                 <span className="text-foreground">{operandsText}</span>
               </>
             )}
@@ -30,6 +30,9 @@ dataBus.addNode("BX", { position: [522, 85] });
 dataBus.addNode("CX", { position: [522, 125] });
 dataBus.addNode("DX", { position: [522, 165] });
 dataBus.addNode("id", { position: [522, 205] });
+dataBus.addNode("BP", { position: [481, 153] });
+dataBus.addNode("SI", { position: [481, 187] });
+dataBus.addNode("DI", { position: [481, 221] });
 dataBus.addNode("IP", { position: [451, 309] });
 dataBus.addNode("SP", { position: [451, 349] });
 dataBus.addNode("ri", { position: [451, 388] });
@@ -45,6 +48,9 @@ dataBus.addNode("BX join", { position: [492, 85] });
 dataBus.addNode("CX join", { position: [492, 125] });
 dataBus.addNode("DX join", { position: [492, 165] });
 dataBus.addNode("id join", { position: [492, 205] });
+dataBus.addNode("BP join", { position: [492, 153] });
+dataBus.addNode("SI join", { position: [492, 187] });
+dataBus.addNode("DI join", { position: [492, 221] });
 dataBus.addNode("data mbr join", { position: [492, 250] });
 dataBus.addNode("IP join", { position: [421, 309] });
 dataBus.addNode("SP join", { position: [421, 349] });
@@ -63,11 +69,17 @@ dataBus.addUndirectedEdge("BX", "BX join");
 dataBus.addUndirectedEdge("CX", "CX join");
 dataBus.addUndirectedEdge("DX", "DX join");
 dataBus.addUndirectedEdge("id", "id join");
+dataBus.addUndirectedEdge("BP", "BP join");
+dataBus.addUndirectedEdge("SI", "SI join");
+dataBus.addUndirectedEdge("DI", "DI join");
 dataBus.addUndirectedEdge("AX join", "BX join");
 dataBus.addUndirectedEdge("BX join", "CX join");
-dataBus.addUndirectedEdge("CX join", "DX join");
-dataBus.addUndirectedEdge("DX join", "id join");
-dataBus.addUndirectedEdge("id join", "data mbr join");
+dataBus.addUndirectedEdge("CX join", "BP join");
+dataBus.addUndirectedEdge("BP join", "DX join");
+dataBus.addUndirectedEdge("DX join", "SI join");
+dataBus.addUndirectedEdge("SI join", "id join");
+dataBus.addUndirectedEdge("id join", "DI join");
+dataBus.addUndirectedEdge("DI join", "data mbr join");
 dataBus.addUndirectedEdge("data mbr join", "MBR");
 
 dataBus.addUndirectedEdge("IP", "IP join");
@@ -154,6 +166,9 @@ export function DataBus() {
           "M 522 125 H 492", // CX
           "M 522 165 H 492", // DX
           "M 522 205 H 492", // id
+          "M 481 153 H 492", // BP
+          "M 481 187 H 492", // SI
+          "M 481 221 H 492", // DI
         ].join(" ")}
       />
 
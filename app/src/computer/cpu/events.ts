@@ -15,7 +15,7 @@ import { store } from "@/lib/jotai";
 import { colors } from "@/lib/tailwind";
 
 import { DataRegister, generateDataPath } from "./DataBus";
-import { aluOperationAtom, cycleAtom, MARAtom, MBRAtom, registerAtoms } from "./state";
+import { aluOperationAtom, aluPartAtom, cycleAtom, MARAtom, MBRAtom, registerAtoms } from "./state";
 
 const drawDataPath = (from: DataRegister, to: DataRegister) => {
   const path = generateDataPath(from, to);
@@ -45,6 +45,7 @@ export async function handleCPUEvent(event: SimulatorEvent<"cpu:">): Promise<voi
         pathsDrawConfig,
       );
       store.set(aluOperationAtom, event.operation);
+      store.set(aluPartAtom, event.part ?? null);
       await Promise.all([
         anim(
           { key: "cpu.alu.operation.backgroundColor", to: colors.primary1 },
@@ -99,7 +100,7 @@ export async function handleCPUEvent(event: SimulatorEvent<"cpu:">): Promise<voi
     }
 
     case "cpu:cycle.start": {
-      highlightLine(event.instruction.position.start);
+      highlightLine(event.instruction.position);
       store.set(cycleAtom, { phase: "fetching", metadata: event.instruction });
       await anim(
         [
@@ -1,6 +1,11 @@
 import { Byte } from "@vonsim/common/byte";
 import type { ComputerState, SimulatorError } from "@vonsim/simulator";
-import type { ByteRegister, InstructionMetadata, WordRegister } from "@vonsim/simulator/cpu";
+import type {
+  ALUPart,
+  ByteRegister,
+  InstructionMetadata,
+  WordRegister,
+} from "@vonsim/simulator/cpu";
 import { atom, PrimitiveAtom, SetStateAction, WritableAtom } from "jotai";
 
 import type { ByteAtom } from "@/computer/shared/types";
@@ -11,6 +16,9 @@ const BXAtom = atom(Byte.zero(16)); // Base
 const CXAtom = atom(Byte.zero(16)); // Counter
 const DXAtom = atom(Byte.zero(16)); // Data
 const SPAtom = atom(Byte.zero(16)); // Stack Pointer
+const BPAtom = atom(Byte.zero(16)); // Base Pointer
+const SIAtom = atom(Byte.zero(16)); // Source Index
+const DIAtom = atom(Byte.zero(16)); // Destination Index
 const IPAtom = atom(Byte.zero(16)); // Instruction Pointer
 const IRAtom = atom(Byte.zero(8)); // Instruction Register
 const riAtom = atom(Byte.zero(16)); // Register Index
@@ -65,6 +73,15 @@ export const registerAtoms: RegistersMap = {
   SP: SPAtom,
   "SP.l": lowAtom(SPAtom),
   "SP.h": highAtom(SPAtom),
+  BP: BPAtom,
+  "BP.l": lowAtom(BPAtom),
+  "BP.h": highAtom(BPAtom),
+  SI: SIAtom,
+  "SI.l": lowAtom(SIAtom),
+  "SI.h": highAtom(SIAtom),
+  DI: DIAtom,
+  "DI.l": lowAtom(DIAtom),
+  "DI.h": highAtom(DIAtom),
   IP: IPAtom,
   "IP.l": lowAtom(IPAtom),
   "IP.h": highAtom(IPAtom),
@@ -103,6 +120,7 @@ export type Cycle =
 export const cycleAtom = atom<Cycle>({ phase: "stopped" });
 
 export const aluOperationAtom = atom("ADD");
+export const aluPartAtom = atom<ALUPart | null>(null); // For operations that take more than one step
 
 export function resetCPUState(computer: ComputerState) {
   store.set(registerAtoms.AX, Byte.fromUnsigned(computer.cpu.AX, 16));
@@ -110,6 +128,9 @@ export function resetCPUState(computer: ComputerState) {
   store.set(registerAtoms.CX, Byte.fromUnsigned(computer.cpu.CX, 16));
   store.set(registerAtoms.DX, Byte.fromUnsigned(computer.cpu.DX, 16));
   store.set(registerAtoms.SP, Byte.fromUnsigned(computer.cpu.SP, 16));
+  store.set(registerAtoms.BP, Byte.fromUnsigned(computer.cpu.BP, 16));
+  store.set(registerAtoms.SI, Byte.fromUnsigned(computer.cpu.SI, 16));
+  store.set(registerAtoms.DI, Byte.fromUnsigned(computer.cpu.DI, 16));
   store.set(registerAtoms.IP, Byte.fromUnsigned(computer.cpu.IP, 16));
   store.set(registerAtoms.IR, Byte.fromUnsigned(computer.cpu.IR, 8));
   store.set(registerAtoms.ri, Byte.fromUnsigned(computer.cpu.ri, 16));
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview
+ * Conditional breakpoints, memory watchpoints, the execution trace and the profile.
+ * They are managed from the debugger panel and fed by the simulation thread
+ * (see `simulation.ts`).
+ *
+ * Line breakpoints live in the editor instead (see `@/editor/breakpoints`).
+ */
+
+import {
+  type Condition,
+  type ConditionContext,
+  type Profile,
+  TraceRecorder,
+} from "@vonsim/simulator";
+import { atom } from "jotai";
+
+import type { SimulatorEvent } from "@/computer/shared/types";
+import { store } from "@/lib/jotai";
+
+export type ConditionalBreakpoint = {
+  id: number;
+  condition: Condition;
+  enabled: boolean;
+};
+
+export type WatchpointAccess = "read" | "write" | "read-write";
+
+export type Watchpoint = {
+  id: number;
+  /** First address of the watched range. */
+  from: number;
+  /** Last address of the watched range (inclusive). */
+  to: number;
+  access: WatchpointAccess;
+  enabled: boolean;
+};
+
+export const WATCHPOINT_ACCESSES: WatchpointAccess[] = ["read", "write", "read-write"];
+
+/**
+ * Events that the CPU has to keep emitting in turbo mode so that
+ * watchpoints can be checked.
+ */
+export const WATCHED_EVENTS = [
+  "memory:read.ok",
+  "memory:write.ok",
+] as const satisfies SimulatorEvent["type"][];
+
+/**
+ * Maximum number of instructions kept in the trace, so that long runs
+ * don't fill the memory of the browser.
+ */
+const TRACE_LIMIT = 100_000;
+
+/**
+ * Trace of the executed instructions, recorded while {@link traceEnabledAtom} is on.
+ * It's cleared every time the CPU starts.
+ */
+export const trace = new TraceRecorder(TRACE_LIMIT);
+export const traceEnabledAtom = atom(false);
+
+/**
+ * Counters of the profiler of the current (or last) simulation, counted while
+ * {@link profilerEnabledAtom} is on. Also shown as a heatmap in the editor
+ * (see `@/editor/heatmap`).
+ */
+export const profileAtom = atom<Profile | null>(null);
+export const profilerEnabledAtom = atom(false);
+
+export const conditionalBreakpointsAtom = atom<ConditionalBreakpoint[]>([]);
+export const watchpointsAtom = atom<Watchpoint[]>([]);
+
+let nextId = 0;
+
+export function addConditionalBreakpoint(condition: Condition) {
+  store.set(conditionalBreakpointsAtom, prev => [
+    ...prev,
+    { id: nextId++, condition, enabled: true },
+  ]);
+}
+
+export function addWatchpoint(from: number, to: number, access: WatchpointAccess) {
+  store.set(watchpointsAtom, prev => [...prev, { id: nextId++, from, to, access, enabled: true }]);
+}
+
+/**
+ * Returns the first enabled conditional breakpoint whose condition holds, if any.
+ * Called at the start of every instruction.
+ */
+export function checkConditionalBreakpoints(
+  context: ConditionContext,
+): ConditionalBreakpoint | null {
+  const breakpoints = store.get(conditionalBreakpointsAtom);
+  return breakpoints.find(bp => bp.enabled && bp.condition.evaluate(context)) ?? null;
+}
+
+/**
+ * Returns the first enabled watchpoint that watches the memory access of the
+ * given event, if any.
+ */
+export function checkWatchpoints(
+  event: Extract<SimulatorEvent, { type: (typeof WATCHED_EVENTS)[number] }>,
+): Watchpoint | null {
+  const access = event.type === "memory:read.ok" ? "read" : "write";
+  const address = event.address.value;
+  const watchpoints = store.get(watchpointsAtom);
+
+  return (
+    watchpoints.find(
+      wp =>
+        wp.enabled &&
+        (wp.access === "read-write" || wp.access === access) &&
+        wp.from <= address &&
+        address <= wp.to,
+    ) ?? null
+  );
+}
@@ -1,3 +1,4 @@
+import type { DisassembledLine } from "@vonsim/assembler";
 import { MemoryAddress } from "@vonsim/common/address";
 import type { Byte } from "@vonsim/common/byte";
 import clsx from "clsx";
@@ -12,7 +13,13 @@ import { animated, getSpring } from "@/computer/shared/springs";
 import { useTranslate } from "@/lib/i18n";
 import { toast } from "@/lib/toast";
 
-import { fixedAddressAtom, memoryShownAtom, operatingAddressAtom } from "./state";
+import {
+  disassemblyShownAtom,
+  fixedAddressAtom,
+  memoryShownAtom,
+  memoryViewAtom,
+  operatingAddressAtom,
+} from "./state";
 
 export function Memory() {
   const translate = useTranslate();
@@ -21,6 +28,7 @@ export function Memory() {
   const halfMemory = Math.ceil(memory.length / 2);
   const operatingAddress = useAtomValue(operatingAddressAtom);
   const [fixedAddress, setFixedAddress] = useAtom(fixedAddressAtom);
+  const [view, setView] = useAtom(memoryViewAtom);
 
   const inputId = useId();
   const [inputValue, setInputValue] = useState("");
@@ -91,6 +99,21 @@ export function Memory() {
         {translate("computer.memory.name")}
       </span>
 
+      <button
+        className="text-foreground absolute right-3 top-3 transition-colors hover:opacity-75"
+        title={translate(
+          view === "bytes" ? "computer.memory.show-disassembly" : "computer.memory.show-bytes",
+        )}
+        onClick={() => setView(view === "bytes" ? "disassembly" : "bytes")}
+      >
+        <span
+          className={clsx(
+            "size-6",
+            view === "bytes" ? "icon-[lucide--file-code]" : "icon-[lucide--binary]",
+          )}
+        />
+      </button>
+
       <div className="mx-4 my-2">
         <Label htmlFor={inputId}>{translate("computer.memory.fix-address")}</Label>
         <div className="mt-1 flex items-center gap-1">
@@ -137,26 +160,72 @@ export function Memory() {
         </div>
       </div>
 
-      <div className="border-border m-4 flex w-min items-start overflow-hidden rounded-lg border">
-        <table className="border-border border-r font-mono text-lg">
-          <tbody>
-            {memory.slice(0, halfMemory).map((cell, i) => (
-              <MemoryCell {...cell} key={i} />
-            ))}
-          </tbody>
-        </table>
-        <table className="font-mono text-lg">
-          <tbody>
-            {memory.slice(halfMemory).map((cell, i) => (
-              <MemoryCell {...cell} key={i} />
-            ))}
-          </tbody>
-        </table>
-      </div>
+      {view === "bytes" ? (
+        <div className="border-border m-4 flex w-min items-start overflow-hidden rounded-lg border">
+          <table className="border-border border-r font-mono text-lg">
+            <tbody>
+              {memory.slice(0, halfMemory).map((cell, i) => (
+                <MemoryCell {...cell} key={i} />
+              ))}
+            </tbody>
+          </table>
+          <table className="font-mono text-lg">
+            <tbody>
+              {memory.slice(halfMemory).map((cell, i) => (
+                <MemoryCell {...cell} key={i} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <Disassembly />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Disassembly of the memory shown, which is decoded again every time the
+ * memory changes (e.g. when the program writes over its own instructions).
+ */
+function Disassembly() {
+  const lines = useAtomValue(disassemblyShownAtom);
+
+  return (
+    <div className="border-border m-4 max-h-[320px] overflow-auto rounded-lg border">
+      <table className="w-full font-mono text-sm">
+        <tbody>
+          {lines.map(line => (
+            <DisassemblyLine {...line} key={line.address} />
+          ))}
+        </tbody>
+      </table>
     </div>
   );
 }
 
+function DisassemblyLine({ address, bytes, label, text }: DisassembledLine) {
+  const operatingAddress = useAtomValue(operatingAddressAtom);
+  const operating =
+    operatingAddress.value >= address && operatingAddress.value < address + bytes.length;
+
+  return (
+    <animated.tr
+      title={bytes.map(byte => byte.toString(16).toUpperCase().padStart(2, "0")).join(" ")}
+      className="border-border odd:bg-background-0 even:bg-background-1 border-b last-of-type:border-b-0"
+      style={operating ? getSpring("memory.operating-cell") : undefined}
+    >
+      <td className="border-border border-r px-2 py-1 font-thin">
+        {MemoryAddress.format(address)}
+      </td>
+      <td className="whitespace-nowrap px-2 py-1">
+        {label && <span className="text-primary-1">{label}: </span>}
+        {text}
+      </td>
+    </animated.tr>
+  );
+}
+
 function MemoryCell({ address, value }: { address: MemoryAddress; value: Byte<8> }) {
   const translate = useTranslate();
   const operatingAddress = useAtomValue(operatingAddressAtom);
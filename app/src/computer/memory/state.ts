@@ -1,3 +1,4 @@
+import { disassemble, DisassembledLine } from "@vonsim/assembler";
 import { MemoryAddress } from "@vonsim/common/address";
 import { Byte } from "@vonsim/common/byte";
 import type { ComputerState } from "@vonsim/simulator";
@@ -39,6 +40,22 @@ export const memoryShownAtom = atom<MemoryShown>(get => {
   return result;
 });
 
+/**
+ * Whether the memory panel shows the bytes or their disassembly.
+ */
+export const memoryViewAtom = atom<"bytes" | "disassembly">("bytes");
+
+export const disassemblyShownAtom = atom<DisassembledLine[]>(get => {
+  // Start exactly at the fixed address, so the user can align it with an instruction.
+  // Otherwise, start at the first address shown.
+  const start = get(fixedAddressAtom)?.value ?? get(memoryShownAtom)[0].address.value;
+  const end = Math.min(start + CELLS - 1, MemoryAddress.MAX_ADDRESS);
+
+  // Memory is read from the state shown, so bytes written at runtime are disassembled too
+  const memory = get(memoryAtom);
+  return disassemble(address => memory[address]?.unsigned ?? null, start, end);
+});
+
 export function resetMemoryState(computer: ComputerState) {
   store.set(
     memoryAtom,
@@ -1,3 +1,4 @@
+import { parseDevices } from "@vonsim/simulator";
 import { z } from "zod";
 
 /**
@@ -19,43 +20,7 @@ export const devicesSchema = z.object({
  * Devices configurations from metadata.
  * @see https://vonsim.github.io/en/reference/metadata#devices
  */
-export const devicesMetadataSchema = z
-  .string()
-  .transform(s => {
-    const devices: Partial<z.infer<typeof devicesSchema>> = {};
-
-    if (s === "none") {
-      return { keyboardAndScreen: false, pic: false, pio: null, handshake: null };
-    }
-
-    for (const item of s.split(/\s*,\s*/g)) {
-      switch (item) {
-        case "keyboard":
-        case "screen":
-          devices.keyboardAndScreen = true;
-          break;
-        case "pic":
-          devices.pic = true;
-          break;
-        case "switches-pio":
-        case "leds-pio":
-          devices.pio = "switches-and-leds";
-          break;
-        case "printer-pio":
-          devices.pio = "printer";
-          if (devices.handshake === "printer") devices.handshake = null;
-          break;
-        case "printer-handshake":
-          devices.handshake = "printer";
-          if (devices.pio === "printer") devices.pio = null;
-          break;
-        default:
-          break;
-      }
-    }
-    return devices;
-  })
-  .catch({});
+export const devicesMetadataSchema = z.string().transform(parseDevices).catch({});
 
 /**
  * Program metadata schema used to set devices and other options.
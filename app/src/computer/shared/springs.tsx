@@ -97,6 +97,9 @@ const initialValues = {
     CX: Register(),
     DX: Register(),
     SP: Register(),
+    BP: Register(),
+    SI: Register(),
+    DI: Register(),
     IP: Register(),
     IR: Register(),
     ri: Register(),
@@ -5,18 +5,40 @@
 
 import { assemble } from "@vonsim/assembler";
 import { Byte } from "@vonsim/common/byte";
-import { ComputerState, EventGenerator, Simulator, SimulatorError } from "@vonsim/simulator";
+import {
+  ComputerState,
+  EventGenerator,
+  Simulator,
+  SimulatorError,
+  TraceRecorder,
+} from "@vonsim/simulator";
 import { atom, useAtomValue } from "jotai";
 import { useMemo } from "react";
 
 import { devicesMetadataSchema } from "@/computer/schemas";
+import { downloadStateFile, parseStateFile } from "@/computer/snapshot";
+import { hasBreakpoint } from "@/editor/breakpoints";
+import { setProgram } from "@/editor/contents";
+import { getSavedProgram, openFile, resolveInclude } from "@/editor/files";
+import { showHeatmap } from "@/editor/heatmap";
 import { highlightLine, setReadOnly } from "@/editor/methods";
 import { translate } from "@/lib/i18n";
 import { store } from "@/lib/jotai";
 import { getSettings, setDevices, useDevices } from "@/lib/settings";
+import type { Settings } from "@/lib/settings/schema";
 import { toast } from "@/lib/toast";
 
 import { cycleAtom, resetCPUState } from "./cpu/state";
+import {
+  checkConditionalBreakpoints,
+  checkWatchpoints,
+  profileAtom,
+  profilerEnabledAtom,
+  trace,
+  traceEnabledAtom,
+  WATCHED_EVENTS,
+  watchpointsAtom,
+} from "./debugger";
 import { eventIsRunning, handleEvent } from "./handle-event";
 import { resetHandshakeState } from "./handshake/state";
 import { resetLedsState } from "./leds/state";
@@ -26,12 +48,28 @@ import { resetPIOState } from "./pio/state";
 import { resetPrinterState } from "./printer/state";
 import { resetScreenState } from "./screen/state";
 import { anim, pauseAllAnimations, resumeAllAnimations, stopAllAnimations } from "./shared/animate";
+import type { SimulatorEvent } from "./shared/types";
 import { resetSwitchesState } from "./switches/state";
 import { resetTimerState } from "./timer/state";
 
 const simulator = new Simulator();
 
-export type RunUntil = "cycle-change" | "end-of-instruction" | "infinity";
+/**
+ * Generator of the CPU events. It's replaced when stepping back (see the
+ * `cpu.stepBack` action), so the thread reads it through {@link cpuEvents}.
+ */
+let cpuGenerator: EventGenerator | null = null;
+
+function* cpuEvents(): EventGenerator {
+  while (cpuGenerator) {
+    const event = cpuGenerator.next();
+    if (event.done) return;
+    yield event.value;
+  }
+}
+
+export type RunUntil = "cycle-change" | "end-of-instruction" | "infinity" | "turbo";
+export type StepBackUnit = Extract<RunUntil, "cycle-change" | "end-of-instruction">;
 export type SimulationStatus =
   | { type: "running"; until: RunUntil; waitingForInput: boolean }
   | { type: "paused" }
@@ -47,6 +85,7 @@ function notifyError(error: SimulatorError<any>) {
 export function finishSimulation(error?: SimulatorError<any>) {
   if (error) notifyError(error);
 
+  syncProfile();
   highlightLine(null);
   setReadOnly(false);
   store.set(simulationAtom, { type: "stopped", error });
@@ -82,15 +121,201 @@ function resetState(state: ComputerState) {
   resetSwitchesState(state);
 }
 
+/**
+ * Events that the CPU has to keep emitting in turbo mode for the debugger:
+ * the memory accesses if there are watchpoints and the ones of the trace if
+ * it's on. Any other micro-operation isn't even generated.
+ */
+function turboKeep() {
+  const watching = store.get(watchpointsAtom).some(watchpoint => watchpoint.enabled);
+  return [
+    ...(watching ? WATCHED_EVENTS : []),
+    ...(store.get(traceEnabledAtom) ? TraceRecorder.EVENTS : []),
+  ];
+}
+
+/**
+ * Enables or disables turbo mode. The history isn't recorded in turbo mode,
+ * so only the instructions executed outside of it can be stepped back.
+ */
+function setTurbo(turbo: boolean) {
+  simulator.setTurbo(turbo, turboKeep());
+  simulator.setHistory(!turbo);
+}
+
+/**
+ * The debugger can be changed while the simulation is running, so the
+ * simulator only does the work that the debugger actually uses.
+ */
+function syncDebugger() {
+  const status = store.get(simulationAtom);
+  if (status.type === "stopped") return;
+  if (status.type === "running") simulator.setTurbo(status.until === "turbo", turboKeep());
+  simulator.setProfile(store.get(profilerEnabledAtom));
+  syncProfile();
+}
+
+store.sub(watchpointsAtom, syncDebugger);
+store.sub(traceEnabledAtom, syncDebugger);
+store.sub(profilerEnabledAtom, syncDebugger);
+
+/**
+ * Time between UI updates while running in turbo mode, in milliseconds.
+ */
+const TURBO_SYNC_INTERVAL = 100;
+
+/**
+ * In turbo mode, the UI isn't updated by the events, so it has to be
+ * synchronized with the simulator from time to time.
+ */
+function syncTurboState() {
+  const cycle = store.get(cycleAtom);
+  resetState(simulator.getComputerState());
+  syncProfile();
+  if ("metadata" in cycle) {
+    highlightLine(cycle.metadata.position);
+    store.set(cycleAtom, { phase: "executing", metadata: cycle.metadata });
+  }
+}
+
+/**
+ * Updates the profiler panel and the heatmap of the editor.
+ */
+function syncProfile() {
+  const profile = simulator.getProfile();
+  store.set(profileAtom, profile);
+  showHeatmap(profile);
+}
+
+/**
+ * Shows the state of the computer after stepping back. Only the events that
+ * set the phase of the cycle are handled, since they aren't animated.
+ */
+function syncStepBack(step: NonNullable<ReturnType<Simulator["stepBack"]>>) {
+  resetState(simulator.getComputerState());
+  if (step.instruction) {
+    highlightLine(step.instruction.position);
+    store.set(cycleAtom, { phase: "fetching", metadata: step.instruction });
+  }
+
+  for (const event of step.replayed) {
+    if (
+      event.type === "cpu:cycle.update" ||
+      event.type === "cpu:cycle.interrupt" ||
+      event.type === "cpu:int.6" ||
+      event.type === "cpu:int.7"
+    ) {
+      handleEvent(event);
+    }
+  }
+}
+
+/**
+ * Pauses the simulation if the event hits a breakpoint: a line breakpoint or
+ * a conditional breakpoint at the start of an instruction, or a watchpoint on
+ * a memory access.
+ */
+function checkBreakpoints(event: SimulatorEvent<"cpu:cycle.start" | "memory:">) {
+  const lang = getSettings().language;
+
+  if (event.type === "cpu:cycle.start") {
+    if (event.instruction.position && hasBreakpoint(event.instruction.position)) {
+      pauseSimulation();
+      return;
+    }
+
+    const breakpoint = checkConditionalBreakpoints(simulator);
+    if (breakpoint) {
+      pauseSimulation();
+      toast({ title: translate(lang, "debugger.hit.condition", breakpoint.condition.source) });
+    }
+  } else if (event.type === "memory:read.ok" || event.type === "memory:write.ok") {
+    const watchpoint = checkWatchpoints(event);
+    if (watchpoint) {
+      pauseSimulation();
+      const access = event.type === "memory:read.ok" ? "read" : "write";
+      toast({ title: translate(lang, `debugger.hit.${access}`, event.address) });
+    }
+  }
+}
+
+/**
+ * Assembles the program in the editor and loads it into the simulator.
+ *
+ * @param devices The devices to connect. By default, the ones in the settings
+ * merged with the ones in the metadata of the program.
+ * @returns The connected devices, or `null` if the program couldn't be loaded.
+ */
+function loadProgram(devices?: Settings["devices"]): Settings["devices"] | null {
+  if (!window.codemirror) return null;
+
+  // The simulation is shown on the main program
+  openFile(null);
+  const code = window.codemirror.state.doc.toString();
+  const result = assemble(code, { resolveInclude });
+
+  if (!result.success) {
+    assembleError();
+    return null;
+  }
+
+  setReadOnly(true);
+
+  // Update settings
+  devices ??= {
+    ...getSettings().devices,
+    ...devicesMetadataSchema.parse(result.metadata.devices),
+  };
+  setDevices(devices);
+
+  // Reset the simulator
+  simulator.loadProgram({
+    program: result.program,
+    data: getSettings().dataOnLoad,
+    devices,
+    selfModifyingCode: getSettings().selfModifyingCode,
+  });
+  resetState(simulator.getComputerState());
+
+  return devices;
+}
+
+/**
+ * Starts the CPU and the devices that run on their own.
+ */
+function startCPU(turbo: boolean) {
+  trace.clear();
+  cpuGenerator = simulator.startCPU({
+    turbo,
+    keep: turboKeep(),
+    history: !turbo,
+    profile: store.get(profilerEnabledAtom),
+  });
+  syncProfile();
+  startThread(cpuEvents());
+  startClock();
+  startPrinter();
+}
+
 /**
  * Starts an execution thread for the given generator. This is, run all the
  * events until the generator is done or the simulation is stopped.
  */
 async function startThread(generator: EventGenerator): Promise<void> {
+  let turbo = false;
+  let lastSync = performance.now();
+
   try {
     while (true) {
       const status = store.get(simulationAtom);
       const settings = getSettings();
+      if (status.type === "running") turbo = status.until === "turbo";
+      else if (turbo) {
+        // Leaving turbo mode, show the latest state
+        turbo = false;
+        syncTurboState();
+      }
+
       if (status.type === "stopped") break; // stop the thread
       if (status.type === "paused") {
         // Wait until the simulation is resumed
@@ -105,10 +330,53 @@ async function startThread(generator: EventGenerator): Promise<void> {
 
       // Handle event
       const event = generator.next();
-      if (event.done) break;
+      if (event.done) {
+        if (turbo) syncTurboState();
+        break;
+      }
+
+      if (store.get(traceEnabledAtom)) trace.observe(event.value, simulator);
+
+      if (turbo) {
+        if (event.value.type === "cpu:cycle.start") {
+          // Keep track of the current instruction without animating it
+          store.set(cycleAtom, { phase: "executing", metadata: event.value.instruction });
+          checkBreakpoints(event.value);
+          continue;
+        }
+        if (event.value.type === "memory:read.ok" || event.value.type === "memory:write.ok") {
+          checkBreakpoints(event.value);
+          continue;
+        }
+        if (event.value.type === "cpu:int.6" || event.value.type === "cpu:int.7") {
+          // Only kept for the trace
+          continue;
+        }
+        if (event.value.type === "cpu:cycle.end") {
+          if (performance.now() - lastSync >= TURBO_SYNC_INTERVAL) {
+            syncTurboState();
+            // Let the browser render the UI and handle user input
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastSync = performance.now();
+          }
+          continue;
+        }
+        // Any other event needs to be handled with the latest state
+        syncTurboState();
+      }
+
       await handleEvent(event.value);
 
-      if (event.value.type === "cpu:cycle.update" || event.value.type === "cpu:cycle.interrupt") {
+      if (
+        event.value.type === "cpu:cycle.start" ||
+        event.value.type === "memory:read.ok" ||
+        event.value.type === "memory:write.ok"
+      ) {
+        checkBreakpoints(event.value);
+      } else if (
+        event.value.type === "cpu:cycle.update" ||
+        event.value.type === "cpu:cycle.interrupt"
+      ) {
         if (status.until === "cycle-change") {
           pauseSimulation();
         } else if (!settings.animations) {
@@ -116,6 +384,7 @@ async function startThread(generator: EventGenerator): Promise<void> {
           await new Promise(resolve => setTimeout(resolve, settings.executionUnit));
         }
       } else if (event.value.type === "cpu:cycle.end") {
+        syncProfile();
         if (status.until === "cycle-change" || status.until === "end-of-instruction") {
           pauseSimulation();
         } else if (!settings.animations) {
@@ -134,8 +403,11 @@ async function startThread(generator: EventGenerator): Promise<void> {
 
 type Action =
   | [action: "cpu.run", until: RunUntil]
+  | [action: "cpu.stepBack", unit: StepBackUnit]
   | [action: "cpu.pause"]
   | [action: "cpu.stop"]
+  | [action: "state.export"]
+  | [action: "state.import", contents: string]
   | [action: "f10.press"]
   | [action: "switch.toggle", index: number]
   | [action: "keyboard.sendChar", char: string]
@@ -153,29 +425,8 @@ async function dispatch(...args: Action) {
       const until = args[1];
 
       if (status.type === "stopped") {
-        if (!window.codemirror) return;
-
-        const code = window.codemirror.state.doc.toString();
-        const result = assemble(code);
-
-        if (!result.success) return assembleError();
-
-        setReadOnly(true);
-
-        // Update settings
-        const devices = {
-          ...getSettings().devices,
-          ...devicesMetadataSchema.parse(result.metadata.devices),
-        };
-        setDevices(devices);
-
-        // Reset the simulator
-        simulator.loadProgram({
-          program: result.program,
-          data: getSettings().dataOnLoad,
-          devices,
-        });
-        resetState(simulator.getComputerState());
+        const devices = loadProgram();
+        if (!devices) return;
 
         // Track event
         try {
@@ -199,11 +450,9 @@ async function dispatch(...args: Action) {
         }
 
         store.set(simulationAtom, { type: "running", until, waitingForInput: false });
-
-        startThread(simulator.startCPU());
-        startClock();
-        startPrinter();
+        startCPU(until === "turbo");
       } else {
+        setTurbo(until === "turbo");
         store.set(simulationAtom, { type: "running", until, waitingForInput: false });
 
         resumeAllAnimations();
@@ -212,6 +461,19 @@ async function dispatch(...args: Action) {
       return;
     }
 
+    case "cpu.stepBack": {
+      if (status.type !== "paused") return invalidAction();
+
+      const step = simulator.stepBack(args[1] === "cycle-change" ? "cycle-change" : "instruction");
+      if (!step) return invalidAction();
+
+      // The paused thread will continue with the new generator
+      cpuGenerator?.return();
+      cpuGenerator = step.generator;
+      syncStepBack(step);
+      return;
+    }
+
     case "cpu.pause": {
       pauseSimulation();
       return;
@@ -222,6 +484,56 @@ async function dispatch(...args: Action) {
       return;
     }
 
+    case "state.export": {
+      if (status.type !== "paused" || !window.codemirror) return invalidAction();
+
+      // A state taken in the middle of an instruction can't be continued
+      if (!simulator.isBetweenInstructions()) {
+        toast({
+          title: translate(getSettings().language, "messages.export-mid-instruction"),
+          variant: "error",
+        });
+        return;
+      }
+
+      downloadStateFile({
+        version: 1,
+        program: getSavedProgram(),
+        devices: getSettings().devices,
+        state: simulator.getComputerState(),
+      });
+      return;
+    }
+
+    case "state.import": {
+      if (status.type !== "stopped") return invalidAction();
+
+      const file = parseStateFile(args[1]);
+      if (!file) {
+        toast({
+          title: translate(getSettings().language, "messages.invalid-state-file"),
+          variant: "error",
+        });
+        return;
+      }
+
+      setProgram({ source: file.program, devices: file.devices });
+      if (!loadProgram(file.devices)) return;
+
+      try {
+        simulator.restoreState(file.state);
+      } catch (error) {
+        finishSimulation(SimulatorError.from(error));
+        return;
+      }
+      resetState(simulator.getComputerState());
+
+      // The simulation starts paused at the restored point
+      store.set(simulationAtom, { type: "paused" });
+      startCPU(false);
+      return;
+    }
+
     case "f10.press": {
       if (!simulator.devices.f10.connected() || status.type !== "running") return invalidAction();
 
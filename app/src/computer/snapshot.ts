@@ -0,0 +1,50 @@
+/**
+ * @fileoverview
+ * `.vonsim-state` files. They store a snapshot of the computer together with
+ * the program and the devices it was taken with, so the simulation can be
+ * loaded back paused at the same point.
+ */
+
+import type { ComputerState } from "@vonsim/simulator";
+import { z } from "zod";
+
+import { devicesSchema } from "@/computer/schemas";
+import { downloadFile } from "@/lib/download";
+
+export const STATE_FILE_EXTENSION = ".vonsim-state";
+
+const stateFileSchema = z.object({
+  version: z.literal(1),
+  program: z.string(),
+  devices: devicesSchema,
+  state: z.object({
+    cpu: z.record(z.string(), z.number().int().nonnegative()),
+    memory: z.array(z.number().int().min(0).max(255)),
+    io: z.record(z.string(), z.unknown()),
+  }),
+});
+
+export type StateFile = Omit<z.infer<typeof stateFileSchema>, "state"> & { state: ComputerState };
+
+/**
+ * Parses the contents of a `.vonsim-state` file.
+ * @returns The parsed file, or `null` if it isn't valid.
+ */
+export function parseStateFile(contents: string): StateFile | null {
+  try {
+    const result = stateFileSchema.safeParse(JSON.parse(contents));
+    if (!result.success) return null;
+    // The simulator checks that the state matches the program and the devices
+    return result.data as StateFile;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Downloads the given state as a `.vonsim-state` file.
+ */
+export function downloadStateFile(file: StateFile) {
+  const date = new Date().toISOString().slice(0, 10);
+  downloadFile(`vonsim-${date}${STATE_FILE_EXTENSION}`, JSON.stringify(file), "application/json");
+}
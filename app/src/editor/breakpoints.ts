@@ -0,0 +1,90 @@
+import { RangeSet, StateEffect, StateField } from "@codemirror/state";
+import { BlockInfo, EditorView, gutterLineClass, GutterMarker } from "@codemirror/view";
+import { INSTRUCTIONS, STRING_INSTRUCTIONS, STRING_PREFIXES } from "@vonsim/assembler";
+import type { Position } from "@vonsim/common/position";
+
+/**
+ * Breakpoints are stored as markers at the start of each line that has one.
+ * They are mapped through the changes of the document, so they stay in the
+ * same line while the user edits the code.
+ *
+ * The simulation checks them on every `cpu:cycle.start` event
+ * (see {@link hasBreakpoint}).
+ */
+
+const toggleBreakpointEffect = StateEffect.define<{ pos: number; on: boolean }>({
+  map: (value, mapping) => ({ pos: mapping.mapPos(value.pos), on: value.on }),
+});
+
+const breakpointMarker = new (class extends GutterMarker {
+  elementClass = "cm-breakpoint";
+})();
+
+export const breakpointsField = StateField.define<RangeSet<GutterMarker>>({
+  create() {
+    return RangeSet.empty;
+  },
+  update(breakpoints, tr) {
+    breakpoints = breakpoints.map(tr.changes);
+    for (const e of tr.effects) {
+      if (e.is(toggleBreakpointEffect)) {
+        if (e.value.on) {
+          breakpoints = breakpoints.update({ add: [breakpointMarker.range(e.value.pos)] });
+        } else {
+          breakpoints = breakpoints.update({ filter: from => from !== e.value.pos });
+        }
+      }
+    }
+    return breakpoints;
+  },
+  provide: f => gutterLineClass.from(f),
+});
+
+/**
+ * Whether the line has an instruction (optionally preceded by a label and, for
+ * string instructions, by a prefix like `REP`). Breakpoints can only be set on
+ * these lines, since they are the only ones that will ever start a cycle.
+ */
+export function isInstructionLine(text: string): boolean {
+  const match = /^\s*(?:\w+\s*:\s*)?(\w+)(?:\s+(\w+))?/.exec(text);
+  if (!match) return false;
+
+  const word = match[1].toUpperCase();
+  if (STRING_PREFIXES.includes(word)) {
+    return !!match[2] && STRING_INSTRUCTIONS.includes(match[2].toUpperCase());
+  }
+  return INSTRUCTIONS.includes(word);
+}
+
+/**
+ * Toggles the breakpoint of the given line. Meant to be used as a gutter
+ * event handler.
+ */
+export function toggleBreakpoint(view: EditorView, line: BlockInfo): boolean {
+  const text = view.state.doc.lineAt(line.from).text;
+  const on = !lineHasBreakpoint(view, line.from);
+  if (on && !isInstructionLine(text)) return false;
+
+  view.dispatch({ effects: toggleBreakpointEffect.of({ pos: line.from, on }) });
+  return true;
+}
+
+function lineHasBreakpoint(view: EditorView, lineStart: number): boolean {
+  let found = false;
+  view.state.field(breakpointsField).between(lineStart, lineStart, () => {
+    found = true;
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Whether the line that contains the given position has a breakpoint.
+ * Breakpoints can only be set in the main program, not in included files.
+ * @param position Position reported by the assembler.
+ */
+export function hasBreakpoint(position: Position): boolean {
+  if (!window.codemirror || position.file !== null) return false;
+  const line = window.codemirror.state.doc.lineAt(position.start);
+  return lineHasBreakpoint(window.codemirror, line.from);
+}
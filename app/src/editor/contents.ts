@@ -4,18 +4,19 @@ import { programMetadataSchema } from "@/computer/schemas";
 import { setDevices } from "@/lib/settings";
 import type { Settings } from "@/lib/settings/schema";
 
-import { setSavedProgram } from "./files";
+import { getSavedProgram, openFile, setSavedProgram } from "./files";
 
 /**
- * Gets editor program source code
+ * Gets the source code of the main program (even if another file of the
+ * project is shown in the editor)
  */
 export function getProgram() {
   if (!window.codemirror) return;
-  return window.codemirror.state.doc.toString();
+  return getSavedProgram();
 }
 
 /**
- * Sets editor program source code
+ * Sets the source code of the main program, and shows it in the editor
  */
 export function setProgram({
   source,
@@ -33,6 +34,7 @@ export function setProgram({
   } else if (typeof devices === "object") {
     setDevices(devices);
   }
+  openFile(null);
   setSavedProgram(source);
   window.codemirror.dispatch({
     changes: {
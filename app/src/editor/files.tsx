@@ -1,17 +1,24 @@
+import type { EditorState } from "@codemirror/state";
 import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { assemble, createListing, IncludeResolver } from "@vonsim/assembler";
 import clsx from "clsx";
 import { atom, useAtom, useAtomValue, useSetAtom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
-import { useCallback } from "react";
+import { useCallback, useRef } from "react";
 import { useEvent, useKey } from "react-use";
 
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/DropdownMenu";
+import { useSimulation } from "@/computer/simulation";
+import { STATE_FILE_EXTENSION } from "@/computer/snapshot";
+import { createEditorState } from "@/editor";
 import { getProgram, setProgram } from "@/editor/contents";
+import { downloadFile } from "@/lib/download";
 import { translate, useTranslate } from "@/lib/i18n";
 import { store } from "@/lib/jotai";
 import { getSettings } from "@/lib/settings";
@@ -34,12 +41,261 @@ export const syncStatePlugin = ViewPlugin.fromClass(
     constructor(readonly view: EditorView) {}
     update(update: ViewUpdate) {
       if (update.docChanged) {
-        setSavedProgram(this.view.state.doc.toString());
+        const source = this.view.state.doc.toString();
+        const active = getActiveFile();
+        if (active === null) setSavedProgram(source);
+        else setIncludeFile(active, source);
       }
     }
   },
 );
 
+// Project: the main program and the files it can include with INCLUDE "file"
+type IncludeFile = { name: string; source: string };
+
+const includeFilesAtom = atomWithStorage<IncludeFile[]>("vonsim-include-files", [], undefined, {
+  getOnInit: true,
+});
+
+/**
+ * File shown in the editor, or `null` for the main program.
+ */
+const activeFileAtom = atom<string | null>(null);
+const openTabsAtom = atom<string[]>([]);
+const projectTreeOpenAtom = atom(false);
+
+export const getActiveFile = () => store.get(activeFileAtom);
+
+/**
+ * Reads the files of the project, to be used by the assembler.
+ */
+export const resolveInclude: IncludeResolver = file =>
+  store.get(includeFilesAtom).find(f => f.name === file)?.source ?? null;
+
+function setIncludeFile(name: string, source: string) {
+  store.set(includeFilesAtom, files => files.map(f => (f.name === name ? { name, source } : f)));
+}
+
+/**
+ * States of the files that aren't shown in the editor, so their history
+ * and selection are kept when switching between them.
+ */
+const editorStates = new Map<string | null, EditorState>();
+
+/**
+ * Shows the given file in the editor, or the main program if `null`.
+ */
+export function openFile(name: string | null) {
+  if (!window.codemirror) return;
+
+  const active = getActiveFile();
+  if (name === active) return;
+
+  const source = name === null ? getSavedProgram() : resolveInclude(name);
+  if (source === null) return;
+
+  editorStates.set(active, window.codemirror.state);
+  window.codemirror.setState(editorStates.get(name) ?? createEditorState(source));
+  store.set(activeFileAtom, name);
+  if (name !== null)
+    store.set(openTabsAtom, tabs => (tabs.includes(name) ? tabs : [...tabs, name]));
+}
+
+function closeTab(name: string) {
+  if (getActiveFile() === name) openFile(null);
+  store.set(openTabsAtom, tabs => tabs.filter(tab => tab !== name));
+}
+
+/**
+ * Asks for the name of a file, which must be unique in the project.
+ * @returns The name, or `null` if it was cancelled or isn't valid.
+ */
+function askFileName(message: string, current = ""): string | null {
+  const lang = getSettings().language;
+  const name = prompt(message, current)?.trim();
+  if (!name || name === current) return null;
+
+  if (name.includes('"') || store.get(includeFilesAtom).some(f => f.name === name)) {
+    toast({ title: translate(lang, "editor.project.invalid-name", name), variant: "error" });
+    return null;
+  }
+  return name;
+}
+
+function createFile() {
+  const lang = getSettings().language;
+  const name = askFileName(translate(lang, "editor.project.new-prompt"));
+  if (!name) return;
+
+  store.set(includeFilesAtom, files => [...files, { name, source: "" }]);
+  openFile(name);
+}
+
+function renameFile(name: string) {
+  const lang = getSettings().language;
+  const newName = askFileName(translate(lang, "editor.project.rename-prompt"), name);
+  if (!newName) return;
+
+  store.set(includeFilesAtom, files =>
+    files.map(f => (f.name === name ? { name: newName, source: f.source } : f)),
+  );
+  store.set(openTabsAtom, tabs => tabs.map(tab => (tab === name ? newName : tab)));
+  if (getActiveFile() === name) store.set(activeFileAtom, newName);
+  const state = editorStates.get(name);
+  editorStates.delete(name);
+  if (state) editorStates.set(newName, state);
+}
+
+function deleteFile(name: string) {
+  const lang = getSettings().language;
+  if (!confirm(translate(lang, "editor.project.delete-confirm", name))) return;
+
+  closeTab(name);
+  editorStates.delete(name);
+  store.set(includeFilesAtom, files => files.filter(f => f.name !== name));
+}
+
+/**
+ * Tabs of the open files. The main program is always open.
+ * Files can only be switched while the simulation is stopped, since the
+ * simulation shows the main program.
+ */
+export function ProjectTabs() {
+  const translate = useTranslate();
+  const active = useAtomValue(activeFileAtom);
+  const tabs = useAtomValue(openTabsAtom);
+  const [treeOpen, setTreeOpen] = useAtom(projectTreeOpenAtom);
+  const fileHandle = useAtomValue(fileHandleAtom);
+  const { status } = useSimulation();
+  const stopped = status.type === "stopped";
+
+  const tabClassName = (selected: boolean) =>
+    clsx(
+      "flex items-center gap-1 border-r border-border px-3 py-1 transition-colors",
+      selected ? "bg-background-0 text-foreground" : "hover:text-foreground",
+    );
+
+  return (
+    <div className="border-border bg-background-1 flex items-stretch overflow-x-auto border-b font-sans text-xs text-stone-600 dark:text-stone-400">
+      <button
+        className={clsx(
+          "border-border hover:text-foreground flex items-center border-r px-2 transition-colors",
+          treeOpen && "text-foreground",
+        )}
+        title={translate("editor.project.tree")}
+        onClick={() => setTreeOpen(!treeOpen)}
+      >
+        <span className="icon-[lucide--folder-tree] size-4" />
+      </button>
+      <button
+        className={tabClassName(active === null)}
+        disabled={!stopped}
+        onClick={() => openFile(null)}
+      >
+        <span className="icon-[lucide--file-code] size-3" />
+        {fileHandle?.name ?? translate("editor.project.main")}
+      </button>
+      {tabs.map(name => (
+        <div key={name} className={tabClassName(active === name)}>
+          <button disabled={!stopped} onClick={() => openFile(name)}>
+            {name}
+          </button>
+          <button
+            className="hover:text-foreground flex items-center"
+            title={translate("editor.project.close")}
+            disabled={!stopped}
+            onClick={() => closeTab(name)}
+          >
+            <span className="icon-[lucide--x] size-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        className="hover:text-foreground flex items-center px-2 transition-colors"
+        title={translate("editor.project.new")}
+        disabled={!stopped}
+        onClick={createFile}
+      >
+        <span className="icon-[lucide--file-plus] size-4" />
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Files of the project, under the main program. Hidden unless toggled
+ * from the tabs (see {@link ProjectTabs}).
+ */
+export function ProjectTree() {
+  const translate = useTranslate();
+  const open = useAtomValue(projectTreeOpenAtom);
+  const files = useAtomValue(includeFilesAtom);
+  const active = useAtomValue(activeFileAtom);
+  const fileHandle = useAtomValue(fileHandleAtom);
+  const { status } = useSimulation();
+  const stopped = status.type === "stopped";
+
+  if (!open) return null;
+
+  return (
+    <div className="border-border bg-background-1 w-48 shrink-0 overflow-y-auto border-r p-2 font-sans text-xs text-stone-600 dark:text-stone-400">
+      <p className="mb-1 font-semibold tracking-wider">{translate("editor.project.tree")}</p>
+      <button
+        className={clsx(
+          "hover:text-foreground flex w-full items-center gap-1 py-0.5",
+          active === null && "text-foreground font-semibold",
+        )}
+        disabled={!stopped}
+        onClick={() => openFile(null)}
+      >
+        <span className="icon-[lucide--folder-open] size-3" />
+        {fileHandle?.name ?? translate("editor.project.main")}
+      </button>
+      <ul className="ml-2 border-l border-stone-600/40 pl-2">
+        {files.map(({ name }) => (
+          <li key={name} className="group flex items-center gap-1 py-0.5">
+            <button
+              className={clsx(
+                "hover:text-foreground flex grow items-center gap-1 truncate",
+                active === name && "text-foreground font-semibold",
+              )}
+              disabled={!stopped}
+              onClick={() => openFile(name)}
+            >
+              <span className="icon-[lucide--file] size-3 shrink-0" />
+              {name}
+            </button>
+            <button
+              className="hover:text-foreground hidden items-center group-hover:flex"
+              title={translate("editor.project.rename")}
+              disabled={!stopped}
+              onClick={() => renameFile(name)}
+            >
+              <span className="icon-[lucide--pencil] size-3" />
+            </button>
+            <button
+              className="hover:text-destructive hidden items-center group-hover:flex"
+              title={translate("editor.project.delete")}
+              disabled={!stopped}
+              onClick={() => deleteFile(name)}
+            >
+              <span className="icon-[lucide--trash-2] size-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        className="hover:text-foreground mt-1 flex items-center gap-1 py-0.5"
+        disabled={!stopped}
+        onClick={createFile}
+      >
+        <span className="icon-[lucide--file-plus] size-3" />
+        {translate("editor.project.new")}
+      </button>
+    </div>
+  );
+}
+
 // Save program to file
 const supportsNativeFileSystem = "showSaveFilePicker" in window;
 
@@ -197,6 +453,19 @@ export function FileHandler() {
     }
   }, [translate, fileHandle, setFileHanlde, setLastSavedProgram]);
 
+  const downloadListing = useCallback(() => {
+    const source = getSavedProgram();
+    const result = assemble(source, { resolveInclude });
+    if (!result.success) {
+      toast({ title: translate("editor.files.listing-error"), variant: "error" });
+      return;
+    }
+
+    const name =
+      fileHandle?.name.replace(/\.[^.]*$/, "") || `vonsim-${new Date().toISOString().slice(0, 10)}`;
+    downloadFile(`${name}.lst`, createListing(source, result, resolveInclude));
+  }, [translate, fileHandle]);
+
   // ONLY IF the browser supports native file system
   // If a file is open, save it with Ctrl+S
   // If no file is open, save as with Ctrl+S
@@ -236,8 +505,35 @@ export function FileHandler() {
   );
   useEvent("beforeunload", beforeunload, window);
 
+  // Export and import the state of the computer
+  const { status, dispatch } = useSimulation();
+  const stateInputRef = useRef<HTMLInputElement>(null);
+
+  const importState = useCallback(
+    async (ev: React.ChangeEvent<HTMLInputElement>) => {
+      const file = ev.currentTarget.files?.[0];
+      ev.currentTarget.value = "";
+      if (!file) return;
+
+      try {
+        dispatch("state.import", await file.text());
+      } catch (error) {
+        console.error(error);
+        toast({ title: translate("editor.files.open-error"), variant: "error" });
+      }
+    },
+    [dispatch, translate],
+  );
+
   return (
     <DropdownMenu>
+      <input
+        ref={stateInputRef}
+        type="file"
+        accept={STATE_FILE_EXTENSION}
+        className="hidden"
+        onChange={importState}
+      />
       <DropdownMenuTrigger asChild>
         <button
           className={clsx(
@@ -268,6 +564,25 @@ export function FileHandler() {
           <div className="grow" />
           <kbd className="text-stone-400 dark:text-stone-600">Ctrl+Shift+S</kbd>
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={downloadListing}>
+          <span className="icon-[lucide--file-text] mr-2 size-4" />
+          {translate("editor.files.download-listing")}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          disabled={status.type !== "paused"}
+          onClick={() => dispatch("state.export")}
+        >
+          <span className="icon-[lucide--download] mr-2 size-4" />
+          {translate("editor.files.export-state")}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={status.type !== "stopped"}
+          onClick={() => stateInputRef.current?.click()}
+        >
+          <span className="icon-[lucide--upload] mr-2 size-4" />
+          {translate("editor.files.import-state")}
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,74 @@
+import { RangeSet, StateEffect, StateField } from "@codemirror/state";
+import { gutter, GutterMarker } from "@codemirror/view";
+import type { Profile } from "@vonsim/simulator";
+
+import { translate } from "@/lib/i18n";
+import { getSettings } from "@/lib/settings";
+
+/**
+ * The heatmap is a gutter that colors each executed instruction according to
+ * the execution units it took, relative to the most expensive one. It's fed
+ * with the profile of the simulation (see {@link showHeatmap}).
+ */
+
+const setHeatmapEffect = StateEffect.define<RangeSet<GutterMarker>>();
+
+class HeatMarker extends GutterMarker {
+  constructor(
+    readonly ratio: number,
+    readonly title: string,
+  ) {
+    super();
+  }
+
+  eq(other: GutterMarker): boolean {
+    return other instanceof HeatMarker && other.ratio === this.ratio && other.title === this.title;
+  }
+
+  toDOM() {
+    const element = document.createElement("div");
+    element.className = "cm-heat";
+    element.style.opacity = String(0.15 + 0.85 * this.ratio);
+    element.title = this.title;
+    return element;
+  }
+}
+
+export const heatmapField = StateField.define<RangeSet<GutterMarker>>({
+  create() {
+    return RangeSet.empty;
+  },
+  update(markers, tr) {
+    markers = markers.map(tr.changes);
+    for (const e of tr.effects) {
+      if (e.is(setHeatmapEffect)) markers = e.value;
+    }
+    return markers;
+  },
+});
+
+export const heatmapGutter = gutter({
+  class: "cm-heatmap",
+  markers: view => view.state.field(heatmapField),
+});
+
+/**
+ * Shows the given profile as a heatmap in the gutter, or clears it if `null`.
+ */
+export function showHeatmap(profile: Profile | null) {
+  if (!window.codemirror) return;
+
+  const doc = window.codemirror.state.doc;
+  const lang = getSettings().language;
+  const max = Math.max(1, ...(profile?.instructions.map(i => i.units) ?? []));
+  const markers = (profile?.instructions ?? [])
+    .filter(({ position }) => position.file === null && position.start <= doc.length)
+    .map(instruction =>
+      new HeatMarker(
+        instruction.units / max,
+        translate(lang, "debugger.profiler.heatmap", instruction.executions, instruction.units),
+      ).range(doc.lineAt(instruction.position.start).from),
+    );
+
+  window.codemirror.dispatch({ effects: setHeatmapEffect.of(RangeSet.of(markers, true)) });
+}
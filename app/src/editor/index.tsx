@@ -17,7 +17,9 @@ import { useCallback, useEffect, useState } from "react";
 
 import { useEditorFontSize } from "@/lib/settings";
 
-import { getSavedProgram, syncStatePlugin } from "./files";
+import { breakpointsField, toggleBreakpoint } from "./breakpoints";
+import { getSavedProgram, ProjectTabs, ProjectTree, syncStatePlugin } from "./files";
+import { heatmapField, heatmapGutter } from "./heatmap";
 import { lineHighlightField, readOnly } from "./methods";
 import { SharePrompt } from "./share";
 import { StatusBar } from "./StatusBar";
@@ -35,6 +37,64 @@ import { VonSim } from "./vonsim";
  * editor changes.
  */
 
+/**
+ * Creates the state of the editor for the given source code. Each file of
+ * the project has its own state (see {@link openFile}).
+ */
+export function createEditorState(doc: string): EditorState {
+  return EditorState.create({
+    doc,
+    extensions: [
+      EditorState.tabSize.of(2),
+      readOnly.of(EditorState.readOnly.of(false)),
+
+      syncStatePlugin,
+
+      lineNumbers({ domEventHandlers: { mousedown: toggleBreakpoint } }),
+      breakpointsField,
+      heatmapField,
+      heatmapGutter,
+      lineHighlightField,
+      highlightActiveLineGutter(),
+      highlightSpecialChars(),
+      history(),
+      drawSelection(),
+      EditorView.domEventHandlers({
+        // Prevent dropping files into the editor, handled by the file handler
+        drop: ev => ev.preventDefault(),
+      }),
+      EditorState.allowMultipleSelections.of(true),
+      highlightActiveLine(),
+      keymap.of([
+        {
+          key: "Escape",
+          run: view => {
+            view.dispatch({
+              selection: EditorSelection.create([view.state.selection.main], 0),
+            });
+            return true;
+          },
+        },
+        {
+          key: "Tab",
+          run: view => {
+            if (view.state.selection.ranges.some(r => !r.empty)) return indentMore(view);
+            view.dispatch(
+              view.state.update(view.state.replaceSelection(" ".repeat(view.state.tabSize)), {
+                scrollIntoView: true,
+                userEvent: "input",
+              }),
+            );
+            return true;
+          },
+        },
+        ...vscodeKeymap,
+      ]),
+      VonSim(),
+    ],
+  });
+}
+
 export function Editor({ className }: { className?: string }) {
   const [element, setElement] = useState<HTMLElement>();
   const fontSize = useEditorFontSize();
@@ -49,54 +109,7 @@ export function Editor({ className }: { className?: string }) {
     if (!element) return;
 
     window.codemirror = new EditorView({
-      state: EditorState.create({
-        doc: getSavedProgram(),
-        extensions: [
-          EditorState.tabSize.of(2),
-          readOnly.of(EditorState.readOnly.of(false)),
-
-          syncStatePlugin,
-
-          lineNumbers(),
-          lineHighlightField,
-          highlightActiveLineGutter(),
-          highlightSpecialChars(),
-          history(),
-          drawSelection(),
-          EditorView.domEventHandlers({
-            // Prevent dropping files into the editor, handled by the file handler
-            drop: ev => ev.preventDefault(),
-          }),
-          EditorState.allowMultipleSelections.of(true),
-          highlightActiveLine(),
-          keymap.of([
-            {
-              key: "Escape",
-              run: view => {
-                view.dispatch({
-                  selection: EditorSelection.create([view.state.selection.main], 0),
-                });
-                return true;
-              },
-            },
-            {
-              key: "Tab",
-              run: view => {
-                if (view.state.selection.ranges.some(r => !r.empty)) return indentMore(view);
-                view.dispatch(
-                  view.state.update(view.state.replaceSelection(" ".repeat(view.state.tabSize)), {
-                    scrollIntoView: true,
-                    userEvent: "input",
-                  }),
-                );
-                return true;
-              },
-            },
-            ...vscodeKeymap,
-          ]),
-          VonSim(),
-        ],
-      }),
+      state: createEditorState(getSavedProgram()),
       parent: element,
     });
 
@@ -105,14 +118,18 @@ export function Editor({ className }: { className?: string }) {
 
   return (
     <div className={clsx("relative flex flex-col", className)}>
-      <div
-        ref={ref}
-        className="grow overflow-auto font-mono"
-        style={{
-          fontSize: `${fontSize}px`,
-          lineHeight: 1.25,
-        }}
-      />
+      <ProjectTabs />
+      <div className="flex min-h-0 grow">
+        <ProjectTree />
+        <div
+          ref={ref}
+          className="min-w-0 grow overflow-auto font-mono"
+          style={{
+            fontSize: `${fontSize}px`,
+            lineHeight: 1.25,
+          }}
+        />
+      </div>
       <StatusBar />
       <SharePrompt />
     </div>
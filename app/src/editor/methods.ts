@@ -1,5 +1,6 @@
 import { Compartment, EditorState, StateEffect, StateField } from "@codemirror/state";
 import { Decoration, EditorView } from "@codemirror/view";
+import type { Position } from "@vonsim/common/position";
 
 export const readOnly = new Compartment();
 
@@ -35,13 +36,17 @@ const lineHighlightMark = Decoration.line({
   class: "bg-primary-1/10!",
 });
 
-export function highlightLine(pos: number | null) {
+/**
+ * Highlights the line of the main program at the given position, or clears
+ * the highlight if `null`. Lines of included files aren't highlighted.
+ */
+export function highlightLine(position: Position | null) {
   if (!window.codemirror) return;
 
-  if (pos === null) {
+  if (position === null || position.file !== null) {
     window.codemirror.dispatch({ effects: addLineHighlight.of(null) });
   } else {
-    const docPosition = window.codemirror.state.doc.lineAt(pos).from;
+    const docPosition = window.codemirror.state.doc.lineAt(position.start).from;
     window.codemirror.dispatch({ effects: addLineHighlight.of(docPosition) });
   }
 }
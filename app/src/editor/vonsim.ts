@@ -6,11 +6,23 @@ import {
 } from "@codemirror/language";
 import { Diagnostic, linter } from "@codemirror/lint";
 import { highlightTree, Tag, tags } from "@lezer/highlight";
-import { assemble, DATA_DIRECTIVES, INSTRUCTIONS, REGISTERS } from "@vonsim/assembler";
-
+import {
+  assemble,
+  CONDITIONAL_DIRECTIVES,
+  DATA_DIRECTIVES,
+  EXPRESSION_OPERATORS,
+  INSTRUCTIONS,
+  MACRO_DIRECTIVES,
+  PROCEDURE_DIRECTIVES,
+  REGISTERS,
+  STRING_PREFIXES,
+} from "@vonsim/assembler";
+
+import { translate } from "@/lib/i18n";
 import { store } from "@/lib/jotai";
 import { getSettings } from "@/lib/settings";
 
+import { getActiveFile, getSavedProgram, resolveInclude } from "./files";
 import { lintErrorsAtom } from "./StatusBar";
 
 /**
@@ -56,7 +68,7 @@ const vonsimLanguage = StreamLanguage.define({
       return "string";
     }
 
-    if (stream.eat(/[*+-]/)) {
+    if (stream.eat(/[*+/-]/)) {
       return "operator";
     }
 
@@ -68,6 +80,10 @@ const vonsimLanguage = StreamLanguage.define({
       return "unassigned";
     }
 
+    if (stream.eat("$")) {
+      return "special";
+    }
+
     if (stream.eat(";")) {
       stream.skipToEnd();
       return "comment";
@@ -76,11 +92,15 @@ const vonsimLanguage = StreamLanguage.define({
     if (stream.eat(/[a-z_]/i)) {
       stream.eatWhile(/\w/);
       const word = stream.current().toUpperCase();
-      if (word === "ORG" || word === "END") return "special";
-      if (word === "OFFSET") return "offset";
+      if (word === "ORG" || word === "END" || word === "INCLUDE") return "special";
+      if (MACRO_DIRECTIVES.includes(word) || PROCEDURE_DIRECTIVES.includes(word)) return "special";
+      if (CONDITIONAL_DIRECTIVES.includes(word)) return "special";
+      if (word === "OFFSET" || word === "DUP") return "offset";
+      if (EXPRESSION_OPERATORS.includes(word)) return "offset";
       if (word === "BYTE" || word === "WORD" || word === "PTR") return "ptr-size";
       if (DATA_DIRECTIVES.includes(word)) return "data-directive";
-      if (INSTRUCTIONS.includes(word)) return "instruction";
+      if (INSTRUCTIONS.includes(word) && stream.eat(":")) return "label"; // Like `loop:`
+      if (INSTRUCTIONS.includes(word) || STRING_PREFIXES.includes(word)) return "instruction";
       if (REGISTERS.includes(word)) return "register";
 
       if (stream.eat(":")) return "label";
@@ -117,8 +137,11 @@ const vonsimHighlighter = HighlightStyle.define([
 
 const vonsimLinter = linter(
   view => {
+    // The whole project is assembled from the main program, but only the
+    // errors of the file shown in the editor are marked in it
+    const active = getActiveFile();
     const source = view.state.doc.toString();
-    const result = assemble(source);
+    const result = assemble(getSavedProgram(), { resolveInclude });
 
     if (result.success) {
       store.set(lintErrorsAtom, 0);
@@ -126,12 +149,40 @@ const vonsimLinter = linter(
     }
 
     const lang = getSettings().language;
-    const errors = result.errors.map<Diagnostic>(error => {
-      const from = error.position?.start ?? 0;
-      const to = error.position?.end ?? source.length;
-      return { message: error.translate(lang), severity: "error", from, to };
+    const errors = result.errors.flatMap<Diagnostic>(error => {
+      const message = error.translate(lang);
+      const diagnostics: Diagnostic[] = [];
+
+      if (!error.position || error.position.file === active) {
+        const from = error.position?.start ?? 0;
+        const to = error.position?.end ?? source.length;
+        diagnostics.push({ message, severity: "error", from, to });
+      } else {
+        // Errors in other files are shown at the start of this one
+        const file = error.position.file ?? translate(lang, "editor.project.main");
+        diagnostics.push({
+          message: translate(lang, "editor.inFile", file, message),
+          severity: "error",
+          from: 0,
+          to: 0,
+        });
+      }
+
+      // Errors inside a macro are also shown where the macro was used
+      const calls = error.position?.expansions ?? [];
+      for (const call of calls) {
+        if (call.file !== active) continue;
+        diagnostics.push({
+          message: translate(lang, "editor.expandedFrom", message),
+          severity: "error",
+          from: call.start,
+          to: call.end,
+        });
+      }
+
+      return diagnostics;
     });
-    store.set(lintErrorsAtom, errors.length);
+    store.set(lintErrorsAtom, result.errors.length);
     return errors;
   },
   {
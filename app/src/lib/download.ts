@@ -0,0 +1,17 @@
+/**
+ * Downloads a file with the given contents, generated in the browser.
+ */
+export function downloadFile(filename: string, contents: string, type = "text/plain") {
+  const blob = new Blob([contents], { type });
+  const href = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.style.display = "none";
+  a.href = href;
+  a.download = filename;
+
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(href);
+}
@@ -27,6 +27,9 @@ export const english = {
   messages: {
     "assemble-error": "Assemble error. Fix the errors and try again.",
     "invalid-action": "Invalid action.",
+    "invalid-state-file": "The file isn't a valid VonSim state.",
+    "export-mid-instruction":
+      "The state can only be exported between two instructions. Run until the end of the instruction and try again.",
   },
 
   share: {
@@ -45,6 +48,8 @@ export const english = {
   },
 
   editor: {
+    expandedFrom: (message: string) => `In the expansion of this macro: ${message}`,
+    inFile: (file: string, message: string) => `In ${file}: ${message}`,
     lintSummary: (n: number) =>
       n === 0 ? "Ready to compile" : n === 1 ? "There's an error" : `There're ${n} errors`,
     files: {
@@ -56,6 +61,23 @@ export const english = {
       save: "Save file",
       "save-as": "Save file as",
       "save-error": "Error saving file",
+      "download-listing": "Download listing (.lst)",
+      "listing-error": "The program has errors, so its listing can't be created",
+      "export-state": "Export state",
+      "import-state": "Import state",
+    },
+    project: {
+      main: "Main program",
+      tree: "Project files",
+      new: "New file",
+      "new-prompt": 'Name of the new file. Use it with INCLUDE "name".',
+      rename: "Rename",
+      "rename-prompt": "New name of the file",
+      delete: "Delete",
+      "delete-confirm": (name: string) => `Delete ${name}? This can't be undone.`,
+      close: "Close tab",
+      "invalid-name": (name: string) =>
+        `Invalid name "${name}": it must be unique and without quotes`,
     },
     example: dedent`
       ; Welcome to VonSim!
@@ -96,9 +118,14 @@ export const english = {
       "cycle-change": "Cycle",
       "end-of-instruction": "Instruction",
       infinity: "End",
+      turbo: "Turbo",
       stop: "Stop",
       abort: "Abort",
     },
+    back: {
+      "cycle-change": "Cycle back",
+      "end-of-instruction": "Instr. back",
+    },
     tabs: {
       editor: "Editor",
       computer: "Computer",
@@ -115,6 +142,12 @@ export const english = {
       register: (register: string) => `${register} register`,
       "control-unit": "Control unit",
       decoder: "Decoder",
+      "alu-part": {
+        low: "low",
+        high: "high",
+        quotient: "quotient",
+        remainder: "remainder",
+      },
       status: {
         fetching: "Fetching instruction...",
         "fetching-operands": "Fetching operands...",
@@ -138,6 +171,8 @@ export const english = {
       "address-out-of-range": `Start address must be less or equal to ${maxAddress}.`,
       "address-increment": "Increment address (Page Up)",
       "address-decrement": "Decrement address (Page Down)",
+      "show-bytes": "Show bytes",
+      "show-disassembly": "Show disassembly",
     },
 
     "chip-select": {
@@ -177,6 +212,75 @@ export const english = {
     printer: "Printer",
   },
 
+  debugger: {
+    title: "Debugger",
+    "line-breakpoints":
+      "Click on a line number of the editor to set a breakpoint on that instruction.",
+    remove: "Remove",
+    conditions: {
+      label: "Conditional breakpoints",
+      description:
+        "Pause before an instruction when the condition over registers and flags holds. Supports ==, !=, <, <=, >, >=, !, && and ||.",
+      placeholder: "CX == 0 && ZF",
+      add: "Add breakpoint",
+      empty: "There are no conditional breakpoints.",
+    },
+    watchpoints: {
+      label: "Watchpoints",
+      description: "Pause when a memory address or range is read or written.",
+      from: "From",
+      to: "To (optional)",
+      access: {
+        read: "Read",
+        write: "Write",
+        "read-write": "Read/write",
+      },
+      add: "Add watchpoint",
+      empty: "There are no watchpoints.",
+      "invalid-range":
+        "The range must be made of hexadecimal addresses, from the lower to the higher.",
+    },
+    trace: {
+      label: "Trace",
+      description:
+        "Record every executed instruction, with the registers and flags after it and its memory writes. The trace starts over every time the program runs.",
+      export: {
+        csv: "Export CSV",
+        json: "Export JSON",
+      },
+      empty: "The trace is empty. Turn it on and run the program first.",
+    },
+    profiler: {
+      label: "Profiler",
+      description:
+        "Count the cost of each instruction of the current program, also shown as a heatmap next to the line numbers.",
+      empty: "Turn it on and run the program to see its profile.",
+      counters: {
+        instructions: "Executed instructions",
+        memoryReads: "Memory reads",
+        memoryWrites: "Memory writes",
+        ioReads: "I/O reads",
+        ioWrites: "I/O writes",
+        interrupts: "Interrupts",
+        units: "Execution units",
+      },
+      table: {
+        line: "Line",
+        instruction: "Instr.",
+        executions: "Times",
+        units: "Units",
+      },
+      heatmap: (executions: number, units: number) =>
+        `Executed ${executions} times, ${units} execution units`,
+    },
+    hit: {
+      condition: (condition: string) => `Breakpoint: ${condition}`,
+      read: (address: MemoryAddressLike) => `Watchpoint: read at ${MemoryAddress.format(address)}`,
+      write: (address: MemoryAddressLike) =>
+        `Watchpoint: write at ${MemoryAddress.format(address)}`,
+    },
+  },
+
   settings: {
     title: "Settings",
 
@@ -205,6 +309,14 @@ export const english = {
       unchanged: "Unchanged",
     },
 
+    selfModifyingCode: {
+      label: "Self-modifying code",
+      description: [
+        "The CPU decodes each instruction from memory, so programs can write over their own instructions or jump into data.",
+        "Takes effect when the program is loaded.",
+      ].join(" "),
+    },
+
     devices: {
       label: "Devices",
       description: "Which devices should be enabled.",
@@ -26,6 +26,9 @@ export const spanish: Locale = {
   messages: {
     "assemble-error": "Error de ensamblado. Solucione los errores y vuelva a intentar.",
     "invalid-action": "Acción inválida.",
+    "invalid-state-file": "El archivo no es un estado válido de VonSim.",
+    "export-mid-instruction":
+      "El estado solo se puede exportar entre dos instrucciones. Ejecutá hasta el final de la instrucción e intentá de nuevo.",
   },
 
   share: {
@@ -44,6 +47,8 @@ export const spanish: Locale = {
   },
 
   editor: {
+    expandedFrom: message => `En la expansión de esta macro: ${message}`,
+    inFile: (file, message) => `En ${file}: ${message}`,
     lintSummary: n =>
       n === 0 ? "Listo para compilar" : n === 1 ? "Hay un error" : `Hay ${n} errores`,
     files: {
@@ -55,6 +60,22 @@ export const spanish: Locale = {
       save: "Guardar",
       "save-as": "Guardar como",
       "save-error": "Error al guardar el archivo",
+      "download-listing": "Descargar listado (.lst)",
+      "listing-error": "El programa tiene errores, por lo que no se puede generar su listado",
+      "export-state": "Exportar estado",
+      "import-state": "Importar estado",
+    },
+    project: {
+      main: "Programa principal",
+      tree: "Archivos del proyecto",
+      new: "Nuevo archivo",
+      "new-prompt": 'Nombre del nuevo archivo. Se usa con INCLUDE "nombre".',
+      rename: "Renombrar",
+      "rename-prompt": "Nuevo nombre del archivo",
+      delete: "Eliminar",
+      "delete-confirm": name => `¿Eliminar ${name}? No se puede deshacer.`,
+      close: "Cerrar pestaña",
+      "invalid-name": name => `Nombre inválido "${name}": debe ser único y sin comillas`,
     },
     example: dedent`
       ; ¡Bienvenido a VonSim!
@@ -95,9 +116,14 @@ export const spanish: Locale = {
       "cycle-change": "Ciclo",
       "end-of-instruction": "Instrucción",
       infinity: "Final",
+      turbo: "Turbo",
       stop: "Detener",
       abort: "Abortar",
     },
+    back: {
+      "cycle-change": "Ciclo atrás",
+      "end-of-instruction": "Instr. atrás",
+    },
     tabs: {
       editor: "Editor",
       computer: "Computadora",
@@ -114,6 +140,12 @@ export const spanish: Locale = {
       register: register => `Registro ${register}`,
       "control-unit": "Unidad de control",
       decoder: "Decodificador",
+      "alu-part": {
+        low: "parte baja",
+        high: "parte alta",
+        quotient: "cociente",
+        remainder: "resto",
+      },
       status: {
         fetching: "Leyendo instrucción...",
         "fetching-operands": "Leyendo operandos...",
@@ -137,6 +169,8 @@ export const spanish: Locale = {
       "address-out-of-range": `El valor de inicio debe ser menor o igual a ${maxAddress}.`,
       "address-increment": "Incrementar dirección (Page Up)",
       "address-decrement": "Decrementar dirección (Page Down)",
+      "show-bytes": "Mostrar bytes",
+      "show-disassembly": "Mostrar desensamblado",
     },
 
     "chip-select": {
@@ -176,6 +210,74 @@ export const spanish: Locale = {
     printer: "Impresora",
   },
 
+  debugger: {
+    title: "Depurador",
+    "line-breakpoints":
+      "Haga clic en un número de línea del editor para poner un punto de ruptura en esa instrucción.",
+    remove: "Eliminar",
+    conditions: {
+      label: "Puntos de ruptura condicionales",
+      description:
+        "Pausa antes de una instrucción cuando se cumple la condición sobre registros y flags. Admite ==, !=, <, <=, >, >=, !, && y ||.",
+      placeholder: "CX == 0 && ZF",
+      add: "Agregar punto de ruptura",
+      empty: "No hay puntos de ruptura condicionales.",
+    },
+    watchpoints: {
+      label: "Puntos de observación",
+      description: "Pausa cuando se lee o escribe una dirección o rango de memoria.",
+      from: "Desde",
+      to: "Hasta (opcional)",
+      access: {
+        read: "Lectura",
+        write: "Escritura",
+        "read-write": "Lectura/escritura",
+      },
+      add: "Agregar punto de observación",
+      empty: "No hay puntos de observación.",
+      "invalid-range":
+        "El rango debe estar formado por direcciones hexadecimales, de la menor a la mayor.",
+    },
+    trace: {
+      label: "Traza",
+      description:
+        "Registrar cada instrucción ejecutada, con los registros y flags después de ella y sus escrituras en memoria. La traza se reinicia cada vez que se ejecuta el programa.",
+      export: {
+        csv: "Exportar CSV",
+        json: "Exportar JSON",
+      },
+      empty: "La traza está vacía. Activala y ejecutá el programa primero.",
+    },
+    profiler: {
+      label: "Perfilador",
+      description:
+        "Contar el costo de cada instrucción del programa actual, que también se muestra como un mapa de calor junto a los números de línea.",
+      empty: "Activalo y ejecutá el programa para ver su perfil.",
+      counters: {
+        instructions: "Instrucciones ejecutadas",
+        memoryReads: "Lecturas de memoria",
+        memoryWrites: "Escrituras en memoria",
+        ioReads: "Lecturas de E/S",
+        ioWrites: "Escrituras de E/S",
+        interrupts: "Interrupciones",
+        units: "Unidades de ejecución",
+      },
+      table: {
+        line: "Línea",
+        instruction: "Instr.",
+        executions: "Veces",
+        units: "Unidades",
+      },
+      heatmap: (executions, units) =>
+        `Ejecutada ${executions} veces, ${units} unidades de ejecución`,
+    },
+    hit: {
+      condition: condition => `Punto de ruptura: ${condition}`,
+      read: address => `Punto de observación: lectura en ${MemoryAddress.format(address)}`,
+      write: address => `Punto de observación: escritura en ${MemoryAddress.format(address)}`,
+    },
+  },
+
   settings: {
     title: "Configuración",
 
@@ -204,6 +306,14 @@ export const spanish: Locale = {
       unchanged: "Reusar",
     },
 
+    selfModifyingCode: {
+      label: "Código automodificable",
+      description: [
+        "La CPU decodifica cada instrucción desde la memoria, por lo que los programas pueden escribir sobre sus propias instrucciones o saltar a los datos.",
+        "Se aplica al cargar el programa.",
+      ].join(" "),
+    },
+
     devices: {
       label: "Dispositivos",
       description: "Qué dispositivos deben estar habilitados.",
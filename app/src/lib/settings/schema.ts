@@ -29,6 +29,11 @@ export const settingsSchema = z.object({
    */
   dataOnLoad: z.enum(DATA_ON_LOAD_VALUES).catch("randomize"),
 
+  /**
+   * Value of {@link ComputerOptions.selfModifyingCode}.
+   */
+  selfModifyingCode: z.boolean().catch(false),
+
   /**
    * Value of {@link ComputerOptions.devices}.
    */
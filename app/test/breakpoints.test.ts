@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { isInstructionLine } from "../src/editor/breakpoints";
+
+describe("Breakpoints", () => {
+  it("can be set on instructions", () => {
+    expect(isInstructionLine("  mov al, 1")).toBe(true);
+    expect(isInstructionLine("lazo: dec cx")).toBe(true);
+    expect(isInstructionLine("loop: loop loop")).toBe(true);
+  });
+
+  it("can be set on string instructions with a prefix", () => {
+    expect(isInstructionLine("  rep movsb")).toBe(true);
+    expect(isInstructionLine("lbl: REPNE SCASB ; busca el fin")).toBe(true);
+    expect(isInstructionLine("repz\tcmpsb")).toBe(true);
+    expect(isInstructionLine("  rep")).toBe(false);
+    expect(isInstructionLine("  rep mov al, 1")).toBe(false);
+  });
+
+  it("can't be set on other lines", () => {
+    expect(isInstructionLine("")).toBe(false);
+    expect(isInstructionLine("; mov al, 1")).toBe(false);
+    expect(isInstructionLine("  org 2000h")).toBe(false);
+    expect(isInstructionLine("dato db 1")).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+;; name    = Contar letras con SCASB
+;; date    = 2026-10-18
+;; devices = none
+
+; Igual que "Contar letras", pero recorriendo MENSAJE
+; con la instrucción de cadena SCASB en vez de un lazo
+; con MOV y CMP. REPNE SCASB avanza DI hasta encontrar
+; la próxima 'a' (o hasta que CX llegue a 0).
+; Por ejemplo, si MENSAJE contiene
+; “Hola, Buenas Tardes”, entonces CANT debe valer 3.
+
+ORG 1000h
+MENSAJE db "Hola, Buenas Tardes"
+CANT db 0
+
+ORG 2000h
+      mov di, offset MENSAJE
+      mov cx, offset CANT - offset MENSAJE
+      mov al, 'a'
+      mov dl, 0
+      cld
+buscar: jcxz fin
+      repne scasb   ; busca la próxima 'a'
+      jnz fin       ; se terminó el string sin encontrarla
+      inc dl
+      jmp buscar
+fin:  mov CANT, dl
+      hlt
+END
@@ -0,0 +1,41 @@
+;; name    = Convertir un string a minúscula con LODSB y STOSB
+;; date    = 2026-10-18
+;; devices = keyboard, screen
+;; tags = string, minúscula, mostrar
+
+; Igual que "Convertir un string a minúscula y mostrar en pantalla",
+; pero recorriendo el string con las instrucciones de cadena:
+; LODSB lee el carácter apuntado por SI en AL y STOSB lo
+; escribe en la posición apuntada por DI. Como SI y DI apuntan
+; al mismo string, este se modifica directamente en la memoria.
+
+ORG 1000H
+MENSAJE db "Hola, Buenas Tardes"
+FIN db ?
+
+; STRING_A_MINUS: Recibe la dirección de comienzo de un string
+; en BX y su longitud en CX.
+
+ORG 3000H
+STRING_A_MINUS: MOV SI, BX
+                MOV DI, BX
+                CLD
+        VUELVO: LODSB
+                CMP AL, 'A'
+                JB SIGO       ; no es mayúscula
+                CMP AL, 'Z'
+                JA SIGO       ; no es mayúscula
+                ADD AL, 20H   ; la convierto a minúscula
+          SIGO: STOSB
+                LOOP VUELVO
+                RET
+
+ORG 2000H
+MOV BX, OFFSET MENSAJE
+MOV CX, OFFSET FIN - OFFSET MENSAJE
+CALL STRING_A_MINUS
+MOV BX, OFFSET MENSAJE
+MOV AL, OFFSET FIN - OFFSET MENSAJE
+INT 7
+INT 0
+END
@@ -0,0 +1,307 @@
+import { IOAddress, MemoryAddress } from "@vonsim/common/address";
+import { Byte, ByteSize } from "@vonsim/common/byte";
+
+import type {
+  BinaryInstruction,
+  InstructionStatement,
+  IntInstruction,
+  IOInstruction,
+  JumpInstruction,
+  StackInstruction,
+  StringInstruction,
+  UnaryInstruction,
+  ZeroaryInstruction,
+} from "./statements";
+import { bitsToIndirectRegisters, bitsToRegister } from "./statements/instructions/encoding";
+
+type Decoded<TStatement extends InstructionStatement, TKey extends keyof TStatement = never> = Pick<
+  TStatement,
+  "instruction" | TKey
+> & {
+  /** Address of the first byte of the instruction. */
+  start: MemoryAddress;
+  /** Length of the instruction, in bytes. */
+  length: number;
+};
+
+/**
+ * An instruction decoded from its bytes (see {@link decodeInstruction}).
+ *
+ * It has the same shape as the {@link InstructionStatement}s returned by the
+ * assembler, minus everything that only exists in the source code (like the
+ * operands as written, the labels or the position). Therefore, an assembled
+ * instruction statement can be used wherever a decoded instruction is expected.
+ */
+export type DecodedInstruction =
+  | Decoded<ZeroaryInstruction>
+  | Decoded<BinaryInstruction, "operation">
+  | (Decoded<UnaryInstruction, "operation"> & { count: UnaryInstruction["count"] | null })
+  | Decoded<StackInstruction, "register">
+  | Decoded<JumpInstruction, "address">
+  | Decoded<IOInstruction, "operation">
+  | Decoded<IntInstruction, "value">
+  | Decoded<StringInstruction, "prefix">;
+
+/**
+ * Reads the byte stored at the given address, or returns `null` if it can't be read.
+ */
+export type ByteReader = (address: number) => number | null;
+
+const ZEROARY_OPCODES: Record<number, ZeroaryInstruction["instruction"]> = {
+  0b0111_0000: "PUSHF",
+  0b0111_1000: "POPF",
+  0b0011_0011: "RET",
+  0b0001_1000: "CLI",
+  0b0001_1001: "STI",
+  0b0001_1100: "CLD",
+  0b0001_1101: "STD",
+  0b0011_1011: "IRET",
+  0b0001_0000: "NOP",
+  0b0001_0001: "HLT",
+};
+
+const JUMP_OPCODES: Record<number, JumpInstruction["instruction"]> = {
+  0b0010_0000: "JC",
+  0b0010_0001: "JNC",
+  0b0010_0010: "JZ",
+  0b0010_0011: "JNZ",
+  0b0010_0100: "JS",
+  0b0010_0101: "JNS",
+  0b0010_0110: "JO",
+  0b0010_0111: "JNO",
+  0b0010_1000: "JA",
+  0b0010_1001: "JAE",
+  0b0010_1010: "JB",
+  0b0010_1011: "JBE",
+  0b0010_1100: "JG",
+  0b0010_1101: "JGE",
+  0b0010_1110: "JL",
+  0b0010_1111: "JLE",
+  0b0011_0000: "JMP",
+  0b0011_0001: "CALL",
+  0b0011_0100: "LOOP",
+  0b0011_0101: "LOOPZ",
+  0b0011_0110: "LOOPNZ",
+  0b0011_0111: "JCXZ",
+};
+
+const STRING_OPCODES: Record<number, StringInstruction["instruction"]> = {
+  0b0000_1000: "MOVSB",
+  0b0000_1001: "LODSB",
+  0b0000_1010: "STOSB",
+  0b0000_1011: "CMPSB",
+  0b0000_1100: "SCASB",
+};
+
+// Indexed by the `oooo` bits of the opcode (100oooow)
+const BINARY_OPCODES = ["MOV", "AND", "OR", "XOR", "ADD", "ADC", "SUB", "SBB"] as const;
+// Indexed by the `ooo` bits of the opcode (0100ooow)
+const UNARY_OPCODES = ["NOT", "NEG", "INC", "DEC", "MUL", "IMUL", "DIV", "IDIV"] as const;
+// Indexed by the `ooo` bits of the opcode (1100ooow)
+const SHIFT_OPCODES = ["ROL", "ROR", "RCL", "RCR", "SHL", "SHR", null, "SAR"] as const;
+
+/**
+ * Thrown (and caught) while decoding when the bytes aren't a valid instruction.
+ */
+const INVALID = Symbol("invalid instruction");
+
+/**
+ * Decodes the instruction that starts at the given address, following the
+ * encoding of the assembler.
+ *
+ * Returns `null` if the bytes aren't a valid instruction (unknown opcodes,
+ * invalid addressing modes or addresses out of range, for instance) or if
+ * some byte can't be read.
+ *
+ * @param read Reads a byte of memory.
+ * @param start Address of the first byte of the instruction.
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+export function decodeInstruction(read: ByteReader, start: number): DecodedInstruction | null {
+  if (!MemoryAddress.inRange(start)) return null;
+
+  let address = start;
+
+  // Reads the next byte of the instruction
+  const next = (): number => {
+    const byte = MemoryAddress.inRange(address) ? read(address) : null;
+    if (byte === null) throw INVALID;
+    address++;
+    return byte;
+  };
+
+  const word = (): Byte<16> => {
+    const low = next();
+    const high = next();
+    return Byte.fromUnsigned(high * 256 + low, 16);
+  };
+
+  const memoryAddress = (): MemoryAddress => {
+    const value = word().unsigned;
+    if (!MemoryAddress.inRange(value)) throw INVALID;
+    return MemoryAddress.from(value);
+  };
+
+  // Reads a memory operand, given its mode:
+  // 00 = direct, 01 = [BX], 10 = [BX+disp], 11 = indexed (with addressing byte)
+  const memoryAccess = (mode: number) => {
+    switch (mode) {
+      case 0b00:
+        return { mode: "direct", address: memoryAddress() } as const;
+      case 0b01:
+        return { mode: "indirect", base: "BX", index: null, offset: null } as const;
+      case 0b10:
+        return { mode: "indirect", base: "BX", index: null, offset: word() } as const;
+      default: {
+        const addressing = next(); // 0000dmmm
+        // `[BX]` is always encoded without an addressing byte
+        if (addressing & 0b1111_0000 || (addressing & 0b111) === 0b111) throw INVALID;
+        const offset = addressing & 0b1000 ? word() : null;
+        return { mode: "indirect", ...bitsToIndirectRegisters(addressing), offset } as const;
+      }
+    }
+  };
+
+  const decoded = <T>(instruction: T) => ({
+    ...instruction,
+    start: MemoryAddress.from(start),
+    length: address - start,
+  });
+
+  try {
+    const opcode = next();
+    const size: ByteSize = opcode & 1 ? 16 : 8;
+
+    if (opcode in ZEROARY_OPCODES) {
+      return decoded({ instruction: ZEROARY_OPCODES[opcode] });
+    }
+
+    if (opcode in JUMP_OPCODES) {
+      return decoded({ instruction: JUMP_OPCODES[opcode], address: memoryAddress() });
+    }
+
+    if (opcode === 0b0001_1010) {
+      return decoded({ instruction: "INT", value: Byte.fromUnsigned(next(), 8) });
+    }
+
+    if (opcode in STRING_OPCODES) {
+      return decoded({ instruction: STRING_OPCODES[opcode], prefix: null });
+    }
+
+    if (opcode === 0b0000_0010 || opcode === 0b0000_0011) {
+      // String prefix, followed by the string instruction
+      const instruction = STRING_OPCODES[next()];
+      if (!instruction) throw INVALID;
+      const isComparison = instruction === "CMPSB" || instruction === "SCASB";
+      if (opcode === 0b0000_0010) {
+        return decoded({ instruction, prefix: isComparison ? "REPE" : "REP" });
+      }
+      if (!isComparison) throw INVALID;
+      return decoded({ instruction, prefix: "REPNE" });
+    }
+
+    if ((opcode & 0b1111_0000) === 0b0110_0000) {
+      // 0110drrr (d=0 for PUSH, d=1 for POP)
+      return decoded({
+        instruction: opcode & 0b1000 ? "POP" : "PUSH",
+        register: bitsToRegister(opcode, 16),
+      });
+    }
+
+    if ((opcode & 0b1111_1000) === 0b0101_0000) {
+      // 0101 0dpw (d=0 for IN, d=1 for OUT)
+      const instruction = opcode & 0b100 ? "OUT" : "IN";
+      if (opcode & 0b10) return decoded({ instruction, operation: { port: "variable", size } });
+
+      const port = next();
+      if (!IOAddress.inRange(port)) throw INVALID;
+      return decoded({
+        instruction,
+        operation: { port: "fixed", size, address: IOAddress.from(port) },
+      });
+    }
+
+    if ((opcode & 0b1111_0000) === 0b0100_0000 || (opcode & 0b1111_0000) === 0b1100_0000) {
+      // Unary instructions (0100ooow), and shifts and rotations (1100ooow)
+      const isShift = (opcode & 0b1111_0000) === 0b1100_0000;
+      const ooo = (opcode >> 1) & 0b111;
+      const instruction = isShift ? SHIFT_OPCODES[ooo] : UNARY_OPCODES[ooo];
+      if (!instruction) throw INVALID;
+
+      const second = next(); // 0000crrr or 11mmc000
+      const count = isShift ? (second & 0b1000 ? "CL" : 1) : null;
+      if (!isShift && second & 0b1000) throw INVALID;
+
+      let operation: UnaryInstruction["operation"];
+      if ((second & 0b1111_0000) === 0) {
+        operation = { mode: "reg", size, reg: bitsToRegister(second, size) } as typeof operation;
+      } else if ((second & 0b1100_0000) === 0b1100_0000 && (second & 0b111) === 0) {
+        const access = memoryAccess((second >> 4) & 0b11);
+        operation =
+          access.mode === "direct"
+            ? { mode: "mem-direct", size, address: access.address }
+            : { ...access, mode: "mem-indirect", size };
+      } else {
+        throw INVALID;
+      }
+
+      return decoded({ instruction, operation, count });
+    }
+
+    if ((opcode & 0b1110_0000) === 0b1000_0000 || (opcode & 0b1110_0000) === 0b1010_0000) {
+      // Binary instructions (10xoooow)
+      const oooo = (opcode >> 1) & 0b1111;
+      let instruction: BinaryInstruction["instruction"] | undefined;
+      if ((opcode & 0b1110_0000) === 0b1000_0000) instruction = BINARY_OPCODES[oooo];
+      else if (oooo === 0b0001) instruction = "TEST";
+      else if (oooo === 0b0110) instruction = "CMP";
+      if (!instruction) throw INVALID;
+
+      const second = next(); // 00RRRrrr or d1mmirrr
+      const reg = bitsToRegister(second, size);
+      const mode = (second >> 4) & 0b11;
+      const immediate = Boolean(second & 0b1000);
+      const data = () => (size === 8 ? Byte.fromUnsigned(next(), 8) : word());
+
+      let operation: BinaryInstruction["operation"];
+      switch (second & 0b1100_0000) {
+        case 0b0000_0000: {
+          const src = bitsToRegister(second >> 3, size);
+          operation = { mode: "reg<-reg", size, out: reg, src } as typeof operation;
+          break;
+        }
+
+        case 0b0100_0000: {
+          if (immediate && mode !== 0b00) throw INVALID;
+          operation = (
+            immediate
+              ? { mode: "reg<-imd", size, out: reg, src: data() }
+              : { mode: "reg<-mem", size, out: reg, src: memoryAccess(mode) }
+          ) as typeof operation;
+          break;
+        }
+
+        case 0b1100_0000: {
+          if (immediate && (second & 0b111) !== 0) throw INVALID;
+          const out = memoryAccess(mode);
+          operation = (
+            immediate
+              ? { mode: "mem<-imd", size, out, src: data() }
+              : { mode: "mem<-reg", size, out, src: reg }
+          ) as typeof operation;
+          break;
+        }
+
+        default:
+          throw INVALID;
+      }
+
+      return decoded({ instruction, operation });
+    }
+
+    throw INVALID;
+  } catch (error) {
+    if (error === INVALID) return null;
+    throw error;
+  }
+}
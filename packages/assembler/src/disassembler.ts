@@ -0,0 +1,179 @@
+import { MemoryAddress } from "@vonsim/common/address";
+import type { Byte } from "@vonsim/common/byte";
+
+import { ByteReader, DecodedInstruction, decodeInstruction } from "./decoder";
+import type { BinaryInstruction } from "./statements";
+
+/**
+ * A line of a disassembly (see {@link disassemble}).
+ */
+export type DisassembledLine = {
+  /** Address of the first byte of the line. */
+  address: number;
+  /** Bytes of the instruction, or the byte that isn't a valid instruction. */
+  bytes: number[];
+  /** Label of the line, if some jump of the disassembly points to it. */
+  label: string | null;
+  /** The instruction in assembly syntax, or a `DB` with the byte that isn't a valid instruction. */
+  text: string;
+};
+
+type MemoryAccess = Extract<BinaryInstruction["operation"], { mode: "mem<-reg" }>["out"];
+
+/**
+ * Turns the bytes of a memory range back into assembly code, following
+ * the encoding of the assembler.
+ *
+ * Every byte that isn't the start of a valid instruction is shown as a `DB`,
+ * and the decoding continues with the next byte. Jumps to the start of a line
+ * get a label (like `L2010`) so the disassembly can be assembled again,
+ * resulting in the same bytes.
+ *
+ * @param read Reads a byte of memory.
+ * @param from Address of the first instruction.
+ * @param to Last address where an instruction can start (inclusive). The last
+ * instruction may end after it.
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+export function disassemble(read: ByteReader, from: number, to: number): DisassembledLine[] {
+  const decoded: { address: number; bytes: number[]; instruction: DecodedInstruction | null }[] =
+    [];
+
+  for (let address = from; address <= to && MemoryAddress.inRange(address); ) {
+    const instruction = decodeInstruction(read, address);
+    const length = instruction?.length ?? 1;
+    const bytes: number[] = [];
+    for (let i = 0; i < length; i++) {
+      const byte = read(address + i);
+      if (byte === null) break;
+      bytes.push(byte);
+    }
+    if (bytes.length === 0) break; // Can't be read
+
+    decoded.push({ address, bytes, instruction });
+    address += length;
+  }
+
+  // Jumps to the start of a line get a label
+  const labels = new Map<number, string>();
+  for (const { instruction } of decoded) {
+    if (!instruction || !("address" in instruction)) continue;
+    const target = instruction.address.value;
+    if (decoded.some(line => line.address === target)) {
+      labels.set(target, `L${MemoryAddress.format(target, false)}`);
+    }
+  }
+
+  return decoded.map(({ address, bytes, instruction }) => ({
+    address,
+    bytes,
+    label: labels.get(address) ?? null,
+    text: instruction ? formatInstruction(instruction, labels) : `DB ${formatNumber(bytes[0])}`,
+  }));
+}
+
+/**
+ * Formats a decoded instruction in assembly syntax.
+ * @param labels Labels to use as jump destinations, by address.
+ */
+function formatInstruction(
+  instruction: DecodedInstruction,
+  labels: ReadonlyMap<number, string>,
+): string {
+  const name =
+    "prefix" in instruction && instruction.prefix
+      ? `${instruction.prefix} ${instruction.instruction}`
+      : instruction.instruction;
+
+  const operands = formatOperands(instruction, labels);
+  return operands.length > 0 ? `${name} ${operands.join(", ")}` : name;
+}
+
+function formatOperands(
+  instruction: DecodedInstruction,
+  labels: ReadonlyMap<number, string>,
+): string[] {
+  if ("address" in instruction) {
+    const address = instruction.address.value;
+    return [labels.get(address) ?? formatNumber(address)];
+  }
+
+  if ("register" in instruction) return [instruction.register];
+
+  if ("value" in instruction) return [formatNumber(instruction.value.unsigned)];
+
+  if (!("operation" in instruction)) return [];
+
+  const { operation } = instruction;
+
+  // I/O instructions
+  if ("port" in operation) {
+    const reg = operation.size === 8 ? "AL" : "AX";
+    const port = operation.port === "fixed" ? formatNumber(operation.address.value) : "DX";
+    return instruction.instruction === "IN" ? [reg, port] : [port, reg];
+  }
+
+  // Unary instructions
+  if (!("out" in operation)) {
+    let destination: string;
+    if (operation.mode === "reg") {
+      destination = operation.reg;
+    } else {
+      const access: MemoryAccess =
+        operation.mode === "mem-direct"
+          ? { mode: "direct", address: operation.address }
+          : { ...operation, mode: "indirect" };
+      destination = `${formatSize(operation.size)} ${formatMemoryAccess(access)}`;
+    }
+
+    if ("count" in instruction && instruction.count) {
+      return [destination, instruction.count.toString()];
+    }
+    return [destination];
+  }
+
+  // Binary instructions
+  switch (operation.mode) {
+    case "reg<-reg":
+      return [operation.out, operation.src];
+    case "reg<-mem":
+      return [operation.out, formatMemoryAccess(operation.src)];
+    case "reg<-imd":
+      return [operation.out, formatNumber(operation.src.unsigned)];
+    case "mem<-reg":
+      return [formatMemoryAccess(operation.out), operation.src];
+    case "mem<-imd":
+      return [
+        `${formatSize(operation.size)} ${formatMemoryAccess(operation.out)}`,
+        formatNumber(operation.src.unsigned),
+      ];
+  }
+}
+
+function formatSize(size: 8 | 16): string {
+  return size === 8 ? "BYTE PTR" : "WORD PTR";
+}
+
+/**
+ * Formats a memory operand, like `[1000h]` or `[BP+SI-2h]`.
+ */
+function formatMemoryAccess(access: MemoryAccess): string {
+  if (access.mode === "direct") return `[${formatNumber(access.address.value)}]`;
+
+  let out = [access.base, access.index].filter(Boolean).join("+");
+  if (access.offset) out += formatOffset(access.offset);
+  return `[${out}]`;
+}
+
+function formatOffset(offset: Byte<16>): string {
+  return offset.signed < 0 ? `-${formatNumber(-offset.signed)}` : `+${formatNumber(offset.signed)}`;
+}
+
+/**
+ * Formats a number in hexadecimal, the way it would be written in the
+ * source code (like `5h` or `0FFh`).
+ */
+function formatNumber(value: number): string {
+  const hex = value.toString(16).toUpperCase();
+  return /^[A-F]/.test(hex) ? `0${hex}h` : `${hex}h`;
+}
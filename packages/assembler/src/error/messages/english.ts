@@ -21,7 +21,10 @@ export const english = {
   "constant-must-have-a-label": "Constant must have a label.",
   "constant-must-have-one-value": "Constant must have exactly one value.",
   "destination-cannot-be-immediate": "The destination can't be an immediate value.",
+  "division-by-zero": "Division by zero.",
   "double-memory-access": "Can't access to a memory location twice in the same instruction.",
+  // prettier-ignore
+  "dup-count-out-of-range": (count: number) => `The count of DUP must be at least 1 (got ${count}).`,
   "duplicated-label": (label: string) => `Duplicated label "${label}".`,
   "empty-program": "Empty program. The program must have, at least, an END statement.",
   "end-must-be-the-last-statement": "END must be the last statement.",
@@ -32,13 +35,20 @@ export const english = {
   "expects-label": "This operand should be a label.",
   "expects-no-operands": "This instruction doesn't expect any operands.",
   "expects-one-operand": "This instruction expects one operand.",
+  "expects-shift-count": "The count of a shift or rotation can only be 1 or CL.",
   "expects-two-operands": "This instruction expects two operands.",
   "expects-word-register": "This instruction expects a 16-bits register as its operand.",
   // prettier-ignore
+  "expression-overflow": (value: number) => `The result of this operation (${value}) doesn't fit in 32 bits, so it can't be computed precisely.`,
+  // prettier-ignore
   "instruction-out-of-range": (address: MemoryAddressLike) => `This instruction would be placed in address ${MemoryAddress.format(address)}, which is outside the memory range (max memory address: ${maxAddress}).`,
   "invalid-interrupt": (interrupt: number) => `Invalid interrupt number ${interrupt}.`,
   // prettier-ignore
+  "invalid-prefix": (prefix: string, instruction: string) => `${prefix} can't be used with ${instruction}.`,
+  // prettier-ignore
   "io-address-out-of-range": (address: number) => `I/O address ${address} is out of range (max I/O address: ${maxIOAddress}).`,
+  // prettier-ignore
+  "label-must-be-constant": (label: string) => `The value of ${label} isn't known yet: only constants can be used in DUP counts and conditions.`,
   "label-not-found": (label: string) => `Label "${label}" has not been defined.`,
   // prettier-ignore
   "label-should-be-a-number": (label: string) => `Label ${label} should point to a EQU declaration or to a instruction. Maybe you ment to write OFFSET ${label}.`,
@@ -51,45 +61,105 @@ export const english = {
   "occupied-address": (address: MemoryAddress) => `This instruction would be placed in address ${address}, which is already occupied.`,
   "offset-only-with-data-directive": "OFFSET can only be use with data directives.",
   // prettier-ignore
+  "operator-only-with-data-directive": (operator: string) => `${operator} can only be used with data directives.`,
+  // prettier-ignore
+  "rep-with-comparison": (instruction: string) => `REP can't be used with ${instruction}: use REPE to repeat while the bytes are equal, or REPNE to repeat while they are different.`,
+  // prettier-ignore
   "reserved-address": (address: MemoryAddress) => `This instruction would be placed in address ${address}, which is reserved by the system.`,
+  "shift-out-of-range": (count: number) =>
+    `Can't shift by ${count} bits (must be between 0 and 31).`,
+  "source-cannot-be-immediate": "The operand of this instruction can't be an immediate value.",
   // prettier-ignore
   "size-mismatch": (src: ByteSize, out: ByteSize) => `The source (${src}-bit) and destination (${out}-bit) must be the same size.`,
   "unexpected-error": (err: unknown) => `Unexpected error: ${String(err)}`,
   // prettier-ignore
+  "unknown-location": "$ can't be used here, since its location in memory isn't known (there may be no ORG before it).",
+  // prettier-ignore
   "unknown-size": "Addressing an unknown memory address with an immediate operand requires specifying the type of pointer with WORD PTR or BYTE PTR before the address.",
   // prettier-ignore
   "value-out-of-range": (value: number, size: ByteSize) => `The number ${value} cannot be represented with ${size} bits.`,
 
+  include: {
+    circular: (file: string) => `File "${file}" includes itself.`,
+    "expected-file": 'Expected the name of a file after INCLUDE, like INCLUDE "file.asm".',
+    "not-found": (file: string) => `File "${file}" not found.`,
+  },
+
+  image: {
+    // prettier-ignore
+    "address-out-of-range": (address: MemoryAddressLike) => `The image uses memory address ${MemoryAddress.format(address)}, which is out of range (max memory address: ${maxAddress}).`,
+    "invalid-json":
+      "Invalid memory image. It should be a JSON file with its entry point and segments.",
+    "invalid-record": (line: number) => `Line ${line} isn't a valid Intel HEX record.`,
+    "missing-eof": "The Intel HEX file has no end-of-file record.",
+    // prettier-ignore
+    "overlapping-bytes": (address: MemoryAddressLike) => `The image writes memory address ${MemoryAddress.format(address)} more than once.`,
+    // prettier-ignore
+    "reserved-address": (address: MemoryAddressLike) => `The image writes memory address ${MemoryAddress.format(address)}, which is reserved by the system.`,
+    "wrong-checksum": (line: number) => `Line ${line} of the Intel HEX file has a wrong checksum.`,
+  },
+
   lexer: {
     "character-too-long": "Character literals can only have one character.",
     "empty-character": "Character literals can't be empty.",
     "invalid-binary": "Invalid binary number. It should only contain 0s and 1s.",
     "invalid-decimal": "Invalid decimal number. It should only contain digits.",
     "only-ascii": "Only ASCII character are supported for characters literals and strings.",
+    "reserved-word": (word: string) => `"${word}" is a reserved word and can't be used as a label.`,
     "unexpected-character": (char: string) => `Unexpected character "${char}".`,
     "unterminated-character": "Unterminated character.",
     "unterminated-string": "Unterminated string.",
   },
 
+  macro: {
+    "already-defined": (name: string) => `Macro "${name}" is already defined.`,
+    "duplicated-identifier": (name: string) => `"${name}" is declared twice in this macro.`,
+    "endm-without-macro": "ENDM without a matching MACRO.",
+    "expected-identifier": "Expected the name of a parameter or a local label.",
+    "expected-name": "Expected the name of the macro before MACRO.",
+    "label-collision": (name: string) => `"${name}" can't be the name of both a macro and a label.`,
+    "local-outside-macro": "LOCAL can only be used inside a macro.",
+    "nested-definition": "Macros can't be defined inside other macros.",
+    recursive: (name: string) => `Macro "${name}" can't use itself.`,
+    unterminated: (name: string) => `Macro "${name}" has no ENDM.`,
+    // prettier-ignore
+    "wrong-argument-count": (name: string, expected: number, got: number) => `Macro "${name}" expects ${expected} argument(s), got ${got}.`,
+  },
+
   parser: {
     "ambiguous-unary": "Ambiguous unary expression detected. Use parentheses to disambiguate.",
+    "duplicated-else": "This conditional block already has an ELSE.",
+    "else-without-if": "ELSE without a matching IF.",
+    "endif-without-if": "ENDIF without a matching IF.",
+    // prettier-ignore
+    "endp-name-mismatch": (expected: string, got: string) => `This ENDP closes procedure "${expected}", not "${got}".`,
+    "endp-without-proc": "ENDP without a matching PROC.",
     "expected-address-after-org": "Expected address after ORG.",
     "expected-argument": "Expected argument.",
     "expected-eos": "Expected end of statement.",
     "expected-instruction": (got: Token) => `Expected instruction, got ${got.type}.`,
     "expected-label-after-offset": "Expected label after OFFSET.",
     // prettier-ignore
+    "expected-label-after-operator": (operator: string) => `Expected label after ${operator}.`,
+    // prettier-ignore
     "expected-instruction-after-label": (got: Token) => `Expected instruction after label, got ${got.type}.`,
     // prettier-ignore
     "expected-literal-after-expression": (expected: string) => `Expected "${expected}" after expression.`,
     // prettier-ignore
     "expected-literal-after-literal": (expected: string, after: string) => `Expected "${expected}" after "${after}".`,
     // prettier-ignore
+    "expected-string-instruction": (prefix: Token, got: Token) => `Expected a string instruction after ${prefix.type}, got ${got.type}.`,
+    // prettier-ignore
     "expected-type": (expected: LiteralUnion<TokenType, string>, got: TokenType) => `Expected ${expected}, got ${got}.`,
     // prettier-ignore
-    "indirect-addressing-must-be-bx": "The only register supported for indirect addressing is BX.",
+    "invalid-indirect-addressing": "Indirect addressing only supports [BX], [BP], [SI], [DI], [BX+SI], [BX+DI], [BP+SI] and [BP+DI], with an optional displacement.",
+    "nested-procedure": "Procedures can't be defined inside other procedures.",
+    // prettier-ignore
+    "procedure-must-start-with-instruction": (name: string) => `Procedure "${name}" must start with an instruction.`,
     "unclosed-parenthesis": "Unclosed parenthesis.",
     // prettier-ignore
     "unexpected-identifier": "Unexpected identifier. You may have forgotten a colon (:) to make it a label.",
+    "unterminated-conditional": (directive: string) => `${directive} has no ENDIF.`,
+    "unterminated-procedure": (name: string) => `Procedure "${name}" has no ENDP.`,
   },
 } satisfies BaseLocale;
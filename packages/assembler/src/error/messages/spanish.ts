@@ -18,7 +18,10 @@ export const spanish: Messages = {
   "constant-must-have-a-label": "La constante debe tener una etiqueta.",
   "constant-must-have-one-value": "La constante debe tener una exactamente un valor.",
   "destination-cannot-be-immediate": "El destino no puede ser un valor inmediato.",
+  "division-by-zero": "División por cero.",
   "double-memory-access": "No se puede acceder a una memoria dos veces en la misma instrucción.",
+  // prettier-ignore
+  "dup-count-out-of-range": count => `La cantidad de repeticiones de DUP debe ser al menos 1 (se obtuvo ${count}).`,
   "duplicated-label": label => `Etiqueta duplicada "${label}".`,
   "empty-program": "Programa vacío. El programa debe tener, al menos, una instrucción END.",
   "end-must-be-the-last-statement": "END debe ser la última instrucción.",
@@ -29,13 +32,19 @@ export const spanish: Messages = {
   "expects-label": "Este operando debe ser una etiqueta.",
   "expects-no-operands": "Esta instrucción no espera ningún operando.",
   "expects-one-operand": "Esta instrucción espera un operando.",
+  "expects-shift-count": "La cantidad de un desplazamiento o rotación solo puede ser 1 o CL.",
   "expects-two-operands": "Esta instrucción espera dos operandos.",
   "expects-word-register": "Esta instrucción espera un registro de 16 bits como su operando.",
   // prettier-ignore
+  "expression-overflow": value => `El resultado de esta operación (${value}) no entra en 32 bits, por lo que no se puede calcular con precisión.`,
+  // prettier-ignore
   "instruction-out-of-range": address => `Esta instrucción se colocaría en la dirección ${MemoryAddress.format(address)}, la cual se encuentra fuera del rango de memoria (dirección máxima de memoria: ${(maxAddress)}).`,
   "invalid-interrupt": interrupt => `${interrupt} no es un número de interrupción válido.`,
+  "invalid-prefix": (prefix, instruction) => `${prefix} no puede usarse con ${instruction}.`,
   // prettier-ignore
   "io-address-out-of-range": address => `La dirección de E/S ${address} está fuera de rango (dirección máxima de memoria E/S: ${maxIOAddress}).`,
+  // prettier-ignore
+  "label-must-be-constant": label => `El valor de ${label} todavía no se conoce: solo se pueden usar constantes en las repeticiones de DUP y en las condiciones.`,
   "label-not-found": label => `La etiqueta "${label}" no ha sido definida.`,
   // prettier-ignore
   "label-should-be-a-number": label => `La etiqueta ${label} debería apuntar a una constante EQU o a una instrucción. Quizás quiso escribir OFFSET ${label}.`,
@@ -48,45 +57,107 @@ export const spanish: Messages = {
   "occupied-address": address => `Esta instrucción sería colocada en la dirección ${MemoryAddress.format(address)}, la cual ya está ocupada.`,
   "offset-only-with-data-directive": "OFFSET solo puede ser usado con variables.",
   // prettier-ignore
+  "operator-only-with-data-directive": operator => `${operator} solo puede ser usado con variables.`,
+  // prettier-ignore
+  "rep-with-comparison": instruction => `REP no puede usarse con ${instruction}: use REPE para repetir mientras los bytes sean iguales, o REPNE para repetir mientras sean distintos.`,
+  // prettier-ignore
   "reserved-address": address => `Esta instrucción sería colocada en la dirección ${MemoryAddress.format(address)}, la cual ya está reservada por el sistema.`,
   // prettier-ignore
+  "shift-out-of-range": count => `No se puede desplazar ${count} bits (debe ser entre 0 y 31).`,
+  "source-cannot-be-immediate": "El operando de esta instrucción no puede ser un valor inmediato.",
+  // prettier-ignore
   "size-mismatch": (src, out) => `La fuente (${src} bits) y el destino (${out} bits) deben ser del mismo tamaño.`,
   "unexpected-error": err => `Error inesperado: ${String(err)}`,
   // prettier-ignore
+  "unknown-location": "No se puede usar $ acá, ya que no se conoce su ubicación en memoria (puede que no haya ningún ORG antes).",
+  // prettier-ignore
   "unknown-size": "Acceder a una dirección de memoria desconocida con un operando inmediato requiere especificar el tipo de puntero con WORD PTR o BYTE PTR antes de la dirección.",
   // prettier-ignore
   "value-out-of-range": (value, size) => `El número ${value} no puede ser representado con ${size} bits.`,
 
+  include: {
+    circular: file => `El archivo "${file}" se incluye a sí mismo.`,
+    "expected-file":
+      'Se esperaba el nombre de un archivo después de INCLUDE, como INCLUDE "archivo.asm".',
+    "not-found": file => `No se encontró el archivo "${file}".`,
+  },
+
+  image: {
+    // prettier-ignore
+    "address-out-of-range": address => `La imagen usa la dirección de memoria ${MemoryAddress.format(address)}, que está fuera de rango (dirección máxima de memoria: ${maxAddress}).`,
+    // prettier-ignore
+    "invalid-json": "Imagen de memoria inválida. Debería ser un archivo JSON con su punto de entrada y sus segmentos.",
+    "invalid-record": line => `La línea ${line} no es un registro Intel HEX válido.`,
+    "missing-eof": "El archivo Intel HEX no tiene un registro de fin de archivo.",
+    // prettier-ignore
+    "overlapping-bytes": address => `La imagen escribe la dirección de memoria ${MemoryAddress.format(address)} más de una vez.`,
+    // prettier-ignore
+    "reserved-address": address => `La imagen escribe la dirección de memoria ${MemoryAddress.format(address)}, que está reservada por el sistema.`,
+    "wrong-checksum": line =>
+      `La línea ${line} del archivo Intel HEX tiene un checksum incorrecto.`,
+  },
+
   lexer: {
     "character-too-long": "El carácter solo puede contener un carácter.",
     "empty-character": "Los carácter no puede estar vacío.",
     "invalid-binary": "Número binario inválido. Solo puede contener ceros y unos.",
     "invalid-decimal": "Número decimal inválido. Solo puede contener dígitos.",
     "only-ascii": "Solo se soportan caracteres ASCII para caracteres y cadenas de texto.",
+    "reserved-word": word => `"${word}" es una palabra reservada y no puede usarse como etiqueta.`,
     "unexpected-character": char => `Carácter inesperado "${char}".`,
     "unterminated-character": "Carácter sin terminar.",
     "unterminated-string": "Cadena sin terminar.",
   },
 
+  macro: {
+    "already-defined": name => `La macro "${name}" ya está definida.`,
+    "duplicated-identifier": name => `"${name}" está declarado dos veces en esta macro.`,
+    "endm-without-macro": "ENDM sin un MACRO correspondiente.",
+    "expected-identifier": "Se esperaba el nombre de un parámetro o de una etiqueta local.",
+    "expected-name": "Se esperaba el nombre de la macro antes de MACRO.",
+    "label-collision": name =>
+      `"${name}" no puede ser el nombre de una macro y de una etiqueta a la vez.`,
+    "local-outside-macro": "LOCAL solo puede usarse dentro de una macro.",
+    "nested-definition": "No se pueden definir macros dentro de otras macros.",
+    recursive: name => `La macro "${name}" no puede usarse a sí misma.`,
+    unterminated: name => `La macro "${name}" no tiene ENDM.`,
+    // prettier-ignore
+    "wrong-argument-count": (name, expected, got) => `La macro "${name}" espera ${expected} argumento(s), se obtuvo ${got}.`,
+  },
+
   parser: {
     // prettier-ignore
     "ambiguous-unary": "Se detectó una expresión unaria ambigua. Use paréntesis para evitar ambigüedades.",
+    "duplicated-else": "Este bloque condicional ya tiene un ELSE.",
+    "else-without-if": "ELSE sin un IF correspondiente.",
+    "endif-without-if": "ENDIF sin un IF correspondiente.",
+    // prettier-ignore
+    "endp-name-mismatch": (expected, got) => `Este ENDP cierra el procedimiento "${expected}", no "${got}".`,
+    "endp-without-proc": "ENDP sin un PROC correspondiente.",
     "expected-address-after-org": "Se esperaba una dirección después de ORG.",
     "expected-argument": "Se esperaba un argumento.",
     "expected-eos": "Se esperaba que la instrucción termine.",
     "expected-instruction": got => `Se esperaba una instrucción, se obtuvo ${got.type}.`,
     "expected-label-after-offset": "Se esperaba una etiqueta después de OFFSET.",
+    "expected-label-after-operator": operator => `Se esperaba una etiqueta después de ${operator}.`,
     // prettier-ignore
     "expected-instruction-after-label": got => `Se esperaba una instrucción después de la etiqueta, se obtuvo ${got.type}.`,
     // prettier-ignore
     "expected-literal-after-expression": expected => `Se esperaba "${expected}" después de la expresión.`,
     // prettier-ignore
     "expected-literal-after-literal": (expected, after) => `Se esperaba "${expected}" después de "${after}".`,
+    // prettier-ignore
+    "expected-string-instruction": (prefix, got) => `Se esperaba una instrucción de cadena después de ${prefix.type}, se obtuvo ${got.type}.`,
     "expected-type": (expected, got) => `Se esperaba ${expected}, se obtuvo ${got}.`,
     // prettier-ignore
-    "indirect-addressing-must-be-bx": "El único registro válido para el direccionamiento indirecto es BX.",
+    "invalid-indirect-addressing": "El direccionamiento indirecto solo admite [BX], [BP], [SI], [DI], [BX+SI], [BX+DI], [BP+SI] y [BP+DI], con un desplazamiento opcional.",
+    "nested-procedure": "No se pueden definir procedimientos dentro de otros procedimientos.",
+    // prettier-ignore
+    "procedure-must-start-with-instruction": name => `El procedimiento "${name}" debe empezar con una instrucción.`,
     "unclosed-parenthesis": "Paréntesis sin cerrar.",
     // prettier-ignore
     "unexpected-identifier": "Identificador inesperado. Tal vez te olvidaste agregar dos puntos (:) para hacerlo una etiqueta.",
+    "unterminated-conditional": directive => `${directive} no tiene ENDIF.`,
+    "unterminated-procedure": name => `El procedimiento "${name}" no tiene ENDP.`,
   },
 };
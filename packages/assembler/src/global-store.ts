@@ -2,15 +2,26 @@ import { MemoryAddress } from "@vonsim/common/address";
 import { forEachWithErrors } from "@vonsim/common/loops";
 
 import { AssemblerError } from "./error";
-import type { Constant, Statement } from "./statements";
+import type { ConditionalStatement, Constant, Data, Statement } from "./statements";
 import { reservedAddressesForSyscalls } from "./syscalls";
 
 type LabelsMap = Map<
   string,
-  | { type: "DB" | "DW" | "instruction"; address: MemoryAddress }
+  | { type: "instruction"; address: MemoryAddress }
+  | { type: "DB" | "DW"; address: MemoryAddress; data: Data }
   | { type: "EQU"; constant: Constant }
 >;
 
+/**
+ * A label of the program, along with its value: the value of the constant
+ * for `EQU`, or the address it points to otherwise.
+ */
+export type ProgramSymbol = {
+  name: string;
+  type: "instruction" | "DB" | "DW" | "EQU";
+  value: number;
+};
+
 /**
  * The Global Store™
  *
@@ -53,7 +64,18 @@ export class GlobalStore {
   #computedAddresses = false;
 
   /**
-   * Loads the label types from the given statements
+   * Address of the statement being evaluated, the value of `$`.
+   */
+  #location: number | null = null;
+
+  /**
+   * Loads the label types from the given statements.
+   *
+   * Conditional blocks are evaluated as they're found, so their conditions can
+   * only use the labels and constants declared before them. Only the labels of
+   * the chosen branches are loaded. Constants are validated here too, since
+   * conditions may use them.
+   *
    * @returns Errors that occurred while loading the label types
    */
   loadStatements(statements: Statement[]): AssemblerError<any>[] {
@@ -63,9 +85,31 @@ export class GlobalStore {
 
     this.#statementsLoaded = true;
     this.labels.clear();
+    return this.#loadLabels(statements);
+  }
+
+  #loadLabels(statements: Statement[]): AssemblerError<any>[] {
     const errors: AssemblerError<any>[] = [];
 
     for (const statement of statements) {
+      if (statement.isConditional()) {
+        try {
+          errors.push(...this.#loadLabels(statement.evaluateCondition(this)));
+        } catch (error) {
+          errors.push(AssemblerError.from(error));
+        }
+        continue;
+      }
+
+      if (statement.isDataDirective() && statement.directive === "EQU") {
+        try {
+          statement.validate();
+        } catch (error) {
+          errors.push(AssemblerError.from(error));
+          continue;
+        }
+      }
+
       if (!("label" in statement)) continue;
       if (!statement.label) continue;
 
@@ -88,6 +132,7 @@ export class GlobalStore {
         this.labels.set(statement.label, {
           type: statement.directive,
           address: MemoryAddress.from(0),
+          data: statement,
         });
       }
     }
@@ -95,12 +140,16 @@ export class GlobalStore {
     return errors;
   }
 
-  computeAddresses(statements: Statement[]): AssemblerError<any>[] {
+  /**
+   * Computes the addresses of the labels. Conditional blocks must have been
+   * replaced by the statements of their chosen branch.
+   * @returns Errors that occurred while computing the addresses
+   */
+  computeAddresses(statements: Exclude<Statement, ConditionalStatement>[]): AssemblerError<any>[] {
     if (this.#computedAddresses) {
       throw new Error("Tried to compute addresses twice");
     }
 
-    this.#computedAddresses = true;
     this.codeMemory.clear();
     const occupiedMemory = new Set<number>();
 
@@ -110,7 +159,10 @@ export class GlobalStore {
       statements,
       statement => {
         if (statement.isEnd()) return;
-        if (statement.isDataDirective() && statement.directive === "EQU") return;
+        if (statement.isDataDirective() && statement.directive === "EQU") {
+          statement.setLocation(pointer);
+          return;
+        }
 
         if (statement.isOriginChange()) {
           pointer = statement.newAddress;
@@ -121,6 +173,11 @@ export class GlobalStore {
           throw new AssemblerError("missing-org").at(statement);
         }
 
+        // The counts of DUP can use constants, which are known by now
+        if (statement.isDataDirective()) {
+          this.withLocation(pointer, () => statement.evaluateCounts(this));
+        }
+
         const length = statement.length;
 
         for (let i = 0; i < length; i++) {
@@ -144,19 +201,31 @@ export class GlobalStore {
         const startAddress = MemoryAddress.from(pointer);
         statement.setStart(startAddress);
         if (statement.label) {
-          this.labels.set(statement.label, {
-            type: statement.isInstruction() ? "instruction" : statement.directive,
-            address: startAddress,
-          });
+          this.labels.set(
+            statement.label,
+            statement.isInstruction()
+              ? { type: "instruction", address: startAddress }
+              : { type: statement.directive, address: startAddress, data: statement },
+          );
         }
         pointer += length;
       },
       AssemblerError.from,
     );
 
+    this.#computedAddresses = true;
     return errors;
   }
 
+  /**
+   * Whether the addresses of the labels have been computed. Before that,
+   * only constants can be evaluated (like the counts of DUP, which are
+   * needed to compute the addresses).
+   */
+  get addressesComputed(): boolean {
+    return this.#computedAddresses;
+  }
+
   /**
    * @returns Whether the label is defined.
    */
@@ -203,6 +272,59 @@ export class GlobalStore {
     }
   }
 
+  /**
+   * @returns Every label of the program with its value, sorted by name.
+   */
+  getSymbols(): ProgramSymbol[] {
+    if (!this.#computedAddresses) {
+      throw new Error("Tried to get symbols before computing addresses");
+    }
+
+    return [...this.labels.keys()].sort().map(name => ({
+      name,
+      type: this.getLabelType(name)!,
+      value: this.getLabelValue(name)!,
+    }));
+  }
+
+  /**
+   * @returns The size of the data directive the label points to, in bytes
+   *          and in number of values (for `SIZEOF` and `LENGTHOF`).
+   */
+  getDataSize(label: string): { bytes: number; values: number } | undefined {
+    if (!this.#computedAddresses) {
+      throw new Error("Tried to get size of data before computing addresses");
+    }
+
+    const data = this.labels.get(label);
+    if (!data || (data.type !== "DB" && data.type !== "DW")) return undefined;
+
+    const bytes = data.data.length;
+    return { bytes, values: bytes / (data.data.size / 8) };
+  }
+
+  /**
+   * @returns The value of the location counter (`$`), or `null` if it's
+   *          not known (there's no ORG before the statement).
+   */
+  getLocation(): number | null {
+    return this.#location;
+  }
+
+  /**
+   * Evaluates something with the given value of the location counter (`$`).
+   * @param location The address of the statement being evaluated.
+   */
+  withLocation<T>(location: number | null, fn: () => T): T {
+    const previous = this.#location;
+    this.#location = location;
+    try {
+      return fn();
+    } finally {
+      this.#location = previous;
+    }
+  }
+
   /**
    * Tells whether the given address is reserved by an instruction.
    * @returns Whether the given address is reserved.
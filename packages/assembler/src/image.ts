@@ -0,0 +1,395 @@
+import { MemoryAddress } from "@vonsim/common/address";
+
+import { AssemblerError } from "./error";
+import type { AssembleResultError, Program } from "./index";
+import { unassigned } from "./statements";
+import { reservedAddressesForSyscalls } from "./syscalls";
+
+/**
+ * Consecutive bytes of a {@link MemoryImage}.
+ */
+export type MemorySegment = {
+  /**
+   * Address of the first byte.
+   */
+  address: number;
+  /**
+   * Whether the bytes are instructions or data. Instructions are protected
+   * from being overwritten when the image is loaded into the simulator.
+   */
+  type: "code" | "data";
+  /**
+   * The bytes themselves (each one from 0 to 255).
+   */
+  bytes: number[];
+};
+
+/**
+ * The contents of the memory after loading a program: its bytes, grouped in
+ * segments, and the address where its execution starts.
+ *
+ * Unlike a {@link Program}, an image doesn't know about labels or statements,
+ * so it can be produced by other tools and distributed without its source code.
+ */
+export type MemoryImage = {
+  entryPoint: number;
+  segments: MemorySegment[];
+};
+
+export type ImageResult = { success: true; image: MemoryImage } | AssembleResultError;
+
+/**
+ * The address where programs start running (the initial value of IP).
+ */
+const ENTRY_POINT = 0x2000;
+
+/**
+ * How many bytes are written in each data record of an Intel HEX file.
+ */
+const BYTES_PER_RECORD = 16;
+
+/**
+ * Creates the memory image of an assembled program.
+ * Bytes reserved without an initial value (like `DB ?`) are left out.
+ */
+export function createImage(program: Program): MemoryImage {
+  const memory = new Map<number, { type: MemorySegment["type"]; byte: number }>();
+
+  for (const directive of program.data) {
+    let offset = directive.start.value;
+    for (const value of directive.getValues()) {
+      if (value !== unassigned) {
+        value.toUint8Array().forEach((byte, i) => memory.set(offset + i, { type: "data", byte }));
+      }
+      offset += directive.size / 8;
+    }
+  }
+
+  for (const instruction of program.instructions) {
+    instruction.toBytes().forEach((byte, i) => {
+      memory.set(instruction.start.value + i, { type: "code", byte });
+    });
+  }
+
+  const segments: MemorySegment[] = [];
+  for (const address of [...memory.keys()].sort((a, b) => a - b)) {
+    const { type, byte } = memory.get(address)!;
+    const last = segments.at(-1);
+
+    if (last && last.type === type && last.address + last.bytes.length === address) {
+      last.bytes.push(byte);
+    } else {
+      segments.push({ address, type, bytes: [byte] });
+    }
+  }
+
+  return { entryPoint: ENTRY_POINT, segments };
+}
+
+/**
+ * Converts an image to raw binary: all its bytes, from the lowest address to
+ * the highest one. The gaps between segments are filled with zeros.
+ *
+ * Raw binary doesn't keep the addresses, so the one of the first byte is
+ * returned along with the bytes.
+ */
+export function imageToBinary(image: MemoryImage): { address: number; bytes: Uint8Array } {
+  if (image.segments.length === 0) return { address: image.entryPoint, bytes: new Uint8Array() };
+
+  const start = Math.min(...image.segments.map(segment => segment.address));
+  const end = Math.max(...image.segments.map(segment => segment.address + segment.bytes.length));
+
+  const bytes = new Uint8Array(end - start);
+  for (const segment of image.segments) bytes.set(segment.bytes, segment.address - start);
+
+  return { address: start, bytes };
+}
+
+/**
+ * Creates an image from raw binary. Since raw binary doesn't tell instructions
+ * from data, all the bytes are loaded as data.
+ *
+ * @param bytes The bytes of the image.
+ * @param address The address where the first byte is loaded.
+ * @param entryPoint The address where the execution starts.
+ */
+export function binaryToImage(
+  bytes: ArrayLike<number>,
+  address: number,
+  entryPoint = ENTRY_POINT,
+): ImageResult {
+  return readImage(() => ({
+    entryPoint,
+    segments: bytes.length > 0 ? [{ address, type: "data", bytes: Array.from(bytes) }] : [],
+  }));
+}
+
+/**
+ * Converts an image to the Intel HEX format: a data record (type 00) for each
+ * 16 bytes, the entry point as a start segment address record (type 03) and
+ * the end-of-file record (type 01).
+ */
+export function imageToIntelHex(image: MemoryImage): string {
+  const records: string[] = [];
+
+  for (const segment of image.segments) {
+    for (let i = 0; i < segment.bytes.length; i += BYTES_PER_RECORD) {
+      records.push(
+        formatRecord(0x00, segment.address + i, segment.bytes.slice(i, i + BYTES_PER_RECORD)),
+      );
+    }
+  }
+
+  // CS = 0, IP = entry point
+  records.push(formatRecord(0x03, 0, [0, 0, image.entryPoint >> 8, image.entryPoint & 0xff]));
+  records.push(formatRecord(0x01, 0, []));
+
+  return records.join("\n") + "\n";
+}
+
+/**
+ * Reads an image in the Intel HEX format. Besides data records, it supports
+ * the extended address records (types 02 and 04) and the start address
+ * records (types 03 and 05), which set the entry point.
+ *
+ * Intel HEX doesn't tell instructions from data, so all the bytes are loaded
+ * as data.
+ */
+export function intelHexToImage(text: string): ImageResult {
+  return readImage(() => parseIntelHex(text));
+}
+
+function parseIntelHex(text: string): MemoryImage {
+  const memory = new Map<number, number>();
+  let base = 0;
+  let entryPoint = ENTRY_POINT;
+  let ended = false;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length && !ended; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const record = parseRecord(line, i + 1);
+    const value = record.data.reduce((value, byte) => value * 0x100 + byte, 0);
+
+    switch (record.type) {
+      case 0x00: {
+        record.data.forEach((byte, j) => {
+          const address = base + record.address + j;
+          if (memory.has(address)) throw new AssemblerError("image.overlapping-bytes", address);
+          memory.set(address, byte);
+        });
+        break;
+      }
+
+      case 0x01: {
+        ended = true;
+        break;
+      }
+
+      case 0x02: {
+        if (record.data.length !== 2) throw new AssemblerError("image.invalid-record", i + 1);
+        base = value * 0x10;
+        break;
+      }
+
+      case 0x03: {
+        if (record.data.length !== 4) throw new AssemblerError("image.invalid-record", i + 1);
+        // CS:IP
+        entryPoint = (value >>> 16) * 0x10 + (value & 0xffff);
+        break;
+      }
+
+      case 0x04: {
+        if (record.data.length !== 2) throw new AssemblerError("image.invalid-record", i + 1);
+        base = value * 0x10000;
+        break;
+      }
+
+      case 0x05: {
+        if (record.data.length !== 4) throw new AssemblerError("image.invalid-record", i + 1);
+        entryPoint = value;
+        break;
+      }
+
+      default: {
+        throw new AssemblerError("image.invalid-record", i + 1);
+      }
+    }
+  }
+
+  if (!ended) throw new AssemblerError("image.missing-eof");
+
+  const segments: MemorySegment[] = [];
+  for (const address of [...memory.keys()].sort((a, b) => a - b)) {
+    const last = segments.at(-1);
+    if (last && last.address + last.bytes.length === address) {
+      last.bytes.push(memory.get(address)!);
+    } else {
+      segments.push({ address, type: "data", bytes: [memory.get(address)!] });
+    }
+  }
+
+  return { entryPoint, segments };
+}
+
+/**
+ * Converts an image to JSON. The bytes of each segment are written as
+ * a string of hexadecimal digits, two per byte.
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "entryPoint": 8192,
+ *   "segments": [{ "address": 8192, "type": "code", "bytes": "B005F4" }]
+ * }
+ * ```
+ */
+export function imageToJSON(image: MemoryImage): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      entryPoint: image.entryPoint,
+      segments: image.segments.map(segment => ({
+        address: segment.address,
+        type: segment.type,
+        bytes: segment.bytes.map(formatByte).join(""),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Reads an image in JSON, as written by {@link imageToJSON}.
+ */
+export function jsonToImage(text: string): ImageResult {
+  return readImage(() => parseJSON(text));
+}
+
+function parseJSON(text: string): MemoryImage {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new AssemblerError("image.invalid-json");
+  }
+
+  if (
+    !isObject(json) ||
+    json.version !== 1 ||
+    !Number.isSafeInteger(json.entryPoint) ||
+    !Array.isArray(json.segments)
+  ) {
+    throw new AssemblerError("image.invalid-json");
+  }
+
+  const segments = json.segments.map((segment: unknown): MemorySegment => {
+    if (
+      !isObject(segment) ||
+      !Number.isSafeInteger(segment.address) ||
+      (segment.type !== "code" && segment.type !== "data") ||
+      typeof segment.bytes !== "string" ||
+      !/^(?:[0-9a-f]{2})*$/i.test(segment.bytes)
+    ) {
+      throw new AssemblerError("image.invalid-json");
+    }
+
+    return {
+      address: segment.address as number,
+      type: segment.type,
+      bytes: parseHex(segment.bytes),
+    };
+  });
+
+  return { entryPoint: json.entryPoint as number, segments };
+}
+
+/**
+ * Reads an image and validates it. Like {@link assemble}, it never throws an
+ * error, but returns them.
+ */
+function readImage(read: () => MemoryImage): ImageResult {
+  try {
+    const image = read();
+    validateImage(image);
+    return { success: true, image };
+  } catch (error) {
+    return { success: false, errors: [AssemblerError.from(error)] };
+  }
+}
+
+/**
+ * Checks that the image fits in memory: the entry point and all the bytes
+ * must be in range, the bytes can't be written over the interrupt vectors
+ * of the syscalls and no address can be written twice.
+ */
+function validateImage(image: MemoryImage) {
+  if (!MemoryAddress.inRange(image.entryPoint)) {
+    throw new AssemblerError("image.address-out-of-range", image.entryPoint);
+  }
+
+  const used = new Set<number>();
+  for (const segment of image.segments) {
+    for (
+      let address = segment.address;
+      address < segment.address + segment.bytes.length;
+      address++
+    ) {
+      if (!MemoryAddress.inRange(address)) {
+        throw new AssemblerError("image.address-out-of-range", address);
+      }
+      if (reservedAddressesForSyscalls.has(address)) {
+        throw new AssemblerError("image.reserved-address", address);
+      }
+      if (used.has(address)) throw new AssemblerError("image.overlapping-bytes", address);
+      used.add(address);
+    }
+  }
+}
+
+type HexRecord = { type: number; address: number; data: number[] };
+
+/**
+ * Parses a line of an Intel HEX file: `:LLAAAATT[DD...]CC`, where LL is the
+ * number of data bytes, AAAA the address, TT the type of the record, DD the
+ * data and CC the checksum.
+ * @param line The line, without surrounding whitespace.
+ * @param number The number of the line (starting from 1), to report errors.
+ */
+function parseRecord(line: string, number: number): HexRecord {
+  if (!/^:(?:[0-9a-f]{2}){5,}$/i.test(line))
+    throw new AssemblerError("image.invalid-record", number);
+
+  const bytes = parseHex(line.slice(1));
+  if (bytes.length !== bytes[0] + 5) throw new AssemblerError("image.invalid-record", number);
+
+  // The sum of all the bytes (including the checksum) must be 0
+  const sum = bytes.reduce((sum, byte) => sum + byte, 0);
+  if ((sum & 0xff) !== 0) throw new AssemblerError("image.wrong-checksum", number);
+
+  return { type: bytes[3], address: (bytes[1] << 8) | bytes[2], data: bytes.slice(4, -1) };
+}
+
+function formatRecord(type: number, address: number, data: number[]): string {
+  const bytes = [data.length, address >> 8, address & 0xff, type, ...data];
+  const checksum = -bytes.reduce((sum, byte) => sum + byte, 0) & 0xff;
+
+  return ":" + [...bytes, checksum].map(formatByte).join("");
+}
+
+function parseHex(hex: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  return bytes;
+}
+
+function formatByte(byte: number): string {
+  return byte.toString(16).toUpperCase().padStart(2, "0");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
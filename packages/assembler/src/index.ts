@@ -1,10 +1,11 @@
 import { forEachWithErrors } from "@vonsim/common/loops";
 
 import { AssemblerError } from "./error";
-import { GlobalStore } from "./global-store";
+import { GlobalStore, ProgramSymbol } from "./global-store";
 import { Scanner } from "./lexer/scanner";
 import { getMetadataFromProgram, Metadata } from "./metadata";
 import { Parser } from "./parser";
+import { IncludeResolver, Preprocessor } from "./preprocessor";
 import type { Data, InstructionStatement } from "./statements";
 
 export type Program = {
@@ -12,13 +13,29 @@ export type Program = {
   instructions: InstructionStatement[];
 };
 
-export type AssembleResultSuccess = { success: true; program: Program; metadata: Metadata };
+export type AssembleResultSuccess = {
+  success: true;
+  program: Program;
+  /**
+   * The labels and constants of the program, for the symbol table.
+   */
+  symbols: ProgramSymbol[];
+  metadata: Metadata;
+};
 export type AssembleResultError = {
   success: false;
   errors: AssemblerError<any>[];
 };
 export type AssembleResult = AssembleResultSuccess | AssembleResultError;
 
+export type AssembleOptions = {
+  /**
+   * Reads the files included with `INCLUDE "file"`. If not given, the
+   * program can't include other files.
+   */
+  resolveInclude?: IncludeResolver;
+};
+
 /**
  * Assembles the source code into a program.
  *
@@ -27,15 +44,18 @@ export type AssembleResult = AssembleResultSuccess | AssembleResultError;
  *
  * It should never throw an error, but it can return a list of errors.
  */
-export function assemble(source: string): AssembleResult {
+export function assemble(source: string, options: AssembleOptions = {}): AssembleResult {
   try {
     const scanner = new Scanner(source);
     const tokens = scanner.scanTokens();
 
-    const parser = new Parser(tokens);
-    const statements = parser.parse();
+    const preprocessor = new Preprocessor(tokens, options.resolveInclude);
+    const expandedTokens = preprocessor.process();
 
-    const lastStatement = statements.at(-1);
+    const parser = new Parser(expandedTokens);
+    const parsedStatements = parser.parse();
+
+    const lastStatement = parsedStatements.at(-1);
 
     if (!lastStatement) throw new AssemblerError("empty-program");
     if (!lastStatement.isEnd()) {
@@ -49,15 +69,21 @@ export function assemble(source: string): AssembleResult {
     const store = new GlobalStore();
 
     // Store labels with their types (we can't compute their addresses yet)
-    // Also stores constants.
-    errors = store.loadStatements(statements);
+    // Also stores constants and evaluates the conditional blocks.
+    errors = store.loadStatements(parsedStatements);
     if (errors.length > 0) return { success: false, errors };
 
-    // Validate statements
+    // From now on, only the statements of the chosen branches matter
+    const statements = parsedStatements.flatMap(statement =>
+      statement.isConditional() ? statement.getStatements() : [statement],
+    );
+
+    // Validate statements (constants were validated while loading them)
     errors = forEachWithErrors(
       statements,
       statement => {
         if (statement.isOriginChange() || statement.isEnd()) return;
+        if (statement.isDataDirective() && statement.directive === "EQU") return;
         statement.validate(store);
       },
       AssemblerError.from,
@@ -79,12 +105,15 @@ export function assemble(source: string): AssembleResult {
           if (item.directive === "EQU") {
             item.evaluateExpressions(store);
           } else {
-            const errs = item.evaluateExpressions(store); // Return posible errors
+            // Return posible errors
+            const errs = store.withLocation(item.start.value, () =>
+              item.evaluateExpressions(store),
+            );
             data.push(item);
             return errs;
           }
         } else if (item.isInstruction()) {
-          item.evaluateExpressions(store);
+          store.withLocation(item.start.value, () => item.evaluateExpressions(store));
           instructions.push(item);
         }
       },
@@ -95,12 +124,34 @@ export function assemble(source: string): AssembleResult {
     // If all succeded, check for metadata as comments
     const metadata = getMetadataFromProgram(source);
 
-    return { success: true, program: { data, instructions }, metadata };
+    return {
+      success: true,
+      program: { data, instructions },
+      symbols: store.getSymbols(),
+      metadata,
+    };
   } catch (error) {
     return { success: false, errors: [AssemblerError.from(error)] };
   }
 }
 
+export type { ByteReader, DecodedInstruction } from "./decoder";
+export { decodeInstruction } from "./decoder";
+export type { DisassembledLine } from "./disassembler";
+export { disassemble } from "./disassembler";
+export type { ProgramSymbol } from "./global-store";
+export type { ImageResult, MemoryImage, MemorySegment } from "./image";
+export {
+  binaryToImage,
+  createImage,
+  imageToBinary,
+  imageToIntelHex,
+  imageToJSON,
+  intelHexToImage,
+  jsonToImage,
+} from "./image";
+export { createListing } from "./listing";
+export type { IncludeResolver } from "./preprocessor";
 export type * from "./statements";
 export { unassigned } from "./statements";
 export * from "./syscalls";
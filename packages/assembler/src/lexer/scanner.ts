@@ -2,7 +2,7 @@ import { charToDecimal } from "@vonsim/common/ascii";
 import { Position } from "@vonsim/common/position";
 
 import { AssemblerError } from "../error";
-import { Keyword, KEYWORDS } from "../types";
+import { INSTRUCTIONS, Keyword, KEYWORDS } from "../types";
 import { Token, TokenType } from "./tokens";
 
 /**
@@ -35,14 +35,21 @@ export class Scanner {
    */
   private position = new Position(0);
 
-  constructor(private source: string) {}
+  /**
+   * @param source The source code to scan.
+   * @param file The name of the file, if it isn't the main program (@see {@link Position.file}).
+   */
+  constructor(
+    private source: string,
+    private file: string | null = null,
+  ) {}
 
   scanTokens(): Token[] {
     if (this.scanned) throw new Error("Scanner has already been used.");
     else this.scanned = true;
 
     while (!this.isAtEnd()) {
-      this.position = new Position(this.position.end);
+      this.position = this.positionAt(this.position.end);
 
       const c = this.advance();
       switch (c) {
@@ -73,6 +80,12 @@ export class Scanner {
         case "*":
           this.addToken("ASTERISK");
           continue;
+        case "/":
+          this.addToken("SLASH");
+          continue;
+        case "$":
+          this.addToken("DOLLAR");
+          continue;
 
         // Read character
         case "'": {
@@ -83,7 +96,7 @@ export class Scanner {
             }
             if (charToDecimal(this.peek()) === null) {
               throw new AssemblerError("lexer.only-ascii").at(
-                new Position(this.position.end, this.position.end + 1),
+                this.positionAt(this.position.end, this.position.end + 1),
               );
             }
             this.advance();
@@ -105,7 +118,7 @@ export class Scanner {
             }
             if (charToDecimal(this.peek()) === null) {
               throw new AssemblerError("lexer.only-ascii").at(
-                new Position(this.position.end, this.position.end + 1),
+                this.positionAt(this.position.end, this.position.end + 1),
               );
             }
             this.advance();
@@ -174,7 +187,16 @@ export class Scanner {
 
         // Check if the identifier is a reserved word.
         const text = this.source.slice(this.position.start, this.position.end).toUpperCase();
-        if (KEYWORDS.includes(text)) {
+        if (KEYWORDS.includes(text) && this.peek() === ":") {
+          // Labels can be named like instructions (e.g. `loop:`), since programs
+          // written before those instructions existed use them. Any other
+          // reserved word can't be a label.
+          if (!INSTRUCTIONS.includes(text)) {
+            throw new AssemblerError("lexer.reserved-word", text).at(this.position);
+          }
+          this.advance();
+          this.addToken("LABEL");
+        } else if (KEYWORDS.includes(text)) {
           this.addToken(text as Keyword);
         } else if (this.peek() === ":") {
           this.advance();
@@ -189,7 +211,7 @@ export class Scanner {
       throw new AssemblerError("lexer.unexpected-character", c).at(this.position);
     }
 
-    this.position = new Position(this.position.end);
+    this.position = this.positionAt(this.position.end);
     this.addToken("EOF");
     return this.tokens;
   }
@@ -198,6 +220,10 @@ export class Scanner {
   // # Helpers                                                                 #
   // #=========================================================================#
 
+  private positionAt(start: number, end?: number) {
+    return new Position(start, end, { file: this.file });
+  }
+
   private addToken(type: TokenType) {
     this.tokens.push(
       new Token(type, this.source.slice(this.position.start, this.position.end), this.position),
@@ -206,7 +232,7 @@ export class Scanner {
 
   private advance() {
     const char = this.source.charAt(this.position.end);
-    this.position = new Position(this.position.start, this.position.end + 1);
+    this.position = this.positionAt(this.position.start, this.position.end + 1);
     return char;
   }
 
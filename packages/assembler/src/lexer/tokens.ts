@@ -13,6 +13,8 @@ export type TokenType =
   | "PLUS"
   | "MINUS"
   | "ASTERISK"
+  | "SLASH"
+  | "DOLLAR"
   // Literals.
   | "IDENTIFIER"
   | "LABEL"
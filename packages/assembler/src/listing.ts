@@ -0,0 +1,155 @@
+import { MemoryAddress } from "@vonsim/common/address";
+import type { Position } from "@vonsim/common/position";
+
+import type { ProgramSymbol } from "./global-store";
+import type { AssembleResultSuccess } from "./index";
+import type { IncludeResolver } from "./preprocessor";
+import { unassigned } from "./statements";
+
+/**
+ * How many bytes are shown in each line of the listing.
+ */
+const BYTES_PER_LINE = 6;
+
+type Entry = { address: number; bytes: string[] };
+
+/**
+ * Creates a classic assembler listing of a program: each line of the source
+ * code along with the address and the bytes it was assembled into, followed
+ * by the symbol table (the labels and constants of the program).
+ *
+ * ```
+ *     1                                 org 1000h
+ *     2  1000  48 6F 6C 61        hola  db "Hola"
+ *     3                                 org 2000h
+ *     4  2000  81 4B 00 10              mov bx, offset hola
+ * ```
+ *
+ * The code of a macro expansion is listed in the line of the macro call. The
+ * code of the included files is listed after the main program, each file with
+ * its own line numbers.
+ *
+ * @param source The source code of the main program.
+ * @param result The result of assembling it (see {@link assemble}).
+ * @param resolveInclude Reads the included files, to list their source code.
+ */
+export function createListing(
+  source: string,
+  result: AssembleResultSuccess,
+  resolveInclude?: IncludeResolver,
+): string {
+  const { data, instructions } = result.program;
+
+  // Bytes of each statement, by file and line
+  const files = new Map<string | null, Map<number, Entry[]>>([[null, new Map()]]);
+  const sources = new Map<string | null, string | null>([[null, source]]);
+
+  const statements = [
+    ...data.map(directive => ({
+      position: directive.position,
+      address: directive.start.value,
+      bytes: directive.getValues().flatMap(value => {
+        if (value === unassigned) return Array<string>(directive.size / 8).fill("??");
+        return [...value.toUint8Array()].map(formatByte);
+      }),
+    })),
+    ...instructions.map(instruction => ({
+      position: instruction.position,
+      address: instruction.start.value,
+      bytes: [...instruction.toBytes()].map(formatByte),
+    })),
+  ].sort((a, b) => a.address - b.address);
+
+  for (const statement of statements) {
+    const { file, start } = origin(statement.position);
+
+    if (!sources.has(file)) sources.set(file, resolveInclude?.(file!) ?? null);
+    const line = lineOf(sources.get(file) ?? "", start);
+
+    let lines = files.get(file);
+    if (!lines) files.set(file, (lines = new Map()));
+
+    let entries = lines.get(line);
+    if (!entries) lines.set(line, (entries = []));
+    entries.push({ address: statement.address, bytes: statement.bytes });
+  }
+
+  const output: string[] = [];
+
+  for (const [file, lines] of files) {
+    if (file !== null) output.push("", `; ${file}`);
+
+    const text = sources.get(file)?.split("\n") ?? [];
+    const count = Math.max(text.length, ...[...lines.keys()].map(line => line + 1));
+
+    for (let i = 0; i < count; i++) {
+      const rows = (lines.get(i) ?? []).flatMap(splitEntry);
+      const first = rows.shift() ?? null;
+      output.push(formatLine(i + 1, first, text[i]?.trimEnd() ?? ""));
+      for (const row of rows) output.push(formatLine(null, row, ""));
+    }
+  }
+
+  output.push("", ...formatSymbols(result.symbols));
+
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Returns the place in the source code where a statement was written: for
+ * macro expansions, the outermost macro call.
+ */
+function origin(position: Position): Position {
+  return position.expansions.at(-1) ?? position;
+}
+
+/**
+ * Returns the line (starting from 0) of the given offset of the source code.
+ */
+function lineOf(source: string, offset: number): number {
+  let line = 0;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source[i] === "\n") line++;
+  }
+  return line;
+}
+
+/**
+ * Splits the bytes of a statement into lines of {@link BYTES_PER_LINE} bytes.
+ */
+function splitEntry({ address, bytes }: Entry): Entry[] {
+  const entries: Entry[] = [];
+  for (let i = 0; i < bytes.length; i += BYTES_PER_LINE) {
+    entries.push({ address: address + i, bytes: bytes.slice(i, i + BYTES_PER_LINE) });
+  }
+  return entries;
+}
+
+function formatLine(line: number | null, entry: Entry | null, text: string): string {
+  const number = line === null ? "" : line.toString();
+  const address = entry ? MemoryAddress.format(entry.address, false) : "";
+  const bytes = entry ? entry.bytes.join(" ") : "";
+
+  return `${number.padStart(5)}  ${address.padEnd(4)}  ${bytes.padEnd(BYTES_PER_LINE * 3 - 1)}  ${text}`.trimEnd();
+}
+
+function formatSymbols(symbols: ProgramSymbol[]): string[] {
+  const width = Math.max(0, ...symbols.map(symbol => symbol.name.length));
+
+  return symbols.map(
+    ({ name, type, value }) => `${name.padEnd(width)}  ${type.padEnd(11)}  ${formatValue(value)}`,
+  );
+}
+
+function formatByte(byte: number): string {
+  return byte.toString(16).toUpperCase().padStart(2, "0");
+}
+
+/**
+ * Formats a value of the symbol table in hexadecimal, with at least 4 digits
+ * (like `000Ah`). Negative constants are formatted in decimal.
+ */
+function formatValue(value: number): string {
+  if (value < 0) return value.toString();
+  return `${value.toString(16).toUpperCase().padStart(4, "0")}h`;
+}
@@ -1,3 +1,4 @@
+import { Byte } from "@vonsim/common/byte";
 import type { Position } from "@vonsim/common/position";
 
 import { AssemblerError } from "./error";
@@ -10,6 +11,8 @@ import type { GlobalStore } from "./global-store";
  * It can be:
  * - A number literal
  * - A label
+ * - The size of a data directive (`SIZEOF label` or `LENGTHOF label`)
+ * - The location counter (`$`)
  * - A unary operation
  * - A binary operation
  *
@@ -19,16 +22,29 @@ import type { GlobalStore } from "./global-store";
  * -3
  * 2 * (3 + 4)
  * OFFSET label + (constant + 2) * 3
+ * (1 SHL 7) OR (NOT mask AND 0Fh)
+ * HIGH (OFFSET label) EQ 10h
  * ```
  *
  * It needs the {@link GlobalStore} to evaluate labels, so it's not possible to
  * evaluate until the store has computed all the labels addresses.
  *
+ * Every operation must give a 32-bit integer, otherwise its result couldn't
+ * be computed precisely. Divisions truncate the result, and comparisons
+ * give -1 (all bits set) when true and 0 when false, so they can be used
+ * as masks.
+ *
  * ---
  * This class is: IMMUTABLE
  */
 export abstract class NumberExpression {
-  abstract readonly type: "number-literal" | "label" | "unary-operation" | "binary-operation";
+  abstract readonly type:
+    | "number-literal"
+    | "label"
+    | "data-size"
+    | "location-counter"
+    | "unary-operation"
+    | "binary-operation";
 
   constructor(readonly position: Position) {}
 
@@ -42,6 +58,14 @@ export abstract class NumberExpression {
     return this.type === "label";
   }
 
+  isDataSize(): this is DataSize {
+    return this.type === "data-size";
+  }
+
+  isLocationCounter(): this is LocationCounter {
+    return this.type === "location-counter";
+  }
+
   isUnaryOperation(): this is UnaryOperation {
     return this.type === "unary-operation";
   }
@@ -64,6 +88,12 @@ export abstract class NumberExpression {
 
   static readonly label = (...params: ConstructorParameters<typeof Label>) => new Label(...params);
 
+  static readonly dataSize = (...params: ConstructorParameters<typeof DataSize>) =>
+    new DataSize(...params);
+
+  static readonly locationCounter = (...params: ConstructorParameters<typeof LocationCounter>) =>
+    new LocationCounter(...params);
+
   static readonly unaryOperation = (...params: ConstructorParameters<typeof UnaryOperation>) =>
     new UnaryOperation(...params);
 
@@ -119,6 +149,11 @@ class Label extends NumberExpression {
       throw new AssemblerError("offset-only-with-data-directive").at(this.position);
     }
 
+    // Only the counts of DUP and the conditions are evaluated before computing the addresses
+    if (type !== "EQU" && !store.addressesComputed) {
+      throw new AssemblerError("label-must-be-constant", this.value).at(this.position);
+    }
+
     return store.getLabelValue(this.value)!;
   }
 
@@ -131,11 +166,70 @@ class Label extends NumberExpression {
   }
 }
 
+/**
+ * `SIZEOF label` (size in bytes) or `LENGTHOF label` (number of values) of a data directive.
+ */
+class DataSize extends NumberExpression {
+  readonly type = "data-size";
+
+  constructor(
+    readonly operator: "SIZEOF" | "LENGTHOF",
+    readonly label: string,
+    position: Position,
+  ) {
+    super(position);
+  }
+
+  evaluate(store: GlobalStore): number {
+    if (!store.labelExists(this.label)) {
+      throw new AssemblerError("label-not-found", this.label).at(this.position);
+    }
+
+    const type = store.getLabelType(this.label)!;
+    if (type !== "DB" && type !== "DW") {
+      throw new AssemblerError("operator-only-with-data-directive", this.operator).at(
+        this.position,
+      );
+    }
+
+    // The sizes are known along with the addresses
+    if (!store.addressesComputed) {
+      throw new AssemblerError("label-must-be-constant", this.label).at(this.position);
+    }
+
+    const { bytes, values } = store.getDataSize(this.label)!;
+    return this.operator === "SIZEOF" ? bytes : values;
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      operator: this.operator,
+      label: this.label,
+    };
+  }
+}
+
+/**
+ * `$`, the address of the current instruction or data directive.
+ */
+class LocationCounter extends NumberExpression {
+  readonly type = "location-counter";
+
+  evaluate(store: GlobalStore): number {
+    const location = store.getLocation();
+    if (location === null) throw new AssemblerError("unknown-location").at(this.position);
+    return location;
+  }
+}
+
+type UnaryOperator = "+" | "-" | "NOT" | "HIGH" | "LOW";
+
 class UnaryOperation extends NumberExpression {
   readonly type = "unary-operation";
 
   constructor(
-    readonly operator: "+" | "-",
+    readonly operator: UnaryOperator,
     readonly right: NumberExpression,
     position: Position,
   ) {
@@ -143,7 +237,24 @@ class UnaryOperation extends NumberExpression {
   }
 
   evaluate(store: GlobalStore): number {
-    return this.operator === "+" ? this.right.evaluate(store) : -this.right.evaluate(store);
+    const right = this.right.evaluate(store);
+
+    switch (this.operator) {
+      case "+":
+        return right;
+      case "-":
+        return checkResult(-right, this.position);
+      case "NOT":
+        return ~checkResult(right, this.position);
+      case "HIGH":
+      case "LOW": {
+        if (!Byte.fits(right, 16)) {
+          throw new AssemblerError("value-out-of-range", right, 16).at(this.right.position);
+        }
+        const word = Byte.fromNumber(right, 16);
+        return this.operator === "HIGH" ? word.high.unsigned : word.low.unsigned;
+      }
+    }
   }
 
   toJSON() {
@@ -155,12 +266,30 @@ class UnaryOperation extends NumberExpression {
   }
 }
 
+type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "MOD"
+  | "SHL"
+  | "SHR"
+  | "AND"
+  | "OR"
+  | "XOR"
+  | "EQ"
+  | "NE"
+  | "LT"
+  | "LE"
+  | "GT"
+  | "GE";
+
 class BinaryOperation extends NumberExpression {
   readonly type = "binary-operation";
 
   constructor(
     readonly left: NumberExpression,
-    readonly operator: "+" | "-" | "*",
+    readonly operator: BinaryOperator,
     readonly right: NumberExpression,
     position: Position,
   ) {
@@ -168,11 +297,50 @@ class BinaryOperation extends NumberExpression {
   }
 
   evaluate(store: GlobalStore): number {
-    return this.operator === "+"
-      ? this.left.evaluate(store) + this.right.evaluate(store)
-      : this.operator === "-"
-        ? this.left.evaluate(store) - this.right.evaluate(store)
-        : this.left.evaluate(store) * this.right.evaluate(store);
+    const left = this.left.evaluate(store);
+    const right = this.right.evaluate(store);
+
+    switch (this.operator) {
+      case "+":
+        return checkResult(left + right, this.position);
+      case "-":
+        return checkResult(left - right, this.position);
+      case "*":
+        return checkResult(left * right, this.position);
+      case "/":
+      case "MOD": {
+        if (right === 0) throw new AssemblerError("division-by-zero").at(this.right.position);
+        const result = this.operator === "/" ? Math.trunc(left / right) : left % right;
+        return checkResult(result, this.position);
+      }
+      case "SHL":
+      case "SHR": {
+        if (right < 0 || right > 31) {
+          throw new AssemblerError("shift-out-of-range", right).at(this.right.position);
+        }
+        // Shifts to the right are logical (the vacated bits are zeros)
+        const result = this.operator === "SHL" ? left * 2 ** right : (left >>> 0) >>> right;
+        return checkResult(result, this.position);
+      }
+      case "AND":
+        return left & right;
+      case "OR":
+        return left | right;
+      case "XOR":
+        return left ^ right;
+      case "EQ":
+        return left === right ? -1 : 0;
+      case "NE":
+        return left !== right ? -1 : 0;
+      case "LT":
+        return left < right ? -1 : 0;
+      case "LE":
+        return left <= right ? -1 : 0;
+      case "GT":
+        return left > right ? -1 : 0;
+      case "GE":
+        return left >= right ? -1 : 0;
+    }
   }
 
   toJSON() {
@@ -184,3 +352,14 @@ class BinaryOperation extends NumberExpression {
     };
   }
 }
+
+/**
+ * Checks that the result of an operation is a 32-bit integer (signed or
+ * unsigned), so it can be computed precisely and used by the bitwise operators.
+ */
+function checkResult(result: number, position: Position): number {
+  if (!Number.isInteger(result) || result < -(2 ** 31) || result >= 2 ** 32) {
+    throw new AssemblerError("expression-overflow", result).at(position);
+  }
+  return result;
+}
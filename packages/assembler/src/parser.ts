@@ -5,11 +5,14 @@ import { AssemblerError } from "./error";
 import type { Token, TokenType } from "./lexer/tokens";
 import { NumberExpression } from "./number-expression";
 import {
+  Condition,
+  ConditionalStatement,
   createDataDirectiveStatement,
   createInstructionStatement,
   DataDirectiveStatement,
   DataDirectiveValue,
   DirectAddressOperand,
+  DupDirectiveValue,
   EndStatement,
   IndirectAddressOperand,
   InstructionStatement,
@@ -22,7 +25,18 @@ import {
   StringDirectiveValue,
   UnassignedDirectiveValue,
 } from "./statements";
-import { DATA_DIRECTIVES, INSTRUCTIONS, Register, REGISTERS } from "./types";
+import {
+  BASE_REGISTERS,
+  BaseRegister,
+  DATA_DIRECTIVES,
+  INDEX_REGISTERS,
+  IndexRegister,
+  INSTRUCTIONS,
+  Register,
+  REGISTERS,
+  STRING_INSTRUCTIONS,
+  STRING_PREFIXES,
+} from "./types";
 
 /**
  * The Parser
@@ -37,7 +51,9 @@ import { DATA_DIRECTIVES, INSTRUCTIONS, Register, REGISTERS } from "./types";
  * - an origin change,
  * - an end statement,
  * - a data directive,
- * - or an instruction.
+ * - an instruction,
+ * - the start or end of a procedure (PROC and ENDP),
+ * - or a conditional block (IF, IFDEF or IFNDEF, an optional ELSE and ENDIF).
  *
  * @see {@link Statement}.
  *
@@ -52,6 +68,13 @@ import { DATA_DIRECTIVES, INSTRUCTIONS, Register, REGISTERS } from "./types";
  * for parsing a specific type of statement, and it calls other functions to parse
  * sub-parts of the statement.
  *
+ * Conditional blocks are parsed as a whole, with the statements of each branch
+ * (@see {@link ConditionalStatement}). They can be nested.
+ *
+ * The labels declared inside a procedure are local to it: they are renamed to
+ * `PROCEDURE.LABEL`, along with the references to them from inside the procedure.
+ * The name of the procedure becomes the label of its first instruction.
+ *
  * The parser is also responsible for validating the syntax of the source code.
  * For example, it will throw an error if it encounters a token that it doesn't
  * expect. More extensive validation is done later (see the index.ts).
@@ -70,23 +93,199 @@ export class Parser {
    */
   private current = 0;
 
+  /**
+   * The procedure being parsed (between PROC and ENDP), if any.
+   */
+  private procedure: {
+    token: Token;
+    name: string;
+    /** Labels declared inside the procedure, with the names they take. */
+    labels: Map<string, string>;
+    /** Whether the first instruction (which takes the name of the procedure) was parsed. */
+    started: boolean;
+  } | null = null;
+
   constructor(tokens: Token[]) {
     this.tokens = tokens;
   }
 
   parse(): Statement[] {
     this.current = 0;
+    this.procedure = null;
+    const statements = this.statements();
+
+    // The statements only stop early at an ELSE or ENDIF
+    const elseToken = this.match("ELSE");
+    if (elseToken) throw new AssemblerError("parser.else-without-if").at(elseToken);
+
+    const endifToken = this.match("ENDIF");
+    if (endifToken) throw new AssemblerError("parser.endif-without-if").at(endifToken);
+
+    if (this.procedure) {
+      const { token, name } = this.procedure;
+      throw new AssemblerError("parser.unterminated-procedure", name).at(token);
+    }
+
+    return statements;
+  }
+
+  /**
+   * Parses the statements until the end of the program, or until the ELSE or
+   * ENDIF of the block being parsed.
+   */
+  private statements(): Statement[] {
     const statements: Statement[] = [];
 
-    while (!this.isAtEnd()) {
+    while (!this.isAtEnd() && !this.check("ELSE", "ENDIF")) {
       if (this.match("EOL")) continue;
+      if (this.procedureDirective()) continue;
 
-      statements.push(this.statement());
+      statements.push(this.conditionalStatement() ?? this.statement());
     }
 
     return statements;
   }
 
+  /**
+   * Parses a conditional block:
+   *
+   * ```vonsim
+   * IF expression   ; or IFDEF label, or IFNDEF label
+   *   ...
+   * ELSE            ; optional
+   *   ...
+   * ENDIF
+   * ```
+   */
+  private conditionalStatement(): ConditionalStatement | null {
+    const ifToken = this.match("IF", "IFDEF", "IFNDEF");
+    if (!ifToken) return null;
+
+    let condition: Condition;
+    let position: Position;
+    if (ifToken.type === "IF") {
+      const expression = this.numberExpression();
+      condition = { type: "IF", expression };
+      position = Position.merge(ifToken.position, expression.position);
+    } else {
+      const labelToken = this.consumeIdentifier(
+        new AssemblerError("parser.expected-label-after-operator", ifToken.type),
+      );
+      condition = { type: ifToken.type, label: this.labelName(labelToken.lexeme) };
+      position = Position.merge(ifToken.position, labelToken.position);
+    }
+    this.endOfStatement();
+
+    const then = this.statements();
+    let otherwise: Statement[] = [];
+
+    if (this.match("ELSE")) {
+      this.endOfStatement();
+      otherwise = this.statements();
+
+      const elseToken = this.match("ELSE");
+      if (elseToken) throw new AssemblerError("parser.duplicated-else").at(elseToken);
+    }
+
+    if (!this.match("ENDIF")) {
+      throw new AssemblerError("parser.unterminated-conditional", ifToken.type).at(ifToken);
+    }
+    this.endOfStatement();
+
+    return new ConditionalStatement(condition, then, otherwise, position);
+  }
+
+  /**
+   * Parses the start (`name PROC`) or the end (`ENDP` or `name ENDP`) of a procedure.
+   * @returns Whether a procedure directive was parsed.
+   */
+  private procedureDirective(): boolean {
+    if (this.check("IDENTIFIER") && this.checkNext("PROC")) {
+      const nameToken = this.advance();
+      const procToken = this.advance();
+      if (this.procedure) {
+        throw new AssemblerError("parser.nested-procedure").at(procToken);
+      }
+      this.endOfStatement();
+
+      const name = nameToken.lexeme.toUpperCase();
+      const labels = this.procedureLabels(name);
+      this.procedure = { token: nameToken, name, labels, started: false };
+      return true;
+    }
+
+    if (this.check("ENDP") || (this.check("IDENTIFIER") && this.checkNext("ENDP"))) {
+      const nameToken = this.match("IDENTIFIER");
+      const endpToken = this.advance();
+      if (!this.procedure) {
+        throw new AssemblerError("parser.endp-without-proc").at(endpToken);
+      }
+
+      const name = nameToken?.lexeme.toUpperCase();
+      if (name && name !== this.procedure.name) {
+        throw new AssemblerError("parser.endp-name-mismatch", this.procedure.name, name).at(
+          nameToken!,
+        );
+      }
+      if (!this.procedure.started) {
+        const { token, name } = this.procedure;
+        throw new AssemblerError("parser.procedure-must-start-with-instruction", name).at(token);
+      }
+      this.endOfStatement();
+
+      this.procedure = null;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Looks ahead for the labels declared in the procedure that starts at the
+   * current token, until its ENDP.
+   * @param procedure The name of the procedure.
+   * @returns The names of the labels (in uppercase), mapped to the names they
+   * take: `PROCEDURE.LABEL`, or the name of the procedure for the label of the
+   * first instruction (since they point to the same place).
+   */
+  private procedureLabels(procedure: string): Map<string, string> {
+    const labels = new Map<string, string>();
+    let first = true;
+
+    for (let i = this.current; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === "ENDP" || token.type === "EOF") break;
+      if (token.type === "EOL") continue;
+
+      if (token.type === "LABEL") {
+        const label = token.lexeme.slice(0, -1).toUpperCase();
+        labels.set(label, first ? procedure : `${procedure}.${label}`);
+      }
+
+      // Labels of data directives (like `name DB 1`) are at the start of the line
+      const atStartOfLine = this.tokens[i - 1].type === "EOL";
+      const next = this.tokens[i + 1];
+      const identifier = token.type === "IDENTIFIER" || INSTRUCTIONS.includes(token.type);
+      if (identifier && atStartOfLine && DATA_DIRECTIVES.includes(next.type)) {
+        const label = token.lexeme.toUpperCase();
+        labels.set(label, `${procedure}.${label}`);
+      }
+
+      first = false;
+    }
+
+    return labels;
+  }
+
+  /**
+   * Returns the name of a label, in uppercase. Inside a procedure, the labels
+   * declared in it are renamed (@see {@link Parser.procedureLabels}).
+   */
+  private labelName(label: string): string {
+    label = label.toUpperCase();
+    return this.procedure?.labels.get(label) ?? label;
+  }
+
   private statement(): Statement {
     const statement =
       this.originChangeStatement() ??
@@ -133,7 +332,9 @@ export class Parser {
   }
 
   private dataDirectiveStatement(): DataDirectiveStatement | null {
-    const labelToken = this.match("IDENTIFIER");
+    const labelToken =
+      this.match("IDENTIFIER") ??
+      (this.checkNext(...DATA_DIRECTIVES) ? this.match(...INSTRUCTIONS) : null);
     const directiveToken = this.match(...DATA_DIRECTIVES);
 
     // Note: the code above will consume the label token if it exists, so it
@@ -145,8 +346,13 @@ export class Parser {
 
     if (!directiveToken) return null;
 
+    if (this.procedure && !this.procedure.started) {
+      const { token, name } = this.procedure;
+      throw new AssemblerError("parser.procedure-must-start-with-instruction", name).at(token);
+    }
+
     // Labels always uppercase
-    const label = labelToken?.lexeme.toUpperCase() || null;
+    const label = labelToken ? this.labelName(labelToken.lexeme) : null;
 
     // There must be at least one value
     const values: DataDirectiveValue[] = [this.dataDirectiveValue()];
@@ -168,7 +374,30 @@ export class Parser {
       return new UnassignedDirectiveValue(questionMarkToken.position);
     }
 
-    return new NumberExpressionDirectiveValue(this.numberExpression());
+    const expression = this.numberExpression();
+
+    // n DUP(value, ...)
+    const dupToken = this.match("DUP");
+    if (dupToken) {
+      this.consume(
+        "LEFT_PAREN",
+        new AssemblerError("parser.expected-literal-after-literal", "(", "DUP"),
+      );
+      const values: DataDirectiveValue[] = [this.dataDirectiveValue()];
+      while (this.match("COMMA")) values.push(this.dataDirectiveValue());
+      const closeToken = this.consume(
+        "RIGHT_PAREN",
+        new AssemblerError("parser.unclosed-parenthesis"),
+      );
+
+      return new DupDirectiveValue(
+        expression,
+        values,
+        Position.merge(expression.position, closeToken.position),
+      );
+    }
+
+    return new NumberExpressionDirectiveValue(expression);
   }
 
   private instructionStatement(): InstructionStatement | null {
@@ -176,11 +405,19 @@ export class Parser {
 
     while (this.match("EOL")) continue; // Skip empty lines between labels and instructions
 
-    const instructionToken = this.match(...INSTRUCTIONS);
+    const prefixToken = this.match(...STRING_PREFIXES);
+    const instructionToken = prefixToken
+      ? this.match(...STRING_INSTRUCTIONS)
+      : this.match(...INSTRUCTIONS);
 
     // Note: the code above will consume the label token if it exists, so it
     // handles the case where there is a label but no directive and vice versa.
 
+    if (prefixToken && !instructionToken) {
+      const next = this.peek();
+      throw new AssemblerError("parser.expected-string-instruction", prefixToken, next).at(next);
+    }
+
     if (labelToken && !instructionToken) {
       const next = this.peek();
       throw new AssemblerError("parser.expected-instruction-after-label", next).at(next);
@@ -189,11 +426,17 @@ export class Parser {
     if (!instructionToken) return null;
 
     // Label is the lexeme without the colon. Always uppercase
-    const label = labelToken?.lexeme.toUpperCase().slice(0, -1) || null;
+    let label = labelToken ? this.labelName(labelToken.lexeme.slice(0, -1)) : null;
+
+    // The first instruction of a procedure takes its name
+    if (this.procedure && !this.procedure.started) {
+      label = this.procedure.name;
+      this.procedure.started = true;
+    }
 
     // Check for zeroary instructions
     if (this.isAtEndOfStatement()) {
-      return createInstructionStatement(instructionToken, [], label);
+      return createInstructionStatement(instructionToken, [], label, prefixToken);
     }
 
     const operands: Operand[] = [this.instructionOperand()];
@@ -201,7 +444,7 @@ export class Parser {
     while (this.match("COMMA")) operands.push(this.instructionOperand());
 
     this.endOfStatement();
-    return createInstructionStatement(instructionToken, operands, label);
+    return createInstructionStatement(instructionToken, operands, label, prefixToken);
   }
 
   private instructionOperand(): Operand {
@@ -225,16 +468,22 @@ export class Parser {
       const start = this.previous();
 
       if (this.check(...REGISTERS)) {
-        this.consume("BX", new AssemblerError("parser.indirect-addressing-must-be-bx"));
+        const { base, index } = this.indirectAddressRegisters();
         const offset = this.check("RIGHT_BRACKET") ? null : this.numberExpression();
         const end = this.consume(
           "RIGHT_BRACKET",
-          new AssemblerError("parser.expected-literal-after-literal", "]", "BX"),
+          new AssemblerError(
+            "parser.expected-literal-after-literal",
+            "]",
+            [base, index].filter(Boolean).join("+"),
+          ),
         );
 
         return new IndirectAddressOperand(
           sizeToken?.type,
           Position.merge(sizeToken?.position, start.position, end.position),
+          base,
+          index,
           offset,
         );
       } else {
@@ -259,6 +508,35 @@ export class Parser {
     return new NumberExpressionOperand(this.numberExpression());
   }
 
+  /**
+   * Parses the registers of an indirect address, right after the left bracket.
+   * They can be a base register (BX or BP), an index register (SI or DI),
+   * or a base register plus an index register (like `[BX+SI]`).
+   */
+  private indirectAddressRegisters(): { base: BaseRegister | null; index: IndexRegister | null } {
+    const base = this.match(...BASE_REGISTERS);
+    let index = base ? null : this.match(...INDEX_REGISTERS);
+    if (!base && !index) {
+      throw new AssemblerError("parser.invalid-indirect-addressing").at(this.peek());
+    }
+
+    if (base && this.check("PLUS") && this.checkNext(...REGISTERS)) {
+      this.advance(); // Consume the plus sign
+      index = this.consume(
+        [...INDEX_REGISTERS],
+        new AssemblerError("parser.invalid-indirect-addressing"),
+      );
+    }
+
+    // Any other register is invalid, like in [SI+BX] or [BX+SI+DI]
+    if (this.check("PLUS", "MINUS") && this.checkNext(...REGISTERS)) {
+      this.advance();
+      throw new AssemblerError("parser.invalid-indirect-addressing").at(this.peek());
+    }
+
+    return { base: base?.type ?? null, index: index?.type ?? null };
+  }
+
   // #=========================================================================#
   // # Helpers                                                                 #
   // #=========================================================================#
@@ -277,6 +555,16 @@ export class Parser {
     return false;
   }
 
+  /**
+   * Like {@link Parser.check}, but for the token after the current one.
+   */
+  private checkNext(...types: TokenType[]) {
+    const next = this.tokens[this.current + 1];
+    if (!next) return false;
+
+    return types.includes(next.type);
+  }
+
   private consume<T extends TokenType>(
     type: T | T[],
     error?: AssemblerError<any>,
@@ -290,6 +578,24 @@ export class Parser {
     throw error.at(this.peek());
   }
 
+  /**
+   * Matches an identifier. Labels can be named like instructions (like `loop:`,
+   * see {@link Scanner}), so where a label is expected, the name of an
+   * instruction is taken as an identifier too.
+   */
+  private matchIdentifier() {
+    return this.match("IDENTIFIER", ...INSTRUCTIONS);
+  }
+
+  /**
+   * Like {@link Parser.matchIdentifier}, but throws the given error if there isn't one.
+   */
+  private consumeIdentifier(error: AssemblerError<any>) {
+    const token = this.matchIdentifier();
+    if (token) return token;
+    throw error.at(this.peek());
+  }
+
   private endOfStatement() {
     if (this.isAtEnd()) return;
     if (this.check("EOL")) return this.advance();
@@ -356,8 +662,12 @@ export class Parser {
       return expression;
     }
 
+    if (this.match("DOLLAR")) {
+      return NumberExpression.locationCounter(this.previous().position);
+    }
+
     const offsetToken = this.match("OFFSET");
-    const identifierToken = this.match("IDENTIFIER");
+    const identifierToken = this.matchIdentifier();
 
     if (offsetToken && !identifierToken) {
       throw new AssemblerError("parser.expected-label-after-offset").at(this.peek());
@@ -369,7 +679,7 @@ export class Parser {
     }
 
     return NumberExpression.label(
-      identifierToken.lexeme.toUpperCase(),
+      this.labelName(identifierToken.lexeme),
       offsetToken !== null,
       Position.merge(offsetToken?.position, identifierToken.position),
     );
@@ -392,17 +702,46 @@ export class Parser {
       );
     }
 
+    const highLowToken = this.match("HIGH", "LOW");
+    if (highLowToken) {
+      const right = this.unaryNE();
+      return NumberExpression.unaryOperation(
+        highLowToken.type,
+        right,
+        Position.merge(highLowToken.position, right.position),
+      );
+    }
+
+    const sizeToken = this.match("SIZEOF", "LENGTHOF");
+    if (sizeToken) {
+      const identifierToken = this.consumeIdentifier(
+        new AssemblerError("parser.expected-label-after-operator", sizeToken.type),
+      );
+      return NumberExpression.dataSize(
+        sizeToken.type,
+        this.labelName(identifierToken.lexeme),
+        Position.merge(sizeToken.position, identifierToken.position),
+      );
+    }
+
     return this.primaryNE();
   }
 
   private factorNE(): NumberExpression {
     let expression = this.unaryNE();
 
-    while (this.match("ASTERISK")) {
+    for (;;) {
+      const operatorToken = this.match("ASTERISK", "SLASH", "MOD", "SHL", "SHR");
+      if (!operatorToken) break;
+
       const right = this.unaryNE();
       expression = NumberExpression.binaryOperation(
         expression,
-        "*",
+        operatorToken.type === "ASTERISK"
+          ? "*"
+          : operatorToken.type === "SLASH"
+            ? "/"
+            : operatorToken.type,
         right,
         Position.merge(expression.position, right.position),
       );
@@ -428,7 +767,86 @@ export class Parser {
     return expression;
   }
 
+  private comparisonNE(): NumberExpression {
+    let expression = this.termNE();
+
+    for (;;) {
+      const operatorToken = this.match("EQ", "NE", "LT", "LE", "GT", "GE");
+      if (!operatorToken) break;
+
+      const right = this.termNE();
+      expression = NumberExpression.binaryOperation(
+        expression,
+        operatorToken.type,
+        right,
+        Position.merge(expression.position, right.position),
+      );
+    }
+
+    return expression;
+  }
+
+  private notNE(): NumberExpression {
+    if (this.match("NOT")) {
+      const operatorToken = this.previous();
+      const right = this.notNE();
+      return NumberExpression.unaryOperation(
+        "NOT",
+        right,
+        Position.merge(operatorToken.position, right.position),
+      );
+    }
+
+    return this.comparisonNE();
+  }
+
+  private andNE(): NumberExpression {
+    let expression = this.notNE();
+
+    while (this.match("AND")) {
+      const right = this.notNE();
+      expression = NumberExpression.binaryOperation(
+        expression,
+        "AND",
+        right,
+        Position.merge(expression.position, right.position),
+      );
+    }
+
+    return expression;
+  }
+
+  private orNE(): NumberExpression {
+    let expression = this.andNE();
+
+    for (;;) {
+      const operatorToken = this.match("OR", "XOR");
+      if (!operatorToken) break;
+
+      const right = this.andNE();
+      expression = NumberExpression.binaryOperation(
+        expression,
+        operatorToken.type,
+        right,
+        Position.merge(expression.position, right.position),
+      );
+    }
+
+    return expression;
+  }
+
+  /**
+   * Parses a number expression. From the lowest to the highest precedence,
+   * the operators are:
+   * - OR, XOR
+   * - AND
+   * - NOT
+   * - EQ, NE, LT, LE, GT, GE
+   * - +, - (binary)
+   * - *, /, MOD, SHL, SHR
+   * - +, - (unary), HIGH, LOW, SIZEOF, LENGTHOF
+   */
   private numberExpression(): NumberExpression {
-    return this.termNE();
+    return this.orNE();
   }
 }
@@ -0,0 +1,384 @@
+import { Position } from "@vonsim/common/position";
+
+import { AssemblerError } from "./error";
+import { Scanner } from "./lexer/scanner";
+import { Token } from "./lexer/tokens";
+import { DATA_DIRECTIVES } from "./types";
+
+/**
+ * Reads a file included with `INCLUDE "file"`.
+ * @param file The name of the file, as written in the source code.
+ * @returns The source code of the file, or `null` if it doesn't exist.
+ */
+export type IncludeResolver = (file: string) => string | null;
+
+type Macro = {
+  name: string;
+  /**
+   * Names of the parameters, in uppercase.
+   */
+  parameters: string[];
+  /**
+   * Names of the local labels (declared with LOCAL), in uppercase.
+   */
+  locals: string[];
+  /**
+   * Lines of the body, each one ending with its EOL token.
+   */
+  body: Token[][];
+};
+
+/**
+ * The Preprocessor
+ *
+ * Is responsible for taking the list of tokens of the source code (@see {@link Scanner})
+ * and expanding the macros and includes in it, so that the parser only sees
+ * plain statements.
+ *
+ * `INCLUDE "file"` is replaced by the contents of the file, which are read
+ * with the given {@link IncludeResolver}. The tokens of the included file keep
+ * the name of the file in their positions (@see {@link Position.file}).
+ *
+ * A macro is defined with
+ *
+ * ```asm
+ * name MACRO param1, param2
+ *      LOCAL label
+ *      ...
+ *      ENDM
+ * ```
+ *
+ * and used by writing its name followed by the arguments, separated by commas.
+ * Each use copies the body of the macro, replacing the parameters with the
+ * tokens of the arguments. Local labels are renamed on each expansion, so a
+ * macro can be used many times without duplicating labels. Macros must be
+ * defined before they're used, and can use other macros (but not themselves).
+ *
+ * The tokens of an expansion keep their position in the body of the macro,
+ * along with the position of the macro call (@see {@link Position.expandedFrom}),
+ * so errors can be mapped back to both places.
+ *
+ * ---
+ * This class is: MUTABLE
+ */
+export class Preprocessor {
+  /**
+   * Prevents the preprocessor from being used more than once.
+   */
+  private processed = false;
+
+  /**
+   * Macros defined so far, by name (in uppercase).
+   */
+  private macros = new Map<string, Macro>();
+
+  /**
+   * Labels declared so far (in uppercase), which can't be the name of a macro.
+   */
+  private labels = new Set<string>();
+
+  /**
+   * Number of expansions so far. Used to give unique names to local labels.
+   */
+  private expansions = 0;
+
+  /**
+   * @param tokens The tokens of the main program.
+   * @param resolveInclude Reads the included files. If not given, INCLUDE can't be used.
+   */
+  constructor(
+    private tokens: Token[],
+    private resolveInclude: IncludeResolver | null = null,
+  ) {}
+
+  process(): Token[] {
+    if (this.processed) throw new Error("Preprocessor has already been used.");
+    else this.processed = true;
+
+    const lines = this.includeFiles(splitLines(this.tokens), []);
+    const output: Token[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line[0].type === "ENDM") {
+        throw new AssemblerError("macro.endm-without-macro").at(line[0]);
+      }
+
+      if (line[0].type === "LOCAL") {
+        throw new AssemblerError("macro.local-outside-macro").at(line[0]);
+      }
+
+      if (line[0].type === "MACRO") {
+        throw new AssemblerError("macro.expected-name").at(line[0]);
+      }
+
+      if (line[0].type === "IDENTIFIER" && line[1]?.type === "MACRO") {
+        i = this.macroDefinition(lines, i);
+        continue;
+      }
+
+      output.push(...this.expandLine(line, []));
+    }
+
+    // The EOF may have been left out if the last line was a macro
+    const eof = this.tokens[this.tokens.length - 1];
+    if (output.at(-1) !== eof) output.push(eof);
+
+    return output;
+  }
+
+  /**
+   * Replaces the INCLUDE directives in the given lines with the lines of the
+   * included files (which can include other files too).
+   * @param stack Files being included, to detect circular includes.
+   */
+  private includeFiles(lines: Token[][], stack: string[]): Token[][] {
+    return lines.flatMap(line => {
+      if (line[0].type !== "INCLUDE") return [line];
+
+      const fileToken = line[1];
+      if (fileToken.type !== "STRING") {
+        throw new AssemblerError("include.expected-file").at(fileToken);
+      }
+      if (!isEndOfLine(line[2])) {
+        throw new AssemblerError("parser.expected-eos").at(line[2]);
+      }
+
+      const file = fileToken.lexeme.slice(1, -1);
+      if (stack.includes(file)) {
+        throw new AssemblerError("include.circular", file).at(fileToken);
+      }
+
+      const source = this.resolveInclude?.(file) ?? null;
+      if (source === null) throw new AssemblerError("include.not-found", file).at(fileToken);
+
+      // The EOF of the included file ends its last line
+      const tokens = new Scanner(source, file).scanTokens();
+      const eof = tokens.pop()!;
+      tokens.push(new Token("EOL", "", eof.position));
+
+      return this.includeFiles(splitLines(tokens), [...stack, file]);
+    });
+  }
+
+  /**
+   * Reads the definition of a macro, starting at the given line.
+   * @returns The index of the line with the ENDM.
+   */
+  private macroDefinition(lines: Token[][], start: number): number {
+    const [nameToken, macroToken, ...header] = lines[start];
+    const name = nameToken.lexeme.toUpperCase();
+
+    if (this.macros.has(name)) {
+      throw new AssemblerError("macro.already-defined", name).at(nameToken);
+    }
+    if (this.labels.has(name)) {
+      throw new AssemblerError("macro.label-collision", name).at(nameToken);
+    }
+
+    const parameters = this.identifierList(header, macroToken);
+    const macro: Macro = { name, parameters, locals: [], body: [] };
+
+    for (let i = start + 1; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line[0].type === "ENDM") {
+        if (!isEndOfLine(line[1])) {
+          throw new AssemblerError("parser.expected-eos").at(line[1]);
+        }
+        this.macros.set(name, macro);
+        return i;
+      }
+
+      const nested = line.find(token => token.type === "MACRO");
+      if (nested) throw new AssemblerError("macro.nested-definition").at(nested);
+
+      if (line[0].type === "LOCAL") {
+        macro.locals.push(...this.identifierList(line.slice(1), line[0]));
+        continue;
+      }
+
+      macro.body.push(line);
+    }
+
+    throw new AssemblerError("macro.unterminated", name).at(nameToken);
+  }
+
+  /**
+   * Parses a list of identifiers separated by commas (like the parameters of
+   * a macro), until the end of the line.
+   * @param after The token before the list, to report errors.
+   * @returns The identifiers, in uppercase.
+   */
+  private identifierList(tokens: Token[], after: Token): string[] {
+    const identifiers: string[] = [];
+
+    for (let i = 0; !isEndOfLine(tokens[i]); i += 2) {
+      const identifier = tokens[i];
+      if (identifier.type !== "IDENTIFIER") {
+        throw new AssemblerError("macro.expected-identifier").at(identifier);
+      }
+
+      const name = identifier.lexeme.toUpperCase();
+      if (identifiers.includes(name)) {
+        throw new AssemblerError("macro.duplicated-identifier", name).at(identifier);
+      }
+      identifiers.push(name);
+
+      const separator = tokens[i + 1];
+      if (isEndOfLine(separator)) break;
+      if (separator.type !== "COMMA") {
+        throw new AssemblerError("parser.expected-eos").at(separator);
+      }
+      if (isEndOfLine(tokens[i + 2])) {
+        throw new AssemblerError("macro.expected-identifier").at(tokens[i + 2]);
+      }
+    }
+
+    // LOCAL must declare at least one label
+    if (identifiers.length === 0 && after.type === "LOCAL") {
+      throw new AssemblerError("macro.expected-identifier").at(after);
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * If the line is a macro call, returns its expansion. Otherwise, returns the line as is.
+   * @param stack Names of the macros being expanded, to detect recursion.
+   */
+  private expandLine(line: Token[], stack: string[]): Token[] {
+    // The macro call may have a label, which is kept before the expansion
+    const labels = line[0].type === "LABEL" ? line.slice(0, 1) : [];
+    const nameToken = line[labels.length];
+
+    // Both `name: ...` and `name DB ...` declare a label, so a data directive
+    // after the name means that it isn't a macro call
+    const dataLabel = nameToken.type === "IDENTIFIER" && DATA_DIRECTIVES.includes(line[1]?.type);
+    if (labels.length > 0) this.declareLabel(labels[0]);
+    if (dataLabel) this.declareLabel(nameToken);
+
+    if (nameToken.type !== "IDENTIFIER" || dataLabel) return line;
+
+    const macro = this.macros.get(nameToken.lexeme.toUpperCase());
+    if (!macro) return line;
+
+    if (stack.includes(macro.name)) {
+      throw new AssemblerError("macro.recursive", macro.name).at(nameToken);
+    }
+
+    const args = this.macroArguments(line.slice(labels.length + 1));
+    if (args.length !== macro.parameters.length) {
+      throw new AssemblerError(
+        "macro.wrong-argument-count",
+        macro.name,
+        macro.parameters.length,
+        args.length,
+      ).at(nameToken);
+    }
+
+    const call = Position.merge(...line.slice(labels.length, -1).map(token => token.position));
+    const id = ++this.expansions;
+    const output = [...labels];
+
+    for (const bodyLine of macro.body) {
+      const expanded = bodyLine.flatMap(token => {
+        const { start, end, file } = token.position;
+        const position = new Position(start, end, { expandedFrom: call, file });
+
+        if (token.type === "IDENTIFIER") {
+          const name = token.lexeme.toUpperCase();
+
+          // Parameters are replaced by the arguments, which take their place
+          const parameter = macro.parameters.indexOf(name);
+          if (parameter !== -1) {
+            return args[parameter].map(arg => new Token(arg.type, arg.lexeme, position));
+          }
+
+          // Local labels get a name that can't be written in the source code
+          if (macro.locals.includes(name)) {
+            return [new Token("IDENTIFIER", `${name}??${id}`, position)];
+          }
+        }
+
+        if (token.type === "LABEL") {
+          const name = token.lexeme.slice(0, -1).toUpperCase();
+          if (macro.locals.includes(name)) {
+            return [new Token("LABEL", `${name}??${id}:`, position)];
+          }
+        }
+
+        return [new Token(token.type, token.lexeme, position)];
+      });
+
+      output.push(...this.expandLine(expanded, [...stack, macro.name]));
+    }
+
+    return output;
+  }
+
+  /**
+   * Records a label declared in the program.
+   * @throws {AssemblerError<"macro.label-collision">} If there's a macro with the same name.
+   */
+  private declareLabel(token: Token) {
+    const name = token.lexeme.replace(/:$/, "").toUpperCase();
+    if (this.macros.has(name)) {
+      throw new AssemblerError("macro.label-collision", name).at(token);
+    }
+    this.labels.add(name);
+  }
+
+  /**
+   * Splits the arguments of a macro call, which are separated by commas.
+   * Commas inside parentheses or brackets don't separate arguments.
+   */
+  private macroArguments(tokens: Token[]): Token[][] {
+    const args: Token[][] = [];
+    let current: Token[] = [];
+    let depth = 0;
+
+    for (const token of tokens) {
+      if ((token.type === "COMMA" && depth === 0) || isEndOfLine(token)) {
+        if (current.length === 0) {
+          if (isEndOfLine(token) && args.length === 0) break; // No arguments
+          throw new AssemblerError("parser.expected-argument").at(token);
+        }
+        args.push(current);
+        current = [];
+        if (isEndOfLine(token)) break;
+        continue;
+      }
+
+      if (token.type === "LEFT_PAREN" || token.type === "LEFT_BRACKET") depth++;
+      if (token.type === "RIGHT_PAREN" || token.type === "RIGHT_BRACKET") depth--;
+      current.push(token);
+    }
+
+    return args;
+  }
+}
+
+/**
+ * Splits the tokens into lines, each one ending with its EOL token
+ * (or with the EOF, the last one).
+ */
+function splitLines(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [];
+  let line: Token[] = [];
+
+  for (const token of tokens) {
+    line.push(token);
+    if (isEndOfLine(token)) {
+      lines.push(line);
+      line = [];
+    }
+  }
+
+  return lines;
+}
+
+function isEndOfLine(token: Token): boolean {
+  return token.type === "EOL" || token.type === "EOF";
+}
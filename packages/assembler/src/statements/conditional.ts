@@ -0,0 +1,92 @@
+import type { Position } from "@vonsim/common/position";
+
+import type { GlobalStore } from "../global-store";
+import type { NumberExpression } from "../number-expression";
+import type { StatementType } from "./statement";
+import { Statement } from "./statement";
+
+/**
+ * The condition of a {@link ConditionalStatement}:
+ * - `IF expression`: holds if the expression isn't zero.
+ * - `IFDEF label`: holds if the label has been declared before.
+ * - `IFNDEF label`: holds if the label hasn't been declared before.
+ */
+export type Condition =
+  | { type: "IF"; expression: NumberExpression }
+  | { type: "IFDEF" | "IFNDEF"; label: string };
+
+/**
+ * A conditional block.
+ *
+ * ```vonsim
+ * IF condition
+ *   ; Assembled if the condition holds
+ * ELSE
+ *   ; Assembled otherwise
+ * ENDIF
+ * ```
+ *
+ * The `ELSE` branch is optional, and blocks can be nested.
+ *
+ * The condition is evaluated while loading the statements (see {@link GlobalStore.loadStatements}),
+ * before computing the addresses. That's why it can only use the constants and labels declared
+ * before the block. Only the statements of the chosen branch are assembled.
+ *
+ * ---
+ * This class is: MUTABLE
+ */
+export class ConditionalStatement extends Statement {
+  readonly type = "conditional";
+  #holds: boolean | null = null;
+
+  constructor(
+    readonly condition: Condition,
+    readonly then: StatementType[],
+    readonly otherwise: StatementType[],
+    position: Position,
+  ) {
+    super(position);
+  }
+
+  toJSON() {
+    const { condition } = this;
+    return {
+      ...super.toJSON(),
+      condition:
+        condition.type === "IF"
+          ? { type: condition.type, expression: condition.expression.toJSON() }
+          : condition,
+      then: this.then.map((statement): unknown => statement.toJSON()),
+      otherwise: this.otherwise.map((statement): unknown => statement.toJSON()),
+    };
+  }
+
+  /**
+   * Evaluates the condition.
+   * @returns The statements of the chosen branch.
+   */
+  evaluateCondition(store: GlobalStore): StatementType[] {
+    if (this.#holds !== null) throw new Error("Condition already evaluated");
+
+    if (this.condition.type === "IF") {
+      this.#holds = this.condition.expression.evaluate(store) !== 0;
+    } else {
+      const defined = store.labelExists(this.condition.label);
+      this.#holds = this.condition.type === "IFDEF" ? defined : !defined;
+    }
+
+    return this.#holds ? this.then : this.otherwise;
+  }
+
+  /**
+   * @returns The statements of the chosen branch, with the ones of the nested
+   *          blocks in place of them.
+   */
+  getStatements(): Exclude<StatementType, ConditionalStatement>[] {
+    if (this.#holds === null) throw new Error("Condition not evaluated");
+
+    return (this.#holds ? this.then : this.otherwise).flatMap(statement =>
+      statement.isConditional() ? statement.getStatements() : [statement],
+    );
+  }
+}
@@ -34,6 +34,7 @@ export class Constant extends DataDirectiveStatement {
   #status: "not-processed" | "processing" | "processed" = "not-processed";
   #initialValue: NumberExpression | null = null;
   #value: number | null = null;
+  #location: number | null = null;
 
   toJSON() {
     return {
@@ -54,6 +55,9 @@ export class Constant extends DataDirectiveStatement {
     }
 
     const value = this.values[0];
+    if (value.type === "dup") {
+      throw new AssemblerError("constant-must-have-one-value").at(value);
+    }
     if (value.type === "string") {
       throw new AssemblerError("cannot-accept-strings", "EQU").at(value);
     }
@@ -63,6 +67,14 @@ export class Constant extends DataDirectiveStatement {
     this.#initialValue = value.value;
   }
 
+  /**
+   * Sets the value of `$` for this constant: the address where the next
+   * instruction or data directive would be placed.
+   */
+  setLocation(location: number | null) {
+    this.#location = location;
+  }
+
   evaluateExpressions(store: GlobalStore): number {
     if (!this.#initialValue) throw new Error("Constant not validated");
 
@@ -74,7 +86,8 @@ export class Constant extends DataDirectiveStatement {
     }
 
     this.#status = "processed";
-    const result = this.#initialValue.evaluate(store);
+    const initialValue = this.#initialValue;
+    const result = store.withLocation(this.#location, () => initialValue.evaluate(store));
     this.#status = "processed";
     this.#value = result;
     return result;
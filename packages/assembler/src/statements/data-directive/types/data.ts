@@ -14,6 +14,19 @@ export const unassigned = Symbol("unassigned");
 type Unassigned = typeof unassigned;
 type DataDirective = Exclude<AllDataDirectives, "EQU">;
 
+/**
+ * Values repeated with DUP. The count is evaluated before the values, since
+ * it's needed to compute the addresses (see {@link Data.evaluateCounts}).
+ */
+type Repetition<T> = {
+  count: NumberExpression;
+  times: number | null;
+  values: (T | Repetition<T>)[];
+};
+
+type InitialValue = NumberExpression | Unassigned;
+type Value = AnyByte | Unassigned;
+
 /**
  * A data directive.
  *
@@ -30,6 +43,7 @@ type DataDirective = Exclude<AllDataDirectives, "EQU">;
  * DB accepts numbers (signed or unsigned), strings and unassigned bytes.
  * DW accepts numbers (signed or unsigned) and unassigned bytes.
  * Unassigned bytes are used to reserve space without initializing it.
+ * Any of them can be repeated with `n DUP(value, ...)`.
  *
  * Also, they can have labels, which can be used to reference them. These labels
  * can be can be used anywhere in the program.
@@ -42,13 +56,18 @@ type DataDirective = Exclude<AllDataDirectives, "EQU">;
  * labels and constants have been created and mapped to their labels (see {@link GlobalStore}).
  * Then, we can start evaluating and get the actual values.
  *
+ * Repetitions are kept as such (not copied `n` times), so each value is
+ * evaluated once and large counts don't slow down the assembler. They're
+ * only expanded when the values are read (see {@link Data.getValues}).
+ *
  * ---
  * This class is: MUTABLE
  */
 export class Data extends DataDirectiveStatement {
   readonly size: ByteSize;
-  #initialValues: (NumberExpression | Unassigned)[] | null = null;
-  #values: (AnyByte | Unassigned)[] | null = null;
+  #initialValues: (InitialValue | Repetition<InitialValue>)[] | null = null;
+  #values: (Value | Repetition<Value>)[] | null = null;
+  #expandedValues: Value[] | null = null;
 
   constructor(
     readonly directive: DataDirective,
@@ -66,21 +85,32 @@ export class Data extends DataDirectiveStatement {
   get length(): number {
     if (!this.#initialValues) throw new Error("Data directive not validated");
 
-    return this.#initialValues.length * (this.size / 8);
+    return countValues(this.#initialValues) * (this.size / 8);
   }
 
-  getValues(): (AnyByte | Unassigned)[] {
+  getValues(): Value[] {
     if (!this.#values) throw new Error("Data directive not evaluated");
 
-    return this.#values;
+    this.#expandedValues ??= expandValues(this.#values);
+    return this.#expandedValues;
   }
 
   toJSON() {
+    const valueToJSON = (v: InitialValue | Value | Repetition<InitialValue | Value>): unknown => {
+      if (v === unassigned) return "?";
+      if (isRepetition(v)) {
+        return { dup: v.times ?? v.count.toJSON(), values: v.values.map(valueToJSON) };
+      }
+      return v.toJSON();
+    };
+
     return {
       ...super.toJSON(),
-      values: (this.#values ?? this.#initialValues ?? this.values).map(v =>
-        v === unassigned ? "?" : v.toJSON(),
-      ),
+      values: this.#values
+        ? this.#values.map(valueToJSON)
+        : this.#initialValues
+          ? this.#initialValues.map(valueToJSON)
+          : this.values.map(v => v.toJSON()),
     };
   }
 
@@ -90,11 +120,21 @@ export class Data extends DataDirectiveStatement {
   validate() {
     if (this.#initialValues) throw new Error("Data directive already validated");
 
-    this.#initialValues = [];
+    this.#initialValues = this.validateValues(this.values);
+
+    if (this.#initialValues.length === 0) {
+      throw new AssemblerError("must-have-one-or-more-values", this.directive).at(this);
+    }
+  }
+
+  private validateValues(
+    values: DataDirectiveValue[],
+  ): (InitialValue | Repetition<InitialValue>)[] {
+    const initialValues: (InitialValue | Repetition<InitialValue>)[] = [];
 
-    for (const value of this.values) {
+    for (const value of values) {
       if (value.isUnassigned()) {
-        this.#initialValues.push(unassigned);
+        initialValues.push(unassigned);
       } else if (value.isString()) {
         if (this.directive !== "DB") {
           throw new AssemblerError("cannot-accept-strings", this.directive).at(value);
@@ -105,18 +145,46 @@ export class Data extends DataDirectiveStatement {
           const decimal = charToDecimal(str[i]);
           if (decimal === null) throw new Error("Invalid character, should not happen");
 
-          const position = new Position(value.position.start + i, value.position.start + i + 1);
+          const { start, expandedFrom, file } = value.position;
+          const position = new Position(start + i, start + i + 1, { expandedFrom, file });
           const expr = NumberExpression.numberLiteral(decimal, position);
-          this.#initialValues.push(expr);
+          initialValues.push(expr);
         }
+      } else if (value.isDup()) {
+        initialValues.push({
+          count: value.count,
+          times: null,
+          values: this.validateValues(value.values),
+        });
       } else {
-        this.#initialValues.push(value.value);
+        initialValues.push(value.value);
       }
     }
 
-    if (this.#initialValues.length === 0) {
-      throw new AssemblerError("must-have-one-or-more-values", this.directive).at(this);
-    }
+    return initialValues;
+  }
+
+  /**
+   * Evaluates the counts of the repetitions (DUP), so the length of the data
+   * directive can be computed. Called before the addresses are known, so the
+   * counts can only use constants.
+   */
+  evaluateCounts(store: GlobalStore) {
+    if (!this.#initialValues) throw new Error("Data directive not validated");
+
+    const evaluate = (values: (InitialValue | Repetition<InitialValue>)[]) => {
+      for (const value of values) {
+        if (!isRepetition(value)) continue;
+
+        const times = value.count.evaluate(store);
+        if (times < 1) {
+          throw new AssemblerError("dup-count-out-of-range", times).at(value.count);
+        }
+        value.times = times;
+        evaluate(value.values);
+      }
+    };
+    evaluate(this.#initialValues);
   }
 
   /**
@@ -128,19 +196,25 @@ export class Data extends DataDirectiveStatement {
 
     this.#values = [];
 
+    const evaluate = (
+      value: InitialValue | Repetition<InitialValue>,
+    ): Value | Repetition<Value> => {
+      if (value === unassigned) return unassigned;
+
+      // Each value of a repetition is evaluated once
+      if (isRepetition(value)) return { ...value, values: value.values.map(evaluate) };
+
+      const evaluated = value.evaluate(store);
+      if (!Byte.fits(evaluated, this.size)) {
+        throw new AssemblerError("value-out-of-range", evaluated, this.size).at(this);
+      }
+      return Byte.fromNumber(evaluated, this.size) as AnyByte;
+    };
+
     const errors = forEachWithErrors(
       this.#initialValues,
       value => {
-        if (value === unassigned) {
-          this.#values!.push(unassigned);
-        } else {
-          const evaluated = value.evaluate(store);
-          if (!Byte.fits(evaluated, this.size)) {
-            throw new AssemblerError("value-out-of-range", evaluated, this.size).at(this);
-          }
-          const byte = Byte.fromNumber(evaluated, this.size) as AnyByte;
-          this.#values!.push(byte);
-        }
+        this.#values!.push(evaluate(value));
       },
       AssemblerError.from,
     );
@@ -149,3 +223,37 @@ export class Data extends DataDirectiveStatement {
     return errors;
   }
 }
+
+function isRepetition<T>(value: T | Repetition<T>): value is Repetition<T> {
+  return typeof value === "object" && value !== null && "times" in value;
+}
+
+/**
+ * Counts the values, with the repetitions expanded.
+ */
+function countValues<T>(values: (T | Repetition<T>)[]): number {
+  let count = 0;
+  for (const value of values) {
+    if (!isRepetition(value)) count++;
+    else if (value.times === null) throw new Error("DUP count not evaluated");
+    else count += value.times * countValues(value.values);
+  }
+  return count;
+}
+
+/**
+ * Expands the repetitions, copying their values as many times as needed.
+ */
+function expandValues<T>(values: (T | Repetition<T>)[]): T[] {
+  const expanded: T[] = [];
+  for (const value of values) {
+    if (!isRepetition(value)) {
+      expanded.push(value);
+      continue;
+    }
+
+    const repeated = expandValues(value.values);
+    for (let i = 0; i < value.times!; i++) expanded.push(...repeated);
+  }
+  return expanded;
+}
@@ -9,12 +9,13 @@ import type { NumberExpression } from "../../number-expression";
  * - A string
  * - An unassigned value (just reserves space)
  * - A number expression (literal value, defined at assemble time)
+ * - A repetition of other values (`n DUP(value, ...)`)
  *
  * ---
  * This class is: IMMUTABLE
  */
 abstract class DataDirectiveValue {
-  abstract readonly type: "string" | "unassigned" | "number-expression";
+  abstract readonly type: "string" | "unassigned" | "number-expression" | "dup";
 
   constructor(readonly position: Position) {}
 
@@ -30,6 +31,10 @@ abstract class DataDirectiveValue {
     return this.type === "number-expression";
   }
 
+  isDup(): this is DupDirectiveValue {
+    return this.type === "dup";
+  }
+
   toJSON() {
     return {
       type: this.type,
@@ -75,9 +80,41 @@ export class NumberExpressionDirectiveValue extends DataDirectiveValue {
   }
 }
 
+/**
+ * Repeats some values a number of times.
+ *
+ * ```vonsim
+ * vector DB 100 DUP(0)
+ * matrix DW 3 DUP(1, 2 DUP(?))
+ * ```
+ *
+ * The count is a number expression, which can only use constants since
+ * it's needed to compute the addresses of the labels.
+ */
+export class DupDirectiveValue extends DataDirectiveValue {
+  readonly type = "dup";
+
+  constructor(
+    readonly count: NumberExpression,
+    readonly values: DataDirectiveValueType[],
+    position: Position,
+  ) {
+    super(position);
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      count: this.count.toJSON(),
+      values: this.values.map((value): unknown => value.toJSON()),
+    };
+  }
+}
+
 type DataDirectiveValueType =
   | StringDirectiveValue
   | UnassignedDirectiveValue
-  | NumberExpressionDirectiveValue;
+  | NumberExpressionDirectiveValue
+  | DupDirectiveValue;
 
 export type { DataDirectiveValueType as DataDirectiveValue };
@@ -1,3 +1,5 @@
+export type { Condition } from "./conditional";
+export { ConditionalStatement } from "./conditional";
 export * from "./data-directive";
 export { EndStatement } from "./end";
 export * from "./instructions";
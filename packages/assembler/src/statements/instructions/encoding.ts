@@ -1,4 +1,10 @@
-import type { Register } from "../../types";
+import type {
+  BaseRegister,
+  ByteRegister,
+  IndexRegister,
+  Register,
+  WordRegister,
+} from "../../types";
 
 /**
  * Returns the encoded register to be used in the instruction bytes.
@@ -23,10 +29,88 @@ export function registerToBits(reg: Register): number {
     case "SP":
       return 0b100;
     case "CH":
+    case "BP":
       return 0b101;
     case "DH":
+    case "SI":
       return 0b110;
     case "BH":
+    case "DI":
       return 0b111;
   }
 }
+
+/**
+ * Returns the register encoded in the instruction bytes.
+ * Inverse of {@link registerToBits}.
+ * @param bits The encoded register (three bits).
+ * @param size The size of the register.
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+export function bitsToRegister(bits: number, size: 8): ByteRegister;
+export function bitsToRegister(bits: number, size: 16): WordRegister;
+export function bitsToRegister(bits: number, size: 8 | 16): Register;
+export function bitsToRegister(bits: number, size: 8 | 16): Register {
+  const registers =
+    size === 8
+      ? (["AL", "CL", "DL", "BL", "AH", "CH", "DH", "BH"] as const)
+      : (["AX", "CX", "DX", "BX", "SP", "BP", "SI", "DI"] as const);
+  return registers[bits & 0b111];
+}
+
+/**
+ * Whether an indirect address is encoded with an addressing byte, which is
+ * the case of every indirect address except `[BX]` (with or without displacement).
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+export function hasAddressingByte(base: BaseRegister | null, index: IndexRegister | null) {
+  return base !== "BX" || index !== null;
+}
+
+/**
+ * Returns the encoded registers of an indirect address (other than `[BX]`),
+ * to be used in the addressing byte of the instruction.
+ * @param base The base register, if any.
+ * @param index The index register, if any.
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+export function indirectRegistersToBits(
+  base: BaseRegister | null,
+  index: IndexRegister | null,
+): number {
+  if (base && index) {
+    return (base === "BX" ? 0b000 : 0b010) | (index === "SI" ? 0b000 : 0b001);
+  }
+  if (index) return index === "SI" ? 0b100 : 0b101;
+  return base === "BP" ? 0b110 : 0b111;
+}
+
+/**
+ * Returns the registers of an indirect address encoded in the addressing byte.
+ * Inverse of {@link indirectRegistersToBits}.
+ * @param bits The encoded registers (three bits).
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+export function bitsToIndirectRegisters(bits: number): {
+  base: BaseRegister | null;
+  index: IndexRegister | null;
+} {
+  switch (bits & 0b111) {
+    case 0b000:
+      return { base: "BX", index: "SI" };
+    case 0b001:
+      return { base: "BX", index: "DI" };
+    case 0b010:
+      return { base: "BP", index: "SI" };
+    case 0b011:
+      return { base: "BP", index: "DI" };
+    case 0b100:
+      return { base: null, index: "SI" };
+    case 0b101:
+      return { base: null, index: "DI" };
+    case 0b110:
+      return { base: "BP", index: null };
+    default:
+      return { base: "BX", index: null };
+  }
+}
@@ -1,7 +1,7 @@
 import { Position } from "@vonsim/common/position";
 
 import type { Token } from "../../lexer/tokens";
-import type { Instruction } from "../../types";
+import type { Instruction, StringPrefix } from "../../types";
 import type { Operand } from "./operands";
 import type { InstructionStatementType } from "./statement";
 import { BinaryInstruction } from "./types/binary";
@@ -9,6 +9,7 @@ import { IntInstruction } from "./types/int";
 import { IOInstruction } from "./types/io";
 import { JumpInstruction } from "./types/jump";
 import { StackInstruction } from "./types/stack";
+import { StringInstruction } from "./types/string";
 import { UnaryInstruction } from "./types/unary";
 import { ZeroaryInstruction } from "./types/zeroary";
 
@@ -16,8 +17,13 @@ export function createInstructionStatement(
   token: Token & { type: Instruction },
   operands: Operand[],
   label: string | null,
+  prefix: (Token & { type: StringPrefix }) | null = null,
 ): InstructionStatementType {
-  const position = Position.merge(token.position, ...operands.map(op => op.position));
+  const position = Position.merge(
+    prefix?.position,
+    token.position,
+    ...operands.map(op => op.position),
+  );
 
   switch (token.type) {
     case "PUSHF":
@@ -26,6 +32,8 @@ export function createInstructionStatement(
     case "IRET":
     case "CLI":
     case "STI":
+    case "CLD":
+    case "STD":
     case "NOP":
     case "HLT":
       return new ZeroaryInstruction(token.type, operands, label, position);
@@ -44,6 +52,17 @@ export function createInstructionStatement(
     case "INC":
     case "DEC":
     case "NOT":
+    case "MUL":
+    case "IMUL":
+    case "DIV":
+    case "IDIV":
+    case "SHL":
+    case "SHR":
+    case "SAR":
+    case "ROL":
+    case "ROR":
+    case "RCL":
+    case "RCR":
       return new UnaryInstruction(token.type, operands, label, position);
     case "PUSH":
     case "POP":
@@ -57,6 +76,18 @@ export function createInstructionStatement(
     case "JNC":
     case "JO":
     case "JNO":
+    case "JA":
+    case "JAE":
+    case "JB":
+    case "JBE":
+    case "JG":
+    case "JGE":
+    case "JL":
+    case "JLE":
+    case "LOOP":
+    case "LOOPZ":
+    case "LOOPNZ":
+    case "JCXZ":
     case "JMP":
       return new JumpInstruction(token.type, operands, label, position);
     case "IN":
@@ -64,6 +95,12 @@ export function createInstructionStatement(
       return new IOInstruction(token.type, operands, label, position);
     case "INT":
       return new IntInstruction(token.type, operands, label, position);
+    case "MOVSB":
+    case "LODSB":
+    case "STOSB":
+    case "CMPSB":
+    case "SCASB":
+      return new StringInstruction(token.type, prefix?.type ?? null, operands, label, position);
   }
 }
 
@@ -75,6 +112,7 @@ export {
   IOInstruction,
   JumpInstruction,
   StackInstruction,
+  StringInstruction,
   UnaryInstruction,
   ZeroaryInstruction,
 };
@@ -5,7 +5,7 @@ import { AssemblerError } from "../../error";
 import type { GlobalStore } from "../../global-store";
 import type { Token } from "../../lexer/tokens";
 import { NumberExpression } from "../../number-expression";
-import { Register, WORD_REGISTERS } from "../../types";
+import { BaseRegister, IndexRegister, Register, WORD_REGISTERS } from "../../types";
 
 /**
  * An operand of an instruction.
@@ -78,6 +78,8 @@ export class IndirectAddressOperand extends Operand {
   constructor(
     size: "BYTE" | "WORD" | undefined,
     position: Position,
+    readonly base: BaseRegister | null,
+    readonly index: IndexRegister | null,
     readonly offset: NumberExpression | null,
   ) {
     super(position);
@@ -89,6 +91,8 @@ export class IndirectAddressOperand extends Operand {
     return {
       ...super.toJSON(),
       size: this.size,
+      base: this.base,
+      index: this.index,
     };
   }
 }
@@ -10,6 +10,7 @@ import type { IntInstruction } from "./types/int";
 import type { IOInstruction } from "./types/io";
 import type { JumpInstruction } from "./types/jump";
 import type { StackInstruction } from "./types/stack";
+import type { StringInstruction } from "./types/string";
 import type { UnaryInstruction } from "./types/unary";
 import type { ZeroaryInstruction } from "./types/zeroary";
 
@@ -31,6 +32,7 @@ import type { ZeroaryInstruction } from "./types/zeroary";
  * - {@link JumpInstruction}
  * - {@link IOInstruction}
  * - {@link IntInstruction}
+ * - {@link StringInstruction}
  *
  * Some of them can accept operands. These operands can point to labels.
  * Because of this, we need to wait until all labels addresses and constants have been
@@ -112,4 +114,5 @@ export type InstructionStatementType =
   | StackInstruction
   | JumpInstruction
   | IOInstruction
-  | IntInstruction;
+  | IntInstruction
+  | StringInstruction;
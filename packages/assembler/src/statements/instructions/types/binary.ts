@@ -5,8 +5,14 @@ import type { Position } from "@vonsim/common/position";
 import { AssemblerError } from "../../../error";
 import type { GlobalStore } from "../../../global-store";
 import { NumberExpression } from "../../../number-expression";
-import type { ByteRegister, Register, WordRegister } from "../../../types";
-import { registerToBits } from "../encoding";
+import type {
+  BaseRegister,
+  ByteRegister,
+  IndexRegister,
+  Register,
+  WordRegister,
+} from "../../../types";
+import { hasAddressingByte, indirectRegistersToBits, registerToBits } from "../encoding";
 import type { Operand } from "../operands";
 import { InstructionStatement } from "../statement";
 
@@ -24,7 +30,12 @@ type BinaryInstructionName =
 
 type InitialMemoryAccess =
   | { mode: "direct"; address: NumberExpression }
-  | { mode: "indirect"; offset: NumberExpression | null };
+  | {
+      mode: "indirect";
+      base: BaseRegister | null;
+      index: IndexRegister | null;
+      offset: NumberExpression | null;
+    };
 
 type InitialOperation =
   | { mode: "reg<-reg"; size: ByteSize; out: Register; src: Register }
@@ -35,7 +46,12 @@ type InitialOperation =
 
 type MemoryAccess =
   | { mode: "direct"; address: MemoryAddress }
-  | { mode: "indirect"; offset: Byte<16> | null };
+  | {
+      mode: "indirect";
+      base: BaseRegister | null;
+      index: IndexRegister | null;
+      offset: Byte<16> | null;
+    };
 
 type Operation =
   | { mode: "reg<-reg"; size: 8; out: ByteRegister; src: ByteRegister }
@@ -105,17 +121,12 @@ export class BinaryInstruction extends InstructionStatement {
 
     // opcode + mode
     let length = 2;
-    if (
-      (mode === "reg<-mem" && src.mode === "direct") ||
-      ((mode === "mem<-reg" || mode === "mem<-imd") && out.mode === "direct")
-    ) {
+    const mem = mode === "reg<-mem" ? src : mode === "mem<-reg" || mode === "mem<-imd" ? out : null;
+    if (mem?.mode === "direct") {
       length += 2; // 2-byte address
-    }
-    if (
-      (mode === "reg<-mem" && src.mode === "indirect" && src.offset) ||
-      ((mode === "mem<-reg" || mode === "mem<-imd") && out.mode === "indirect" && out.offset)
-    ) {
-      length += 2; // 2-byte offset
+    } else if (mem?.mode === "indirect") {
+      if (hasAddressingByte(mem.base, mem.index)) length += 1; // addressing byte
+      if (mem.offset) length += 2; // 2-byte offset
     }
     if (mode === "reg<-imd" || mode === "mem<-imd") {
       length += size / 8; // imd size
@@ -165,16 +176,15 @@ export class BinaryInstruction extends InstructionStatement {
       case "reg<-mem": {
         if (src.mode === "direct") {
           bytes[1] = 0b01000_000; // 01000rrr
-          bytes.push(src.address.byte.low.unsigned);
-          bytes.push(src.address.byte.high.unsigned);
+        } else if (hasAddressingByte(src.base, src.index)) {
+          bytes[1] = 0b01110_000; // 01110rrr
         } else if (src.offset) {
           bytes[1] = 0b01100_000; // 01100rrr
-          bytes.push(src.offset.low.unsigned);
-          bytes.push(src.offset.high.unsigned);
         } else {
           bytes[1] = 0b01010_000; // 01010rrr
         }
         bytes[1] |= registerToBits(out) << 0;
+        bytes.push(...memoryAccessToBytes(src));
         break;
       }
 
@@ -189,31 +199,29 @@ export class BinaryInstruction extends InstructionStatement {
       case "mem<-reg": {
         if (out.mode === "direct") {
           bytes[1] = 0b11000_000; // 11000rrr
-          bytes.push(out.address.byte.low.unsigned);
-          bytes.push(out.address.byte.high.unsigned);
+        } else if (hasAddressingByte(out.base, out.index)) {
+          bytes[1] = 0b11110_000; // 11110rrr
         } else if (out.offset) {
           bytes[1] = 0b11100_000; // 11100rrr
-          bytes.push(out.offset.low.unsigned);
-          bytes.push(out.offset.high.unsigned);
         } else {
           bytes[1] = 0b11010_000; // 11010rrr
         }
         bytes[1] |= registerToBits(src) << 0;
+        bytes.push(...memoryAccessToBytes(out));
         break;
       }
 
       case "mem<-imd": {
         if (out.mode === "direct") {
           bytes[1] = 0b11001000;
-          bytes.push(out.address.byte.low.unsigned);
-          bytes.push(out.address.byte.high.unsigned);
+        } else if (hasAddressingByte(out.base, out.index)) {
+          bytes[1] = 0b11111000;
         } else if (out.offset) {
           bytes[1] = 0b11101000;
-          bytes.push(out.offset.low.unsigned);
-          bytes.push(out.offset.high.unsigned);
         } else {
           bytes[1] = 0b11011000;
         }
+        bytes.push(...memoryAccessToBytes(out));
         bytes.push(src.low.unsigned);
         if (size === 16) bytes.push(src.high.unsigned);
         break;
@@ -287,7 +295,7 @@ export class BinaryInstruction extends InstructionStatement {
           mode: "reg<-mem",
           size: out.size,
           out: out.value,
-          src: { mode: "indirect", offset: src.offset },
+          src: { mode: "indirect", base: src.base, index: src.index, offset: src.offset },
         };
         return;
       }
@@ -334,7 +342,7 @@ export class BinaryInstruction extends InstructionStatement {
 
       if (out.isIndirectAddress()) {
         size = out.size;
-        address = { mode: "indirect", offset: out.offset };
+        address = { mode: "indirect", base: out.base, index: out.index, offset: out.offset };
       } else if (out.isDirectAddress()) {
         size = out.size;
         address = { mode: "direct", address: out.value };
@@ -425,7 +433,7 @@ export class BinaryInstruction extends InstructionStatement {
           offset = Byte.fromSigned(computed, 16);
         }
 
-        return { mode: "indirect", offset };
+        return { mode: "indirect", base: op.base, index: op.index, offset };
       }
     };
 
@@ -488,3 +496,23 @@ export class BinaryInstruction extends InstructionStatement {
     }
   }
 }
+
+/**
+ * Returns the bytes that follow the second byte of the instruction to
+ * encode a memory access: the address for direct accesses, and the addressing
+ * byte (`0000dmmm`, if any) and the displacement (if any) for indirect ones.
+ * @see https://vonsim.github.io/en/reference/encoding
+ */
+function memoryAccessToBytes(access: MemoryAccess): number[] {
+  if (access.mode === "direct") {
+    return [access.address.byte.low.unsigned, access.address.byte.high.unsigned];
+  }
+
+  const { base, index, offset } = access;
+  const bytes: number[] = [];
+  if (hasAddressingByte(base, index)) {
+    bytes.push(indirectRegistersToBits(base, index) | (offset ? 0b1000 : 0));
+  }
+  if (offset) bytes.push(offset.low.unsigned, offset.high.unsigned);
+  return bytes;
+}
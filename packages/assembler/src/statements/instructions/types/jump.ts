@@ -16,6 +16,18 @@ type JumpInstructionName =
   | "JNC"
   | "JO"
   | "JNO"
+  | "JA"
+  | "JAE"
+  | "JB"
+  | "JBE"
+  | "JG"
+  | "JGE"
+  | "JL"
+  | "JLE"
+  | "LOOP"
+  | "LOOPZ"
+  | "LOOPNZ"
+  | "JCXZ"
   | "JMP";
 
 /**
@@ -29,6 +41,18 @@ type JumpInstructionName =
  * - {@link https://vonsim.github.io/en/computer/instructions/jnc | JNC}
  * - {@link https://vonsim.github.io/en/computer/instructions/jo | JO}
  * - {@link https://vonsim.github.io/en/computer/instructions/jno | JNO}
+ * - {@link https://vonsim.github.io/en/computer/instructions/ja | JA}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jae | JAE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jb | JB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jbe | JBE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jg | JG}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jge | JGE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jl | JL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jle | JLE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/loop | LOOP}
+ * - {@link https://vonsim.github.io/en/computer/instructions/loopz | LOOPZ}
+ * - {@link https://vonsim.github.io/en/computer/instructions/loopnz | LOOPNZ}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jcxz | JCXZ}
  * - {@link https://vonsim.github.io/en/computer/instructions/jmp | JMP}
  *
  * These instructions needs one operand: a label to jump to.
@@ -73,8 +97,20 @@ export class JumpInstruction extends InstructionStatement {
       JNS: 0b0010_0101,
       JO: 0b0010_0110,
       JNO: 0b0010_0111,
+      JA: 0b0010_1000,
+      JAE: 0b0010_1001,
+      JB: 0b0010_1010,
+      JBE: 0b0010_1011,
+      JG: 0b0010_1100,
+      JGE: 0b0010_1101,
+      JL: 0b0010_1110,
+      JLE: 0b0010_1111,
       JMP: 0b0011_0000,
       CALL: 0b0011_0001,
+      LOOP: 0b0011_0100,
+      LOOPZ: 0b0011_0101,
+      LOOPNZ: 0b0011_0110,
+      JCXZ: 0b0011_0111,
     };
 
     bytes.push(opcodes[this.instruction]);
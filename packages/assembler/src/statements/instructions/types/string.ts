@@ -0,0 +1,111 @@
+import type { Position } from "@vonsim/common/position";
+
+import { AssemblerError } from "../../../error";
+import type { StringInstructionName, StringPrefix } from "../../../types";
+import type { Operand } from "../operands";
+import { InstructionStatement } from "../statement";
+
+/**
+ * StringInstruction:
+ * - {@link https://vonsim.github.io/en/computer/instructions/movsb | MOVSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/lodsb | LODSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/stosb | STOSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/cmpsb | CMPSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/scasb | SCASB}
+ *
+ * These instructions don't have operands: they work with the bytes pointed by
+ * SI and/or DI, and with AL. They can be preceded by a prefix that repeats them
+ * while CX isn't zero:
+ * - `REP` with MOVSB, LODSB and STOSB;
+ * - `REPE`/`REPZ` and `REPNE`/`REPNZ` with CMPSB and SCASB.
+ *
+ * ---
+ * This class is: MUTABLE
+ */
+export class StringInstruction extends InstructionStatement {
+  #validated = false;
+
+  constructor(
+    readonly instruction: StringInstructionName,
+    readonly prefix: StringPrefix | null,
+    operands: Operand[],
+    label: string | null,
+    position: Position,
+  ) {
+    super(operands, label, position);
+  }
+
+  /**
+   * Returns the length of the instruction in bytes.
+   * @see https://vonsim.github.io/en/reference/encoding
+   */
+  get length() {
+    return this.prefix ? 2 : 1;
+  }
+
+  /**
+   * Returns the bytes of the instruction.
+   * @see https://vonsim.github.io/en/reference/encoding
+   */
+  toBytes(): Uint8Array {
+    const opcodes: Record<StringInstructionName, number> = {
+      MOVSB: 0b0000_1000,
+      LODSB: 0b0000_1001,
+      STOSB: 0b0000_1010,
+      CMPSB: 0b0000_1011,
+      SCASB: 0b0000_1100,
+    };
+    const opcode = opcodes[this.instruction];
+
+    switch (this.prefix) {
+      case null:
+        return new Uint8Array([opcode]);
+      case "REP":
+      case "REPE":
+      case "REPZ":
+        return new Uint8Array([0b0000_0010, opcode]);
+      case "REPNE":
+      case "REPNZ":
+        return new Uint8Array([0b0000_0011, opcode]);
+    }
+  }
+
+  /**
+   * Whether the instruction compares bytes (and, thus, accepts the
+   * conditional prefixes).
+   */
+  get isComparison(): boolean {
+    return this.instruction === "CMPSB" || this.instruction === "SCASB";
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), prefix: this.prefix };
+  }
+
+  validate() {
+    if (this.#validated) throw new Error("Instruction already validated");
+
+    if (this.operands.length > 0) {
+      throw new AssemblerError("expects-no-operands").at(this);
+    }
+
+    if (this.prefix === "REP" && this.isComparison) {
+      // On the 8086, REP CMPSB and REP SCASB behave as REPE. Here, the intended
+      // condition must be written explicitly.
+      throw new AssemblerError("rep-with-comparison", this.instruction).at(this);
+    }
+
+    if (this.prefix && this.isComparison === (this.prefix === "REP")) {
+      throw new AssemblerError("invalid-prefix", this.prefix, this.instruction).at(this);
+    }
+
+    this.#validated = true;
+  }
+
+  evaluateExpressions() {
+    if (!this.#validated) throw new Error("Instruction not validated");
+
+    // String instructions don't have expressions to evaluate.
+    return;
+  }
+}
@@ -5,23 +5,65 @@ import type { Position } from "@vonsim/common/position";
 import { AssemblerError } from "../../../error";
 import type { GlobalStore } from "../../../global-store";
 import { NumberExpression } from "../../../number-expression";
-import type { ByteRegister, Register, WordRegister } from "../../../types";
-import { registerToBits } from "../encoding";
+import type {
+  BaseRegister,
+  ByteRegister,
+  IndexRegister,
+  Register,
+  WordRegister,
+} from "../../../types";
+import { hasAddressingByte, indirectRegistersToBits, registerToBits } from "../encoding";
 import type { Operand } from "../operands";
 import { InstructionStatement } from "../statement";
 
-type UnaryInstructionName = "NEG" | "INC" | "DEC" | "NOT";
+type UnaryInstructionName =
+  | "NEG"
+  | "INC"
+  | "DEC"
+  | "NOT"
+  | "MUL"
+  | "IMUL"
+  | "DIV"
+  | "IDIV"
+  | "SHL"
+  | "SHR"
+  | "SAR"
+  | "ROL"
+  | "ROR"
+  | "RCL"
+  | "RCR";
+
+const SHIFT_INSTRUCTIONS = ["SHL", "SHR", "SAR", "ROL", "ROR", "RCL", "RCR"] as const;
+type ShiftInstructionName = (typeof SHIFT_INSTRUCTIONS)[number];
+
+/**
+ * How many bits the shift and rotate instructions move:
+ * either one bit or the amount stored in CL.
+ */
+export type ShiftCount = 1 | "CL";
 
 type InitialOperation =
   | { mode: "reg"; size: ByteSize; reg: Register }
   | { mode: "mem-direct"; size: ByteSize; address: NumberExpression }
-  | { mode: "mem-indirect"; size: ByteSize; offset: NumberExpression | null };
+  | {
+      mode: "mem-indirect";
+      size: ByteSize;
+      base: BaseRegister | null;
+      index: IndexRegister | null;
+      offset: NumberExpression | null;
+    };
 
 type Operation =
   | { mode: "reg"; size: 8; reg: ByteRegister }
   | { mode: "reg"; size: 16; reg: WordRegister }
   | { mode: "mem-direct"; size: ByteSize; address: MemoryAddress }
-  | { mode: "mem-indirect"; size: ByteSize; offset: Byte<16> | null };
+  | {
+      mode: "mem-indirect";
+      size: ByteSize;
+      base: BaseRegister | null;
+      index: IndexRegister | null;
+      offset: Byte<16> | null;
+    };
 
 /**
  * UnaryInstruction:
@@ -29,9 +71,24 @@ type Operation =
  * - {@link https://vonsim.github.io/en/computer/instructions/inc | INC}
  * - {@link https://vonsim.github.io/en/computer/instructions/dec | DEC}
  * - {@link https://vonsim.github.io/en/computer/instructions/not | NOT}
+ * - {@link https://vonsim.github.io/en/computer/instructions/mul | MUL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/imul | IMUL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/div | DIV}
+ * - {@link https://vonsim.github.io/en/computer/instructions/idiv | IDIV}
+ * - {@link https://vonsim.github.io/en/computer/instructions/shl | SHL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/shr | SHR}
+ * - {@link https://vonsim.github.io/en/computer/instructions/sar | SAR}
+ * - {@link https://vonsim.github.io/en/computer/instructions/rol | ROL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/ror | ROR}
+ * - {@link https://vonsim.github.io/en/computer/instructions/rcl | RCL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/rcr | RCR}
  *
  * These instructions need one operand from {@link InstructionStatement}:
- * - `out`: the destination operand
+ * - `out`: the destination operand (or, for MUL, IMUL, DIV and IDIV, the source
+ *   operand, since the other ones are always AL/AX and AH/DX)
+ *
+ * The shift and rotate instructions also need a second operand, the count,
+ * which can only be `1` or `CL` (see {@link ShiftCount}).
  *
  * The operand can be:
  * - a register (reg)
@@ -46,6 +103,8 @@ type Operation =
 export class UnaryInstruction extends InstructionStatement {
   #initialOperation: InitialOperation | null = null;
   #operation: Operation | null = null;
+  #initialCount: NumberExpression | "CL" | null = null;
+  #count: ShiftCount | null = null;
 
   constructor(
     readonly instruction: UnaryInstructionName,
@@ -68,8 +127,10 @@ export class UnaryInstruction extends InstructionStatement {
     let length = 2;
     if (mode === "mem-direct") {
       length += 2; // 2-byte address
-    } else if (mode === "mem-indirect" && this.#initialOperation.offset) {
-      length += 2; // 2-byte offset
+    } else if (mode === "mem-indirect") {
+      const { base, index, offset } = this.#initialOperation;
+      if (hasAddressingByte(base, index)) length += 1; // addressing byte
+      if (offset) length += 2; // 2-byte offset
     }
 
     return length;
@@ -87,6 +148,17 @@ export class UnaryInstruction extends InstructionStatement {
       NEG: 0b0100_001_0,
       INC: 0b0100_010_0,
       DEC: 0b0100_011_0,
+      MUL: 0b0100_100_0,
+      IMUL: 0b0100_101_0,
+      DIV: 0b0100_110_0,
+      IDIV: 0b0100_111_0,
+      ROL: 0b1100_000_0,
+      ROR: 0b1100_001_0,
+      RCL: 0b1100_010_0,
+      RCR: 0b1100_011_0,
+      SHL: 0b1100_100_0,
+      SHR: 0b1100_101_0,
+      SAR: 0b1100_111_0,
     };
     bytes[0] = opcodes[this.instruction];
 
@@ -108,14 +180,19 @@ export class UnaryInstruction extends InstructionStatement {
       }
 
       case "mem-indirect": {
-        const offset = this.operation.offset;
-        if (offset) {
+        const { base, index, offset } = this.operation;
+        if (hasAddressingByte(base, index)) {
+          bytes[1] = 0b11110000;
+          bytes.push(indirectRegistersToBits(base, index) | (offset ? 0b1000 : 0)); // 0000dmmm
+        } else if (offset) {
           bytes[1] = 0b11100000;
-          bytes.push(offset.low.unsigned);
-          bytes.push(offset.high.unsigned);
         } else {
           bytes[1] = 0b11010000;
         }
+        if (offset) {
+          bytes.push(offset.low.unsigned);
+          bytes.push(offset.high.unsigned);
+        }
         break;
       }
 
@@ -124,6 +201,10 @@ export class UnaryInstruction extends InstructionStatement {
         return _exhaustiveCheck;
       }
     }
+
+    // The shift and rotate instructions encode their count in the second byte
+    if (this.isShift() && this.count === "CL") bytes[1] |= 0b00001_000;
+
     return new Uint8Array(bytes);
   }
 
@@ -133,18 +214,49 @@ export class UnaryInstruction extends InstructionStatement {
     return this.#operation;
   }
 
+  /**
+   * Whether this is a shift or rotate instruction, which have a count.
+   */
+  isShift(): this is UnaryInstruction & { instruction: ShiftInstructionName } {
+    return (SHIFT_INSTRUCTIONS as readonly string[]).includes(this.instruction);
+  }
+
+  /**
+   * The count of the shift and rotate instructions.
+   */
+  get count(): ShiftCount {
+    if (!this.#count) throw new Error("Instruction not evaluated or not a shift");
+
+    return this.#count;
+  }
+
   toJSON() {
     return {
       ...super.toJSON(),
       ...(this.#operation ??
         this.#initialOperation ?? { operands: this.operands.map(o => o.toJSON()) }),
+      ...(this.#count ? { count: this.#count } : {}),
     };
   }
 
   validate(store: GlobalStore) {
     if (this.#initialOperation) throw new Error("Instruction already validated");
 
-    if (this.operands.length !== 1) {
+    if (this.isShift()) {
+      if (this.operands.length !== 2) {
+        throw new AssemblerError("expects-two-operands").at(this);
+      }
+
+      const count = this.operands[1];
+      if (count.isRegister() && count.value === "CL") {
+        this.#initialCount = "CL";
+      } else if (count.isNumberExpression()) {
+        // Checked to be 1 once evaluated
+        this.#initialCount = count.value;
+      } else {
+        throw new AssemblerError("expects-shift-count").at(count);
+      }
+    } else if (this.operands.length !== 1) {
       throw new AssemblerError("expects-one-operand").at(this);
     }
 
@@ -169,7 +281,13 @@ export class UnaryInstruction extends InstructionStatement {
         throw new AssemblerError("unknown-size").at(out);
       }
 
-      this.#initialOperation = { mode: "mem-indirect", size: out.size, offset: out.offset };
+      this.#initialOperation = {
+        mode: "mem-indirect",
+        size: out.size,
+        base: out.base,
+        index: out.index,
+        offset: out.offset,
+      };
       return;
     }
 
@@ -190,6 +308,9 @@ export class UnaryInstruction extends InstructionStatement {
       return;
     }
 
+    if (["MUL", "IMUL", "DIV", "IDIV"].includes(this.instruction)) {
+      throw new AssemblerError("source-cannot-be-immediate").at(out);
+    }
     throw new AssemblerError("destination-cannot-be-immediate").at(out);
   }
 
@@ -199,6 +320,15 @@ export class UnaryInstruction extends InstructionStatement {
 
     const op = this.#initialOperation;
 
+    if (this.#initialCount instanceof NumberExpression) {
+      if (this.#initialCount.evaluate(store) !== 1) {
+        throw new AssemblerError("expects-shift-count").at(this.operands[1]);
+      }
+      this.#count = 1;
+    } else if (this.#initialCount === "CL") {
+      this.#count = "CL";
+    }
+
     switch (op.mode) {
       case "reg": {
         this.#operation = { mode: "reg", size: op.size, reg: op.reg } as Operation;
@@ -230,7 +360,13 @@ export class UnaryInstruction extends InstructionStatement {
           offset = Byte.fromSigned(computed, 16);
         }
 
-        this.#operation = { mode: "mem-indirect", size: op.size, offset };
+        this.#operation = {
+          mode: "mem-indirect",
+          size: op.size,
+          base: op.base,
+          index: op.index,
+          offset,
+        };
         return;
       }
 
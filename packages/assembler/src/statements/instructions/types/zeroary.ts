@@ -4,7 +4,17 @@ import { AssemblerError } from "../../../error";
 import type { Operand } from "../operands";
 import { InstructionStatement } from "../statement";
 
-type ZeroaryInstructionName = "PUSHF" | "POPF" | "RET" | "IRET" | "CLI" | "STI" | "NOP" | "HLT";
+type ZeroaryInstructionName =
+  | "PUSHF"
+  | "POPF"
+  | "RET"
+  | "IRET"
+  | "CLI"
+  | "STI"
+  | "CLD"
+  | "STD"
+  | "NOP"
+  | "HLT";
 
 /**
  * ZeroaryInstruction:
@@ -14,6 +24,8 @@ type ZeroaryInstructionName = "PUSHF" | "POPF" | "RET" | "IRET" | "CLI" | "STI"
  * - {@link https://vonsim.github.io/en/computer/instructions/iret | IRET}
  * - {@link https://vonsim.github.io/en/computer/instructions/cli | CLI}
  * - {@link https://vonsim.github.io/en/computer/instructions/sti | STI}
+ * - {@link https://vonsim.github.io/en/computer/instructions/cld | CLD}
+ * - {@link https://vonsim.github.io/en/computer/instructions/std | STD}
  * - {@link https://vonsim.github.io/en/computer/instructions/nop | NOP}
  * - {@link https://vonsim.github.io/en/computer/instructions/hlt | HLT}
  *
@@ -51,6 +63,8 @@ export class ZeroaryInstruction extends InstructionStatement {
       RET: 0b0011_0011,
       CLI: 0b0001_1000,
       STI: 0b0001_1001,
+      CLD: 0b0001_1100,
+      STD: 0b0001_1101,
       IRET: 0b0011_1011,
       NOP: 0b0001_0000,
       HLT: 0b0001_0001,
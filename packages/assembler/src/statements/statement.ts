@@ -1,5 +1,6 @@
 import type { Position } from "@vonsim/common/position";
 
+import type { ConditionalStatement } from "./conditional";
 import type { DataDirectiveStatement } from "./data-directive";
 import type { EndStatement } from "./end";
 import type { InstructionStatement } from "./instructions";
@@ -13,12 +14,18 @@ import type { OriginChangeStatement } from "./origin-change";
  * - An end (`END`)
  * - A data directive (`DB`, `DW`, `EQU`)
  * - An instruction
+ * - A conditional block (`IF` ... `ENDIF`)
  *
  * ---
  * This class is: IMMUTABLE
  */
 export abstract class Statement {
-  abstract readonly type: "origin-change" | "end" | "data-directive" | "instruction";
+  abstract readonly type:
+    | "origin-change"
+    | "end"
+    | "data-directive"
+    | "instruction"
+    | "conditional";
 
   constructor(readonly position: Position) {}
 
@@ -38,6 +45,10 @@ export abstract class Statement {
     return this.type === "instruction";
   }
 
+  isConditional(): this is ConditionalStatement {
+    return this.type === "conditional";
+  }
+
   toJSON() {
     return {
       type: this.type,
@@ -50,4 +61,5 @@ export type StatementType =
   | OriginChangeStatement
   | EndStatement
   | DataDirectiveStatement
-  | InstructionStatement;
+  | InstructionStatement
+  | ConditionalStatement;
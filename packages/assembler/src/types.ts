@@ -7,12 +7,22 @@ import type { TupleToUnion } from "type-fest";
 export const BYTE_REGISTERS = ["AL", "BL", "CL", "DL", "AH", "BH", "CH", "DH"] as const;
 export type ByteRegister = TupleToUnion<typeof BYTE_REGISTERS>;
 
-export const WORD_REGISTERS = ["AX", "BX", "CX", "DX", "SP"] as const;
+export const WORD_REGISTERS = ["AX", "BX", "CX", "DX", "SP", "BP", "SI", "DI"] as const;
 export type WordRegister = TupleToUnion<typeof WORD_REGISTERS>;
 
 export const REGISTERS = [...BYTE_REGISTERS, ...WORD_REGISTERS] as const;
 export type Register = TupleToUnion<typeof REGISTERS>;
 
+/**
+ * Registers that can be used for indirect addressing. An indirect address
+ * can have a base register, an index register or both (e.g. `[BX+SI]`).
+ */
+export const BASE_REGISTERS = ["BX", "BP"] as const;
+export type BaseRegister = TupleToUnion<typeof BASE_REGISTERS>;
+
+export const INDEX_REGISTERS = ["SI", "DI"] as const;
+export type IndexRegister = TupleToUnion<typeof INDEX_REGISTERS>;
+
 // #=========================================================================#
 // # Data directives                                                         #
 // #=========================================================================#
@@ -24,6 +34,13 @@ export type DataDirective = TupleToUnion<typeof DATA_DIRECTIVES>;
 // # Instructions                                                            #
 // #=========================================================================#
 
+/**
+ * Instructions that work with the bytes pointed by SI and/or DI.
+ * Only these can be preceded by a {@link STRING_PREFIXES | prefix}.
+ */
+export const STRING_INSTRUCTIONS = ["MOVSB", "LODSB", "STOSB", "CMPSB", "SCASB"] as const;
+export type StringInstructionName = TupleToUnion<typeof STRING_INSTRUCTIONS>;
+
 export const INSTRUCTIONS = [
   // Data transfer
   "MOV",
@@ -42,12 +59,26 @@ export const INSTRUCTIONS = [
   "DEC",
   "NEG",
   "CMP",
+  "MUL",
+  "IMUL",
+  "DIV",
+  "IDIV",
   // Logic
   "NOT",
   "AND",
   "OR",
   "XOR",
   "TEST",
+  // Shift and rotate
+  "SHL",
+  "SHR",
+  "SAR",
+  "ROL",
+  "ROR",
+  "RCL",
+  "RCR",
+  // String manipulation
+  ...STRING_INSTRUCTIONS,
   // Control transfer
   "CALL",
   "JMP",
@@ -60,16 +91,94 @@ export const INSTRUCTIONS = [
   "JNO",
   "JNS",
   "JNC",
+  "JA",
+  "JAE",
+  "JB",
+  "JBE",
+  "JG",
+  "JGE",
+  "JL",
+  "JLE",
+  "LOOP",
+  "LOOPZ",
+  "LOOPNZ",
+  "JCXZ",
   "INT",
   "IRET",
   // Processor control
   "CLI",
   "STI",
+  "CLD",
+  "STD",
   "NOP",
   "HLT",
 ] as const;
 export type Instruction = TupleToUnion<typeof INSTRUCTIONS>;
 
+/**
+ * Prefixes that repeat a string instruction while `CX` isn't zero
+ * (e.g. `REP MOVSB`). `REPZ` and `REPNZ` are aliases of `REPE` and `REPNE`.
+ */
+export const STRING_PREFIXES = ["REP", "REPE", "REPZ", "REPNE", "REPNZ"] as const;
+export type StringPrefix = TupleToUnion<typeof STRING_PREFIXES>;
+
+// #=========================================================================#
+// # Macros                                                                  #
+// #=========================================================================#
+
+/**
+ * Directives to define macros, which are expanded before parsing the
+ * program (see {@link Preprocessor}).
+ */
+export const MACRO_DIRECTIVES = ["MACRO", "ENDM", "LOCAL"] as const;
+export type MacroDirective = TupleToUnion<typeof MACRO_DIRECTIVES>;
+
+// #=========================================================================#
+// # Procedures                                                              #
+// #=========================================================================#
+
+/**
+ * Directives to delimit a procedure (`name PROC` ... `ENDP`). The labels
+ * declared inside a procedure are local to it.
+ */
+export const PROCEDURE_DIRECTIVES = ["PROC", "ENDP"] as const;
+export type ProcedureDirective = TupleToUnion<typeof PROCEDURE_DIRECTIVES>;
+
+// #=========================================================================#
+// # Conditional assembly                                                    #
+// #=========================================================================#
+
+/**
+ * Directives to assemble a block only if a condition holds
+ * (`IF` / `IFDEF` / `IFNDEF` ... `ELSE` ... `ENDIF`).
+ */
+export const CONDITIONAL_DIRECTIVES = ["IF", "IFDEF", "IFNDEF", "ELSE", "ENDIF"] as const;
+export type ConditionalDirective = TupleToUnion<typeof CONDITIONAL_DIRECTIVES>;
+
+// #=========================================================================#
+// # Expression operators                                                    #
+// #=========================================================================#
+
+/**
+ * Operators of the number expressions that are written as words. The
+ * instructions AND, OR, XOR, NOT, SHL and SHR are operators too (see
+ * {@link NumberExpression}).
+ */
+export const EXPRESSION_OPERATORS = [
+  "MOD",
+  "EQ",
+  "NE",
+  "LT",
+  "LE",
+  "GT",
+  "GE",
+  "HIGH",
+  "LOW",
+  "SIZEOF",
+  "LENGTHOF",
+] as const;
+export type ExpressionOperator = TupleToUnion<typeof EXPRESSION_OPERATORS>;
+
 // #=========================================================================#
 // # Keywords                                                                #
 // #=========================================================================#
@@ -80,9 +189,16 @@ export const KEYWORDS = [
   "BYTE",
   "WORD",
   "PTR",
+  "DUP",
   "END",
+  "INCLUDE",
   ...REGISTERS,
   ...INSTRUCTIONS,
+  ...STRING_PREFIXES,
   ...DATA_DIRECTIVES,
+  ...MACRO_DIRECTIVES,
+  ...PROCEDURE_DIRECTIVES,
+  ...CONDITIONAL_DIRECTIVES,
+  ...EXPRESSION_OPERATORS,
 ] as const;
 export type Keyword = TupleToUnion<typeof KEYWORDS>;
@@ -15,3 +15,201 @@ describe("Fixtures", async () => {
     });
   }
 });
+
+describe("DUP", () => {
+  const valuesOf = (source: string) => {
+    const result = assemble(`org 1000h\n${source}\norg 2000h\nhlt\nend`);
+    if (!result.success) throw new Error(result.errors.join("\n"));
+    return result.program.data[0]
+      .getValues()
+      .map(value => (typeof value === "symbol" ? "?" : value.unsigned));
+  };
+
+  it("repeats the values", () => {
+    expect(valuesOf("DB 3 DUP(1)")).toEqual([1, 1, 1]);
+    expect(valuesOf('N EQU 2\nDB N DUP("ab", ?), 5')).toEqual([97, 98, "?", 97, 98, "?", 5]);
+    expect(valuesOf("DW 2 DUP(1, 2 DUP(2))")).toEqual([1, 2, 2, 1, 2, 2]);
+  });
+
+  it("computes the addresses of the next labels", () => {
+    const result = assemble(
+      "org 1000h\nv DB 100h DUP(0)\nw DW 10 DUP(?)\nx DB 1\norg 2000h\nhlt\nend",
+    );
+    if (!result.success) throw new Error(result.errors.join("\n"));
+    expect(result.program.data.map(data => data.start.value)).toEqual([0x1000, 0x1100, 0x1114]);
+  });
+
+  it("assembles large counts quickly", () => {
+    const start = performance.now();
+    expect(assemble("org 1000h\nDB 1000000000 DUP(0)\norg 2000h\nhlt\nend").success).toBe(false);
+    expect(valuesOf("DB 1000h DUP(1)")).toHaveLength(0x1000);
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+
+  it("must have a constant count", () => {
+    const errorsOf = (source: string) => {
+      const result = assemble(`org 1000h\n${source}\norg 2000h\nhlt\nend`);
+      return result.success ? [] : result.errors.map(error => error.message);
+    };
+    expect(errorsOf("DB 0 DUP(1)")).toMatchInlineSnapshot(`
+      [
+        "The count of DUP must be at least 1 (got 0). (13:14)",
+      ]
+    `);
+    expect(errorsOf("v DB 1\nDB OFFSET v DUP(1)")).toMatchInlineSnapshot(`
+      [
+        "The value of V isn't known yet: only constants can be used in DUP counts and conditions. (20:28)",
+      ]
+    `);
+  });
+});
+
+describe("Expressions", () => {
+  const evaluate = (expression: string, data = "") => {
+    const result = assemble(`org 1000h\nDW ${expression}\n${data}\norg 2000h\nhlt\nend`);
+    if (!result.success) return result.errors.map(error => error.message);
+    const [value] = result.program.data[0].getValues();
+    return typeof value === "symbol" ? "?" : value.signed;
+  };
+
+  it("evaluates the operators", () => {
+    expect(evaluate("17 / 5")).toBe(3);
+    expect(evaluate("-17 / 5")).toBe(-3);
+    expect(evaluate("17 MOD 5")).toBe(2);
+    expect(evaluate("1 SHL 7 OR 1 SHL 2")).toBe(0x84);
+    expect(evaluate("0F0h SHR 4")).toBe(0xf);
+    expect(evaluate("NOT 0FFh AND 0F0Fh")).toBe(0x0f00);
+    expect(evaluate("0Fh XOR 0FFh")).toBe(0xf0);
+    expect(evaluate("HIGH 1234h + LOW 1234h")).toBe(0x12 + 0x34);
+    expect(evaluate("HIGH -1")).toBe(0xff);
+  });
+
+  it("follows the precedence of the operators", () => {
+    expect(evaluate("2 + 3 * 4 / 2")).toBe(8);
+    expect(evaluate("1 OR 2 AND 4")).toBe(1);
+    expect(evaluate("NOT 1 EQ 2")).toBe(-1);
+    expect(evaluate("3 GT 2 AND 2 LE 2")).toBe(-1);
+    expect(evaluate("3 LT 2 OR 5 NE 5")).toBe(0);
+    expect(evaluate("(1 + 2) SHL 2")).toBe(12);
+  });
+
+  it("knows the size of data and the location counter", () => {
+    expect(evaluate("SIZEOF tabla", "tabla DW 3 DUP(?), 1")).toBe(8);
+    expect(evaluate("LENGTHOF tabla", "tabla DW 3 DUP(?), 1")).toBe(4);
+    expect(evaluate("LENGTHOF msj", 'msj DB "hola"')).toBe(4);
+    expect(evaluate("$ + 2")).toBe(0x1002);
+
+    const result = assemble("n EQU 10\norg 2000h\nlazo: mov cx, $ - lazo + n\nhlt\nend");
+    if (!result.success) throw new Error(result.errors.join("\n"));
+    expect([...result.program.instructions[0].toBytes()].slice(-2)).toEqual([10, 0]);
+  });
+
+  it("reports overflows and invalid operations", () => {
+    expect(evaluate("1 / 0")).toMatchInlineSnapshot(`
+      [
+        "Division by zero. (17:18)",
+      ]
+    `);
+    expect(evaluate("1 MOD (2 - 2)")).toMatchInlineSnapshot(`
+      [
+        "Division by zero. (20:25)",
+      ]
+    `);
+    expect(evaluate("1 SHL 32")).toMatchInlineSnapshot(`
+      [
+        "Can't shift by 32 bits (must be between 0 and 31). (19:21)",
+      ]
+    `);
+    expect(evaluate("10000h * 10000h")).toMatchInlineSnapshot(`
+      [
+        "The result of this operation (4294967296) doesn't fit in 32 bits, so it can't be computed precisely. (13:28)",
+      ]
+    `);
+    expect(evaluate("HIGH 10000h")).toMatchInlineSnapshot(`
+      [
+        "The number 65536 cannot be represented with 16 bits. (18:24)",
+      ]
+    `);
+    expect(evaluate("SIZEOF n", "n EQU 1")).toMatchInlineSnapshot(`
+      [
+        "SIZEOF can only be used with data directives. (13:21)",
+      ]
+    `);
+    expect(evaluate("LENGTHOF 5")).toMatchInlineSnapshot(`
+      [
+        "Expected label after LENGTHOF. (22:23)",
+      ]
+    `);
+    const result = assemble("x EQU $\norg 2000h\nmov al, x\nhlt\nend");
+    expect(!result.success && result.errors[0].code).toBe("unknown-location");
+  });
+});
+
+describe("Conditional assembly", () => {
+  const instructionsOf = (source: string) => {
+    const result = assemble(`org 2000h\n${source}\nhlt\nend`);
+    if (!result.success) return result.errors.map(error => error.message);
+    return result.program.instructions.map(statement => statement.instruction);
+  };
+
+  it("assembles the branch that holds", () => {
+    const source = "INTERRUPCIONES EQU 1\nIF INTERRUPCIONES\nsti\nELSE\ncli\nENDIF";
+    expect(instructionsOf(source)).toEqual(["STI", "HLT"]);
+    expect(instructionsOf(source.replace("EQU 1", "EQU 0"))).toEqual(["CLI", "HLT"]);
+    expect(instructionsOf("IF 2 GT 3\nnop\nENDIF")).toEqual(["HLT"]);
+  });
+
+  it("checks whether labels are defined", () => {
+    expect(instructionsOf("IFDEF DEBUG\nnop\nENDIF")).toEqual(["HLT"]);
+    expect(instructionsOf("DEBUG EQU 1\nIFDEF DEBUG\nnop\nENDIF")).toEqual(["NOP", "HLT"]);
+    expect(instructionsOf("IFNDEF DEBUG\nDEBUG EQU 1\nENDIF\nIFDEF DEBUG\nnop\nENDIF")).toEqual([
+      "NOP",
+      "HLT",
+    ]);
+  });
+
+  it("only loads the labels of the chosen branches", () => {
+    const source = "IF 0\nfin: nop\nELSE\nfin: int 0\nENDIF\njmp fin";
+    const result = assemble(`org 2000h\n${source}\nend`);
+    if (!result.success) throw new Error(result.errors.join("\n"));
+    expect(result.program.instructions.map(statement => statement.start.value)).toEqual([
+      0x2000, 0x2002,
+    ]);
+  });
+
+  it("can only use constants declared before", () => {
+    expect(instructionsOf("IF N\nnop\nENDIF\nN EQU 1")).toMatchInlineSnapshot(`
+      [
+        "Label "N" has not been defined. (13:14)",
+      ]
+    `);
+    expect(instructionsOf("lazo: nop\nIF lazo\nnop\nENDIF")).toMatchInlineSnapshot(`
+      [
+        "The value of LAZO isn't known yet: only constants can be used in DUP counts and conditions. (23:27)",
+      ]
+    `);
+    expect(instructionsOf("IF $\nnop\nENDIF")).toMatchInlineSnapshot(`
+      [
+        "$ can't be used here, since its location in memory isn't known (there may be no ORG before it). (13:14)",
+      ]
+    `);
+  });
+});
+
+describe("String prefixes", () => {
+  const errorsOf = (source: string) => {
+    const result = assemble(`org 2000h\n${source}\nhlt\nend`);
+    return result.success ? [] : result.errors.map(error => error.code);
+  };
+
+  it("asks for the condition when repeating comparisons", () => {
+    expect(errorsOf("rep cmpsb")).toEqual(["rep-with-comparison"]);
+    expect(errorsOf("rep scasb")).toEqual(["rep-with-comparison"]);
+    expect(errorsOf("repe scasb\nrepnz cmpsb")).toEqual([]);
+  });
+
+  it("only accepts REP with the other string instructions", () => {
+    expect(errorsOf("rep movsb\nrep stosb")).toEqual([]);
+    expect(errorsOf("repe movsb")).toEqual(["invalid-prefix"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { readdir, readFile } from "node:fs/promises";
+
+import { describe, expect, it } from "vitest";
+
+import { assemble, decodeInstruction, InstructionStatement } from "../src";
+
+function assembleToMemory(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const memory = new Map<number, number>();
+  for (const statement of result.program.instructions) {
+    statement.toBytes().forEach((byte, i) => memory.set(statement.start.value + i, byte));
+  }
+  const read = (address: number) => memory.get(address) ?? null;
+  return { instructions: result.program.instructions, read };
+}
+
+/**
+ * Returns the given fields of the statement, as JSON.
+ * Non-shift unary instructions don't have a count (`null` when decoded).
+ */
+function pick(statement: InstructionStatement, keys: string[]) {
+  const fields = keys.map(key => {
+    if (key === "count" && statement.instruction.match(/^(NOT|NEG|INC|DEC|I?MUL|I?DIV)$/)) {
+      return [key, null];
+    }
+    return [key, statement[key as keyof InstructionStatement]];
+  });
+  return JSON.parse(JSON.stringify(Object.fromEntries(fields)));
+}
+
+describe("Fixtures", async () => {
+  const path = new URL("./fixtures/", import.meta.url);
+  const files = await readdir(path);
+
+  for (const file of files) {
+    it(`should decode every instruction of ${file}`, async () => {
+      const source = await readFile(new URL(file, path), { encoding: "utf-8" });
+      const { instructions, read } = assembleToMemory(source);
+
+      for (const statement of instructions) {
+        const decoded = decodeInstruction(read, statement.start.value);
+        expect(decoded).not.toBeNull();
+        expect(JSON.parse(JSON.stringify(decoded))).toEqual(pick(statement, Object.keys(decoded!)));
+      }
+    });
+  }
+});
+
+describe("Decoder", () => {
+  it("decodes every addressing mode", () => {
+    const { instructions, read } = assembleToMemory(`
+      org 1000h
+      dato dw 5
+      org 2000h
+      mov ax, [bx]
+      mov ax, [bx+2]
+      mov [bp+si+4], al
+      mov byte ptr [di], 1
+      add dato, 300h
+      inc word ptr [bp]
+      shr byte ptr [si-1], cl
+      out dx, ax
+      in al, 40h
+      repne scasb
+      rep stosb
+      hlt
+      end
+    `);
+
+    for (const statement of instructions) {
+      const decoded = decodeInstruction(read, statement.start.value);
+      expect(decoded?.instruction).toBe(statement.instruction);
+      expect(decoded?.length).toBe(statement.length);
+      expect(JSON.parse(JSON.stringify(decoded))).toEqual(pick(statement, Object.keys(decoded!)));
+    }
+  });
+
+  it("rejects invalid encodings", () => {
+    const decode = (...bytes: number[]) => decodeInstruction(address => bytes[address] ?? null, 0);
+
+    expect(decode(0b1111_1111)).toBeNull(); // Unknown opcode
+    expect(decode(0b1100_1100, 0b0000_0000)).toBeNull(); // Shift with ooo=110
+    expect(decode(0b0100_0000, 0b0000_1000)).toBeNull(); // NOT with c=1
+    expect(decode(0b1000_0000, 0b0111_0000, 0b0000_0111)).toBeNull(); // [BX] with addressing byte
+    expect(decode(0b1000_0000, 0b0100_0000, 0x00, 0x80)).toBeNull(); // Address out of range
+    expect(decode(0b0000_0011, 0b0000_1000)).toBeNull(); // REPNE MOVSB
+    expect(decode(0b0011_0000, 0x00)).toBeNull(); // Incomplete instruction
+  });
+});
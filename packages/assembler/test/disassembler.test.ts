@@ -0,0 +1,103 @@
+import { readdir, readFile } from "node:fs/promises";
+
+import { describe, expect, it } from "vitest";
+
+import { assemble, disassemble } from "../src";
+
+function assembleToMemory(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const memory = new Map<number, number>();
+  for (const statement of result.program.instructions) {
+    statement.toBytes().forEach((byte, i) => memory.set(statement.start.value + i, byte));
+  }
+  return { instructions: result.program.instructions, memory };
+}
+
+describe("Fixtures", async () => {
+  const path = new URL("./fixtures/", import.meta.url);
+  const files = await readdir(path);
+
+  for (const file of files) {
+    it(`should reassemble the disassembly of ${file}`, async () => {
+      const source = await readFile(new URL(file, path), { encoding: "utf-8" });
+      const { instructions, memory } = assembleToMemory(source);
+
+      // Disassemble from the first to the last instruction (the gaps are zeros)
+      const starts = instructions.map(statement => statement.start.value);
+      const from = Math.min(...starts);
+      const to = Math.max(...starts);
+      const lines = disassemble(address => memory.get(address) ?? 0, from, to);
+
+      // Every instruction starts a line
+      const addresses = new Set(lines.map(line => line.address));
+      for (const start of starts) expect(addresses).toContain(start);
+
+      const disassembly = [
+        `ORG ${from.toString(16)}h`,
+        ...lines.map(line => (line.label ? `${line.label}: ${line.text}` : line.text)),
+        "END",
+      ].join("\n");
+
+      // Same bytes as the original program
+      const reassembled = assembleToMemory(disassembly);
+      for (const [address, byte] of memory) {
+        expect(reassembled.memory.get(address) ?? 0, `address ${address.toString(16)}h`).toBe(byte);
+      }
+    });
+  }
+});
+
+describe("Disassembler", () => {
+  it("uses the syntax of the assembler", () => {
+    const { memory } = assembleToMemory(`
+      org 2000h
+      inicio: mov ax, [bx]
+      mov [bp+si-2], al
+      add byte ptr [1000h], 0ffh
+      inc word ptr [bx+10h]
+      rcl dl, cl
+      in al, 40h
+      out dx, ax
+      push si
+      repe cmpsb
+      int 6
+      loop inicio
+      call rutina
+      hlt
+      org 3000h
+      rutina: ret
+      end
+    `);
+    const lines = disassemble(address => memory.get(address) ?? null, 0x2000, 0x2040);
+    expect(lines.map(line => (line.label ? `${line.label}: ${line.text}` : line.text)))
+      .toMatchInlineSnapshot(`
+        [
+          "L2000: MOV AX, [BX]",
+          "MOV [BP+SI-2h], AL",
+          "ADD BYTE PTR [1000h], 0FFh",
+          "INC WORD PTR [BX+10h]",
+          "RCL DL, CL",
+          "IN AL, 40h",
+          "OUT DX, AX",
+          "PUSH SI",
+          "REPE CMPSB",
+          "INT 6h",
+          "LOOP L2000",
+          "CALL 3000h",
+          "HLT",
+        ]
+      `);
+  });
+
+  it("shows invalid bytes as data", () => {
+    const bytes = [0xff, 0x11, 0x00];
+    const lines = disassemble(address => bytes[address] ?? null, 0, 10);
+    expect(lines).toEqual([
+      { address: 0, bytes: [0xff], label: null, text: "DB 0FFh" },
+      { address: 1, bytes: [0x11], label: null, text: "HLT" },
+      { address: 2, bytes: [0x00], label: null, text: "DB 0h" },
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+ORG 1000H
+numero DW 1010011100001011b
+unos   DB ?
+mascara DB 0F0h
+
+ORG 2000H
+          MOV AX, numero
+          MOV CL, 0
+          MOV DX, 16
+          ; Cuenta los bits en 1 de AX, sacándolos de a uno por CF
+CONTAR:   SHR AX, 1
+          ADC CL, 0
+          DEC DX
+          JNZ CONTAR
+          MOV unos, CL
+
+          ; Prueba el resto de las instrucciones y modos de direccionamiento
+          MOV BX, OFFSET mascara
+          ROL BYTE PTR [BX], 1
+          ROR mascara, CL
+          RCL BYTE PTR [BX + 1 - 1], CL
+          RCR AL, 1
+          SAR DX, CL
+          SHL numero, 1
+          HLT
+END
@@ -0,0 +1,45 @@
+ORG 1000H
+tabla    DB 1, 2, 3, 4, 5, 6
+fin      DB ?
+puntos   DW 10, 20, 30, 40
+
+ORG 3000H
+          ; Invierte la tabla cuya dirección y longitud se pasan por la pila
+INVERTIR: PUSH BP
+          MOV BP, SP
+          MOV SI, [BP + 6]          ; Dirección de la tabla
+          MOV DI, SI
+          ADD DI, [BP + 4]          ; Dirección del último elemento + 1
+          DEC DI
+CICLO:    CMP SI, DI
+          JAE LISTO
+          MOV AL, [SI]
+          MOV AH, [DI]
+          MOV [SI], AH
+          MOV [DI], AL
+          INC SI
+          DEC DI
+          JMP CICLO
+LISTO:    POP BP
+          RET
+
+ORG 2000H
+          MOV AX, OFFSET tabla
+          PUSH AX
+          MOV AX, OFFSET fin - OFFSET tabla
+          PUSH AX
+          CALL INVERTIR
+          POP AX
+          POP AX
+
+          ; Prueba el resto de los modos de direccionamiento
+          MOV BX, OFFSET puntos
+          MOV SI, 2
+          MOV AX, [BX + SI]
+          ADD AX, [BX + SI + 2]
+          MOV DI, 4
+          MOV WORD PTR [BX + DI], 0
+          INC BYTE PTR [BP + DI - 1]
+          SHL WORD PTR [DI], 1
+          HLT
+END
@@ -0,0 +1,30 @@
+ORG 1000H
+tabla    DB 12, 7, 25, 3, 18
+cantidad DB 5
+promedio DB ?
+resto    DB ?
+escala   DW 1000
+
+ORG 2000H
+          MOV BX, OFFSET tabla
+          MOV CL, cantidad
+          MOV AX, 0
+          ; Suma todos los elementos de la tabla en AX
+SUMAR:    ADD AL, [BX]
+          ADC AH, 0
+          INC BX
+          DEC CL
+          JNZ SUMAR
+          DIV cantidad
+          MOV promedio, AL
+          MOV resto, AH
+
+          ; Prueba el resto de las instrucciones y modos de direccionamiento
+          MOV BX, OFFSET escala
+          MUL BYTE PTR [BX]
+          IMUL WORD PTR [BX + 1 - 1]
+          MOV CX, 7
+          IDIV CX
+          MUL escala
+          HLT
+END
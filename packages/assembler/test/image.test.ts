@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  assemble,
+  binaryToImage,
+  createImage,
+  ImageResult,
+  imageToBinary,
+  imageToIntelHex,
+  imageToJSON,
+  intelHexToImage,
+  jsonToImage,
+} from "../src";
+
+function imageOf(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+  return createImage(result.program);
+}
+
+/**
+ * Returns the error message of a failed read.
+ */
+function error(result: ImageResult) {
+  return result.success ? null : result.errors.map(String).join("\n");
+}
+
+const image = imageOf(`
+  org 1000h
+  num db 5, ?, 7
+  org 2000h
+  mov al, num
+  hlt
+  end
+`);
+
+describe("Memory images", () => {
+  it("groups the bytes of the program in segments", () => {
+    expect(image).toEqual({
+      entryPoint: 0x2000,
+      segments: [
+        { address: 0x1000, type: "data", bytes: [5] },
+        { address: 0x1002, type: "data", bytes: [7] },
+        { address: 0x2000, type: "code", bytes: [0x80, 0x40, 0x00, 0x10, 0x11] },
+      ],
+    });
+  });
+
+  it("converts to raw binary", () => {
+    const { address, bytes } = imageToBinary(image);
+    expect(address).toBe(0x1000);
+    expect(bytes.length).toBe(0x1005);
+    expect([...bytes.slice(0, 3)]).toEqual([5, 0, 7]);
+
+    expect(binaryToImage(bytes.slice(0x1000), 0x2000)).toEqual({
+      success: true,
+      image: {
+        entryPoint: 0x2000,
+        segments: [{ address: 0x2000, type: "data", bytes: [0x80, 0x40, 0x00, 0x10, 0x11] }],
+      },
+    });
+  });
+
+  it("converts to Intel HEX", () => {
+    const hex = imageToIntelHex(image);
+    expect(hex.split("\n")).toMatchInlineSnapshot(`
+      [
+        ":0110000005EA",
+        ":0110020007E6",
+        ":052000008040001011FA",
+        ":0400000300002000D9",
+        ":00000001FF",
+        "",
+      ]
+    `);
+
+    // Intel HEX doesn't tell code from data
+    expect(intelHexToImage(hex)).toEqual({
+      success: true,
+      image: {
+        entryPoint: 0x2000,
+        segments: image.segments.map(segment => ({ ...segment, type: "data" })),
+      },
+    });
+  });
+
+  it("converts to JSON", () => {
+    expect(JSON.parse(imageToJSON(image))).toEqual({
+      version: 1,
+      entryPoint: 0x2000,
+      segments: [
+        { address: 0x1000, type: "data", bytes: "05" },
+        { address: 0x1002, type: "data", bytes: "07" },
+        { address: 0x2000, type: "code", bytes: "8040001011" },
+      ],
+    });
+    expect(jsonToImage(imageToJSON(image))).toEqual({ success: true, image });
+  });
+
+  it("must be valid", () => {
+    expect(error(intelHexToImage(":0110000005EA\n"))).toMatchInlineSnapshot(
+      `"The Intel HEX file has no end-of-file record."`,
+    );
+    expect(error(intelHexToImage(":0110000005EB\n:00000001FF"))).toMatchInlineSnapshot(
+      `"Line 1 of the Intel HEX file has a wrong checksum."`,
+    );
+    expect(error(intelHexToImage("\n:01100005EA\n:00000001FF"))).toMatchInlineSnapshot(
+      `"Line 2 isn't a valid Intel HEX record."`,
+    );
+    expect(error(intelHexToImage(":01800000057A\n:00000001FF"))).toMatchInlineSnapshot(
+      `"The image uses memory address 8000h, which is out of range (max memory address: 7FFFh)."`,
+    );
+    expect(error(binaryToImage([1, 2], 0x0002))).toMatchInlineSnapshot(
+      `"The image writes memory address 0002h, which is reserved by the system."`,
+    );
+    expect(error(jsonToImage('{ "version": 2 }'))).toMatchInlineSnapshot(
+      `"Invalid memory image. It should be a JSON file with its entry point and segments."`,
+    );
+    const overlapping = imageToJSON({
+      entryPoint: 0x2000,
+      segments: [
+        { address: 0x1000, type: "data", bytes: [1, 2] },
+        { address: 0x1001, type: "data", bytes: [3] },
+      ],
+    });
+    expect(error(jsonToImage(overlapping))).toMatchInlineSnapshot(
+      `"The image writes memory address 1001h more than once."`,
+    );
+  });
+});
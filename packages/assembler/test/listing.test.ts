@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { assemble, createListing, IncludeResolver } from "../src";
+
+/**
+ * Returns the lines of the listing of the program.
+ */
+function listing(source: string, resolveInclude?: IncludeResolver) {
+  const result = assemble(source, { resolveInclude });
+  if (!result.success) throw new Error(result.errors.join("\n"));
+  return createListing(source, result, resolveInclude).split("\n");
+}
+
+describe("Listing", () => {
+  it("shows the address and bytes of each line", () => {
+    expect(
+      listing(`
+N     EQU 3
+      org 1000h
+msj   db "Hola, mundo"
+tabla dw N dup(?)
+
+      org 2000h
+      mov bx, offset msj
+lazo: jmp lazo
+      end
+`),
+    ).toMatchInlineSnapshot(`
+      [
+        "    1",
+        "    2                           N     EQU 3",
+        "    3                                 org 1000h",
+        "    4  1000  48 6F 6C 61 2C 20  msj   db "Hola, mundo"",
+        "       1006  6D 75 6E 64 6F",
+        "    5  100B  ?? ?? ?? ?? ?? ??  tabla dw N dup(?)",
+        "    6",
+        "    7                                 org 2000h",
+        "    8  2000  81 4B 00 10              mov bx, offset msj",
+        "    9  2004  30 04 20           lazo: jmp lazo",
+        "   10                                 end",
+        "   11",
+        "",
+        "LAZO   instruction  2004h",
+        "MSJ    DB           1000h",
+        "N      EQU          0003h",
+        "TABLA  DW           100Bh",
+        "",
+      ]
+    `);
+  });
+
+  it("lists macros in the line of the call", () => {
+    const source = `
+imprimir MACRO
+  mov al, 1
+  int 7
+ENDM
+org 2000h
+imprimir
+end`;
+    expect(listing(source).slice(6, 9)).toMatchInlineSnapshot(`
+      [
+        "    7  2000  80 48 01           imprimir",
+        "       2003  1A 07",
+        "    8                           end",
+      ]
+    `);
+  });
+
+  it("lists included files after the program", () => {
+    const files: Record<string, string> = { "rutinas.asm": "fin: hlt" };
+    const resolveInclude = (file: string) => files[file] ?? null;
+    expect(listing('org 2000h\nINCLUDE "rutinas.asm"\nend', resolveInclude)).toMatchInlineSnapshot(`
+      [
+        "    1                           org 2000h",
+        "    2                           INCLUDE "rutinas.asm"",
+        "    3                           end",
+        "",
+        "; rutinas.asm",
+        "    1  2000  11                 fin: hlt",
+        "",
+        "FIN  instruction  2000h",
+        "",
+      ]
+    `);
+  });
+});
@@ -2,6 +2,7 @@ import { expect, it } from "vitest";
 
 import { Scanner } from "../../src/lexer/scanner";
 import { Parser } from "../../src/parser";
+import type { DataDirectiveStatement } from "../../src/statements";
 
 const lex = (input: string) => new Scanner(input).scanTokens();
 const parse = (input: string) => new Parser(lex(input)).parse();
@@ -177,3 +178,72 @@ it("unassigned", () => {
     `[Error: Expected end of statement. (4:5)]`,
   );
 });
+
+it("dup", () => {
+  expect(parse("DB 2 DUP(1, ?)")).toMatchInlineSnapshot(`
+    [
+      {
+        "directive": "DB",
+        "label": null,
+        "position": [
+          0,
+          14,
+        ],
+        "type": "data-directive",
+        "values": [
+          {
+            "count": {
+              "position": [
+                3,
+                4,
+              ],
+              "type": "number-literal",
+              "value": 2,
+            },
+            "position": [
+              3,
+              14,
+            ],
+            "type": "dup",
+            "values": [
+              {
+                "position": [
+                  9,
+                  10,
+                ],
+                "type": "number-expression",
+                "value": {
+                  "position": [
+                    9,
+                    10,
+                  ],
+                  "type": "number-literal",
+                  "value": 1,
+                },
+              },
+              {
+                "position": [
+                  12,
+                  13,
+                ],
+                "type": "unassigned",
+              },
+            ],
+          },
+        ],
+      },
+    ]
+  `);
+  expect(() => parse("DB 2 DUP 1")).toThrowErrorMatchingInlineSnapshot(
+    `[Error: Expected "(" after "DUP". (9:10)]`,
+  );
+  expect(() => parse("DB 2 DUP(1")).toThrowErrorMatchingInlineSnapshot(
+    `[Error: Unclosed parenthesis. (10)]`,
+  );
+  expect(() => parse("DB 2 DUP()")).toThrowErrorMatchingInlineSnapshot(
+    `[Error: Expected argument. (9:10)]`,
+  );
+  expect(() =>
+    (parse("x EQU 2 DUP(1)")[0] as DataDirectiveStatement).validate(),
+  ).toThrowErrorMatchingInlineSnapshot(`[Error: Constant must have exactly one value. (6:14)]`);
+});
@@ -22,6 +22,29 @@ it("no operands", () => {
   `);
 });
 
+it("prefixes", () => {
+  expect(parse("lazo: REPNE SCASB")).toMatchInlineSnapshot(`
+    [
+      {
+        "instruction": "SCASB",
+        "label": "LAZO",
+        "position": [
+          6,
+          17,
+        ],
+        "prefix": "REPNE",
+        "type": "instruction",
+      },
+    ]
+  `);
+  expect(() => parse("REP ADD AX, 1")).toThrowErrorMatchingInlineSnapshot(
+    `[Error: Expected a string instruction after REP, got ADD. (4:7)]`,
+  );
+  expect(() => parse("REP")).toThrowErrorMatchingInlineSnapshot(
+    `[Error: Expected a string instruction after REP, got EOF. (3)]`,
+  );
+});
+
 it("multiple operands", () => {
   expect(parse("POP AX")).toMatchInlineSnapshot(`
     [
@@ -378,6 +401,8 @@ describe("Direct address", () => {
           "label": null,
           "operands": [
             {
+              "base": "BX",
+              "index": null,
               "position": [
                 4,
                 8,
@@ -407,6 +432,8 @@ describe("Direct address", () => {
           "label": null,
           "operands": [
             {
+              "base": "BX",
+              "index": null,
               "position": [
                 4,
                 17,
@@ -436,6 +463,8 @@ describe("Direct address", () => {
           "label": null,
           "operands": [
             {
+              "base": "BX",
+              "index": null,
               "position": [
                 4,
                 17,
@@ -462,6 +491,8 @@ describe("Direct address", () => {
           "label": null,
           "operands": [
             {
+              "base": "BX",
+              "index": null,
               "position": [
                 4,
                 12,
@@ -480,7 +511,7 @@ describe("Direct address", () => {
     `);
   });
 
-  it("only BX", () => {
+  it("base and index registers", () => {
     expect(parse("INC [   bx  ]")).toMatchInlineSnapshot(`
       [
         {
@@ -488,6 +519,8 @@ describe("Direct address", () => {
           "label": null,
           "operands": [
             {
+              "base": "BX",
+              "index": null,
               "position": [
                 4,
                 13,
@@ -504,8 +537,19 @@ describe("Direct address", () => {
         },
       ]
     `);
+    expect(parse("INC [SI]")[0]).toMatchObject({ operands: [{ base: null, index: "SI" }] });
+    expect(parse("INC [BP-2]")[0]).toMatchObject({ operands: [{ base: "BP", index: null }] });
+    expect(parse("INC [bx + di + 4]")[0]).toMatchObject({
+      operands: [{ base: "BX", index: "DI" }],
+    });
     expect(() => parse("INC [AX]")).toThrowErrorMatchingInlineSnapshot(
-      `[Error: The only register supported for indirect addressing is BX. (5:7)]`,
+      `[Error: Indirect addressing only supports [BX], [BP], [SI], [DI], [BX+SI], [BX+DI], [BP+SI] and [BP+DI], with an optional displacement. (5:7)]`,
+    );
+    expect(() => parse("INC [SI+BX]")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Indirect addressing only supports [BX], [BP], [SI], [DI], [BX+SI], [BX+DI], [BP+SI] and [BP+DI], with an optional displacement. (8:10)]`,
+    );
+    expect(() => parse("INC [BX+BP]")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Indirect addressing only supports [BX], [BP], [SI], [DI], [BX+SI], [BX+DI], [BP+SI] and [BP+DI], with an optional displacement. (8:10)]`,
     );
   });
 });
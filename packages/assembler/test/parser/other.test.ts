@@ -241,3 +241,167 @@ describe("Labels", () => {
     `);
   });
 });
+
+describe("PROC", () => {
+  const labels = (input: string) =>
+    parse(input).map(statement => ("label" in statement ? statement.label : null));
+
+  // Labels used as operands
+  const references = (input: string) =>
+    parse(input).flatMap(statement => {
+      const { operands = [] } = JSON.parse(JSON.stringify(statement)) as {
+        operands?: { value?: { type: string; value: string } }[];
+      };
+      return operands.flatMap(({ value }) => (value?.type === "label" ? [value.value] : []));
+    });
+
+  it("names the first instruction", () => {
+    expect(labels("suma PROC\nadd al, bl\nret\nsuma ENDP")).toEqual(["SUMA", null]);
+    expect(labels("suma PROC\nadd al, bl\nret\nENDP")).toEqual(["SUMA", null]);
+
+    // The label of the first instruction is the same as the name
+    const source = "espera PROC\nlazo: loop lazo\nret\nENDP";
+    expect(labels(source)).toEqual(["ESPERA", null]);
+    expect(references(source)).toEqual(["ESPERA"]);
+  });
+
+  it("has local labels", () => {
+    const source = `
+      dato db 1
+      uno PROC
+        mov cx, 1
+        lazo: loop lazo
+        jmp fin
+        fin: ret
+      uno ENDP
+      dos PROC
+        mov cx, 2
+        lazo: loop lazo
+        jmp dato
+        ret
+      ENDP
+      lazo: call uno
+    `;
+    expect(labels(source)).toEqual([
+      "DATO",
+      "UNO",
+      "UNO.LAZO",
+      null,
+      "UNO.FIN",
+      "DOS",
+      "DOS.LAZO",
+      null,
+      null,
+      "LAZO",
+    ]);
+
+    expect(references(source)).toEqual(["UNO.LAZO", "UNO.FIN", "DOS.LAZO", "DATO", "UNO"]);
+  });
+
+  it("has local labels named like instructions", () => {
+    const source = `
+      uno PROC
+        mov cx, 1
+        loop: loop loop
+        ret
+      ENDP
+      dos PROC
+        mov cx, 2
+        loop: loop loop
+        ret
+      ENDP
+    `;
+    expect(labels(source)).toEqual(["UNO", "UNO.LOOP", null, "DOS", "DOS.LOOP", null]);
+    expect(references(source)).toEqual(["UNO.LOOP", "DOS.LOOP"]);
+  });
+
+  it("must be well delimited", () => {
+    expect(() => parse("a PROC\nnop\nb PROC\nnop\nENDP\nENDP")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Procedures can't be defined inside other procedures. (13:17)]`,
+    );
+    expect(() => parse("a PROC\nnop")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Procedure "A" has no ENDP. (0:1)]`,
+    );
+    expect(() => parse("nop\nENDP")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: ENDP without a matching PROC. (4:8)]`,
+    );
+    expect(() => parse("a PROC\nnop\nb ENDP")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: This ENDP closes procedure "A", not "B". (11:12)]`,
+    );
+    expect(() => parse("a PROC\nENDP")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Procedure "A" must start with an instruction. (0:1)]`,
+    );
+    expect(() => parse("a PROC\nx db 1\nENDP")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Procedure "A" must start with an instruction. (0:1)]`,
+    );
+  });
+});
+
+describe("IF", () => {
+  it("parses both branches", () => {
+    const [statement] = parse("IF N EQ 1\nmov al, 1\nELSE\nmov al, 2\nnop\nENDIF");
+    expect(statement.type).toBe("conditional");
+    if (!statement.isConditional()) return;
+
+    expect(statement.condition.type).toBe("IF");
+    expect(statement.then.map(statement => statement.type)).toEqual(["instruction"]);
+    expect(statement.otherwise.map(statement => statement.type)).toEqual([
+      "instruction",
+      "instruction",
+    ]);
+  });
+
+  it("can be nested", () => {
+    const [statement] = parse("IFDEF A\nIFNDEF B\nnop\nENDIF\nELSE\nIF 1\nENDIF\nENDIF");
+    expect(JSON.parse(JSON.stringify(statement))).toMatchObject({
+      condition: { type: "IFDEF", label: "A" },
+      then: [{ type: "conditional", condition: { type: "IFNDEF", label: "B" } }],
+      otherwise: [{ type: "conditional", then: [], otherwise: [] }],
+    });
+  });
+
+  it("must be well delimited", () => {
+    expect(() => parse("IF 1\nnop")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: IF has no ENDIF. (0:2)]`,
+    );
+    expect(() => parse("IFDEF A\nnop\nELSE\nnop")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: IFDEF has no ENDIF. (0:5)]`,
+    );
+    expect(() => parse("nop\nELSE")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: ELSE without a matching IF. (4:8)]`,
+    );
+    expect(() => parse("nop\nENDIF")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: ENDIF without a matching IF. (4:9)]`,
+    );
+    expect(() => parse("IF 1\nELSE\nELSE\nENDIF")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: This conditional block already has an ELSE. (10:14)]`,
+    );
+    expect(() => parse("IFDEF 1\nENDIF")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Expected label after IFDEF. (6:7)]`,
+    );
+    expect(() => parse("IF 1 nop\nENDIF")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Expected end of statement. (5:8)]`,
+    );
+  });
+});
+
+describe("Labels", () => {
+  it("can be named like instructions", () => {
+    const [data, loop, jump] = parse("loop db 1\nloop: jmp loop\njz offset loop");
+    expect("label" in data && data.label).toBe("LOOP");
+    expect("label" in loop && loop.label).toBe("LOOP");
+    expect(JSON.parse(JSON.stringify(jump))).toMatchObject({
+      instruction: "JZ",
+      operands: [{ value: { type: "label", value: "LOOP", offset: true } }],
+    });
+  });
+
+  it("can't be other reserved words", () => {
+    expect(() => parse("ax: nop")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: "AX" is a reserved word and can't be used as a label. (0:2)]`,
+    );
+    expect(() => parse("offset: nop")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: "OFFSET" is a reserved word and can't be used as a label. (0:6)]`,
+    );
+  });
+});
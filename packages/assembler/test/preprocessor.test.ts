@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+
+import { assemble } from "../src";
+import { Scanner } from "../src/lexer/scanner";
+import { Preprocessor } from "../src/preprocessor";
+
+const lex = (input: string) => new Scanner(input).scanTokens();
+const preprocess = (input: string) => new Preprocessor(lex(input)).process();
+
+/**
+ * Returns the expanded source code, one statement per line.
+ */
+const expand = (input: string) =>
+  preprocess(input)
+    .filter(token => token.type !== "EOF")
+    .map(token => (token.type === "EOL" ? "\n" : token.lexeme))
+    .join(" ")
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean);
+
+const imprimir = `
+imprimir MACRO mensaje, longitud
+  mov bx, offset mensaje
+  mov al, longitud
+  int 7
+ENDM
+`;
+
+describe("Macros", () => {
+  it("replaces the parameters with the arguments", () => {
+    expect(expand(`${imprimir}\ninicio: imprimir hola, 4\nimprimir chau, [bx+2]`))
+      .toMatchInlineSnapshot(`
+        [
+          "inicio: mov bx , offset hola",
+          "mov al , 4",
+          "int 7",
+          "mov bx , offset chau",
+          "mov al , [ bx + 2 ]",
+          "int 7",
+        ]
+      `);
+  });
+
+  it("renames local labels on each expansion", () => {
+    const source = `
+      esperar MACRO
+        LOCAL lazo
+        lazo: dec cx
+        jnz lazo
+      ENDM
+      esperar
+      esperar
+    `;
+    expect(expand(source)).toEqual([
+      "LAZO??1: dec cx",
+      "jnz LAZO??1",
+      "LAZO??2: dec cx",
+      "jnz LAZO??2",
+    ]);
+  });
+
+  it("expands macros inside other macros", () => {
+    const source = `${imprimir}
+      saludar MACRO
+        imprimir hola, 4
+        hlt
+      ENDM
+      saludar
+    `;
+    expect(expand(source)).toEqual(["mov bx , offset hola", "mov al , 4", "int 7", "hlt"]);
+  });
+
+  it("maps positions to the macro body and the call site", () => {
+    const source = `${imprimir}
+      org 1000h
+      hola db "hola"
+      org 2000h
+      imprimir hola, 300
+      end
+    `;
+    const result = assemble(source);
+    expect(result.success).toBe(false);
+
+    const [error] = result.success ? [] : result.errors;
+    const { position } = error;
+    expect(error.message).toMatch("The number 300 cannot be represented with 8 bits.");
+    expect(source.slice(position!.start, position!.end)).toBe("longitud");
+    expect(position!.expansions.map(call => source.slice(call.start, call.end))).toEqual([
+      "imprimir hola, 300",
+    ]);
+  });
+
+  it("must be well defined", () => {
+    expect(() => preprocess("MACRO")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Expected the name of the macro before MACRO. (0:5)]`,
+    );
+    expect(() => preprocess("m MACRO\nnop")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Macro "M" has no ENDM. (0:1)]`,
+    );
+    expect(() => preprocess("ENDM")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: ENDM without a matching MACRO. (0:4)]`,
+    );
+    expect(() => preprocess("LOCAL a")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: LOCAL can only be used inside a macro. (0:5)]`,
+    );
+    expect(() => preprocess("m MACRO a, a\nENDM")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: "A" is declared twice in this macro. (11:12)]`,
+    );
+    expect(() => preprocess("m MACRO a,\nENDM")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Expected the name of a parameter or a local label. (10:11)]`,
+    );
+    expect(() => preprocess("m MACRO\nn MACRO\nENDM\nENDM")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Macros can't be defined inside other macros. (10:15)]`,
+    );
+    expect(() => preprocess("m MACRO\nENDM\nm MACRO\nENDM")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Macro "M" is already defined. (13:14)]`,
+    );
+  });
+
+  it("can't share its name with a label", () => {
+    expect(() => preprocess(`${imprimir}\nimprimir db 1`)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: "IMPRIMIR" can't be the name of both a macro and a label. (92:100)]`,
+    );
+    expect(() => preprocess(`${imprimir}\nimprimir: nop`)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: "IMPRIMIR" can't be the name of both a macro and a label. (92:101)]`,
+    );
+    expect(() => preprocess(`imprimir equ 1\n${imprimir}`)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: "IMPRIMIR" can't be the name of both a macro and a label. (16:24)]`,
+    );
+  });
+
+  it("must be called with the right arguments", () => {
+    expect(() => preprocess(`${imprimir}\nimprimir hola`)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Macro "IMPRIMIR" expects 2 argument(s), got 1. (92:100)]`,
+    );
+    expect(() => preprocess(`${imprimir}\nimprimir hola,, 4`)).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Expected argument. (106:107)]`,
+    );
+    expect(() => preprocess("m MACRO\nm\nENDM\nm")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Macro "M" can't use itself. (8:9)]`,
+    );
+  });
+});
+
+describe("INCLUDE", () => {
+  const files: Record<string, string> = {
+    "io.asm": `${imprimir}\nINCLUDE "consts.asm"`,
+    "consts.asm": "LARGO equ 4",
+    "self.asm": 'INCLUDE "self.asm"',
+    "error.asm": "nop\nmov al, 300",
+  };
+  const resolveInclude = (file: string) => files[file] ?? null;
+
+  it("inserts the contents of the file", () => {
+    const source =
+      'INCLUDE "io.asm"\norg 1000h\nhola db "hola"\norg 2000h\nimprimir hola, LARGO\nhlt\nend';
+    const tokens = new Preprocessor(lex(source), resolveInclude).process();
+    expect(tokens.filter(token => token.type === "EQU")[0].position.file).toBe("consts.asm");
+    expect(assemble(source, { resolveInclude }).success).toBe(true);
+  });
+
+  it("keeps the file of the errors", () => {
+    const result = assemble('org 2000h\nINCLUDE "error.asm"\nend', { resolveInclude });
+    expect(result.success).toBe(false);
+
+    const [error] = result.success ? [] : result.errors;
+    expect(error.position?.file).toBe("error.asm");
+    expect(files["error.asm"].slice(error.position!.start, error.position!.end)).toBe("300");
+  });
+
+  it("must include existing files", () => {
+    const process = (source: string) => new Preprocessor(lex(source), resolveInclude).process();
+
+    expect(() => process('INCLUDE "nada.asm"')).toThrowErrorMatchingInlineSnapshot(
+      `[Error: File "nada.asm" not found. (8:18)]`,
+    );
+    expect(() => process('INCLUDE "self.asm"')).toThrowErrorMatchingInlineSnapshot(
+      `[Error: File "self.asm" includes itself. (self.asm@8:18)]`,
+    );
+    expect(() => process("INCLUDE io")).toThrowErrorMatchingInlineSnapshot(
+      `[Error: Expected the name of a file after INCLUDE, like INCLUDE "file.asm". (8:10)]`,
+    );
+    expect(() => preprocess('INCLUDE "io.asm"')).toThrowErrorMatchingInlineSnapshot(
+      `[Error: File "io.asm" not found. (8:16)]`,
+    );
+  });
+});
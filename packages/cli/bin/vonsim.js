@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+
+// The workspace packages are shipped as TypeScript sources,
+// so we register tsx to be able to import them from Node.
+import { register } from "tsx/esm/api";
+
+register();
+
+const { main } = await import("../src/cli.ts");
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,19 @@
+import { vonsim } from "eslint-config-vonsim";
+import globals from "globals";
+
+export default vonsim(
+  { gitignore: new URL("./.gitignore", import.meta.url) },
+  {
+    languageOptions: {
+      parserOptions: {
+        tsconfigRootDir: import.meta.dirname,
+      },
+    },
+  },
+  {
+    files: ["bin/**/*.js", "src/**/*.ts"],
+    languageOptions: {
+      globals: { ...globals.node },
+    },
+  },
+);
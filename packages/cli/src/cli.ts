@@ -0,0 +1,348 @@
+import { readFileSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+  assemble,
+  createImage,
+  ImageResult,
+  imageToBinary,
+  imageToIntelHex,
+  imageToJSON,
+  IncludeResolver,
+  intelHexToImage,
+  jsonToImage,
+  MemoryImage,
+} from "@vonsim/assembler";
+import { MemoryAddress } from "@vonsim/common/address";
+import { Language, LANGUAGES } from "@vonsim/common/i18n";
+import { parseDevices, TraceRecorder } from "@vonsim/simulator";
+import { z } from "zod";
+
+import { formatAssemblerErrors, formatMemory, formatRegisters } from "./format";
+import { runProgram } from "./run";
+import { formatTestReport, runTestSuite, TestSuite } from "./test-cases";
+
+export const EXIT_CODES = {
+  success: 0,
+  "assemble-error": 1,
+  "simulator-error": 2,
+  "cycle-limit": 3,
+  "waiting-for-input": 4,
+  "tests-failed": 5,
+  usage: 64,
+} as const;
+
+const USAGE = `Usage: vonsim [options] <file.asm>
+
+Assembles and runs a VonSim program, then prints the final state of the computer.
+Memory images (.hex or .json files, see --export) are run without assembling.
+
+Options:
+  -d, --devices <list>    Devices to connect, with the same syntax as the \`devices\`
+                          metadata (e.g. "keyboard, pic"). Overrides the metadata.
+  -m, --memory <from-to>  Range of memory to print, in hexadecimal (e.g. 1000-100F).
+                          By default, only non-empty rows are printed.
+  -i, --input <text>      Characters to be read by the keyboard (INT 6), in order.
+      --input-file <file> Same as --input, but reads the characters from a file.
+  -s, --screen            Only print the screen output.
+  -t, --test <file>       Run the test cases of a JSON file instead, and print a report.
+      --trace <file>      Save a trace of every executed instruction, with the registers
+                          after it and its memory writes. It's saved as JSON if the file
+                          ends with .json, or as CSV otherwise.
+      --export <file>     Save the memory image of the program instead of running it.
+                          It's saved in Intel HEX if the file ends with .hex, as JSON
+                          if it ends with .json, or as raw binary otherwise.
+      --max-cycles <n>    Stop after executing n instructions.
+      --randomize         Randomize memory and registers before loading the program.
+      --self-modifying    Decode the instructions from memory on every cycle, so the
+                          program can write over its own instructions.
+      --lang <lang>       Language of the error messages (${LANGUAGES.join(", ")}).
+  -h, --help              Show this message.
+
+Exit codes:
+  0   The program halted (HLT or INT 0).
+  1   The program could not be assembled.
+  2   The simulator stopped with an error.
+  3   The cycle limit was reached.
+  4   The program asked for more keyboard input than the one given.
+  5   Some test cases failed.
+  64  Invalid usage.`;
+
+/**
+ * Entry point of the `vonsim` command.
+ *
+ * @param args Command line arguments (without the node executable and script).
+ * @returns The exit code, see {@link EXIT_CODES}.
+ */
+export async function main(args: string[]): Promise<number> {
+  let options;
+  try {
+    options = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        devices: { type: "string", short: "d" },
+        memory: { type: "string", short: "m" },
+        input: { type: "string", short: "i" },
+        "input-file": { type: "string" },
+        screen: { type: "boolean", short: "s", default: false },
+        test: { type: "string", short: "t" },
+        trace: { type: "string" },
+        export: { type: "string" },
+        "max-cycles": { type: "string" },
+        randomize: { type: "boolean", default: false },
+        "self-modifying": { type: "boolean", default: false },
+        lang: { type: "string", default: "en" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    return usageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = options;
+
+  if (values.help) {
+    console.info(USAGE);
+    return EXIT_CODES.success;
+  }
+
+  if (positionals.length !== 1) return usageError("Expected exactly one file.");
+
+  const lang = values.lang as Language;
+  if (!LANGUAGES.includes(lang)) return usageError(`Unknown language "${values.lang}".`);
+
+  let maxCycles: number | undefined;
+  if (values["max-cycles"] !== undefined) {
+    maxCycles = Number(values["max-cycles"]);
+    if (!Number.isInteger(maxCycles) || maxCycles < 0) {
+      return usageError("--max-cycles must be a non-negative integer.");
+    }
+  }
+
+  let memoryRange: [from: number, to: number] | undefined;
+  if (values.memory !== undefined) {
+    const match = /^([\da-f]+)h?-([\da-f]+)h?$/i.exec(values.memory);
+    const from = match ? parseInt(match[1], 16) : NaN;
+    const to = match ? parseInt(match[2], 16) : NaN;
+    if (!MemoryAddress.inRange(from) || !MemoryAddress.inRange(to) || from > to) {
+      return usageError(`Invalid memory range "${values.memory}".`);
+    }
+    memoryRange = [from, to];
+  }
+
+  if (values.input !== undefined && values["input-file"] !== undefined) {
+    return usageError("--input and --input-file cannot be used together.");
+  }
+
+  const [filename] = positionals;
+  const source = await readTextFile(filename);
+  if (source === null) return EXIT_CODES.usage;
+  const resolveInclude = includeResolver(filename);
+
+  let image: MemoryImage | null = null;
+  if (/\.(?:hex|json)$/i.test(filename)) {
+    if (values.test !== undefined || values.export !== undefined) {
+      return usageError("--test and --export need the source code of the program.");
+    }
+
+    const result = readImage(filename, source);
+    if (!result.success) {
+      console.error(formatAssemblerErrors(filename, source, result.errors, lang));
+      return EXIT_CODES["assemble-error"];
+    }
+    image = result.image;
+  }
+
+  if (values.export !== undefined) {
+    return exportImage(filename, source, values.export, lang, resolveInclude);
+  }
+
+  if (values.test !== undefined) {
+    const suite = await readTextFile(values.test);
+    if (suite === null) return EXIT_CODES.usage;
+    return runTests(filename, source, suite, lang, resolveInclude);
+  }
+
+  let input = values.input;
+  if (values["input-file"] !== undefined) {
+    const content = await readTextFile(values["input-file"]);
+    if (content === null) return EXIT_CODES.usage;
+    input = content;
+  }
+
+  const trace = values.trace !== undefined ? new TraceRecorder() : undefined;
+  const result = runProgram(image ?? source, {
+    resolveInclude,
+    devices: values.devices !== undefined ? parseDevices(values.devices) : undefined,
+    data: values.randomize ? "randomize" : "clean",
+    selfModifyingCode: values["self-modifying"],
+    input,
+    maxCycles,
+    trace,
+  });
+
+  if (result.status === "assemble-error") {
+    console.error(formatAssemblerErrors(filename, source, result.errors, lang, resolveInclude));
+    return EXIT_CODES["assemble-error"];
+  }
+
+  if (trace && values.trace !== undefined) {
+    const contents = values.trace.toLowerCase().endsWith(".json")
+      ? JSON.stringify(trace, null, 2)
+      : trace.toCSV();
+    try {
+      await writeFile(values.trace, contents, { encoding: "utf-8" });
+    } catch {
+      console.error(`Cannot write file "${values.trace}".`);
+      return EXIT_CODES.usage;
+    }
+  }
+
+  if (values.screen) {
+    process.stdout.write(result.state.io.screen ?? "");
+  } else {
+    console.info(formatRegisters(result.state));
+    console.info();
+    console.info(formatMemory(result.state, memoryRange));
+    if (result.state.io.screen) {
+      console.info();
+      console.info("Screen:");
+      console.info(result.state.io.screen);
+    }
+    console.info();
+  }
+
+  switch (result.status) {
+    case "halted": {
+      if (!values.screen) console.info(`Halted after ${result.cycles} instructions.`);
+      return EXIT_CODES.success;
+    }
+
+    case "cycle-limit": {
+      console.error(`Stopped after reaching the limit of ${result.cycles} instructions.`);
+      return EXIT_CODES["cycle-limit"];
+    }
+
+    case "waiting-for-input": {
+      console.error(`Waiting for keyboard input after ${result.cycles} instructions.`);
+      return EXIT_CODES["waiting-for-input"];
+    }
+
+    case "error": {
+      console.error(`Error after ${result.cycles} instructions: ${result.error.translate(lang)}`);
+      return EXIT_CODES["simulator-error"];
+    }
+
+    default: {
+      const _exhaustiveCheck: never = result;
+      return _exhaustiveCheck;
+    }
+  }
+}
+
+async function runTests(
+  filename: string,
+  source: string,
+  suite: string,
+  lang: Language,
+  resolveInclude: IncludeResolver,
+): Promise<number> {
+  let results;
+  try {
+    results = runTestSuite(source, JSON.parse(suite) as TestSuite, lang, resolveInclude);
+  } catch (error) {
+    const message =
+      error instanceof z.ZodError
+        ? z.prettifyError(error)
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    console.error(`Invalid test suite:\n${message}`);
+    return EXIT_CODES.usage;
+  }
+
+  if (!Array.isArray(results)) {
+    console.error(formatAssemblerErrors(filename, source, results.errors, lang, resolveInclude));
+    return EXIT_CODES["assemble-error"];
+  }
+
+  console.info(formatTestReport(results));
+  return results.every(result => result.passed) ? EXIT_CODES.success : EXIT_CODES["tests-failed"];
+}
+
+async function exportImage(
+  filename: string,
+  source: string,
+  output: string,
+  lang: Language,
+  resolveInclude: IncludeResolver,
+): Promise<number> {
+  const result = assemble(source, { resolveInclude });
+  if (!result.success) {
+    console.error(formatAssemblerErrors(filename, source, result.errors, lang, resolveInclude));
+    return EXIT_CODES["assemble-error"];
+  }
+
+  const image = createImage(result.program);
+  const binary = imageToBinary(image);
+  const format = output.toLowerCase();
+  const contents = format.endsWith(".hex")
+    ? imageToIntelHex(image)
+    : format.endsWith(".json")
+      ? imageToJSON(image)
+      : binary.bytes;
+
+  try {
+    await writeFile(output, contents);
+  } catch {
+    console.error(`Cannot write file "${output}".`);
+    return EXIT_CODES.usage;
+  }
+
+  // Raw binary doesn't keep the address where it must be loaded
+  if (contents === binary.bytes) {
+    const address = MemoryAddress.format(binary.address);
+    console.info(`Saved ${binary.bytes.length} bytes, to be loaded at ${address}.`);
+  }
+  return EXIT_CODES.success;
+}
+
+/**
+ * Reads a memory image, in Intel HEX if the file ends with .hex or as JSON otherwise.
+ */
+function readImage(filename: string, contents: string): ImageResult {
+  return filename.toLowerCase().endsWith(".hex")
+    ? intelHexToImage(contents)
+    : jsonToImage(contents);
+}
+
+async function readTextFile(filename: string): Promise<string | null> {
+  try {
+    return await readFile(filename, { encoding: "utf-8" });
+  } catch {
+    console.error(`Cannot read file "${filename}".`);
+    return null;
+  }
+}
+
+function usageError(message: string): number {
+  console.error(`${message}\n\n${USAGE}`);
+  return EXIT_CODES.usage;
+}
+
+/**
+ * Reads the files included by a program from the filesystem, relative to
+ * the directory of the program.
+ */
+function includeResolver(filename: string): IncludeResolver {
+  return file => {
+    try {
+      return readFileSync(resolve(dirname(filename), file), { encoding: "utf-8" });
+    } catch {
+      return null;
+    }
+  };
+}
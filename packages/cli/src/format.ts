@@ -0,0 +1,112 @@
+import { dirname, join } from "node:path";
+
+import type { AssembleResultError, IncludeResolver } from "@vonsim/assembler";
+import { MemoryAddress } from "@vonsim/common/address";
+import { Byte } from "@vonsim/common/byte";
+import type { Language } from "@vonsim/common/i18n";
+import type { Position } from "@vonsim/common/position";
+import type { ComputerState } from "@vonsim/simulator";
+
+/**
+ * Converts an offset in the source code into a line and column (both 1-based).
+ */
+export function getLineAndColumn(source: string, offset: number): [line: number, column: number] {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return [line, offset - lineStart + 1];
+}
+
+/**
+ * Formats assembler errors as `file:line:column: message`, one per line.
+ * Errors inside a macro expansion are followed by the location of each macro call.
+ *
+ * @param filename Name of the main program. Included files are relative to it.
+ * @param source Source code of the main program.
+ * @param resolveInclude Reads the files included by the program, to locate their errors.
+ */
+export function formatAssemblerErrors(
+  filename: string,
+  source: string,
+  errors: AssembleResultError["errors"],
+  lang: Language,
+  resolveInclude?: IncludeResolver,
+): string {
+  const location = (position: Position) => {
+    if (!position.file) {
+      const [line, column] = getLineAndColumn(source, position.start);
+      return `${filename}:${line}:${column}`;
+    }
+
+    const path = join(dirname(filename), position.file);
+    const included = resolveInclude?.(position.file);
+    if (!included) return path;
+    const [line, column] = getLineAndColumn(included, position.start);
+    return `${path}:${line}:${column}`;
+  };
+
+  return errors
+    .flatMap(error => {
+      const message = error.translate(lang);
+      if (!error.position) return [`${filename}: ${message}`];
+      return [
+        `${location(error.position)}: ${message}`,
+        ...error.position.expansions.map(call => `${location(call)}: in expansion of macro`),
+      ];
+    })
+    .join("\n");
+}
+
+const hex = (value: number, size: 8 | 16) => Byte.fromUnsigned(value, size).toString("hex");
+
+/**
+ * Formats the user-visible registers and flags of the CPU.
+ * @see https://vonsim.github.io/en/computer/cpu#flags
+ */
+export function formatRegisters(state: ComputerState): string {
+  const { AX, BX, CX, DX, SP, BP, SI, DI, IP, FLAGS } = state.cpu;
+  const flags = Byte.fromUnsigned(FLAGS, 16);
+  const bit = (i: number) => (flags.bit(i) ? 1 : 0);
+
+  return [
+    `AX=${hex(AX, 16)}  BX=${hex(BX, 16)}  CX=${hex(CX, 16)}  DX=${hex(DX, 16)}`,
+    `SP=${hex(SP, 16)}  BP=${hex(BP, 16)}  SI=${hex(SI, 16)}  DI=${hex(DI, 16)}`,
+    `IP=${hex(IP, 16)}  FLAGS=${hex(FLAGS, 16)}`,
+    `CF=${bit(0)}  ZF=${bit(6)}  SF=${bit(7)}  IF=${bit(9)}  DF=${bit(10)}  OF=${bit(11)}`,
+  ].join("\n");
+}
+
+const ROW_SIZE = 16;
+
+/**
+ * Formats the memory as a hex dump, with 16 bytes per row.
+ *
+ * @param range Inclusive range of addresses to show. If not given, only the
+ * rows with at least one non-zero byte are shown.
+ */
+export function formatMemory(state: ComputerState, range?: [from: number, to: number]): string {
+  const rows: string[] = [];
+  const [from, to] = range ?? [MemoryAddress.MIN_ADDRESS, MemoryAddress.MAX_ADDRESS];
+
+  for (let start = from - (from % ROW_SIZE); start <= to; start += ROW_SIZE) {
+    const cells: string[] = [];
+    let empty = true;
+    for (let address = start; address < start + ROW_SIZE; address++) {
+      if (address < from || address > to) {
+        cells.push("  ");
+      } else {
+        const value = state.memory[address];
+        if (value !== 0) empty = false;
+        cells.push(hex(value, 8));
+      }
+    }
+    if (range || !empty) rows.push(`${MemoryAddress.format(start)}: ${cells.join(" ")}`);
+  }
+
+  return rows.join("\n");
+}
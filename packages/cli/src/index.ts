@@ -0,0 +1,4 @@
+export { main } from "./cli";
+export * from "./format";
+export * from "./run";
+export * from "./test-cases";
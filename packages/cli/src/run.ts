@@ -0,0 +1,174 @@
+import {
+  assemble,
+  AssembleResultError,
+  IncludeResolver,
+  MemoryImage,
+  Program,
+} from "@vonsim/assembler";
+import {
+  ComputerState,
+  DevicesConfiguration,
+  EventGenerator,
+  NO_DEVICES,
+  parseDevices,
+  Simulator,
+  SimulatorError,
+  TraceRecorder,
+} from "@vonsim/simulator";
+
+export type RunOptions = {
+  /**
+   * Reads the files included by the program with `INCLUDE "file"`.
+   */
+  resolveInclude?: IncludeResolver;
+  /**
+   * Devices to connect to the computer. These take precedence over
+   * the ones specified in the program metadata.
+   */
+  devices?: Partial<DevicesConfiguration>;
+  /**
+   * What to do with the memory and registers before loading the program.
+   * Default is `clean`.
+   */
+  data?: "clean" | "randomize";
+  /**
+   * Whether the CPU decodes the instructions from memory on every cycle,
+   * allowing the program to modify itself. Default is `false`.
+   */
+  selfModifyingCode?: boolean;
+  /**
+   * Characters to be read by the keyboard, in order, on each `INT 6`.
+   * Only used if the keyboard is connected.
+   */
+  input?: string;
+  /**
+   * Clock ticks to send to the timer while the program runs. The clock
+   * ticks once every `interval` instructions (default 10), `ticks` times
+   * in total. Only used if the clock is connected.
+   */
+  clock?: { ticks: number; interval?: number };
+  /**
+   * Maximum number of instructions to execute before giving up.
+   * Useful to stop programs stuck in infinite loops. Default is no limit.
+   */
+  maxCycles?: number;
+  /**
+   * Records every executed instruction in the given recorder.
+   */
+  trace?: TraceRecorder;
+  /**
+   * Called after loading the program and before starting the CPU.
+   * Useful to set up the initial state of the computer.
+   */
+  setup?: (simulator: Simulator) => void;
+};
+
+export type RunResult =
+  | { status: "assemble-error"; errors: AssembleResultError["errors"] }
+  | { status: "halted"; cycles: number; state: ComputerState }
+  | { status: "cycle-limit"; cycles: number; state: ComputerState }
+  | { status: "waiting-for-input"; cycles: number; state: ComputerState }
+  | { status: "error"; cycles: number; state: ComputerState; error: SimulatorError<any> };
+
+/**
+ * Assembles the source code and runs it until the CPU halts, an error
+ * occurs, the cycle limit is reached or the program asks for more
+ * keyboard input than the one given.
+ *
+ * Since there's no one to watch it, the printer prints one character
+ * after each instruction, and the remaining ones when the CPU halts.
+ *
+ * It should never throw an error, since both assembler and simulator
+ * errors are returned as part of the result.
+ *
+ * A memory image (see `createImage` in the assembler) can be given instead
+ * of the source code. Images don't have metadata, so their devices must be
+ * given in the options.
+ *
+ * @param source The source code of the program, or its memory image.
+ * @param options Run options, see {@link RunOptions}.
+ */
+export function runProgram(source: string | MemoryImage, options: RunOptions = {}): RunResult {
+  let program: Program | MemoryImage;
+  let devices: DevicesConfiguration;
+
+  if (typeof source === "string") {
+    const result = assemble(source, { resolveInclude: options.resolveInclude });
+    if (!result.success) return { status: "assemble-error", errors: result.errors };
+
+    program = result.program;
+    devices = {
+      ...NO_DEVICES,
+      ...(result.metadata.devices ? parseDevices(result.metadata.devices) : {}),
+      ...options.devices,
+    };
+  } else {
+    program = source;
+    devices = { ...NO_DEVICES, ...options.devices };
+  }
+
+  const simulator = new Simulator();
+  let cycles = 0;
+
+  try {
+    simulator.loadProgram({
+      program,
+      data: options.data ?? "clean",
+      devices,
+      selfModifyingCode: options.selfModifyingCode,
+    });
+    if (options.input && simulator.devices.keyboard.connected()) {
+      simulator.devices.keyboard.enqueue(options.input);
+    }
+    options.setup?.(simulator);
+
+    const clockInterval = options.clock?.interval ?? 10;
+    let ticksLeft = simulator.devices.clock.connected() ? (options.clock?.ticks ?? 0) : 0;
+
+    const keep = options.trace ? TraceRecorder.EVENTS : [];
+    for (const event of simulator.startCPU({ turbo: true, keep })) {
+      options.trace?.observe(event, simulator);
+      if (event.type === "cpu:cycle.start") {
+        if (options.maxCycles !== undefined && cycles >= options.maxCycles) {
+          return { status: "cycle-limit", cycles, state: simulator.getComputerState() };
+        }
+        cycles++;
+      } else if (event.type === "cpu:cycle.end") {
+        if (simulator.devices.printer.connected()) drain(simulator.devices.printer.print()!);
+        if (ticksLeft > 0 && cycles % clockInterval === 0) {
+          drain(simulator.devices.clock.tick()!);
+          ticksLeft--;
+        }
+      } else if (event.type === "keyboard:listen-key") {
+        // The input queue is empty, and there's no one to press a key
+        return { status: "waiting-for-input", cycles, state: simulator.getComputerState() };
+      } else if (
+        event.type === "cpu:error" ||
+        event.type === "memory:read.error" ||
+        event.type === "memory:write.error" ||
+        event.type === "bus:io.error"
+      ) {
+        return { status: "error", cycles, state: simulator.getComputerState(), error: event.error };
+      }
+    }
+
+    if (simulator.devices.printer.connected()) drain(simulator.devices.printer.flush()!);
+  } catch (error) {
+    return {
+      status: "error",
+      cycles,
+      state: simulator.getComputerState(),
+      error: SimulatorError.from(error),
+    };
+  }
+
+  return { status: "halted", cycles, state: simulator.getComputerState() };
+}
+
+/**
+ * Runs a generator of events from the devices (like the clock or the printer)
+ * until it finishes, ignoring the events.
+ */
+function drain(generator: EventGenerator) {
+  while (!generator.next().done);
+}
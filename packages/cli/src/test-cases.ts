@@ -0,0 +1,280 @@
+import { assemble, IncludeResolver } from "@vonsim/assembler";
+import { MemoryAddress } from "@vonsim/common/address";
+import { Byte } from "@vonsim/common/byte";
+import type { Language } from "@vonsim/common/i18n";
+import { ComputerState, parseDevices } from "@vonsim/simulator";
+import { z } from "zod";
+
+import { runProgram, RunResult } from "./run";
+
+const NUMBER_REGEX = /^(-?\d+|[\da-f]+h|[01]+b)$/i;
+
+/**
+ * Parses a number with the assembler syntax (e.g. `10h`, `1010b` or `-5`).
+ */
+function parseNumber(s: string): number {
+  const suffix = s.at(-1)!.toLowerCase();
+  if (suffix === "h") return parseInt(s.slice(0, -1), 16);
+  if (suffix === "b") return parseInt(s.slice(0, -1), 2);
+  return parseInt(s, 10);
+}
+
+/**
+ * A number written either as a JSON number or as a string with the
+ * assembler syntax (e.g. `"10h"`, `"1010b"` or `"-5"`).
+ */
+const numberSchema = z.union([
+  z.number().int(),
+  z.string().regex(NUMBER_REGEX, "Invalid number").transform(parseNumber),
+]);
+
+const WORD_REGISTERS = ["AX", "BX", "CX", "DX", "SP", "BP", "SI", "DI", "IP", "FLAGS"] as const;
+const BYTE_REGISTERS = ["AL", "AH", "BL", "BH", "CL", "CH", "DL", "DH"] as const;
+const FLAGS = { CF: 0, ZF: 6, SF: 7, IF: 9, DF: 10, OF: 11 } as const;
+
+type WordRegister = (typeof WORD_REGISTERS)[number];
+type ByteRegister = (typeof BYTE_REGISTERS)[number];
+type Register = WordRegister | ByteRegister;
+type Flag = keyof typeof FLAGS;
+
+const registersSchema = z.partialRecord(
+  z.enum([...WORD_REGISTERS, ...BYTE_REGISTERS]),
+  numberSchema,
+);
+
+/**
+ * Memory contents, as a map from the address of the first byte to the bytes
+ * (e.g. `{ "1000h": [1, "0Ah"] }`). A string can be given instead of an array
+ * to write its characters (e.g. `{ "1000h": "hello" }`).
+ */
+const memorySchema = z.record(
+  z
+    .string()
+    .regex(NUMBER_REGEX, "Invalid address")
+    .refine(s => MemoryAddress.inRange(parseNumber(s)), "Address out of range"),
+  z.union([z.array(numberSchema), z.string()]),
+);
+
+const testCaseSchema = z.object({
+  name: z.string(),
+  devices: z.string().optional(),
+  registers: registersSchema.optional(),
+  memory: memorySchema.optional(),
+  input: z.string().optional(),
+  clock: z
+    .object({ ticks: z.number().int().min(0), interval: z.number().int().min(1).optional() })
+    .optional(),
+  maxCycles: z.number().int().min(0).optional(),
+  expect: z.object({
+    registers: registersSchema.optional(),
+    flags: z.partialRecord(z.enum(Object.keys(FLAGS) as Flag[]), z.boolean()).optional(),
+    memory: memorySchema.optional(),
+    screen: z.string().optional(),
+    printer: z.string().optional(),
+  }),
+});
+
+export const testSuiteSchema = z.object({
+  /**
+   * Default step budget for every case. Default is 100 000 instructions.
+   */
+  maxCycles: z.number().int().min(0).default(100_000),
+  cases: z.array(testCaseSchema),
+});
+
+export type TestCase = z.input<typeof testCaseSchema>;
+export type TestSuite = z.input<typeof testSuiteSchema>;
+
+export type TestFailure = { subject: string; expected: string; actual: string };
+export type TestCaseResult = { name: string; passed: boolean; failures: TestFailure[] };
+
+/**
+ * Runs every test case of the suite against the program.
+ *
+ * Each case loads the program in a clean computer, sets the initial registers
+ * and memory, and runs it with the given keyboard input and clock ticks until
+ * the CPU halts or the step budget runs out. Then, the final state is compared
+ * against the expected one.
+ *
+ * @param source The source code of the program.
+ * @param suite The test suite, usually parsed from a JSON file. It's validated here.
+ * @param lang Language of the error messages.
+ * @param resolveInclude Reads the files included by the program.
+ * @returns The result of each case, or the assembler errors if the program can't be assembled.
+ * @throws {z.ZodError} If the test suite is invalid.
+ */
+export function runTestSuite(
+  source: string,
+  suite: TestSuite,
+  lang: Language = "en",
+  resolveInclude?: IncludeResolver,
+): Extract<RunResult, { status: "assemble-error" }> | TestCaseResult[] {
+  const { maxCycles, cases } = testSuiteSchema.parse(suite);
+
+  const assembled = assemble(source, { resolveInclude });
+  if (!assembled.success) return { status: "assemble-error", errors: assembled.errors };
+
+  const results: TestCaseResult[] = [];
+
+  for (const testCase of cases) {
+    const result = runProgram(source, {
+      resolveInclude,
+      devices: testCase.devices !== undefined ? parseDevices(testCase.devices) : undefined,
+      input: testCase.input,
+      clock: testCase.clock,
+      maxCycles: testCase.maxCycles ?? maxCycles,
+      setup: simulator => {
+        for (const [register, value] of Object.entries(testCase.registers ?? {})) {
+          if (isWordRegister(register)) {
+            simulator.setRegister(register, Byte.fromNumber(value, 16));
+          } else {
+            simulator.setRegister(register as ByteRegister, Byte.fromNumber(value, 8));
+          }
+        }
+        for (const [address, values] of Object.entries(testCase.memory ?? {})) {
+          simulator.setMemory(parseNumber(address), toBytes(values));
+        }
+      },
+    });
+
+    if (result.status === "assemble-error") return result;
+
+    const failures: TestFailure[] = [];
+
+    switch (result.status) {
+      case "halted":
+        break;
+      case "cycle-limit":
+        failures.push({
+          subject: "end",
+          expected: "the program halts",
+          actual: `reached the limit of ${result.cycles} instructions`,
+        });
+        break;
+      case "waiting-for-input":
+        failures.push({
+          subject: "end",
+          expected: "the program halts",
+          actual: "the program asked for more keyboard input",
+        });
+        break;
+      case "error":
+        failures.push({
+          subject: "end",
+          expected: "the program halts",
+          actual: `error: ${result.error.translate(lang)}`,
+        });
+        break;
+      default: {
+        const _exhaustiveCheck: never = result;
+        return _exhaustiveCheck;
+      }
+    }
+
+    failures.push(...compareState(result.state, testCase.expect));
+    results.push({ name: testCase.name, passed: failures.length === 0, failures });
+  }
+
+  return results;
+}
+
+function compareState(
+  state: ComputerState,
+  expected: z.output<typeof testCaseSchema>["expect"],
+): TestFailure[] {
+  const failures: TestFailure[] = [];
+
+  for (const [register, value] of Object.entries(expected.registers ?? {})) {
+    const size = isWordRegister(register) ? 16 : 8;
+    const actual = getRegister(state, register as Register);
+    const expectedValue = Byte.fromNumber(value, size).unsigned;
+    if (actual !== expectedValue) {
+      failures.push({
+        subject: register,
+        expected: formatByte(expectedValue, size),
+        actual: formatByte(actual, size),
+      });
+    }
+  }
+
+  for (const [flag, value] of Object.entries(expected.flags ?? {})) {
+    const actual = Byte.fromUnsigned(state.cpu.FLAGS, 16).bit(FLAGS[flag as Flag]);
+    if (actual !== value) {
+      failures.push({
+        subject: flag,
+        expected: String(Number(value)),
+        actual: String(Number(actual)),
+      });
+    }
+  }
+
+  for (const [address, values] of Object.entries(expected.memory ?? {})) {
+    const start = parseNumber(address);
+    const expectedBytes = toBytes(values).map(byte => byte.unsigned);
+    const actualBytes = state.memory.slice(start, start + expectedBytes.length);
+    if (expectedBytes.some((byte, i) => byte !== actualBytes[i])) {
+      failures.push({
+        subject: `memory ${MemoryAddress.format(start)}`,
+        expected: expectedBytes.map(byte => formatByte(byte, 8, false)).join(" "),
+        actual: actualBytes.map(byte => formatByte(byte, 8, false)).join(" "),
+      });
+    }
+  }
+
+  if (expected.screen !== undefined && expected.screen !== (state.io.screen ?? "")) {
+    failures.push({
+      subject: "screen",
+      expected: JSON.stringify(expected.screen),
+      actual: JSON.stringify(state.io.screen ?? ""),
+    });
+  }
+
+  if (expected.printer !== undefined && expected.printer !== (state.io.printer?.paper ?? "")) {
+    failures.push({
+      subject: "printer",
+      expected: JSON.stringify(expected.printer),
+      actual: JSON.stringify(state.io.printer?.paper ?? ""),
+    });
+  }
+
+  return failures;
+}
+
+/**
+ * Formats the results of a test suite as a human-readable report.
+ */
+export function formatTestReport(results: TestCaseResult[]): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    lines.push(`${result.passed ? "✓" : "✗"} ${result.name}`);
+    for (const failure of result.failures) {
+      lines.push(`    ${failure.subject}: expected ${failure.expected}, got ${failure.actual}`);
+    }
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  lines.push("", `${passed} passed, ${results.length - passed} failed`);
+
+  return lines.join("\n");
+}
+
+function isWordRegister(register: string): register is WordRegister {
+  return WORD_REGISTERS.includes(register as WordRegister);
+}
+
+function getRegister(state: ComputerState, register: Register): number {
+  if (isWordRegister(register)) return state.cpu[register];
+  const word = state.cpu[`${register[0]}X` as WordRegister];
+  return register[1] === "L" ? word & 0xff : word >> 8;
+}
+
+function toBytes(values: number[] | string): Byte<8>[] {
+  if (typeof values === "string") return Array.from(values, char => Byte.fromChar(char));
+  return values.map(value => Byte.fromNumber(value, 8));
+}
+
+function formatByte(value: number, size: 8 | 16, trailingH = true): string {
+  const hex = Byte.fromUnsigned(value, size).toString("hex");
+  return trailingH ? `${hex}h` : hex;
+}
@@ -0,0 +1,174 @@
+import { assemble, createImage } from "@vonsim/assembler";
+import { parseDevices, TraceRecorder } from "@vonsim/simulator";
+import { describe, expect, it } from "vitest";
+
+import { formatAssemblerErrors, getLineAndColumn, runProgram } from "../src";
+
+describe("runProgram", () => {
+  it("runs a program until it halts", () => {
+    const result = runProgram(`
+      org 1000h
+      num db 5
+      org 2000h
+      mov al, num
+      add al, 3
+      mov num, al
+      hlt
+      end
+    `);
+    expect(result.status).toBe("halted");
+    if (result.status !== "halted") return;
+    expect(result.cycles).toBe(4);
+    expect(result.state.cpu.AX & 0xff).toBe(8);
+    expect(result.state.memory[0x1000]).toBe(8);
+  });
+
+  it("returns assembler errors", () => {
+    const result = runProgram("org 2000h\nmov ax, bx\nmov ax\nend");
+    expect(result.status).toBe("assemble-error");
+  });
+
+  it("records a trace", () => {
+    const trace = new TraceRecorder();
+    runProgram(
+      `
+      org 1000h
+      num db 5
+      org 2000h
+      mov al, num
+      add al, 3
+      mov num, al
+      hlt
+      end
+    `,
+      { trace },
+    );
+    expect(trace.entries.map(entry => entry.mnemonic)).toEqual(["MOV", "ADD", "MOV", "HLT"]);
+    expect(trace.entries[2].writes).toEqual([{ address: 0x1000, value: 8 }]);
+  });
+
+  it("returns simulator errors", () => {
+    const result = runProgram(`
+      org 2000h
+      mov bx, 2000h
+      mov [bx], al
+      hlt
+      end
+    `);
+    expect(result.status).toBe("error");
+    if (result.status !== "error") return;
+    expect(result.error.code).toBe("address-has-instruction");
+  });
+
+  it("stops at the cycle limit", () => {
+    const result = runProgram(
+      `
+      org 2000h
+      loop: jmp loop
+      end
+    `,
+      { maxCycles: 100 },
+    );
+    expect(result.status).toBe("cycle-limit");
+    expect(result.status !== "assemble-error" && result.cycles).toBe(100);
+  });
+
+  it("connects devices from metadata", () => {
+    const result = runProgram(`;; devices = screen
+      org 1000h
+      msg db "Hi"
+      org 2000h
+      mov bx, offset msg
+      mov al, 2
+      int 7
+      int 0
+      end
+    `);
+    expect(result.status).toBe("halted");
+    expect(result.status === "halted" && result.state.io.screen).toBe("Hi");
+  });
+
+  it("runs memory images", () => {
+    const assembled = assemble(`
+      org 1000h
+      msg db "Hi"
+      org 2000h
+      mov bx, offset msg
+      mov al, 2
+      int 7
+      int 0
+      end
+    `);
+    if (!assembled.success) throw new Error(assembled.errors.join("\n"));
+
+    const result = runProgram(createImage(assembled.program), { devices: parseDevices("screen") });
+    expect(result.status).toBe("halted");
+    expect(result.status === "halted" && result.state.io.screen).toBe("Hi");
+  });
+});
+
+describe("formatAssemblerErrors", () => {
+  it("converts offsets to lines and columns", () => {
+    expect(getLineAndColumn("abc\ndef", 0)).toEqual([1, 1]);
+    expect(getLineAndColumn("abc\ndef", 5)).toEqual([2, 2]);
+
+    const source = "org 2000h\n  mov ax\nend";
+    const result = runProgram(source);
+    if (result.status !== "assemble-error") throw new Error("Expected assemble error");
+    expect(formatAssemblerErrors("test.asm", source, result.errors, "en")).toMatch(
+      /^test\.asm:2:\d+: /,
+    );
+  });
+
+  it("shows where macros were expanded", () => {
+    const source = "poner MACRO valor\n  mov al, valor\nENDM\norg 2000h\nponer 300\nend";
+    const result = runProgram(source);
+    if (result.status !== "assemble-error") throw new Error("Expected assemble error");
+    expect(formatAssemblerErrors("test.asm", source, result.errors, "en").split("\n")).toEqual([
+      "test.asm:2:11: The number 300 cannot be represented with 8 bits.",
+      "test.asm:5:1: in expansion of macro",
+    ]);
+  });
+
+  it("shows the file of included code", () => {
+    const files: Record<string, string> = { "io.asm": "nop\nmov al, 300" };
+    const resolveInclude = (file: string) => files[file] ?? null;
+    const source = 'org 2000h\nINCLUDE "io.asm"\nend';
+    const result = runProgram(source, { resolveInclude });
+    if (result.status !== "assemble-error") throw new Error("Expected assemble error");
+    expect(formatAssemblerErrors("src/test.asm", source, result.errors, "en", resolveInclude)).toBe(
+      "src/io.asm:2:9: The number 300 cannot be represented with 8 bits.",
+    );
+  });
+});
+
+describe("keyboard input", () => {
+  const source = `
+    org 1000h
+    str db ?
+    org 2000h
+    mov bx, offset str
+    loop: int 6
+    cmp byte ptr [bx], '.'
+    jz fin
+    inc bx
+    jmp loop
+    fin: mov al, bl
+    mov bx, offset str
+    int 7
+    hlt
+    end
+  `;
+  const devices = parseDevices("keyboard");
+
+  it("reads the input until the program ends", () => {
+    const result = runProgram(source, { devices, input: "hello." });
+    expect(result.status).toBe("halted");
+    expect(result.status === "halted" && result.state.io.screen).toBe("hello");
+  });
+
+  it("stops when the input runs out", () => {
+    const result = runProgram(source, { devices, input: "hel" });
+    expect(result.status).toBe("waiting-for-input");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+
+import { formatTestReport, runTestSuite } from "../src";
+
+const sum = `
+  org 1000h
+  a db ?
+  b db ?
+  r db ?
+  org 2000h
+  mov al, a
+  add al, b
+  add al, cl
+  mov r, al
+  hlt
+  end
+`;
+
+const timer = `;; devices = pic
+  org 44
+  dw handler
+
+  org 1000h
+  count db 0
+
+  org 3000h
+  handler: inc count
+  mov al, 0
+  out 10h, al ; CONT
+  mov al, 20h
+  out 20h, al ; EOI
+  iret
+
+  org 2000h
+  cli
+  mov al, 0FDh
+  out 21h, al ; IMR
+  mov al, 11
+  out 25h, al ; INT1
+  mov al, 1
+  out 11h, al ; COMP
+  mov al, 0
+  out 10h, al ; CONT
+  sti
+  wait: cmp count, 3
+  jnz wait
+  hlt
+  end
+`;
+
+describe("runTestSuite", () => {
+  it("sets up the initial state and checks the final one", () => {
+    const results = runTestSuite(sum, {
+      cases: [
+        {
+          name: "adds",
+          registers: { CX: 3 },
+          memory: { "1000h": [1, "0Ah"] },
+          expect: { registers: { AL: 14 }, memory: { "1002h": ["0Eh"] }, flags: { ZF: false } },
+        },
+        {
+          name: "wraps around",
+          registers: { CL: -1 },
+          memory: { "1000h": [0, 1] },
+          expect: { registers: { AL: 0 }, flags: { ZF: true, CF: true } },
+        },
+      ],
+    });
+
+    expect(results).toEqual([
+      { name: "adds", passed: true, failures: [] },
+      { name: "wraps around", passed: true, failures: [] },
+    ]);
+  });
+
+  it("reports the differences", () => {
+    const results = runTestSuite(sum, {
+      cases: [
+        {
+          name: "fails",
+          memory: { "1000h": "AB" },
+          expect: { registers: { AX: 1 }, memory: { "1002h": [0, 0] }, screen: "" },
+        },
+      ],
+    });
+
+    expect(results).toEqual([
+      {
+        name: "fails",
+        passed: false,
+        failures: [
+          { subject: "AX", expected: "0001h", actual: "0083h" },
+          { subject: "memory 1002h", expected: "00 00", actual: "83 00" },
+        ],
+      },
+    ]);
+    expect(Array.isArray(results) && formatTestReport(results)).toMatchInlineSnapshot(`
+      "✗ fails
+          AX: expected 0001h, got 0083h
+          memory 1002h: expected 00 00, got 83 00
+
+      0 passed, 1 failed"
+    `);
+  });
+
+  it("sends clock ticks to the timer", () => {
+    const suite = (ticks: number) => ({
+      maxCycles: 1000,
+      cases: [{ name: "counts", clock: { ticks }, expect: { memory: { "1000h": [3] } } }],
+    });
+
+    expect(runTestSuite(timer, suite(3))).toMatchObject([{ passed: true }]);
+    expect(runTestSuite(timer, suite(2))).toMatchObject([
+      {
+        passed: false,
+        failures: [
+          {
+            subject: "end",
+            expected: "the program halts",
+            actual: "reached the limit of 1000 instructions",
+          },
+          { subject: "memory 1000h", expected: "03", actual: "02" },
+        ],
+      },
+    ]);
+  });
+
+  it("returns assembler errors", () => {
+    const results = runTestSuite("org 2000h\nmov\nend", { cases: [] });
+    expect(results).toMatchObject({ status: "assemble-error" });
+  });
+
+  it("validates the test suite", () => {
+    expect(() =>
+      runTestSuite(sum, { cases: [{ name: "bad", expect: { memory: { "9000h": [0] } } }] }),
+    ).toThrow();
+  });
+});
@@ -2,33 +2,73 @@
  * A position in the source code.
  * It's represented by a start and end index.
  *
+ * Code that comes from a macro expansion keeps its position inside the macro
+ * definition, and also points to the place where the macro was used
+ * (see {@link Position.expandedFrom}). Code from an included file keeps the
+ * name of the file (see {@link Position.file}).
+ *
  * ---
  * This class is: IMMUTABLE
  */
 export class Position {
   readonly start: number;
   readonly end: number;
+  /**
+   * If this position is inside a macro expansion, the position of the macro
+   * call that generated it. Otherwise, `null`.
+   */
+  readonly expandedFrom: Position | null;
+  /**
+   * The file this position belongs to, if it comes from an included file.
+   * `null` for the main program.
+   */
+  readonly file: string | null;
 
-  constructor(start: number, end?: number) {
+  constructor(
+    start: number,
+    end?: number,
+    {
+      expandedFrom = null,
+      file = null,
+    }: { expandedFrom?: Position | null; file?: string | null } = {},
+  ) {
     this.start = start | 0;
     this.end = (end ?? start) | 0;
+    this.expandedFrom = expandedFrom;
+    this.file = file;
   }
 
   get range(): [start: number, end: number] {
     return [this.start, this.end];
   }
 
+  /**
+   * The positions of the macro calls this position comes from, starting from
+   * the innermost one. Empty if it isn't inside a macro expansion.
+   */
+  get expansions(): Position[] {
+    const expansions: Position[] = [];
+    for (let call = this.expandedFrom; call; call = call.expandedFrom) expansions.push(call);
+    return expansions;
+  }
+
   toString() {
-    let str = `${this.start}`;
+    let str = this.file ? `${this.file}@${this.start}` : `${this.start}`;
     if (this.end !== this.start) str += `:${this.end}`;
     return str;
   }
 
   /**
    * Merge multiple positions into one that contains all of them.
+   *
+   * Positions inside a macro expansion don't make sense together with the
+   * code around the macro call, so only the positions with the least nested
+   * expansions are kept.
    */
   static merge(...positions: (Position | null | undefined)[]): Position {
-    const arr = positions.filter(Boolean);
+    const depths = positions.map(position => position?.expansions.length ?? Infinity);
+    const depth = Math.min(...depths);
+    const arr = positions.filter((position, i) => position && depths[i] === depth) as Position[];
     if (arr.length === 0) throw new Error("Cannot merge 0 positions");
     let start = arr[0].start;
     let end = arr[0].end;
@@ -37,7 +77,7 @@ export class Position {
       if (position.end > end) end = position.end;
     }
 
-    return new Position(start, end);
+    return new Position(start, end, { expandedFrom: arr[0].expandedFrom, file: arr[0].file });
   }
 
   toJSON() {
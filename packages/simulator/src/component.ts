@@ -17,5 +17,11 @@ export abstract class Component {
     this.computer = options.computer;
   }
 
+  /**
+   * Restores the state of the component from the output of {@link Component.toJSON}.
+   * Needed to step back and to load snapshots of the computer.
+   */
+  abstract restore(state: JsonValue): void;
+
   abstract toJSON(): JsonValue;
 }
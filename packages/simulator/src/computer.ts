@@ -1,4 +1,4 @@
-import type { Program } from "@vonsim/assembler";
+import type { MemoryImage, Program } from "@vonsim/assembler";
 import type { JsonObject } from "type-fest";
 
 import { CPU } from "./cpu";
@@ -6,8 +6,18 @@ import { IOInterface } from "./io";
 import { Memory } from "./memory";
 
 export type ComputerOptions = {
-  program: Program;
+  /**
+   * The program to run: either an assembled program or a memory image
+   * (whose instructions are decoded from memory, see {@link CPU}).
+   */
+  program: Program | MemoryImage;
   devices: DevicesConfiguration;
+  /**
+   * Whether the CPU decodes the instructions from memory on every cycle,
+   * which allows writing over the instructions and jumping into data.
+   * @see {@link CPU}
+   */
+  selfModifyingCode?: boolean;
 } & (
   | { data: "clean" | "randomize"; previous: Computer | null }
   | { data: "unchanged"; previous: Computer }
@@ -49,6 +59,16 @@ export class Computer {
     this.io = new IOInterface(init);
   }
 
+  /**
+   * Restores the state of the whole computer from the output of {@link Computer.toJSON}.
+   * The program and the devices must be the same ones the state was taken from.
+   */
+  restore(state: ReturnType<Computer["toJSON"]>) {
+    this.cpu.restore(state.cpu);
+    this.memory.restore(state.memory);
+    this.io.restore(state.io);
+  }
+
   toJSON() {
     return {
       cpu: this.cpu.toJSON(),
@@ -0,0 +1,219 @@
+import type { AnyByte } from "@vonsim/common/byte";
+
+import type { ByteRegister, Flag, WordRegister } from "./cpu/types";
+import { SimulatorError } from "./error";
+
+/**
+ * Where the values of a {@link Condition} are read from.
+ * Both the {@link Simulator} and the CPU satisfy this interface.
+ */
+export type ConditionContext = {
+  getRegister(register: ByteRegister | WordRegister): AnyByte;
+  getFlag(flag: Flag): boolean;
+};
+
+const REGISTERS = [
+  ...["AX", "BX", "CX", "DX", "SP", "BP", "SI", "DI", "IP", "FLAGS"],
+  ...["AL", "AH", "BL", "BH", "CL", "CH", "DL", "DH"],
+] as const satisfies (ByteRegister | WordRegister)[];
+const FLAGS = ["CF", "ZF", "SF", "IF", "DF", "OF"] as const satisfies Flag[];
+
+const COMPARISONS = ["==", "!=", "<=", ">=", "<", ">"] as const;
+
+type Comparison = (typeof COMPARISONS)[number];
+
+type Node =
+  | { type: "number"; value: number }
+  | { type: "register"; register: (typeof REGISTERS)[number] }
+  | { type: "flag"; flag: Flag }
+  | { type: "not"; operand: Node }
+  | { type: "and" | "or"; left: Node; right: Node }
+  | { type: "comparison"; operator: Comparison; left: Node; right: Node };
+
+const TOKEN_REGEX = /\s*(==|!=|<=|>=|&&|\|\||[<>!()]|[a-z]+|\d[\da-f]*h\b|[01]+b\b|\d+)/iy;
+
+/**
+ * A condition over the registers and flags of the CPU, like `CX == 0 && ZF`.
+ *
+ * Conditions support:
+ * - registers (`AX`, `CL`, `FLAGS`, etc.), which evaluate to their unsigned value;
+ * - flags (`CF`, `ZF`, `SF`, `IF`, `DF` and `OF`), which evaluate to 0 or 1;
+ * - numbers, with the same syntax as the assembler (`10`, `0Ah`, `1010b`);
+ * - comparisons (`==`, `!=`, `<`, `<=`, `>` and `>=`);
+ * - logical operators (`!`, `&&` and `||`) and parentheses.
+ *
+ * Any value different from zero is considered true.
+ *
+ * ---
+ * This class is: IMMUTABLE
+ */
+export class Condition {
+  readonly source: string;
+  readonly #root: Node;
+
+  private constructor(source: string, root: Node) {
+    this.source = source;
+    this.#root = root;
+  }
+
+  /**
+   * Parses a condition.
+   * @throws {SimulatorError<"invalid-condition">} If the condition isn't valid.
+   */
+  static parse(source: string): Condition {
+    const tokens: string[] = [];
+    TOKEN_REGEX.lastIndex = 0;
+    while (TOKEN_REGEX.lastIndex < source.trimEnd().length) {
+      const match = TOKEN_REGEX.exec(source);
+      if (!match) throw new SimulatorError("invalid-condition", source);
+      tokens.push(match[1].toUpperCase());
+    }
+
+    const parser = new ConditionParser(source, tokens);
+    return new Condition(source, parser.parse());
+  }
+
+  /**
+   * Evaluates the condition with the current state of the computer.
+   */
+  evaluate(context: ConditionContext): boolean {
+    return evaluateNode(this.#root, context) !== 0;
+  }
+
+  toString() {
+    return this.source;
+  }
+}
+
+function evaluateNode(node: Node, context: ConditionContext): number {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "register":
+      return context.getRegister(node.register).unsigned;
+    case "flag":
+      return context.getFlag(node.flag) ? 1 : 0;
+    case "not":
+      return evaluateNode(node.operand, context) === 0 ? 1 : 0;
+    case "and":
+      return evaluateNode(node.left, context) !== 0 && evaluateNode(node.right, context) !== 0
+        ? 1
+        : 0;
+    case "or":
+      return evaluateNode(node.left, context) !== 0 || evaluateNode(node.right, context) !== 0
+        ? 1
+        : 0;
+    case "comparison": {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case "==":
+          return left === right ? 1 : 0;
+        case "!=":
+          return left !== right ? 1 : 0;
+        case "<":
+          return left < right ? 1 : 0;
+        case "<=":
+          return left <= right ? 1 : 0;
+        case ">":
+          return left > right ? 1 : 0;
+        case ">=":
+          return left >= right ? 1 : 0;
+        default: {
+          const _exhaustiveCheck: never = node.operator;
+          return _exhaustiveCheck;
+        }
+      }
+    }
+    default: {
+      const _exhaustiveCheck: never = node;
+      return _exhaustiveCheck;
+    }
+  }
+}
+
+/**
+ * Recursive descent parser for conditions. Precedence, from lowest to highest:
+ * `||`, `&&`, comparisons, `!`.
+ */
+class ConditionParser {
+  #source: string;
+  #tokens: string[];
+  #current = 0;
+
+  constructor(source: string, tokens: string[]) {
+    this.#source = source;
+    this.#tokens = tokens;
+  }
+
+  parse(): Node {
+    const node = this.#or();
+    if (this.#current < this.#tokens.length) this.#error();
+    return node;
+  }
+
+  #or(): Node {
+    let node = this.#and();
+    while (this.#match("||")) node = { type: "or", left: node, right: this.#and() };
+    return node;
+  }
+
+  #and(): Node {
+    let node = this.#comparison();
+    while (this.#match("&&")) node = { type: "and", left: node, right: this.#comparison() };
+    return node;
+  }
+
+  #comparison(): Node {
+    const left = this.#unary();
+    const operator = COMPARISONS.find(op => this.#match(op));
+    if (!operator) return left;
+    return { type: "comparison", operator, left, right: this.#unary() };
+  }
+
+  #unary(): Node {
+    if (this.#match("!")) return { type: "not", operand: this.#unary() };
+    return this.#primary();
+  }
+
+  #primary(): Node {
+    const token = this.#tokens[this.#current++];
+    if (token === undefined) this.#error();
+
+    if (token === "(") {
+      const node = this.#or();
+      if (!this.#match(")")) this.#error();
+      return node;
+    }
+
+    if (/^\d/.test(token)) {
+      const suffix = token.at(-1);
+      const value =
+        suffix === "H"
+          ? parseInt(token.slice(0, -1), 16)
+          : suffix === "B"
+            ? parseInt(token.slice(0, -1), 2)
+            : Number(token);
+      if (!Number.isFinite(value)) this.#error();
+      return { type: "number", value };
+    }
+
+    const register = REGISTERS.find(reg => reg === token);
+    if (register) return { type: "register", register };
+
+    const flag = FLAGS.find(flag => flag === token);
+    if (flag) return { type: "flag", flag };
+
+    this.#error();
+  }
+
+  #match(token: string): boolean {
+    if (this.#tokens[this.#current] !== token) return false;
+    this.#current++;
+    return true;
+  }
+
+  #error(): never {
+    throw new SimulatorError("invalid-condition", this.#source);
+  }
+}
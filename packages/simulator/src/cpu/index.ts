@@ -1,12 +1,16 @@
+import { decodeInstruction, InstructionStatement } from "@vonsim/assembler";
 import { MemoryAddress } from "@vonsim/common/address";
 import { AnyByte, Byte } from "@vonsim/common/byte";
 
 import { Component, ComponentInit } from "../component";
 import { SimulatorError } from "../error";
-import type { EventGenerator } from "../events";
+import type { EventGenerator, SimulatorEvent } from "../events";
+import type { History } from "../history";
+import type { Profiler } from "../profiler";
 import { InstructionType, statementToInstruction } from "./instructions";
 import { getSyscallNumber, handleSyscall } from "./syscalls";
 import type {
+  ALUPart,
   ByteRegister,
   Flag,
   MARRegister,
@@ -18,6 +22,25 @@ import type {
 } from "./types";
 import { parseRegister } from "./utils";
 
+/**
+ * Events that are still emitted in turbo mode. These are the ones that
+ * either mark the boundaries of an instruction or need someone outside
+ * the CPU to act on them (report an error, halt, wait for a key, etc.).
+ * @see {@link CPU.run}
+ */
+const TURBO_EVENTS = new Set<SimulatorEvent["type"]>([
+  "cpu:cycle.start",
+  "cpu:cycle.end",
+  "cpu:error",
+  "cpu:halt",
+  "cpu:int.0",
+  "cpu:int.3",
+  "keyboard:listen-key",
+  "memory:read.error",
+  "memory:write.error",
+  "bus:io.error",
+]);
+
 /**
  * The CPU.
  * @see {@link https://vonsim.github.io/en/computer/cpu}
@@ -29,16 +52,32 @@ import { parseRegister } from "./utils";
  * having to read the program from memory every time an instruction is executed,
  * which would be very inefficient.
  *
+ * With self-modifying code enabled (see the `selfModifyingCode` option of the
+ * computer), the stored instructions are ignored: the instruction pointed by IP
+ * is decoded from memory on every cycle instead, so the program can write over
+ * its own instructions or jump into data.
+ *
+ * Memory images (see the `program` option of the computer) have no statements
+ * to store, so their instructions are always decoded from memory, starting
+ * from the entry point of the image.
+ *
  * The function that executes the instructions is {@link CPU.run}.
  *
  * ---
  * This class is: MUTABLE
  */
 export class CPU extends Component {
+  #statements: Map<number, InstructionStatement>;
   #instructions: Map<number, InstructionType>;
+  #decodeFromMemory: boolean;
   #registers: RegistersMap;
   #MAR: Byte<16>;
   #MBR: Byte<8>;
+  #turbo = false;
+  #betweenInstructions = true;
+  #turboEvents = TURBO_EVENTS;
+  #history: History | null = null;
+  #profiler: Profiler | null = null;
 
   constructor(options: ComponentInit) {
     super(options);
@@ -54,6 +93,9 @@ export class CPU extends Component {
         CX: Byte.random(16),
         DX: Byte.random(16),
         SP: Byte.random(16),
+        BP: Byte.random(16),
+        SI: Byte.random(16),
+        DI: Byte.random(16),
         IP: Byte.random(16),
         IR: Byte.random(8),
         ri: Byte.random(16),
@@ -72,6 +114,9 @@ export class CPU extends Component {
         CX: Byte.zero(16),
         DX: Byte.zero(16),
         SP: Byte.zero(16),
+        BP: Byte.zero(16),
+        SI: Byte.zero(16),
+        DI: Byte.zero(16),
         IP: Byte.zero(16),
         IR: Byte.zero(8),
         ri: Byte.zero(16),
@@ -92,17 +137,55 @@ export class CPU extends Component {
     // Interrupts always enabled at the start
     this.#setFlag("IF", true);
 
+    this.#statements = new Map();
     this.#instructions = new Map();
+
+    if ("segments" in options.program) {
+      this.#registers.IP = Byte.fromUnsigned(options.program.entryPoint, 16);
+      this.#decodeFromMemory = true;
+      return;
+    }
+
     for (const statement of options.program.instructions) {
-      const instruction = statementToInstruction(statement);
+      const instruction = statementToInstruction(statement, statement.position);
+      this.#statements.set(statement.start.value, statement);
       this.#instructions.set(instruction.start.value, instruction);
     }
+    this.#decodeFromMemory = options.selfModifyingCode ?? false;
+  }
+
+  /**
+   * Decodes the instruction stored in memory at the given address.
+   * The instruction keeps its position in the source code only if
+   * its bytes haven't been modified since the program was loaded.
+   *
+   * ---
+   * Called by the CPU ({@link CPU.run}).
+   */
+  #decode(address: number): InstructionType | null {
+    const memory = this.computer.memory;
+    const decoded = decodeInstruction(address => memory.peek(address), address);
+    if (!decoded) return null;
+
+    const statement = this.#statements.get(address);
+    const unchanged =
+      statement?.length === decoded.length &&
+      statement.toBytes().every((byte, i) => memory.peek(address + i) === byte);
+
+    return statementToInstruction(decoded, unchanged ? statement.position : null);
   }
 
   /**
    * CPU runner.
    * Executes one instruction at a time, yielding the micro-operations that it will execute.
    *
+   * In turbo mode (see {@link CPU.setTurbo}), whole instructions are executed
+   * without yielding their micro-operations. Only the events listed in
+   * {@link TURBO_EVENTS} (and the ones asked to be kept) are yielded, so the
+   * state of the computer after each instruction can still be read on `cpu:cycle.end`.
+   * The rest aren't even generated (see {@link CPU.emits}), unless the history
+   * or the profiler need them.
+   *
    * ---
    * Called by the Computer.
    */
@@ -110,42 +193,148 @@ export class CPU extends Component {
     // Infinite loop until computer halts
     while (true) {
       // Gets the instruction at the current IP from `this.#instructions`
+      // (or decodes it from memory, with self-modifying code or memory images)
       const IP = this.#registers.IP;
       const syscallNumber = getSyscallNumber(IP);
       if (syscallNumber !== null) {
         // Syscall
-        const continueExecuting = yield* handleSyscall(this.computer, syscallNumber);
+        const continueExecuting = yield* this.#filter(handleSyscall(this.computer, syscallNumber));
         if (!continueExecuting) return;
       } else {
-        const instruction = this.#instructions.get(IP.unsigned);
+        const instruction = this.#decodeFromMemory
+          ? this.#decode(IP.unsigned)
+          : this.#instructions.get(IP.unsigned);
         if (!instruction) {
           yield {
             type: "cpu:error",
-            error: new SimulatorError("no-instruction", this.#registers.IP),
+            error: this.#decodeFromMemory
+              ? new SimulatorError("invalid-instruction", this.#registers.IP)
+              : new SimulatorError("no-instruction", this.#registers.IP),
           };
           return;
         }
 
         // Execute the instruction, and checks if the instruction returned `false` (halt)
-        const continueExecuting = yield* instruction.execute(this.computer);
+        const continueExecuting = yield* this.#filter(instruction.execute(this.computer));
         if (!continueExecuting) return;
       }
 
       // Check for interrupts
       if (this.getFlag("IF") && this.computer.io.pic?.isINTRActive()) {
-        // Start interrupt phase
-        yield { type: "cpu:cycle.interrupt" };
-        const intn = yield* this.computer.io.pic.handleINTR();
-        yield* this.getMBR("ri.l");
-        yield* this.updateByteRegister("ri.h", Byte.zero(8));
-        yield* this.startInterrupt(intn);
+        yield* this.#filter(this.#handleInterrupt());
       }
 
       // End cycle and repeat
+      this.#observe({ type: "cpu:cycle.end" });
+      this.#betweenInstructions = true;
       yield { type: "cpu:cycle.end" };
     }
   }
 
+  /**
+   * Interrupt phase of the cycle, when the PIC has an active INTR line.
+   *
+   * ---
+   * Called by the CPU ({@link CPU.run}).
+   */
+  *#handleInterrupt(): EventGenerator {
+    if (this.emits("cpu:cycle.interrupt")) yield { type: "cpu:cycle.interrupt" };
+    const intn = yield* this.computer.io.pic!.handleINTR();
+    yield* this.getMBR("ri.l");
+    yield* this.updateByteRegister("ri.h", Byte.zero(8));
+    yield* this.startInterrupt(intn);
+  }
+
+  /**
+   * Passes through all the events of the generator, or, in turbo mode, only
+   * the ones in {@link TURBO_EVENTS} and the ones asked to be kept. The rest are mostly not
+   * generated at all (see {@link CPU.emits}), and the few that are get discarded here.
+   * All of them are recorded in the history and the profiler, if any.
+   *
+   * It also keeps track of whether the CPU is between two instructions
+   * (see {@link CPU.betweenInstructions}).
+   *
+   * ---
+   * Called by the CPU ({@link CPU.run}).
+   */
+  *#filter<T>(generator: EventGenerator<T>): EventGenerator<T> {
+    while (true) {
+      const result = generator.next();
+      if (result.done) return result.value;
+      if (result.value.type !== "cpu:cycle.start") this.#betweenInstructions = false;
+      this.#observe(result.value);
+      if (!this.#turbo || this.#turboEvents.has(result.value.type)) yield result.value;
+    }
+  }
+
+  /**
+   * Whether an event of the given type has to be generated. Outside turbo mode
+   * every event is, but in turbo mode the micro-operations that nobody will see
+   * are skipped, so their event objects aren't created only to be discarded.
+   *
+   * The events of the devices aren't skipped, since they are also generated
+   * outside the CPU (e.g. when the clock ticks).
+   *
+   * ---
+   * Called by the instructions, the memory and the I/O interface.
+   */
+  emits(type: SimulatorEvent["type"]): boolean {
+    return !this.#turbo || !!this.#history || !!this.#profiler || this.#turboEvents.has(type);
+  }
+
+  #observe(event: SimulatorEvent) {
+    this.#history?.observe(event);
+    this.#profiler?.observe(event);
+  }
+
+  /**
+   * Whether the CPU is between two instructions: the last one has ended
+   * (`cpu:cycle.end`) and the next one hasn't done anything besides starting
+   * its cycle (`cpu:cycle.start`). Only there the state of the CPU can be
+   * restored and continued, since in the middle of an instruction IP already
+   * points past the bytes that were fetched.
+   */
+  get betweenInstructions(): boolean {
+    return this.#betweenInstructions;
+  }
+
+  /**
+   * Sets the history where every event will be recorded, or `null` to stop recording.
+   * @see {@link History}
+   *
+   * ---
+   * Called by the Simulator.
+   */
+  setHistory(history: History | null) {
+    this.#history = history;
+  }
+
+  /**
+   * Sets the profiler where every event will be counted, or `null` to stop counting.
+   * @see {@link Profiler}
+   *
+   * ---
+   * Called by the Simulator.
+   */
+  setProfiler(profiler: Profiler | null) {
+    this.#profiler = profiler;
+  }
+
+  /**
+   * Enables or disables turbo mode. It can be changed while the CPU is
+   * running, and it'll take effect from the next instruction.
+   * @see {@link CPU.run}
+   *
+   * @param keep Events to emit in turbo mode besides the ones in {@link TURBO_EVENTS}.
+   *
+   * ---
+   * Called by the Simulator.
+   */
+  setTurbo(turbo: boolean, keep: Iterable<SimulatorEvent["type"]> = []) {
+    this.#turbo = turbo;
+    this.#turboEvents = new Set([...TURBO_EVENTS, ...keep]);
+  }
+
   /**
    * Starts an interrupt routine.
    * The interrupt number should have been previously written to the ri register.
@@ -188,6 +377,23 @@ export class CPU extends Component {
     return true;
   }
 
+  /**
+   * Restores the state from the output of {@link CPU.toJSON}.
+   *
+   * ---
+   * Called by the Computer.
+   */
+  restore(state: ReturnType<CPU["toJSON"]>) {
+    const registers: Record<PhysicalRegister, AnyByte> = this.#registers;
+    for (const register of Object.keys(registers) as PhysicalRegister[]) {
+      const size = registers[register].size;
+      registers[register] = Byte.fromUnsigned(state[register], size) as AnyByte;
+    }
+    this.#MAR = Byte.fromUnsigned(state.MAR, 16);
+    this.#MBR = Byte.fromUnsigned(state.MBR, 8);
+    this.#betweenInstructions = true;
+  }
+
   toJSON() {
     const registers = Object.entries(this.#registers).reduce(
       (acc, [reg, value]) => ({ ...acc, [reg]: value.toJSON() }),
@@ -257,7 +463,7 @@ export class CPU extends Component {
   *copyByteRegister(src: ByteRegister, dest: ByteRegister): EventGenerator {
     const value = this.getRegister(src);
     this.#setRegister(dest, value);
-    yield { type: "cpu:register.copy", size: 8, src, dest };
+    if (this.emits("cpu:register.copy")) yield { type: "cpu:register.copy", size: 8, src, dest };
   }
 
   /**
@@ -269,7 +475,7 @@ export class CPU extends Component {
   *copyWordRegister(src: WordRegister, dest: WordRegister): EventGenerator {
     const value = this.getRegister(src);
     this.#setRegister(dest, value);
-    yield { type: "cpu:register.copy", size: 16, src, dest };
+    if (this.emits("cpu:register.copy")) yield { type: "cpu:register.copy", size: 16, src, dest };
   }
 
   /**
@@ -284,7 +490,8 @@ export class CPU extends Component {
   ): EventGenerator {
     value = typeof value === "function" ? value(this.getRegister(register)) : value;
     this.#setRegister(register, value);
-    yield { type: "cpu:register.update", size: 8, register, value };
+    if (this.emits("cpu:register.update"))
+      yield { type: "cpu:register.update", size: 8, register, value };
   }
 
   /**
@@ -299,7 +506,21 @@ export class CPU extends Component {
   ): EventGenerator {
     value = typeof value === "function" ? value(this.getRegister(register)) : value;
     this.#setRegister(register, value);
-    yield { type: "cpu:register.update", size: 16, register, value };
+    if (this.emits("cpu:register.update"))
+      yield { type: "cpu:register.update", size: 16, register, value };
+  }
+
+  /**
+   * Overrides the value of a register without emitting any event.
+   * Meant to set up the initial state of the computer before running it.
+   *
+   * ---
+   * Called by the outside ({@link Simulator.setRegister}).
+   */
+  overrideRegister(register: ByteRegister, value: Byte<8>): void;
+  overrideRegister(register: WordRegister, value: Byte<16>): void;
+  overrideRegister(register: Register, value: AnyByte): void {
+    this.#setRegister(register as WordRegister, value as Byte<16>);
   }
 
   // #=========================================================================#
@@ -320,6 +541,8 @@ export class CPU extends Component {
         return this.#registers.FLAGS.bit(7);
       case "IF":
         return this.#registers.FLAGS.bit(9);
+      case "DF":
+        return this.#registers.FLAGS.bit(10);
       case "OF":
         return this.#registers.FLAGS.bit(11);
       default:
@@ -346,6 +569,9 @@ export class CPU extends Component {
       case "IF":
         this.#registers.FLAGS = this.#registers.FLAGS.withBit(9, value);
         return;
+      case "DF":
+        this.#registers.FLAGS = this.#registers.FLAGS.withBit(10, value);
+        return;
       case "OF":
         this.#registers.FLAGS = this.#registers.FLAGS.withBit(11, value);
         return;
@@ -366,36 +592,47 @@ export class CPU extends Component {
     if (typeof flags.ZF === "boolean") this.#setFlag("ZF", flags.ZF);
     if (typeof flags.SF === "boolean") this.#setFlag("SF", flags.SF);
     if (typeof flags.IF === "boolean") this.#setFlag("IF", flags.IF);
+    if (typeof flags.DF === "boolean") this.#setFlag("DF", flags.DF);
     if (typeof flags.OF === "boolean") this.#setFlag("OF", flags.OF);
-    yield {
-      type: "cpu:register.update",
-      size: 16,
-      register: "FLAGS",
-      value: this.#registers.FLAGS,
-    };
+    if (this.emits("cpu:register.update"))
+      yield {
+        type: "cpu:register.update",
+        size: 16,
+        register: "FLAGS",
+        value: this.#registers.FLAGS,
+      };
   }
 
   /**
    * Updates the FLAGS register.
    * @param flags The flags to update. If a flag is not specified, it will not be updated.
+   * @param part Which part of the result is being computed, if the operation takes more than one step.
    *
    * ---
    * Called by the instructions ({@link InstructionType.execute}) and the CPU.
    */
-  *aluExecute(operation: string, result: AnyByte, flags: PartialFlags): EventGenerator {
+  *aluExecute(
+    operation: string,
+    result: AnyByte,
+    flags: PartialFlags,
+    part?: ALUPart,
+  ): EventGenerator {
     this.#registers.result = result.is8bits() ? this.#registers.result.withLow(result) : result;
     if (typeof flags.CF === "boolean") this.#setFlag("CF", flags.CF);
     if (typeof flags.ZF === "boolean") this.#setFlag("ZF", flags.ZF);
     if (typeof flags.SF === "boolean") this.#setFlag("SF", flags.SF);
     if (typeof flags.IF === "boolean") this.#setFlag("IF", flags.IF);
+    if (typeof flags.DF === "boolean") this.#setFlag("DF", flags.DF);
     if (typeof flags.OF === "boolean") this.#setFlag("OF", flags.OF);
-    yield {
-      type: "cpu:alu.execute",
-      operation,
-      size: result.size,
-      result: this.#registers.result,
-      flags: this.#registers.FLAGS,
-    };
+    if (this.emits("cpu:alu.execute"))
+      yield {
+        type: "cpu:alu.execute",
+        operation,
+        ...(part && { part }),
+        size: result.size,
+        result: this.#registers.result,
+        flags: this.#registers.FLAGS,
+      };
   }
 
   // #=========================================================================#
@@ -411,7 +648,7 @@ export class CPU extends Component {
   *setMAR(register: MARRegister): EventGenerator {
     const value = this.getRegister(register);
     this.#MAR = value;
-    yield { type: "cpu:mar.set", register };
+    if (this.emits("cpu:mar.set")) yield { type: "cpu:mar.set", register };
   }
 
   /**
@@ -422,7 +659,7 @@ export class CPU extends Component {
    */
   *getMBR(register: ByteRegister): EventGenerator {
     this.#setRegister(register, this.#MBR);
-    yield { type: "cpu:mbr.get", register };
+    if (this.emits("cpu:mbr.get")) yield { type: "cpu:mbr.get", register };
   }
 
   /**
@@ -434,7 +671,7 @@ export class CPU extends Component {
   *setMBR(register: ByteRegister): EventGenerator {
     const value = this.getRegister(register);
     this.#MBR = value;
-    yield { type: "cpu:mbr.set", register };
+    if (this.emits("cpu:mbr.set")) yield { type: "cpu:mbr.set", register };
   }
 
   /**
@@ -464,42 +701,42 @@ export class CPU extends Component {
   *useBus(mode: `${"mem" | "io"}-${"read" | "write"}` | "intr-read"): EventGenerator<boolean> {
     switch (mode) {
       case "mem-read": {
-        yield { type: "cpu:rd.on" };
+        if (this.emits("cpu:rd.on")) yield { type: "cpu:rd.on" };
         const value = yield* this.computer.memory.read(this.#MAR);
         if (!value) return false; // Error reading from memory
         this.#MBR = value;
-        yield { type: "bus:reset" };
+        if (this.emits("bus:reset")) yield { type: "bus:reset" };
         return true;
       }
 
       case "mem-write": {
-        yield { type: "cpu:wr.on" };
+        if (this.emits("cpu:wr.on")) yield { type: "cpu:wr.on" };
         const success = yield* this.computer.memory.write(this.#MAR, this.#MBR);
         if (!success) return false; // Error writing to memory
-        yield { type: "bus:reset" };
+        if (this.emits("bus:reset")) yield { type: "bus:reset" };
         return true;
       }
 
       case "io-read": {
-        yield { type: "cpu:iom.on" };
+        if (this.emits("cpu:iom.on")) yield { type: "cpu:iom.on" };
         const register = yield* this.computer.io.chipSelect(this.#MAR.low);
         if (!register) return false; // Error selecting i/o register
-        yield { type: "cpu:rd.on" };
+        if (this.emits("cpu:rd.on")) yield { type: "cpu:rd.on" };
         const value = yield* this.computer.io.read(register);
         if (!value) return false; // Error reading from i/o
         this.#MBR = value;
-        yield { type: "bus:reset" };
+        if (this.emits("bus:reset")) yield { type: "bus:reset" };
         return true;
       }
 
       case "io-write": {
-        yield { type: "cpu:iom.on" };
+        if (this.emits("cpu:iom.on")) yield { type: "cpu:iom.on" };
         const register = yield* this.computer.io.chipSelect(this.#MAR.low);
         if (!register) return false; // Error selecting i/o register
-        yield { type: "cpu:wr.on" };
+        if (this.emits("cpu:wr.on")) yield { type: "cpu:wr.on" };
         const success = yield* this.computer.io.write(register, this.#MBR);
         if (!success) return false; // Error writing to i/o
-        yield { type: "bus:reset" };
+        if (this.emits("bus:reset")) yield { type: "bus:reset" };
         return true;
       }
 
@@ -507,7 +744,7 @@ export class CPU extends Component {
         if (!this.computer.io.pic) return false; // Error reading from pic (no pic)
         const intn = yield* this.computer.io.pic.handleINTR();
         this.#MBR = intn;
-        yield { type: "bus:reset" };
+        if (this.emits("bus:reset")) yield { type: "bus:reset" };
         return true;
       }
 
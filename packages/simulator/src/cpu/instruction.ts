@@ -1,5 +1,11 @@
-import type { Instruction as InstructionName, InstructionStatement } from "@vonsim/assembler";
+import type {
+  BaseRegister,
+  DecodedInstruction,
+  IndexRegister,
+  Instruction as InstructionName,
+} from "@vonsim/assembler";
 import type { MemoryAddress } from "@vonsim/common/address";
+import { Byte } from "@vonsim/common/byte";
 import type { Position } from "@vonsim/common/position";
 
 import type { Computer } from "../computer";
@@ -7,6 +13,19 @@ import { SimulatorError } from "../error";
 import type { EventGenerator } from "../events";
 import type { ByteRegister } from "./types";
 
+/**
+ * A memory operand of an instruction: either a direct address or an indirect
+ * address made of a base register, an index register and a displacement.
+ */
+export type MemoryAccess =
+  | { mode: "direct"; address: MemoryAddress }
+  | {
+      mode: "indirect";
+      base: BaseRegister | null;
+      index: IndexRegister | null;
+      offset: Byte<16> | null;
+    };
+
 /**
  * Represents an instruction that can be executed by the CPU.
  *
@@ -18,11 +37,18 @@ import type { ByteRegister } from "./types";
  *
  * This abstract class also contains some helper methods for each implementation.
  *
+ * Instructions are built from either the statements of the assembler or the
+ * instructions decoded from memory (see {@link DecodedInstruction}). The position
+ * in the source code is only known for the former, and is `null` otherwise.
+ *
  * ---
  * These classes are: IMMUTABLE
  */
 export abstract class Instruction<TInstruction extends InstructionName> {
-  constructor(protected readonly statement: InstructionStatement & { instruction: TInstruction }) {}
+  constructor(
+    protected readonly statement: DecodedInstruction & { instruction: TInstruction },
+    readonly position: Position | null,
+  ) {}
 
   get name(): TInstruction {
     return this.statement.instruction;
@@ -32,10 +58,6 @@ export abstract class Instruction<TInstruction extends InstructionName> {
     return this.statement.start;
   }
 
-  get position(): Position {
-    return this.statement.position;
-  }
-
   /**
    * Executes the instruction.
    * Returns a generator that yields the micro-operations that the CPU will execute.
@@ -63,4 +85,71 @@ export abstract class Instruction<TInstruction extends InstructionName> {
     yield* computer.cpu.updateWordRegister("IP", IP => IP.add(1));
     yield* computer.cpu.getMBR(dest);
   }
+
+  /**
+   * Formats a memory operand as shown by the simulator, without the brackets
+   * (like `1000h`, `BX`, `BP+SI` or `SI-2h`).
+   */
+  protected formatMemoryAccess(access: MemoryAccess): string {
+    if (access.mode === "direct") return access.address.toString();
+
+    let out = [access.base, access.index].filter(Boolean).join("+");
+    if (access.offset) {
+      if (access.offset.signed > 0) {
+        out += `+${access.offset.toString("hex")}h`;
+      } else {
+        const positive = Byte.fromUnsigned(-access.offset.signed, access.offset.size);
+        out += `-${positive.toString("hex")}h`;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Computes the address of a memory operand and stores it in the ri register.
+   *
+   * Direct addresses are fetched from the instruction. For indirect addresses,
+   * the base register (or the index register) is copied to ri, and then the
+   * index register and the displacement (fetched from the instruction through
+   * the id register) are added to it. Every indirect address but `[BX]` has an
+   * addressing byte, which is fetched and decoded first.
+   * @param computer The computer that will execute the instruction.
+   * @param access The memory operand.
+   * @see https://vonsim.github.io/en/reference/encoding
+   */
+  protected *computeAddress(computer: Computer, access: MemoryAccess): EventGenerator {
+    if (access.mode === "direct") {
+      // Fetch memory address
+      yield* this.consumeInstruction(computer, "ri.l");
+      yield* this.consumeInstruction(computer, "ri.h");
+      return;
+    }
+
+    const { base, index, offset } = access;
+    if (base !== "BX" || index) {
+      // Fetch addressing byte
+      yield* this.consumeInstruction(computer, "IR");
+      if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    }
+
+    // Move the base (or the index) register to ri. The effective address wraps
+    // around at 0FFFFh, as in the 8086.
+    yield* computer.cpu.copyWordRegister(base ?? index!, "ri");
+    if (base && index) {
+      // Add the index register
+      const value = computer.cpu.getRegister(index).unsigned;
+      yield* computer.cpu.updateWordRegister("ri", ri =>
+        Byte.fromUnsigned((ri.unsigned + value) & Byte.maxValue(16), 16),
+      );
+    }
+    if (offset) {
+      // Fetch offset
+      yield* this.consumeInstruction(computer, "id.l");
+      yield* this.consumeInstruction(computer, "id.h");
+      // Add offset
+      yield* computer.cpu.updateWordRegister("ri", ri =>
+        Byte.fromUnsigned((ri.unsigned + offset.signed) & Byte.maxValue(16), 16),
+      );
+    }
+  }
 }
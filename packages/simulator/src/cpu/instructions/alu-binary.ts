@@ -32,34 +32,17 @@ export class ALUBinaryInstruction extends Instruction<
   #formatOperands(): string[] {
     const { mode, out, src } = this.operation;
 
-    const formatMemoryAccess = (
-      access: Exclude<typeof this.operation, { out: string }>["out"],
-    ): string => {
-      if (access.mode === "direct") return access.address.toString();
-
-      let out = "BX";
-      if (access.offset) {
-        if (access.offset.signed > 0) {
-          out += `+${access.offset.toString("hex")}h`;
-        } else {
-          const positive = Byte.fromUnsigned(-access.offset.signed, access.offset.size);
-          out += `-${positive.toString("hex")}h`;
-        }
-      }
-      return out;
-    };
-
     switch (mode) {
       case "reg<-reg":
         return [out, src];
       case "reg<-mem":
-        return [out, `[${formatMemoryAccess(src)}]`];
+        return [out, `[${this.formatMemoryAccess(src)}]`];
       case "reg<-imd":
         return [out, `${src.toString("hex")}h`];
       case "mem<-reg":
-        return [`[${formatMemoryAccess(out)}]`, src];
+        return [`[${this.formatMemoryAccess(out)}]`, src];
       case "mem<-imd":
-        return [`[${formatMemoryAccess(out)}]`, `${src.toString("hex")}h`];
+        return [`[${this.formatMemoryAccess(out)}]`, `${src.toString("hex")}h`];
 
       default: {
         const _exhaustiveCheck: never = mode;
@@ -90,11 +73,12 @@ export class ALUBinaryInstruction extends Instruction<
 
     // All intructions are, at least, 2 bytes long.
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
 
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
 
     if (mode === "reg<-reg" || mode === "reg<-mem" || mode === "reg<-imd") {
       // Move out operand to left register
@@ -102,21 +86,7 @@ export class ALUBinaryInstruction extends Instruction<
       else yield* computer.cpu.copyWordRegister(out, "left");
     } else {
       // Fetch left operand, which is the memory cell
-      if (out.mode === "direct") {
-        // Fetch memory address
-        yield* this.consumeInstruction(computer, "ri.l");
-        yield* this.consumeInstruction(computer, "ri.h");
-      } else {
-        // Move BX to ri
-        yield* computer.cpu.copyWordRegister("BX", "ri");
-        if (out.offset) {
-          // Fetch offset
-          yield* this.consumeInstruction(computer, "id.l");
-          yield* this.consumeInstruction(computer, "id.h");
-          // Add offset to BX
-          yield* computer.cpu.updateWordRegister("ri", ri => ri.add(out.offset!.signed));
-        }
-      }
+      yield* this.computeAddress(computer, out);
 
       // Read value from memory
       yield* computer.cpu.setMAR("ri");
@@ -140,21 +110,7 @@ export class ALUBinaryInstruction extends Instruction<
       if (size === 16) yield* this.consumeInstruction(computer, "right.h");
     } else {
       // Fetch right operand, which is the memory cell
-      if (src.mode === "direct") {
-        // Fetch memory address
-        yield* this.consumeInstruction(computer, "ri.l");
-        yield* this.consumeInstruction(computer, "ri.h");
-      } else {
-        // Move BX to ri
-        yield* computer.cpu.copyWordRegister("BX", "ri");
-        if (src.offset) {
-          // Fetch offset
-          yield* this.consumeInstruction(computer, "id.l");
-          yield* this.consumeInstruction(computer, "id.h");
-          // Add offset to BX
-          yield* computer.cpu.updateWordRegister("ri", ri => ri.add(src.offset!.signed));
-        }
-      }
+      yield* this.computeAddress(computer, src);
 
       // Read value from memory
       yield* computer.cpu.setMAR("ri");
@@ -168,7 +124,8 @@ export class ALUBinaryInstruction extends Instruction<
       }
     }
 
-    yield { type: "cpu:cycle.update", phase: "execute" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "execute" };
 
     const left = size === 8 ? computer.cpu.getRegister("left.l") : computer.cpu.getRegister("left");
     const right =
@@ -249,7 +206,8 @@ export class ALUBinaryInstruction extends Instruction<
 
     if (this.name === "CMP" || this.name === "TEST") return true; // No writeback
 
-    yield { type: "cpu:cycle.update", phase: "writeback" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "writeback" };
 
     if (mode === "reg<-reg" || mode === "reg<-mem" || mode === "reg<-imd") {
       // Move result to out operand
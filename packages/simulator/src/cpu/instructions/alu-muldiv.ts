@@ -0,0 +1,196 @@
+import { AnyByte, Byte } from "@vonsim/common/byte";
+
+import type { Computer } from "../../computer";
+import { SimulatorError } from "../../error";
+import type { EventGenerator } from "../../events";
+import { Instruction } from "../instruction";
+import type { PartialFlags } from "../types";
+
+/**
+ * ALU multiplication and division instructions:
+ * - {@link https://vonsim.github.io/en/computer/instructions/mul | MUL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/imul | IMUL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/div | DIV}
+ * - {@link https://vonsim.github.io/en/computer/instructions/idiv | IDIV}
+ *
+ * Their only explicit operand is the source. The other operand is always
+ * AL (8 bits) or AX (16 bits) for the multiplications, and AX (8 bits) or
+ * DX:AX (16 bits) for the divisions.
+ *
+ * Since their result doesn't fit in the result register, the ALU computes it
+ * in two steps: first the low part (or the quotient), which is stored in AL/AX,
+ * and then the high part (or the remainder), which is stored in AH/DX.
+ *
+ * @see {@link Instruction}
+ *
+ * ---
+ * This class is: IMMUTABLE
+ */
+export class ALUMulDivInstruction extends Instruction<"MUL" | "IMUL" | "DIV" | "IDIV"> {
+  get operation() {
+    return this.statement.operation;
+  }
+
+  #formatOperands(): string[] {
+    switch (this.operation.mode) {
+      case "reg":
+        return [this.operation.reg];
+
+      case "mem-direct": {
+        const addr = this.operation.address.toString();
+        return [`[${addr}]`];
+      }
+
+      case "mem-indirect": {
+        const addr = this.formatMemoryAccess({ ...this.operation, mode: "indirect" });
+        return [`[${addr}]`];
+      }
+
+      default: {
+        const _exhaustiveCheck: never = this.operation;
+        return _exhaustiveCheck;
+      }
+    }
+  }
+
+  *execute(computer: Computer): EventGenerator<boolean> {
+    const { size } = this.operation;
+    const isDivision = this.name === "DIV" || this.name === "IDIV";
+
+    yield {
+      type: "cpu:cycle.start",
+      instruction: {
+        name: this.name,
+        position: this.position,
+        operands: this.#formatOperands(),
+        willUse: {
+          ri: this.operation.mode === "mem-direct" || this.operation.mode === "mem-indirect",
+          // The high word of the dividend is kept in id
+          id:
+            (this.operation.mode === "mem-indirect" && this.operation.offset !== null) ||
+            (isDivision && size === 16),
+        },
+      },
+    };
+
+    // All intructions are, at least, 2 bytes long.
+    yield* super.consumeInstruction(computer, "IR");
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    yield* super.consumeInstruction(computer, "IR");
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+
+    // Move implicit operand to left register
+    if (isDivision) {
+      yield* computer.cpu.copyWordRegister("AX", "left");
+    } else if (size === 8) {
+      yield* computer.cpu.copyByteRegister("AL", "left.l");
+    } else {
+      yield* computer.cpu.copyWordRegister("AX", "left");
+    }
+
+    if (this.operation.mode === "reg") {
+      // Move operand to right register
+      if (this.operation.size === 8) {
+        yield* computer.cpu.copyByteRegister(this.operation.reg, "right.l");
+      } else {
+        yield* computer.cpu.copyWordRegister(this.operation.reg, "right");
+      }
+    } else {
+      // Fetch operand, which is the memory cell
+      if (this.operation.mode === "mem-direct") {
+        yield* this.computeAddress(computer, { ...this.operation, mode: "direct" });
+      } else {
+        yield* this.computeAddress(computer, { ...this.operation, mode: "indirect" });
+      }
+
+      // Read value from memory
+      yield* computer.cpu.setMAR("ri");
+      if (!(yield* computer.cpu.useBus("mem-read"))) return false; // Error reading memory
+      yield* computer.cpu.getMBR("right.l");
+      if (size === 16) {
+        yield* computer.cpu.updateWordRegister("ri", ri => ri.add(1));
+        yield* computer.cpu.setMAR("ri");
+        if (!(yield* computer.cpu.useBus("mem-read"))) return false; // Error reading memory
+        yield* computer.cpu.getMBR("right.h");
+      }
+    }
+
+    if (isDivision && size === 16) {
+      // Move the high word of the dividend to id
+      yield* computer.cpu.copyWordRegister("DX", "id");
+    }
+
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "execute" };
+
+    const signed = this.name === "IMUL" || this.name === "IDIV";
+    const right =
+      size === 8 ? computer.cpu.getRegister("right.l") : computer.cpu.getRegister("right");
+    const operand = signed ? right.signed : right.unsigned;
+
+    let first: AnyByte, second: AnyByte;
+    const flags: PartialFlags = {};
+
+    if (isDivision) {
+      const dividend = this.#dividend(computer, signed);
+      if (operand === 0) {
+        yield { type: "cpu:error", error: new SimulatorError("divide-by-zero") };
+        return false;
+      }
+
+      // JavaScript's remainder has the sign of the dividend, like the 8086
+      const quotient = Math.trunc(dividend / operand);
+      const remainder = dividend % operand;
+
+      const fits = signed ? Byte.fitsSigned(quotient, size) : Byte.fitsUnsigned(quotient, size);
+      if (!fits) {
+        yield { type: "cpu:error", error: new SimulatorError("divide-overflow") };
+        return false;
+      }
+
+      first = Byte.fromNumber(quotient, size) as AnyByte;
+      second = Byte.fromNumber(remainder, size) as AnyByte;
+    } else {
+      const left =
+        size === 8 ? computer.cpu.getRegister("left.l") : computer.cpu.getRegister("left");
+      const product = signed ? left.signed * operand : left.unsigned * operand;
+
+      // Two's complement of the product, with twice the size of the operands
+      const unsigned = product < 0 ? product + 2 ** (size * 2) : product;
+      first = Byte.fromUnsigned(unsigned % 2 ** size, size) as AnyByte;
+      second = Byte.fromUnsigned(Math.floor(unsigned / 2 ** size), size) as AnyByte;
+
+      // Whether the high part is needed to represent the product
+      flags.CF = flags.OF = signed ? !Byte.fitsSigned(product, size) : !second.isZero();
+    }
+
+    yield* computer.cpu.aluExecute(this.name, first, {}, isDivision ? "quotient" : "low");
+    if (size === 8) yield* computer.cpu.copyByteRegister("result.l", "AL");
+    else yield* computer.cpu.copyWordRegister("result", "AX");
+
+    yield* computer.cpu.aluExecute(this.name, second, flags, isDivision ? "remainder" : "high");
+
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "writeback" };
+
+    if (size === 8) yield* computer.cpu.copyByteRegister("result.l", "AH");
+    else yield* computer.cpu.copyWordRegister("result", "DX");
+
+    return true;
+  }
+
+  /**
+   * Reads the dividend from the left register (AX) and, for 16-bit divisions,
+   * from the id register (which has a copy of DX).
+   */
+  #dividend(computer: Computer, signed: boolean): number {
+    const low = computer.cpu.getRegister("left");
+    if (this.operation.size === 8) return signed ? low.signed : low.unsigned;
+
+    const high = computer.cpu.getRegister("id");
+    return (signed ? high.signed : high.unsigned) * 2 ** 16 + low.unsigned;
+  }
+}
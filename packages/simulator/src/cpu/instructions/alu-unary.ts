@@ -5,24 +5,50 @@ import type { EventGenerator } from "../../events";
 import { Instruction } from "../instruction";
 import type { PartialFlags } from "../types";
 
+const SHIFT_INSTRUCTIONS = ["SHL", "SHR", "SAR", "ROL", "ROR", "RCL", "RCR"] as const;
+type ShiftInstructionName = (typeof SHIFT_INSTRUCTIONS)[number];
+type ALUUnaryInstructionName = "NOT" | "NEG" | "INC" | "DEC" | ShiftInstructionName;
+
 /**
  * ALU unary instructions:
  * - {@link https://vonsim.github.io/en/computer/instructions/not | NOT}
  * - {@link https://vonsim.github.io/en/computer/instructions/neg | NEG}
  * - {@link https://vonsim.github.io/en/computer/instructions/inc | INC}
  * - {@link https://vonsim.github.io/en/computer/instructions/dec | DEC}
+ * - {@link https://vonsim.github.io/en/computer/instructions/shl | SHL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/shr | SHR}
+ * - {@link https://vonsim.github.io/en/computer/instructions/sar | SAR}
+ * - {@link https://vonsim.github.io/en/computer/instructions/rol | ROL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/ror | ROR}
+ * - {@link https://vonsim.github.io/en/computer/instructions/rcl | RCL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/rcr | RCR}
  *
  * @see {@link Instruction}
  *
  * ---
  * This class is: IMMUTABLE
  */
-export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DEC"> {
+export class ALUUnaryInstruction extends Instruction<ALUUnaryInstructionName> {
   get operation() {
     return this.statement.operation;
   }
 
+  /**
+   * The count of the shift and rotate instructions, or `null` for the rest.
+   */
+  get count() {
+    return (SHIFT_INSTRUCTIONS as readonly string[]).includes(this.name)
+      ? this.statement.count
+      : null;
+  }
+
   #formatOperands(): string[] {
+    const operands = this.#formatDestination();
+    if (this.count) operands.push(this.count.toString());
+    return operands;
+  }
+
+  #formatDestination(): string[] {
     switch (this.operation.mode) {
       case "reg":
         return [this.operation.reg];
@@ -33,16 +59,7 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
       }
 
       case "mem-indirect": {
-        let addr = "BX";
-        const offset = this.operation.offset;
-        if (offset) {
-          if (offset.signed > 0) {
-            addr += `+${offset.toString("hex")}h`;
-          } else {
-            const positive = Byte.fromUnsigned(-offset.signed, offset.size);
-            addr += `-${positive.toString("hex")}h`;
-          }
-        }
+        const addr = this.formatMemoryAccess({ ...this.operation, mode: "indirect" });
         return [`[${addr}]`];
       }
 
@@ -69,11 +86,12 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
 
     // All intructions are, at least, 2 bytes long.
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
 
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
 
     if (this.operation.mode === "reg") {
       // Move operand to left register
@@ -85,20 +103,9 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
     } else {
       // Fetch operand, which is the memory cell
       if (this.operation.mode === "mem-direct") {
-        // Fetch memory address
-        yield* this.consumeInstruction(computer, "ri.l");
-        yield* this.consumeInstruction(computer, "ri.h");
+        yield* this.computeAddress(computer, { ...this.operation, mode: "direct" });
       } else {
-        // Move BX to ri
-        yield* computer.cpu.copyWordRegister("BX", "ri");
-        if (this.operation.offset) {
-          // Fetch offset
-          yield* this.consumeInstruction(computer, "id.l");
-          yield* this.consumeInstruction(computer, "id.h");
-          // Add offset to BX
-          const offset = this.operation.offset.signed;
-          yield* computer.cpu.updateWordRegister("ri", ri => ri.add(offset));
-        }
+        yield* this.computeAddress(computer, { ...this.operation, mode: "indirect" });
       }
 
       // Read value from memory
@@ -113,7 +120,13 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
       }
     }
 
-    yield { type: "cpu:cycle.update", phase: "execute" };
+    if (this.count === "CL") {
+      // Move count to right register
+      yield* computer.cpu.copyByteRegister("CL", "right.l");
+    }
+
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "execute" };
 
     const left =
       this.operation.size === 8
@@ -182,10 +195,66 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
         flags.OF = left.signed < 0 && result.signed >= 0;
         break;
       }
+
+      case "SHL":
+      case "SHR":
+      case "SAR":
+      case "ROL":
+      case "ROR":
+      case "RCL":
+      case "RCR": {
+        let count: number;
+        if (this.count === "CL") {
+          count = computer.cpu.getRegister("CL").unsigned;
+        } else {
+          yield* computer.cpu.updateWordRegister("right", Byte.fromSigned(1, 16));
+          count = 1;
+        }
+
+        result = left;
+        if (count === 0) break; // Nothing changes, not even the flags
+
+        let carry = computer.cpu.getFlag("CF");
+        let previous = left;
+        for (let i = 0; i < count; i++) {
+          previous = result;
+          [result, carry] = shift(this.name, result, carry);
+        }
+        flags.CF = carry;
+
+        const msb = result.size - 1;
+        switch (this.name) {
+          case "SHL":
+          case "ROL":
+          case "RCL":
+            // The sign changed with the last bit moved
+            flags.OF = result.bit(msb) !== carry;
+            break;
+          case "SHR":
+            flags.OF = previous.bit(msb);
+            break;
+          case "SAR":
+            flags.OF = false;
+            break;
+          case "ROR":
+          case "RCR":
+            flags.OF = result.bit(msb) !== result.bit(msb - 1);
+            break;
+        }
+
+        // Rotations only modify CF and OF
+        if (this.name === "SHL" || this.name === "SHR" || this.name === "SAR") {
+          flags.ZF = result.isZero();
+          flags.SF = result.signed < 0;
+        }
+        break;
+      }
     }
 
-    flags.ZF = result.isZero();
-    flags.SF = result.signed < 0;
+    if (this.count === null) {
+      flags.ZF = result.isZero();
+      flags.SF = result.signed < 0;
+    }
 
     yield* computer.cpu.aluExecute(
       this.name === "INC" ? "ADD" : this.name === "DEC" ? "SUB" : this.name,
@@ -193,7 +262,8 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
       flags,
     );
 
-    yield { type: "cpu:cycle.update", phase: "writeback" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "writeback" };
 
     if (this.operation.mode === "reg") {
       // Move result to operand
@@ -220,3 +290,33 @@ export class ALUUnaryInstruction extends Instruction<"NOT" | "NEG" | "INC" | "DE
     return true;
   }
 }
+
+/**
+ * Shifts or rotates the value one bit.
+ * @param carry The value of CF before the operation (only used by RCL and RCR).
+ * @returns The result and the bit that was moved out, which goes to CF.
+ */
+function shift(name: ShiftInstructionName, value: AnyByte, carry: boolean): [AnyByte, boolean] {
+  const msb = value.size - 1;
+  const lsb = value.bit(0);
+  const sign = value.bit(msb);
+  const left = Byte.fromUnsigned((value.unsigned << 1) & Byte.maxValue(value.size), value.size);
+  const right = Byte.fromUnsigned(value.unsigned >>> 1, value.size);
+
+  switch (name) {
+    case "SHL":
+      return [left as AnyByte, sign];
+    case "SHR":
+      return [right as AnyByte, lsb];
+    case "SAR":
+      return [right.withBit(msb, sign) as AnyByte, lsb];
+    case "ROL":
+      return [left.withBit(0, sign) as AnyByte, sign];
+    case "ROR":
+      return [right.withBit(msb, lsb) as AnyByte, lsb];
+    case "RCL":
+      return [left.withBit(0, carry) as AnyByte, sign];
+    case "RCR":
+      return [right.withBit(msb, carry) as AnyByte, lsb];
+  }
+}
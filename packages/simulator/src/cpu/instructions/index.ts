@@ -1,6 +1,8 @@
-import type { InstructionStatement } from "@vonsim/assembler";
+import type { DecodedInstruction } from "@vonsim/assembler";
+import type { Position } from "@vonsim/common/position";
 
 import { ALUBinaryInstruction } from "./alu-binary";
+import { ALUMulDivInstruction } from "./alu-muldiv";
 import { ALUUnaryInstruction } from "./alu-unary";
 import { INTInstruction } from "./int";
 import { IOInstruction } from "./io";
@@ -9,9 +11,11 @@ import { MiscInstruction } from "./misc";
 import { MOVInstruction } from "./mov";
 import { ReturnInstruction } from "./return";
 import { StackInstruction } from "./stack";
+import { StringInstruction } from "./string";
 
 export type InstructionType =
   | ALUBinaryInstruction
+  | ALUMulDivInstruction
   | ALUUnaryInstruction
   | INTInstruction
   | IOInstruction
@@ -19,21 +23,28 @@ export type InstructionType =
   | MiscInstruction
   | MOVInstruction
   | ReturnInstruction
-  | StackInstruction;
+  | StackInstruction
+  | StringInstruction;
 
-type PickInstruction<T extends InstructionStatement["instruction"]> = InstructionStatement & {
+type PickInstruction<T extends DecodedInstruction["instruction"]> = DecodedInstruction & {
   instruction: T;
 };
 
 /**
- * Converts an instruction statement from the assembler to an instruction type,
- * adding necessary execution logic to the instruction.
+ * Converts an instruction statement from the assembler (or an instruction
+ * decoded from memory) to an instruction type, adding necessary execution
+ * logic to the instruction.
  * For convenience, similar instructions are grouped together.
+ * @param statement The instruction to convert.
+ * @param position Position of the instruction in the source code, if known.
  */
-export function statementToInstruction(statement: InstructionStatement): InstructionType {
+export function statementToInstruction(
+  statement: DecodedInstruction,
+  position: Position | null,
+): InstructionType {
   switch (statement.instruction) {
     case "MOV":
-      return new MOVInstruction(statement as PickInstruction<"MOV">);
+      return new MOVInstruction(statement as PickInstruction<"MOV">, position);
     case "AND":
     case "OR":
     case "XOR":
@@ -47,20 +58,44 @@ export function statementToInstruction(statement: InstructionStatement): Instruc
         statement as PickInstruction<
           "AND" | "OR" | "XOR" | "ADD" | "ADC" | "SUB" | "SBB" | "CMP" | "TEST"
         >,
+        position,
       );
     case "NOT":
     case "NEG":
     case "INC":
     case "DEC":
-      return new ALUUnaryInstruction(statement as PickInstruction<"NOT" | "NEG" | "INC" | "DEC">);
+    case "SHL":
+    case "SHR":
+    case "SAR":
+    case "ROL":
+    case "ROR":
+    case "RCL":
+    case "RCR":
+      return new ALUUnaryInstruction(
+        statement as PickInstruction<
+          "NOT" | "NEG" | "INC" | "DEC" | "SHL" | "SHR" | "SAR" | "ROL" | "ROR" | "RCL" | "RCR"
+        >,
+        position,
+      );
+    case "MUL":
+    case "IMUL":
+    case "DIV":
+    case "IDIV":
+      return new ALUMulDivInstruction(
+        statement as PickInstruction<"MUL" | "IMUL" | "DIV" | "IDIV">,
+        position,
+      );
     case "IN":
     case "OUT":
-      return new IOInstruction(statement as PickInstruction<"IN" | "OUT">);
+      return new IOInstruction(statement as PickInstruction<"IN" | "OUT">, position);
     case "PUSH":
     case "POP":
     case "PUSHF":
     case "POPF":
-      return new StackInstruction(statement as PickInstruction<"PUSH" | "POP" | "PUSHF" | "POPF">);
+      return new StackInstruction(
+        statement as PickInstruction<"PUSH" | "POP" | "PUSHF" | "POPF">,
+        position,
+      );
     case "JC":
     case "JNC":
     case "JZ":
@@ -69,22 +104,44 @@ export function statementToInstruction(statement: InstructionStatement): Instruc
     case "JNS":
     case "JO":
     case "JNO":
+    case "JA":
+    case "JAE":
+    case "JB":
+    case "JBE":
+    case "JG":
+    case "JGE":
+    case "JL":
+    case "JLE":
+    case "LOOP":
+    case "LOOPZ":
+    case "LOOPNZ":
+    case "JCXZ":
     case "JMP":
     case "CALL":
-      return new JumpInstruction(
-        statement as PickInstruction<
-          "JC" | "JNC" | "JZ" | "JNZ" | "JS" | "JNS" | "JO" | "JNO" | "JMP" | "CALL"
-        >,
-      );
+      return new JumpInstruction(statement as PickInstruction<JumpInstruction["name"]>, position);
     case "RET":
     case "IRET":
-      return new ReturnInstruction(statement as PickInstruction<"RET" | "IRET">);
+      return new ReturnInstruction(statement as PickInstruction<"RET" | "IRET">, position);
     case "INT":
-      return new INTInstruction(statement as PickInstruction<"INT">);
+      return new INTInstruction(statement as PickInstruction<"INT">, position);
+    case "MOVSB":
+    case "LODSB":
+    case "STOSB":
+    case "CMPSB":
+    case "SCASB":
+      return new StringInstruction(
+        statement as PickInstruction<"MOVSB" | "LODSB" | "STOSB" | "CMPSB" | "SCASB">,
+        position,
+      );
     case "CLI":
     case "STI":
+    case "CLD":
+    case "STD":
     case "NOP":
     case "HLT":
-      return new MiscInstruction(statement as PickInstruction<"CLI" | "STI" | "NOP" | "HLT">);
+      return new MiscInstruction(
+        statement as PickInstruction<"CLI" | "STI" | "CLD" | "STD" | "NOP" | "HLT">,
+        position,
+      );
   }
 }
@@ -27,13 +27,15 @@ export class INTInstruction extends Instruction<"INT"> {
     };
 
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
 
     // Consume interrupt number
     yield* super.consumeInstruction(computer, "ri.l");
 
-    yield { type: "cpu:cycle.update", phase: "execute" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "execute" };
 
     return yield* computer.cpu.startInterrupt(this.number);
   }
@@ -45,8 +45,9 @@ export class IOInstruction extends Instruction<"IN" | "OUT"> {
     };
 
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
 
     if (this.operation.port === "fixed") {
       yield* computer.cpu.updateWordRegister("ri", Byte.zero(16));
@@ -62,7 +63,8 @@ export class IOInstruction extends Instruction<"IN" | "OUT"> {
       }
     }
 
-    yield { type: "cpu:cycle.update", phase: "writeback" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "writeback" };
 
     if (this.name === "IN") {
       yield* computer.cpu.setMAR("ri");
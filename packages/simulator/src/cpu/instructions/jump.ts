@@ -1,7 +1,33 @@
+import { Byte } from "@vonsim/common/byte";
+
 import type { Computer } from "../../computer";
 import type { EventGenerator } from "../../events";
 import { Instruction } from "../instruction";
 
+type JumpInstructionName =
+  | "JC"
+  | "JNC"
+  | "JZ"
+  | "JNZ"
+  | "JS"
+  | "JNS"
+  | "JO"
+  | "JNO"
+  | "JA"
+  | "JAE"
+  | "JB"
+  | "JBE"
+  | "JG"
+  | "JGE"
+  | "JL"
+  | "JLE"
+  | "LOOP"
+  | "LOOPZ"
+  | "LOOPNZ"
+  | "JCXZ"
+  | "JMP"
+  | "CALL";
+
 /**
  * Jump instructions:
  * - {@link https://vonsim.github.io/en/computer/instructions/jc | JC}
@@ -12,6 +38,18 @@ import { Instruction } from "../instruction";
  * - {@link https://vonsim.github.io/en/computer/instructions/jns | JNS}
  * - {@link https://vonsim.github.io/en/computer/instructions/jo | JO}
  * - {@link https://vonsim.github.io/en/computer/instructions/jno | JNO}
+ * - {@link https://vonsim.github.io/en/computer/instructions/ja | JA}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jae | JAE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jb | JB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jbe | JBE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jg | JG}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jge | JGE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jl | JL}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jle | JLE}
+ * - {@link https://vonsim.github.io/en/computer/instructions/loop | LOOP}
+ * - {@link https://vonsim.github.io/en/computer/instructions/loopz | LOOPZ}
+ * - {@link https://vonsim.github.io/en/computer/instructions/loopnz | LOOPNZ}
+ * - {@link https://vonsim.github.io/en/computer/instructions/jcxz | JCXZ}
  * - {@link https://vonsim.github.io/en/computer/instructions/jmp | JMP}
  * - {@link https://vonsim.github.io/en/computer/instructions/call | CALL}
  *
@@ -20,9 +58,7 @@ import { Instruction } from "../instruction";
  * ---
  * This class is: IMMUTABLE
  */
-export class JumpInstruction extends Instruction<
-  "JC" | "JNC" | "JZ" | "JNZ" | "JS" | "JNS" | "JO" | "JNO" | "JMP" | "CALL"
-> {
+export class JumpInstruction extends Instruction<JumpInstructionName> {
   get jumpTo() {
     return this.statement.address;
   }
@@ -40,40 +76,95 @@ export class JumpInstruction extends Instruction<
 
     // Read opcode.
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
 
     // Consume jump address
     yield* super.consumeInstruction(computer, "ri.l");
     yield* super.consumeInstruction(computer, "ri.h");
 
-    yield { type: "cpu:cycle.update", phase: "execute" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "execute" };
+
+    if (this.name === "LOOP" || this.name === "LOOPZ" || this.name === "LOOPNZ") {
+      // Decrement CX without modifying the flags. Like DEC, it wraps around,
+      // so CX=0 becomes 0FFFFh and the loop runs 65536 times.
+      yield* computer.cpu.updateWordRegister("CX", CX =>
+        Byte.fromUnsigned((CX.unsigned - 1) & Byte.maxValue(16), 16),
+      );
+    }
+
+    const CF = computer.cpu.getFlag("CF");
+    const ZF = computer.cpu.getFlag("ZF");
+    const SF = computer.cpu.getFlag("SF");
+    const OF = computer.cpu.getFlag("OF");
+    const CX = computer.cpu.getRegister("CX");
 
     let jump: boolean;
     switch (this.name) {
       case "JC":
-        jump = computer.cpu.getFlag("CF");
+        jump = CF;
         break;
       case "JNC":
-        jump = !computer.cpu.getFlag("CF");
+        jump = !CF;
         break;
       case "JZ":
-        jump = computer.cpu.getFlag("ZF");
+        jump = ZF;
         break;
       case "JNZ":
-        jump = !computer.cpu.getFlag("ZF");
+        jump = !ZF;
         break;
       case "JS":
-        jump = computer.cpu.getFlag("SF");
+        jump = SF;
         break;
       case "JNS":
-        jump = !computer.cpu.getFlag("SF");
+        jump = !SF;
         break;
       case "JO":
-        jump = computer.cpu.getFlag("OF");
+        jump = OF;
         break;
       case "JNO":
-        jump = !computer.cpu.getFlag("OF");
+        jump = !OF;
+        break;
+      // Unsigned comparisons
+      case "JA":
+        jump = !CF && !ZF;
+        break;
+      case "JAE":
+        jump = !CF;
+        break;
+      case "JB":
+        jump = CF;
+        break;
+      case "JBE":
+        jump = CF || ZF;
+        break;
+      // Signed comparisons
+      case "JG":
+        jump = !ZF && SF === OF;
+        break;
+      case "JGE":
+        jump = SF === OF;
+        break;
+      case "JL":
+        jump = SF !== OF;
+        break;
+      case "JLE":
+        jump = ZF || SF !== OF;
+        break;
+      // CX as a counter
+      case "LOOP":
+        jump = !CX.isZero();
+        break;
+      case "LOOPZ":
+        jump = !CX.isZero() && ZF;
+        break;
+      case "LOOPNZ":
+        jump = !CX.isZero() && !ZF;
+        break;
+      case "JCXZ":
+        jump = CX.isZero();
         break;
       case "CALL":
       case "JMP":
@@ -6,6 +6,8 @@ import { Instruction } from "../instruction";
  * Other instructions:
  * - {@link https://vonsim.github.io/en/computer/instructions/cli | CLI}
  * - {@link https://vonsim.github.io/en/computer/instructions/sti | STI}
+ * - {@link https://vonsim.github.io/en/computer/instructions/cld | CLD}
+ * - {@link https://vonsim.github.io/en/computer/instructions/std | STD}
  * - {@link https://vonsim.github.io/en/computer/instructions/nop | NOP}
  * - {@link https://vonsim.github.io/en/computer/instructions/hlt | HLT}
  *
@@ -14,7 +16,7 @@ import { Instruction } from "../instruction";
  * ---
  * This class is: IMMUTABLE
  */
-export class MiscInstruction extends Instruction<"CLI" | "STI" | "NOP" | "HLT"> {
+export class MiscInstruction extends Instruction<"CLI" | "STI" | "CLD" | "STD" | "NOP" | "HLT"> {
   *execute(computer: Computer): EventGenerator<boolean> {
     yield {
       type: "cpu:cycle.start",
@@ -27,16 +29,27 @@ export class MiscInstruction extends Instruction<"CLI" | "STI" | "NOP" | "HLT">
     };
 
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
 
     if (this.name === "CLI") {
-      yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+      if (computer.cpu.emits("cpu:cycle.update"))
+        yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
       yield* computer.cpu.updateFLAGS({ IF: false });
     } else if (this.name === "STI") {
-      yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+      if (computer.cpu.emits("cpu:cycle.update"))
+        yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
       yield* computer.cpu.updateFLAGS({ IF: true });
+    } else if (this.name === "CLD") {
+      if (computer.cpu.emits("cpu:cycle.update"))
+        yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+      yield* computer.cpu.updateFLAGS({ DF: false });
+    } else if (this.name === "STD") {
+      if (computer.cpu.emits("cpu:cycle.update"))
+        yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+      yield* computer.cpu.updateFLAGS({ DF: true });
     } else if (this.name === "HLT") {
-      yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+      if (computer.cpu.emits("cpu:cycle.update"))
+        yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
       yield { type: "cpu:halt" };
       return false;
     }
@@ -1,5 +1,3 @@
-import { Byte } from "@vonsim/common/byte";
-
 import type { Computer } from "../../computer";
 import type { EventGenerator } from "../../events";
 import { Instruction } from "../instruction";
@@ -21,34 +19,17 @@ export class MOVInstruction extends Instruction<"MOV"> {
   #formatOperands(): string[] {
     const { mode, out, src } = this.operation;
 
-    const formatMemoryAccess = (
-      access: Exclude<typeof this.operation, { out: string }>["out"],
-    ): string => {
-      if (access.mode === "direct") return access.address.toString();
-
-      let out = "BX";
-      if (access.offset) {
-        if (access.offset.signed > 0) {
-          out += `+${access.offset.toString("hex")}h`;
-        } else {
-          const positive = Byte.fromUnsigned(-access.offset.signed, access.offset.size);
-          out += `-${positive.toString("hex")}h`;
-        }
-      }
-      return out;
-    };
-
     switch (mode) {
       case "reg<-reg":
         return [out, src];
       case "reg<-mem":
-        return [out, `[${formatMemoryAccess(src)}]`];
+        return [out, `[${this.formatMemoryAccess(src)}]`];
       case "reg<-imd":
         return [out, `${src.toString("hex")}h`];
       case "mem<-reg":
-        return [`[${formatMemoryAccess(out)}]`, src];
+        return [`[${this.formatMemoryAccess(out)}]`, src];
       case "mem<-imd":
-        return [`[${formatMemoryAccess(out)}]`, `${src.toString("hex")}h`];
+        return [`[${this.formatMemoryAccess(out)}]`, `${src.toString("hex")}h`];
 
       default: {
         const _exhaustiveCheck: never = mode;
@@ -79,11 +60,12 @@ export class MOVInstruction extends Instruction<"MOV"> {
 
     // All intructions are, at least, 2 bytes long.
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
 
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "fetch-operands" };
 
     if (
       this.operation.mode === "reg<-mem" ||
@@ -91,21 +73,7 @@ export class MOVInstruction extends Instruction<"MOV"> {
       this.operation.mode === "mem<-imd"
     ) {
       const mem = this.operation.mode === "reg<-mem" ? this.operation.src : this.operation.out;
-      if (mem.mode === "direct") {
-        // Fetch memory address
-        yield* super.consumeInstruction(computer, "ri.l");
-        yield* super.consumeInstruction(computer, "ri.h");
-      } else {
-        // Move BX to ri
-        yield* computer.cpu.copyWordRegister("BX", "ri");
-        if (mem.offset) {
-          // Fetch offset
-          yield* this.consumeInstruction(computer, "id.l");
-          yield* this.consumeInstruction(computer, "id.h");
-          // Add offset to BX
-          yield* computer.cpu.updateWordRegister("ri", ri => ri.add(mem.offset!.signed));
-        }
-      }
+      yield* this.computeAddress(computer, mem);
     }
     if (this.operation.mode === "reg<-imd" || this.operation.mode === "mem<-imd") {
       // Fetch immediate value and store it in id
@@ -113,7 +81,8 @@ export class MOVInstruction extends Instruction<"MOV"> {
       if (this.operation.size === 16) yield* super.consumeInstruction(computer, "id.h");
     }
 
-    yield { type: "cpu:cycle.update", phase: "writeback" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "writeback" };
 
     switch (mode) {
       case "reg<-reg": {
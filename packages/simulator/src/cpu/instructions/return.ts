@@ -26,8 +26,9 @@ export class ReturnInstruction extends Instruction<"RET" | "IRET"> {
 
     // All these intructions are one byte long.
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
 
     if (!(yield* computer.cpu.popFromStack())) return false; // Stack underflow
 
@@ -33,8 +33,9 @@ export class StackInstruction extends Instruction<"PUSH" | "POP" | "PUSHF" | "PO
 
     // All these intructions are one byte long.
     yield* super.consumeInstruction(computer, "IR");
-    yield { type: "cpu:decode" };
-    yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
 
     if (this.name === "PUSH" || this.name === "PUSHF") {
       yield* computer.cpu.copyWordRegister(register, "id");
@@ -0,0 +1,172 @@
+import { Byte } from "@vonsim/common/byte";
+
+import type { Computer } from "../../computer";
+import type { EventGenerator } from "../../events";
+import { Instruction } from "../instruction";
+
+/**
+ * String instructions:
+ * - {@link https://vonsim.github.io/en/computer/instructions/movsb | MOVSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/lodsb | LODSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/stosb | STOSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/cmpsb | CMPSB}
+ * - {@link https://vonsim.github.io/en/computer/instructions/scasb | SCASB}
+ *
+ * They work with the byte pointed by SI (the source) and/or the byte pointed
+ * by DI (the destination). After that, SI and DI are incremented by one, or
+ * decremented if DF=1. Like in the 8086, they wrap around at 0 and 0FFFFh.
+ *
+ * With a prefix (REP, REPE or REPNE), each execution processes only one byte
+ * and decrements CX. If the instruction has to be repeated, IP is moved back to
+ * the start of the instruction, so the next cycle executes it again. This way,
+ * each repetition is a cycle of its own (and interrupts can be handled between
+ * repetitions), like in the 8086.
+ *
+ * @see {@link Instruction}
+ *
+ * ---
+ * This class is: IMMUTABLE
+ */
+export class StringInstruction extends Instruction<
+  "MOVSB" | "LODSB" | "STOSB" | "CMPSB" | "SCASB"
+> {
+  get prefix() {
+    return this.statement.prefix;
+  }
+
+  *execute(computer: Computer): EventGenerator<boolean> {
+    yield {
+      type: "cpu:cycle.start",
+      instruction: {
+        name: this.name,
+        ...(this.prefix && { prefix: this.prefix }),
+        position: this.position,
+        operands: [],
+        willUse: { ri: true, id: this.name === "MOVSB" },
+      },
+    };
+
+    if (this.prefix) {
+      yield* super.consumeInstruction(computer, "IR");
+      if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+    }
+    yield* super.consumeInstruction(computer, "IR");
+    if (computer.cpu.emits("cpu:decode")) yield { type: "cpu:decode" };
+
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "decoded", next: "execute" };
+
+    // With a prefix, nothing is done if CX is already zero
+    if (this.prefix && computer.cpu.getRegister("CX").isZero()) return true;
+
+    if (computer.cpu.emits("cpu:cycle.update"))
+      yield { type: "cpu:cycle.update", phase: "execute" };
+
+    const step = computer.cpu.getFlag("DF") ? -1 : 1;
+    const advance = (register: Byte<16>) =>
+      Byte.fromUnsigned((register.unsigned + step) & Byte.maxValue(16), 16);
+
+    switch (this.name) {
+      case "MOVSB": {
+        // Read [SI] into id
+        yield* computer.cpu.copyWordRegister("SI", "ri");
+        yield* computer.cpu.setMAR("ri");
+        if (!(yield* computer.cpu.useBus("mem-read"))) return false; // Error reading memory
+        yield* computer.cpu.getMBR("id.l");
+
+        // Write it into [DI]
+        yield* computer.cpu.copyWordRegister("DI", "ri");
+        yield* computer.cpu.setMAR("ri");
+        yield* computer.cpu.setMBR("id.l");
+        if (!(yield* computer.cpu.useBus("mem-write"))) return false; // Error writing memory
+
+        yield* computer.cpu.updateWordRegister("SI", advance);
+        yield* computer.cpu.updateWordRegister("DI", advance);
+        break;
+      }
+
+      case "LODSB": {
+        yield* computer.cpu.copyWordRegister("SI", "ri");
+        yield* computer.cpu.setMAR("ri");
+        if (!(yield* computer.cpu.useBus("mem-read"))) return false; // Error reading memory
+        yield* computer.cpu.getMBR("AL");
+
+        yield* computer.cpu.updateWordRegister("SI", advance);
+        break;
+      }
+
+      case "STOSB": {
+        yield* computer.cpu.copyWordRegister("DI", "ri");
+        yield* computer.cpu.setMAR("ri");
+        yield* computer.cpu.setMBR("AL");
+        if (!(yield* computer.cpu.useBus("mem-write"))) return false; // Error writing memory
+
+        yield* computer.cpu.updateWordRegister("DI", advance);
+        break;
+      }
+
+      case "CMPSB":
+      case "SCASB": {
+        if (this.name === "CMPSB") {
+          // Read [SI] into the left operand
+          yield* computer.cpu.copyWordRegister("SI", "ri");
+          yield* computer.cpu.setMAR("ri");
+          if (!(yield* computer.cpu.useBus("mem-read"))) return false; // Error reading memory
+          yield* computer.cpu.getMBR("left.l");
+        } else {
+          yield* computer.cpu.copyByteRegister("AL", "left.l");
+        }
+
+        // Read [DI] into the right operand
+        yield* computer.cpu.copyWordRegister("DI", "ri");
+        yield* computer.cpu.setMAR("ri");
+        if (!(yield* computer.cpu.useBus("mem-read"))) return false; // Error reading memory
+        yield* computer.cpu.getMBR("right.l");
+
+        // Same as CMP, the result is discarded
+        const left = computer.cpu.getRegister("left.l");
+        const right = computer.cpu.getRegister("right.l");
+        const unsigned = left.unsigned - right.unsigned;
+        const result = Byte.fromUnsigned(unsigned < 0 ? unsigned + 0x100 : unsigned, 8);
+        yield* computer.cpu.aluExecute("SUB", result, {
+          CF: unsigned < 0,
+          ZF: result.isZero(),
+          SF: result.signed < 0,
+          OF:
+            (left.signed >= 0 && right.signed < 0 && result.signed < 0) ||
+            (left.signed < 0 && right.signed >= 0 && result.signed >= 0),
+        });
+
+        if (this.name === "CMPSB") {
+          yield* computer.cpu.updateWordRegister("SI", advance);
+        }
+        yield* computer.cpu.updateWordRegister("DI", advance);
+        break;
+      }
+
+      default: {
+        const _exhaustiveCheck: never = this.name;
+        return _exhaustiveCheck;
+      }
+    }
+
+    if (!this.prefix) return true;
+
+    // Decrement CX without modifying the flags
+    yield* computer.cpu.updateWordRegister("CX", CX => CX.add(-1));
+    if (computer.cpu.getRegister("CX").isZero()) return true;
+
+    const ZF = computer.cpu.getFlag("ZF");
+    const repeat =
+      this.prefix === "REP" ||
+      ((this.prefix === "REPE" || this.prefix === "REPZ") && ZF) ||
+      ((this.prefix === "REPNE" || this.prefix === "REPNZ") && !ZF);
+
+    if (repeat) {
+      // Go back to the start of the instruction to execute the next repetition
+      yield* computer.cpu.updateWordRegister("IP", this.start.byte);
+    }
+
+    return true;
+  }
+}
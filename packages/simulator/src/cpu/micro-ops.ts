@@ -1,7 +1,7 @@
 import type { Byte, ByteSize } from "@vonsim/common/byte";
 
 import type { SimulatorError } from "../error";
-import type { ByteRegister, InstructionMetadata, WordRegister } from "./types";
+import type { ALUPart, ByteRegister, InstructionMetadata, WordRegister } from "./types";
 
 /**
  * All events that can be emitted by the CPU.
@@ -17,6 +17,7 @@ export type CPUMicroOperation =
   | {
       type: "cpu:alu.execute";
       operation: string;
+      part?: ALUPart; // Only for the operations that take more than one step
       size: ByteSize;
       result: Byte<16>;
       flags: Byte<16>;
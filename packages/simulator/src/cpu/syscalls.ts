@@ -46,7 +46,7 @@ export function* handleSyscall(
 
     case 6: {
       // INT 6 - Read character from the keyboard and store it in [BX]
-      yield { type: "cpu:int.6" };
+      if (computer.cpu.emits("cpu:int.6")) yield { type: "cpu:int.6" };
 
       if (!computer.io.keyboard) {
         yield { type: "cpu:error", error: new SimulatorError("device-not-connected", "keyboard") };
@@ -69,7 +69,7 @@ export function* handleSyscall(
 
     case 7: {
       // INT 7 - Write string to the screen, starting from [BX] and of length AL
-      yield { type: "cpu:int.7" };
+      if (computer.cpu.emits("cpu:int.7")) yield { type: "cpu:int.7" };
 
       if (!computer.io.screen) {
         yield { type: "cpu:error", error: new SimulatorError("device-not-connected", "screen") };
@@ -1,4 +1,4 @@
-import type { Instruction as InstructionName } from "@vonsim/assembler";
+import type { Instruction as InstructionName, StringPrefix } from "@vonsim/assembler";
 import type { Byte } from "@vonsim/common/byte";
 import type { Position } from "@vonsim/common/position";
 import type { ConditionalKeys } from "type-fest";
@@ -8,10 +8,17 @@ export type Flag =
   | "ZF" // Zero Flag
   | "SF" // Sign Flag
   | "IF" // Interrupt Flag
+  | "DF" // Direction Flag
   | "OF"; // Overflow Flag
 
 export type PartialFlags = Partial<Record<Flag, boolean>>;
 
+/**
+ * Part of the result computed by the ALU, for the operations that take more
+ * than one step because their result doesn't fit in the result register.
+ */
+export type ALUPart = "low" | "high" | "quotient" | "remainder";
+
 /**
  * All the physical registers of the CPU.
  */
@@ -21,6 +28,9 @@ export type RegistersMap = {
   CX: Byte<16>; // Counter
   DX: Byte<16>; // Data
   SP: Byte<16>; // Stack Pointer
+  BP: Byte<16>; // Base Pointer
+  SI: Byte<16>; // Source Index
+  DI: Byte<16>; // Destination Index
   IP: Byte<16>; // Instruction Pointer
   IR: Byte<8>; // Instruction Register
   ri: Byte<16>; // Register Index
@@ -39,7 +49,7 @@ export type PhysicalRegister = keyof RegistersMap;
  */
 export type PartialRegisters =
   | `${"A" | "B" | "C" | "D"}${"L" | "H"}`
-  | `${"SP" | "IP" | "ri" | "id" | "left" | "right" | "result" | "FLAGS"}.${"l" | "h"}`;
+  | `${"SP" | "BP" | "SI" | "DI" | "IP" | "ri" | "id" | "left" | "right" | "result" | "FLAGS"}.${"l" | "h"}`;
 
 export type ByteRegister = ConditionalKeys<RegistersMap, Byte<8>> | PartialRegisters;
 export type WordRegister = ConditionalKeys<RegistersMap, Byte<16>>;
@@ -55,7 +65,10 @@ export type MARRegister = "IP" | "SP" | "ri";
  */
 export type InstructionMetadata = {
   name: InstructionName;
-  position: Position;
+  /** Prefix of the instruction, if any (e.g. `REP` in `REP MOVSB`). */
+  prefix?: StringPrefix;
+  /** Position of the instruction in the source code, if known. */
+  position: Position | null;
   operands: string[];
   willUse: Partial<{ ri: boolean; id: boolean }>;
 };
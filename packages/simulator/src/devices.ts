@@ -0,0 +1,56 @@
+import type { DevicesConfiguration } from "./computer";
+
+/**
+ * Devices configuration with no devices connected.
+ */
+export const NO_DEVICES: DevicesConfiguration = {
+  keyboardAndScreen: false,
+  pic: false,
+  pio: null,
+  handshake: null,
+};
+
+/**
+ * Parses a comma-separated list of devices, as written in the `devices`
+ * metadata key (e.g. `keyboard, screen, pic`).
+ *
+ * Unknown devices are ignored. If two devices aren't compatible
+ * (like `printer-pio, printer-handshake`), the last one takes precedence.
+ *
+ * @see https://vonsim.github.io/en/reference/metadata#devices
+ * @param list The list of devices.
+ * @returns The devices specified in the list.
+ */
+export function parseDevices(list: string): Partial<DevicesConfiguration> {
+  const devices: Partial<DevicesConfiguration> = {};
+
+  if (list.trim() === "none") return { ...NO_DEVICES };
+
+  for (const item of list.trim().split(/\s*,\s*/g)) {
+    switch (item) {
+      case "keyboard":
+      case "screen":
+        devices.keyboardAndScreen = true;
+        break;
+      case "pic":
+        devices.pic = true;
+        break;
+      case "switches-pio":
+      case "leds-pio":
+        devices.pio = "switches-and-leds";
+        break;
+      case "printer-pio":
+        devices.pio = "printer";
+        if (devices.handshake === "printer") devices.handshake = null;
+        break;
+      case "printer-handshake":
+        devices.handshake = "printer";
+        if (devices.pio === "printer") devices.pio = null;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return devices;
+}
@@ -11,6 +11,14 @@ export const english = {
   // prettier-ignore
   "address-out-of-range": (address: MemoryAddressLike) =>`Memory address ${MemoryAddress.format(address)} is out of range (max memory address: ${maxAddress}).`,
   "device-not-connected": (device: string) => `"${device}" is not connected to the computer.`,
+  "divide-by-zero": "Division by zero.",
+  // prettier-ignore
+  "divide-overflow": "The quotient of the division is too big to fit in the destination (AL or AX).",
+  "invalid-condition": (condition: string) => `Invalid condition "${condition}".`,
+  "invalid-character": (char: string) => `Character "${char}" is not in the ASCII table.`,
+  // prettier-ignore
+  "invalid-instruction": (address: MemoryAddressLike) => `The bytes at memory address ${MemoryAddress.format(address)} aren't a valid instruction.`,
+  "invalid-state": "The state doesn't match the loaded program and devices.",
   // prettier-ignore
   "io-memory-not-connected": (address: IOAddressLike) => `Didn't found a module connected to I/O memory address ${IOAddress.format(address)}.`,
   // prettier-ignore
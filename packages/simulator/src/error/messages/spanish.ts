@@ -12,6 +12,14 @@ export const spanish: Messages = {
   // prettier-ignore
   "address-out-of-range": address => `La dirección de memoria ${MemoryAddress.format(address)} está fuera de rango (dirección máxima de memoria: ${maxAddress}).`,
   "device-not-connected": (device: string) => `"${device}" no está conectado a la computadora.`,
+  "divide-by-zero": "División por cero.",
+  // prettier-ignore
+  "divide-overflow": "El cociente de la división es demasiado grande para entrar en el destino (AL o AX).",
+  "invalid-condition": condition => `Condición inválida "${condition}".`,
+  "invalid-character": char => `El carácter "${char}" no está en la tabla ASCII.`,
+  // prettier-ignore
+  "invalid-instruction": address => `Los bytes en la dirección de memoria ${MemoryAddress.format(address)} no son una instrucción válida.`,
+  "invalid-state": "El estado no coincide con el programa y los dispositivos cargados.",
   // prettier-ignore
   "io-memory-not-connected": (address)=> `No se encontró ningún módulo conectado a la dirección de memoria E/S ${IOAddress.format(address)}.`,
   // prettier-ignore
@@ -0,0 +1,225 @@
+import type { Byte } from "@vonsim/common/byte";
+
+import type { Computer } from "./computer";
+import type { InstructionMetadata } from "./cpu/types";
+import type { SimulatorEvent } from "./events";
+
+type CPUState = ReturnType<Computer["cpu"]["toJSON"]>;
+type IOState = ReturnType<Computer["io"]["toJSON"]>;
+
+/**
+ * Everything needed to undo one instruction (or syscall).
+ */
+type HistoryEntry = {
+  /** Previous value of each CPU register changed by the instruction. */
+  cpu: Partial<CPUState>;
+  /** Previous state of each device and module changed by the instruction. */
+  io: Partial<IOState>;
+  /** Previous value of each memory address written by the instruction. */
+  memory: Map<number, number>;
+  /** Instruction being executed, if it has started (syscalls don't have one). */
+  instruction: InstructionMetadata | null;
+  /** Number of micro-cycles (`cpu:cycle.update` and `cpu:cycle.interrupt`) executed so far. */
+  microCycles: number;
+  /** Characters read by the keyboard, in order. */
+  input: Byte<8>[];
+  /** Whether the instruction has done anything besides starting its cycle. */
+  dirty: boolean;
+};
+
+/**
+ * Records the changes made by each instruction executed by the CPU,
+ * so the computer can be rewound (see {@link History.stepBack}).
+ *
+ * Only the changes are stored. The registers of the CPU and the state of the
+ * devices and modules are compared at the end of every instruction with a copy
+ * of them taken at its start, and the memory deltas are taken from the
+ * `memory:write.ok` events, using a copy of the memory to know the value that
+ * was overwritten. The entries are kept in a ring buffer, so the oldest one is
+ * dropped in constant time once the limit is reached.
+ *
+ * ---
+ * This class is: MUTABLE
+ */
+export class History {
+  static readonly DEFAULT_LIMIT = 10_000;
+
+  readonly #computer: Computer;
+  readonly #entries: (HistoryEntry | undefined)[];
+  #first = 0;
+  #length = 0;
+  #current: HistoryEntry = History.#newEntry();
+  #cpu: CPUState;
+  #io: IOState;
+  #memory: Uint8Array;
+
+  constructor(computer: Computer, limit = History.DEFAULT_LIMIT) {
+    this.#computer = computer;
+    this.#entries = new Array(limit);
+    this.#cpu = computer.cpu.toJSON();
+    this.#io = computer.io.toJSON();
+    this.#memory = Uint8Array.from(computer.memory.toJSON());
+  }
+
+  static #newEntry(): HistoryEntry {
+    return {
+      cpu: {},
+      io: {},
+      memory: new Map(),
+      instruction: null,
+      microCycles: 0,
+      input: [],
+      dirty: false,
+    };
+  }
+
+  /**
+   * Records an event. Must be called right after the event is generated,
+   * which is when its action has already been performed.
+   *
+   * ---
+   * Called by the CPU ({@link CPU.run}).
+   */
+  observe(event: SimulatorEvent) {
+    const current = this.#current;
+
+    switch (event.type) {
+      case "cpu:cycle.start":
+        // Starting a cycle doesn't change anything
+        current.instruction = event.instruction;
+        return;
+
+      case "cpu:cycle.update":
+      case "cpu:cycle.interrupt":
+        current.microCycles++;
+        break;
+
+      case "memory:write.ok": {
+        const address = event.address.value;
+        if (!current.memory.has(address)) current.memory.set(address, this.#memory[address]);
+        this.#memory[address] = event.value.unsigned;
+        break;
+      }
+
+      case "keyboard:read":
+        current.input.push(event.char);
+        break;
+
+      case "cpu:cycle.end":
+        this.#commit(current);
+        this.#push(current);
+        this.#current = History.#newEntry();
+        return;
+    }
+
+    current.dirty = true;
+  }
+
+  /**
+   * Stores in the entry the previous value of everything that changed since
+   * the start of the instruction, and takes the current state as the start
+   * of the next one.
+   */
+  #commit(entry: HistoryEntry) {
+    const cpu = this.#computer.cpu.toJSON();
+    for (const register of Object.keys(cpu) as (keyof CPUState)[]) {
+      if (cpu[register] !== this.#cpu[register]) entry.cpu[register] = this.#cpu[register];
+    }
+    this.#cpu = cpu;
+
+    const io = this.#computer.io.toJSON();
+    for (const device of Object.keys(io) as (keyof IOState)[]) {
+      if (!isSameJSON(io[device], this.#io[device])) {
+        (entry.io as Record<keyof IOState, unknown>)[device] = this.#io[device];
+      }
+    }
+    this.#io = io;
+  }
+
+  #push(entry: HistoryEntry) {
+    const limit = this.#entries.length;
+    if (this.#length < limit) {
+      this.#entries[(this.#first + this.#length) % limit] = entry;
+      this.#length++;
+    } else {
+      // Overwrite the oldest entry
+      this.#entries[this.#first] = entry;
+      this.#first = (this.#first + 1) % limit;
+    }
+  }
+
+  #pop(): HistoryEntry | undefined {
+    if (this.#length === 0) return undefined;
+    this.#length--;
+    const index = (this.#first + this.#length) % this.#entries.length;
+    const entry = this.#entries[index];
+    this.#entries[index] = undefined;
+    return entry;
+  }
+
+  /**
+   * Whether there is something to step back.
+   */
+  get canStepBack(): boolean {
+    return this.#current.dirty || this.#length > 0;
+  }
+
+  /**
+   * Rewinds the computer to the start of the current instruction or, if it
+   * hasn't started yet, to the start of the previous one.
+   *
+   * @returns The entry that was undone, so its micro-cycles can be replayed
+   * if needed, or `null` if there was nothing to undo. `complete` tells
+   * whether the instruction had already finished.
+   *
+   * ---
+   * Called by the Simulator.
+   */
+  stepBack():
+    | (Pick<HistoryEntry, "instruction" | "microCycles" | "input"> & { complete: boolean })
+    | null {
+    const complete = !this.#current.dirty;
+    const entry = complete ? this.#pop() : this.#current;
+    if (!entry) return null;
+
+    // The current instruction only has to go back to the state at its start,
+    // while a complete one has to undo its changes from there
+    if (complete) {
+      this.#cpu = { ...this.#cpu, ...entry.cpu };
+      this.#io = { ...this.#io, ...entry.io };
+    }
+    this.#undo(entry);
+
+    this.#current = History.#newEntry();
+    return {
+      instruction: entry.instruction,
+      microCycles: entry.microCycles,
+      input: entry.input,
+      complete,
+    };
+  }
+
+  #undo(entry: HistoryEntry) {
+    this.#computer.cpu.restore(this.#cpu);
+    this.#computer.io.restore(this.#io);
+    for (const [address, value] of entry.memory) {
+      this.#computer.memory.restoreByte(address, value);
+      this.#memory[address] = value;
+    }
+  }
+}
+
+/**
+ * Whether two JSON values are equal, comparing objects and arrays by their contents.
+ */
+function isSameJSON(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(key =>
+    isSameJSON((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  );
+}
@@ -1,8 +1,16 @@
-import type { Byte } from "@vonsim/common/byte";
+import type { MemoryAddressLike } from "@vonsim/common/address";
+import { charToDecimal } from "@vonsim/common/ascii";
+import { AnyByte, Byte } from "@vonsim/common/byte";
 
-import { Computer, ComputerOptions } from "./computer";
+import { Computer, ComputerOptions, DevicesConfiguration } from "./computer";
+import { Condition, ConditionContext } from "./condition";
+import type { ByteRegister, Flag, InstructionMetadata, WordRegister } from "./cpu/types";
+import { NO_DEVICES, parseDevices } from "./devices";
 import { SimulatorError } from "./error";
 import type { EventGenerator, SimulatorEvent } from "./events";
+import { History } from "./history";
+import { InstructionProfile, Profile, ProfileCounters, Profiler } from "./profiler";
+import { TraceEntry, TraceRecorder } from "./trace";
 
 /**
  * Simulator class.
@@ -23,20 +31,25 @@ import type { EventGenerator, SimulatorEvent } from "./events";
 export class Simulator {
   #computer: Computer = new Computer({
     program: { data: [], instructions: [] },
-    devices: { keyboardAndScreen: false, pic: false, pio: null, handshake: null },
+    devices: NO_DEVICES,
     data: "clean",
     previous: null,
   });
+  #history: History | null = null;
+  #profiler: Profiler | null = null;
 
   /**
    * Loads a program into the computer!
    *
-   * @param options.program The program to load.
+   * @param options.program The program to load: an assembled program or a memory image (see `createImage` in the assembler).
    * @param options.data Whether to leave all data (memory, registers, etc.) `unchanged`, `randomize` it or `clean` it.
    * @param options.devices Which devices to connect to the computer.
+   * @param options.selfModifyingCode Whether to decode the instructions from memory on every cycle, allowing the program to modify itself.
    */
   loadProgram(options: Omit<ComputerOptions, "previous">) {
     this.#computer = new Computer({ ...options, previous: this.#computer });
+    this.#history = null;
+    this.#profiler = null;
   }
 
   /**
@@ -46,15 +59,239 @@ export class Simulator {
     return this.#computer?.toJSON() || null;
   }
 
+  /**
+   * Whether the CPU is between two instructions, which is the only point where
+   * a state can be taken to be restored later (see {@link Simulator.restoreState}).
+   * In the middle of an instruction, IP already points past the bytes that were
+   * fetched, so the restored CPU would skip the rest of the instruction.
+   */
+  isBetweenInstructions(): boolean {
+    return this.#computer.cpu.betweenInstructions;
+  }
+
+  /**
+   * Restores a state of the computer, as returned by {@link Simulator.getComputerState}.
+   * The program and the devices that were loaded when the state was taken must be
+   * loaded first (see {@link Simulator.loadProgram}), since they aren't part of the state.
+   *
+   * It restores the registers of the CPU (including MAR and MBR), the memory,
+   * the registers of the I/O modules and the state of the devices
+   * (like the buffer of the printer or the output of the screen).
+   * The state must have been taken between two instructions (see {@link Simulator.isBetweenInstructions}).
+   *
+   * @throws {SimulatorError<"invalid-state">} If the state doesn't match the loaded computer.
+   */
+  restoreState(state: ComputerState) {
+    if (!this.#computer) throw new SimulatorError("no-program");
+
+    const current = this.#computer.toJSON();
+    const matches =
+      state.memory.length === current.memory.length &&
+      Object.keys(current.cpu).every(key => key in state.cpu) &&
+      Object.entries(current.io).every(
+        ([device, value]) =>
+          (value === null) === (state.io[device as keyof typeof state.io] === null),
+      );
+    if (!matches) throw new SimulatorError("invalid-state");
+
+    this.#computer.restore(state);
+
+    // Recorded changes don't apply to the restored state
+    if (this.#history) {
+      this.#history = new History(this.#computer);
+      this.#computer.cpu.setHistory(this.#history);
+    }
+  }
+
+  /**
+   * Returns the value of a register, without going through the events.
+   * Useful to inspect the state of the CPU while it's running (e.g. to evaluate a {@link Condition}).
+   *
+   * @param register Either a full register or a partial register (like AL for the low part of AX).
+   */
+  getRegister(register: ByteRegister): Byte<8>;
+  getRegister(register: WordRegister): Byte<16>;
+  getRegister(register: ByteRegister | WordRegister): AnyByte {
+    return this.#computer.cpu.getRegister(register as WordRegister);
+  }
+
+  /**
+   * Returns the value of a flag, without going through the events.
+   * @see {@link https://vonsim.github.io/en/computer/cpu#flags}
+   */
+  getFlag(flag: Flag): boolean {
+    return this.#computer.cpu.getFlag(flag);
+  }
+
+  /**
+   * Sets the value of a register. Meant to be called after loading a program
+   * and before starting the CPU, to set up its initial state (e.g. in tests).
+   *
+   * @param register Either a full register or a partial register (like AL for the low part of AX).
+   * @param value The value to set. Its size must match the register size.
+   */
+  setRegister(register: ByteRegister, value: Byte<8>): void;
+  setRegister(register: WordRegister, value: Byte<16>): void;
+  setRegister(register: ByteRegister | WordRegister, value: AnyByte): void {
+    this.#computer.cpu.overrideRegister(register as WordRegister, value as Byte<16>);
+  }
+
+  /**
+   * Sets the values of the memory starting at the specified address. Meant to be called
+   * after loading a program and before starting the CPU, to set up its initial state.
+   * Throws a {@link SimulatorError} if it would write over an instruction or a reserved address.
+   *
+   * @param address The address of the first byte.
+   * @param values The bytes to write.
+   */
+  setMemory(address: MemoryAddressLike, values: Byte<8>[]) {
+    this.#computer.memory.override(address, values);
+  }
+
   /**
    * Starts the CPU of the computer. Returns a generator of {@link SimulatorEvent}.
    * @see {@link SimulatorEvent}
+   *
+   * @param options.turbo Whether to start in turbo mode (see {@link Simulator.setTurbo}).
+   * @param options.keep Events to keep emitting in turbo mode (see {@link Simulator.setTurbo}).
+   * @param options.history Whether to record the executed instructions to be able to step back (see {@link Simulator.stepBack}).
+   * @param options.profile Whether to count the accesses and execution units of each instruction (see {@link Simulator.getProfile}).
    */
-  startCPU(): EventGenerator {
+  startCPU({
+    turbo = false,
+    keep,
+    history = false,
+    profile = false,
+  }: {
+    turbo?: boolean;
+    keep?: TurboKeep;
+    history?: boolean;
+    profile?: boolean;
+  } = {}): EventGenerator {
     if (!this.#computer) throw new SimulatorError("no-program");
+    this.#history = history ? new History(this.#computer) : null;
+    this.#computer.cpu.setHistory(this.#history);
+    this.#profiler = profile ? new Profiler() : null;
+    this.#computer.cpu.setProfiler(this.#profiler);
+    this.#computer.cpu.setTurbo(turbo, keep);
     return this.#computer.cpu.run();
   }
 
+  /**
+   * Starts recording the executed instructions to be able to step back
+   * (see {@link Simulator.stepBack}), or stops recording them. If it was
+   * already recording, nothing changes. Instructions executed while it
+   * wasn't recording can't be undone.
+   *
+   * It can be changed while the CPU is running, e.g. to skip the cost of
+   * recording in turbo mode.
+   */
+  setHistory(enabled: boolean) {
+    if (!this.#computer) throw new SimulatorError("no-program");
+    if (enabled === !!this.#history) return;
+    this.#history = enabled ? new History(this.#computer) : null;
+    this.#computer.cpu.setHistory(this.#history);
+  }
+
+  /**
+   * Starts counting the accesses and execution units of each instruction
+   * (see {@link Simulator.getProfile}), or stops counting them and discards
+   * the counters. If it was already counting, nothing changes.
+   *
+   * It can be changed while the CPU is running.
+   */
+  setProfile(enabled: boolean) {
+    if (!this.#computer) throw new SimulatorError("no-program");
+    if (enabled === !!this.#profiler) return;
+    this.#profiler = enabled ? new Profiler() : null;
+    this.#computer.cpu.setProfiler(this.#profiler);
+  }
+
+  /**
+   * Returns the counters of the profiler, or `null` if the CPU wasn't started
+   * with the `profile` option. The counters keep going while the CPU runs.
+   * @see {@link Profiler}
+   */
+  getProfile(): Profile | null {
+    return this.#profiler?.toJSON() ?? null;
+  }
+
+  /**
+   * Whether there is something to step back (see {@link Simulator.stepBack}).
+   */
+  canStepBack(): boolean {
+    return this.#history?.canStepBack ?? false;
+  }
+
+  /**
+   * Rewinds the computer one instruction or one micro-cycle. Only works if the CPU
+   * was started with the `history` option.
+   *
+   * The CPU can't continue from the middle of a generator, so a new one is returned
+   * and the previous one must be discarded. When stepping back one micro-cycle, the
+   * instruction is rewound to its start and then replayed up to the previous micro-cycle.
+   * The replayed events are returned too, so the outside can catch up with them.
+   *
+   * The characters read by the keyboard in the rewound instruction are put back in the
+   * input queue (see {@link Simulator.devices}), and turbo mode is disabled.
+   *
+   * @param unit Whether to go back to the start of the previous instruction or just to the previous micro-cycle.
+   * @returns `null` if there is nothing to step back.
+   */
+  stepBack(unit: "instruction" | "cycle-change" = "instruction"): {
+    generator: EventGenerator;
+    instruction: InstructionMetadata | null;
+    replayed: SimulatorEvent[];
+  } | null {
+    if (!this.#computer) throw new SimulatorError("no-program");
+
+    const entry = this.#history?.stepBack();
+    if (!entry) return null;
+
+    this.#computer.io.keyboard?.requeue(entry.input);
+    this.#computer.cpu.setTurbo(false);
+    const generator = this.#computer.cpu.run();
+
+    const replayed: SimulatorEvent[] = [];
+    if (unit === "cycle-change") {
+      // The replayed events were already counted when they were first executed
+      this.#computer.cpu.setProfiler(null);
+      const target = entry.complete ? entry.microCycles : entry.microCycles - 1;
+      let microCycles = 0;
+      while (microCycles < target) {
+        const result = generator.next();
+        if (result.done) break;
+        replayed.push(result.value);
+        if (
+          result.value.type === "cpu:cycle.update" ||
+          result.value.type === "cpu:cycle.interrupt"
+        ) {
+          microCycles++;
+        }
+      }
+      this.#computer.cpu.setProfiler(this.#profiler);
+      if (replayed.length > 0) this.#profiler?.resume(entry.instruction);
+    }
+
+    return { generator, instruction: entry.instruction, replayed };
+  }
+
+  /**
+   * Enables or disables turbo mode. In turbo mode, the CPU executes whole
+   * instructions and only emits the events that mark their boundaries
+   * (`cpu:cycle.start` and `cpu:cycle.end`) or that need to be handled from
+   * the outside (errors, halts, keyboard input, etc.). The state of the
+   * computer can be read with {@link Simulator.getComputerState} at any of them.
+   *
+   * It can be changed while the CPU is running.
+   *
+   * @param keep Other events to keep emitting in turbo mode, like `memory:write.ok` to watch memory writes.
+   */
+  setTurbo(turbo: boolean, keep?: TurboKeep) {
+    if (!this.#computer) throw new SimulatorError("no-program");
+    this.#computer.cpu.setTurbo(turbo, keep);
+  }
+
   /**
    * Returns an object with all the devices of the computer
    * that can be interacted with from the outside.
@@ -84,6 +321,20 @@ export class Simulator {
           else
             console.warn("Called keyboard.press() when no keyboard was connected to the computer");
         },
+        enqueue: (input: string) => {
+          if (!this.#computer.io.keyboard) {
+            console.warn(
+              "Called keyboard.enqueue() when no keyboard was connected to the computer",
+            );
+            return;
+          }
+          const chars = Array.from(input, char => {
+            if (charToDecimal(char) === null) throw new SimulatorError("invalid-character", char);
+            return Byte.fromChar(char);
+          });
+          this.#computer.io.keyboard.enqueue(chars);
+        },
+        pending: () => this.#computer.io.keyboard?.pending ?? 0,
       },
       leds: {
         connected: () => this.#computer.io.leds !== null,
@@ -105,6 +356,7 @@ export class Simulator {
       },
       screen: {
         connected: () => this.#computer.io.screen !== null,
+        output: () => this.#computer.io.screen?.toJSON() ?? "",
         clear: () => {
           if (this.#computer.io.screen) return this.#computer.io.screen.clear();
           else console.warn("Called screen.clear() when no screen was connected to the computer");
@@ -125,6 +377,18 @@ export class Simulator {
 }
 
 type ComputerState = ReturnType<Simulator["getComputerState"]>;
+type TurboKeep = Iterable<SimulatorEvent["type"]>;
 
-export type { ComputerOptions, ComputerState, EventGenerator, SimulatorEvent };
-export { SimulatorError };
+export type {
+  ComputerOptions,
+  ComputerState,
+  ConditionContext,
+  DevicesConfiguration,
+  EventGenerator,
+  InstructionProfile,
+  Profile,
+  ProfileCounters,
+  SimulatorEvent,
+  TraceEntry,
+};
+export { Condition, NO_DEVICES, parseDevices, SimulatorError, TraceRecorder };
@@ -24,6 +24,10 @@ export class Clock extends Component {
     if (this.computer.io.timer) yield* this.computer.io.timer.tick();
   }
 
+  restore() {
+    // Nothing to restore
+  }
+
   toJSON() {
     return null;
   }
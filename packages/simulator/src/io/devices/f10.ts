@@ -25,6 +25,10 @@ export class F10 extends Component {
     if (this.computer.io.pic) yield* this.computer.io.pic.interrupt(0);
   }
 
+  restore() {
+    // Nothing to restore
+  }
+
   toJSON() {
     return null;
   }
@@ -18,9 +18,15 @@ export type KeyboardEvent =
  */
 export class Keyboard extends Component {
   #lastCharRead: Byte<8> | null = null;
+  #queue: Byte<8>[] = [];
 
   /**
    * Reads a character from the keyboard (outside).
+   *
+   * If there are characters in the input queue (see {@link Keyboard.enqueue}),
+   * the first one is read right away. Otherwise, it waits for the outside
+   * to press a key.
+   *
    * @returns The character read as a Byte<8>.
    * @see {@link https://vonsim.github.io/en/io/devices/keyboard}.
    *
@@ -28,13 +34,17 @@ export class Keyboard extends Component {
    * Called by the CPU.
    */
   *readChar(): EventGenerator<Byte<8>> {
-    yield { type: "keyboard:listen-key" };
+    let char = this.#queue.shift() ?? null;
 
-    // Between the yield and the next line, the outside will call `setLastCharRead`
-
-    const char = this.#lastCharRead;
     if (!char) {
-      throw new Error("INT 6 was not given a valid 8-bit character!");
+      yield { type: "keyboard:listen-key" };
+
+      // Between the yield and the next line, the outside will call `setLastCharRead`
+
+      char = this.#lastCharRead;
+      if (!char) {
+        throw new Error("INT 6 was not given a valid 8-bit character!");
+      }
     }
 
     yield { type: "keyboard:read", char };
@@ -43,6 +53,40 @@ export class Keyboard extends Component {
     return char;
   }
 
+  /**
+   * Adds characters to the input queue. These characters will be read,
+   * in order, by the following `INT 6` calls without waiting for the
+   * outside to press a key.
+   *
+   * ---
+   * Called by the outside.
+   */
+  enqueue(chars: Byte<8>[]) {
+    this.#queue.push(...chars);
+  }
+
+  /**
+   * Adds characters to the front of the input queue, so they are read before
+   * the ones already queued. Used to feed again the characters read by the
+   * instructions that were stepped back.
+   *
+   * ---
+   * Called by the Simulator.
+   */
+  requeue(chars: Byte<8>[]) {
+    this.#queue.unshift(...chars);
+  }
+
+  /**
+   * @returns The number of characters left in the input queue.
+   *
+   * ---
+   * Called by the outside.
+   */
+  get pending(): number {
+    return this.#queue.length;
+  }
+
   /**
    * Saves a character from the keyboard (outside).
    * @returns The character read as a Byte<8>.
@@ -55,6 +99,10 @@ export class Keyboard extends Component {
     this.#lastCharRead = char;
   }
 
+  restore() {
+    // Nothing to restore
+  }
+
   toJSON() {
     return null;
   }
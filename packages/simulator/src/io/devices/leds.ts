@@ -42,6 +42,10 @@ export abstract class Leds extends Component {
     yield { type: "leds:update", state };
   }
 
+  restore(state: ReturnType<Leds["toJSON"]>) {
+    this.#state = Byte.fromUnsigned(state, 8);
+  }
+
   toJSON() {
     return this.#state.toJSON() satisfies JsonValue;
   }
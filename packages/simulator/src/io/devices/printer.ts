@@ -1,5 +1,5 @@
 import { decimalToChar } from "@vonsim/common/ascii";
-import type { Byte } from "@vonsim/common/byte";
+import { Byte } from "@vonsim/common/byte";
 import type { JsonObject } from "type-fest";
 
 import { Component, ComponentInit } from "../../component";
@@ -163,6 +163,11 @@ export abstract class Printer extends Component {
     }
   }
 
+  restore(state: ReturnType<Printer["toJSON"]>) {
+    this.#paper = state.paper;
+    this.#buffer = state.buffer.map(char => Byte.fromUnsigned(char, 8));
+  }
+
   toJSON() {
     return {
       paper: this.#paper,
@@ -67,6 +67,10 @@ export class Screen extends Component {
     yield { type: "screen:send-char", char, output: this.#output };
   }
 
+  restore(state: ReturnType<Screen["toJSON"]>) {
+    this.#output = state;
+  }
+
   toJSON() {
     return this.#output;
   }
@@ -42,6 +42,10 @@ export abstract class Switches extends Component {
     yield { type: "switches:toggle", index };
   }
 
+  restore(state: ReturnType<Switches["toJSON"]>) {
+    this.#state = Byte.fromUnsigned(state, 8);
+  }
+
   toJSON() {
     return this.#state.toJSON() satisfies JsonValue;
   }
@@ -90,25 +90,29 @@ export class IOInterface extends Component {
   *chipSelect(address: IOAddressLike): EventGenerator<IORegister | null> {
     const handshake = this.handshake?.chipSelect(address);
     if (handshake) {
-      yield { type: "bus:io.selected", chip: "handshake" };
+      if (this.computer.cpu.emits("bus:io.selected"))
+        yield { type: "bus:io.selected", chip: "handshake" };
       return { chip: "handshake", register: handshake };
     }
 
     const pic = this.pic?.chipSelect(address);
     if (pic) {
-      yield { type: "bus:io.selected", chip: "pic" };
+      if (this.computer.cpu.emits("bus:io.selected"))
+        yield { type: "bus:io.selected", chip: "pic" };
       return { chip: "pic", register: pic };
     }
 
     const pio = this.pio?.chipSelect(address);
     if (pio) {
-      yield { type: "bus:io.selected", chip: "pio" };
+      if (this.computer.cpu.emits("bus:io.selected"))
+        yield { type: "bus:io.selected", chip: "pio" };
       return { chip: "pio", register: pio };
     }
 
     const timer = this.timer?.chipSelect(address);
     if (timer) {
-      yield { type: "bus:io.selected", chip: "timer" };
+      if (this.computer.cpu.emits("bus:io.selected"))
+        yield { type: "bus:io.selected", chip: "timer" };
       return { chip: "timer", register: timer };
     }
 
@@ -158,6 +162,24 @@ export class IOInterface extends Component {
     return false;
   }
 
+  /**
+   * Restores the state from the output of {@link IOInterface.toJSON}.
+   *
+   * ---
+   * Called by the Computer.
+   */
+  restore(state: ReturnType<IOInterface["toJSON"]>) {
+    if (this.leds && state.leds !== null) this.leds.restore(state.leds);
+    if (this.printer && state.printer) this.printer.restore(state.printer);
+    if (this.screen && state.screen !== null) this.screen.restore(state.screen);
+    if (this.switches && state.switches !== null) this.switches.restore(state.switches);
+
+    if (this.handshake && state.handshake) this.handshake.restore(state.handshake);
+    if (this.pic && state.pic) this.pic.restore(state.pic);
+    if (this.pio && state.pio) this.pio.restore(state.pio);
+    if (this.timer && state.timer) this.timer.restore(state.timer);
+  }
+
   toJSON() {
     return {
       clock: this.clock?.toJSON() ?? null,
@@ -160,6 +160,11 @@ export class Handshake extends IOModule<HandshakeRegister> {
     }
   }
 
+  restore(state: ReturnType<Handshake["toJSON"]>) {
+    this.#DATA = Byte.fromUnsigned(state.DATA, 8);
+    this.#STATE = Byte.fromUnsigned(state.STATE, 8);
+  }
+
   toJSON() {
     return {
       DATA: this.#DATA.toJSON(),
@@ -221,6 +221,13 @@ export class PIC extends IOModule<PICRegister> {
     return number;
   }
 
+  restore(state: ReturnType<PIC["toJSON"]>) {
+    this.#IMR = Byte.fromUnsigned(state.IMR, 8);
+    this.#IRR = Byte.fromUnsigned(state.IRR, 8);
+    this.#ISR = Byte.fromUnsigned(state.ISR, 8);
+    this.#lines = state.lines.map(line => Byte.fromUnsigned(line, 8));
+  }
+
   toJSON() {
     return {
       IMR: this.#IMR.toJSON(),
@@ -157,6 +157,13 @@ export abstract class PIO extends IOModule<PIORegister> {
     else return this.CB.bit(index) ? "input" : "output";
   }
 
+  restore(state: ReturnType<PIO["toJSON"]>) {
+    this.PA = Byte.fromUnsigned(state.PA, 8);
+    this.PB = Byte.fromUnsigned(state.PB, 8);
+    this.CA = Byte.fromUnsigned(state.CA, 8);
+    this.CB = Byte.fromUnsigned(state.CB, 8);
+  }
+
   toJSON() {
     return {
       PA: this.PA.toJSON(),
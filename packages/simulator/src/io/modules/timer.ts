@@ -100,6 +100,11 @@ export class Timer extends IOModule<TimerRegister> {
     }
   }
 
+  restore(state: ReturnType<Timer["toJSON"]>) {
+    this.#CONT = Byte.fromUnsigned(state.CONT, 8);
+    this.#COMP = Byte.fromUnsigned(state.COMP, 8);
+  }
+
   toJSON() {
     return {
       CONT: this.#CONT.toJSON(),
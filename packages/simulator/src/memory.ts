@@ -29,6 +29,10 @@ export type MemoryOperation =
  * These reserved addresses are the ones that are used by the instructions, and they are
  * stored to prevent the user from writing to them.
  *
+ * With self-modifying code enabled (see the `selfModifyingCode` option of the
+ * computer), the addresses of the instructions can be written like any other.
+ * When loading a memory image, only its code segments are reserved.
+ *
  * ---
  * This class is: MUTABLE
  */
@@ -61,6 +65,20 @@ export class Memory extends Component {
       this.#reservedMemory.add(start + 3);
     }
 
+    this.#codeMemory = new Set();
+
+    if ("segments" in options.program) {
+      // Load the segments of the image into memory
+      for (const segment of options.program.segments) {
+        this.#buffer.set(segment.bytes, segment.address);
+        if (segment.type !== "code" || options.selfModifyingCode) continue;
+        for (let i = 0; i < segment.bytes.length; i++) {
+          this.#codeMemory.add(segment.address + i);
+        }
+      }
+      return;
+    }
+
     // Load data directives into memory
     for (const directive of options.program.data) {
       let offset = directive.start.value;
@@ -71,15 +89,27 @@ export class Memory extends Component {
     }
 
     // Load instructions into memory
-    this.#codeMemory = new Set();
     for (const instruction of options.program.instructions) {
       this.#buffer.set(instruction.toBytes(), instruction.start.value);
+      if (options.selfModifyingCode) continue;
       for (let i = 0; i < instruction.length; i++) {
         this.#codeMemory.add(instruction.start.value + i);
       }
     }
   }
 
+  /**
+   * Returns the value stored at the specified address without emitting any
+   * event, or `null` if the address is out of range.
+   *
+   * ---
+   * Called by the CPU, to decode the instructions from memory.
+   */
+  peek(address: number): number | null {
+    if (!MemoryAddress.inRange(address)) return null;
+    return this.#buffer[address];
+  }
+
   /**
    * Reads a byte from memory at the specified address.
    * @param address The address to read the byte from.
@@ -90,7 +120,7 @@ export class Memory extends Component {
    */
   *read(address: MemoryAddressLike): EventGenerator<Byte<8> | null> {
     address = Number(address);
-    yield { type: "memory:read", address };
+    if (this.computer.cpu.emits("memory:read")) yield { type: "memory:read", address };
 
     if (!MemoryAddress.inRange(address)) {
       yield {
@@ -101,7 +131,8 @@ export class Memory extends Component {
     }
 
     const value = Byte.fromUnsigned(this.#buffer.at(address)!, 8);
-    yield { type: "memory:read.ok", address: MemoryAddress.from(address), value };
+    if (this.computer.cpu.emits("memory:read.ok"))
+      yield { type: "memory:read.ok", address: MemoryAddress.from(address), value };
     return value;
   }
 
@@ -116,7 +147,7 @@ export class Memory extends Component {
    */
   *write(address: MemoryAddressLike, value: Byte<8>): EventGenerator<boolean> {
     address = Number(address);
-    yield { type: "memory:write", address, value };
+    if (this.computer.cpu.emits("memory:write")) yield { type: "memory:write", address, value };
 
     if (!MemoryAddress.inRange(address)) {
       yield {
@@ -143,10 +174,66 @@ export class Memory extends Component {
     }
 
     this.#buffer.set([value.unsigned], address);
-    yield { type: "memory:write.ok", address: MemoryAddress.from(address), value };
+    if (this.computer.cpu.emits("memory:write.ok"))
+      yield { type: "memory:write.ok", address: MemoryAddress.from(address), value };
     return true;
   }
 
+  /**
+   * Overrides the values of the memory starting at the specified address,
+   * without emitting any event. Meant to set up the initial state of the
+   * computer before running it.
+   *
+   * Like {@link Memory.write}, it can't write over instructions or reserved
+   * addresses. In that case, a {@link SimulatorError} is thrown.
+   *
+   * @param address The address of the first byte.
+   * @param values The bytes to write.
+   *
+   * ---
+   * Called by the outside ({@link Simulator.setMemory}).
+   */
+  override(address: MemoryAddressLike, values: Byte<8>[]): void {
+    const start = Number(address);
+    for (let i = 0; i < values.length; i++) {
+      const address = start + i;
+      if (!MemoryAddress.inRange(address)) {
+        throw new SimulatorError("address-out-of-range", address);
+      }
+      if (this.#codeMemory.has(address)) {
+        throw new SimulatorError("address-has-instruction", address);
+      }
+      if (this.#reservedMemory.has(address)) {
+        throw new SimulatorError("address-is-reserved", address);
+      }
+    }
+    this.#buffer.set(
+      values.map(value => value.unsigned),
+      start,
+    );
+  }
+
+  /**
+   * Restores the value of a single address, skipping all the checks.
+   * Only meant to undo writes that were already allowed.
+   *
+   * ---
+   * Called by the History.
+   */
+  restoreByte(address: number, value: number) {
+    this.#buffer[address] = value;
+  }
+
+  /**
+   * Restores the state from the output of {@link Memory.toJSON}.
+   *
+   * ---
+   * Called by the Computer.
+   */
+  restore(state: ReturnType<Memory["toJSON"]>) {
+    this.#buffer.set(state);
+  }
+
   toJSON() {
     return [...this.#buffer] satisfies JsonValue;
   }
@@ -0,0 +1,201 @@
+import type { Position } from "@vonsim/common/position";
+
+import type { InstructionMetadata } from "./cpu/types";
+import type { SimulatorEvent } from "./events";
+
+/**
+ * Cost of each event in "execution units", the unit of time of the simulator.
+ * They are roughly the durations of the animations of each event, so that
+ * an instruction that takes longer to animate also costs more. For example,
+ * updating a register costs 2 units (turn it on and off) while going through
+ * the ALU costs 19.
+ *
+ * Events not listed here don't cost anything.
+ */
+const EXECUTION_UNITS: Partial<Record<SimulatorEvent["type"], number>> = {
+  "cpu:alu.execute": 19,
+  "cpu:cycle.interrupt": 0.5,
+  "cpu:cycle.start": 0.5,
+  "cpu:decode": 7,
+  "cpu:inta.on": 10,
+  "cpu:iom.on": 15,
+  "cpu:mar.set": 12,
+  "cpu:mbr.get": 7,
+  "cpu:mbr.set": 12,
+  "cpu:rd.on": 5,
+  "cpu:register.copy": 7,
+  "cpu:register.update": 2,
+  "cpu:wr.on": 5,
+  "bus:io.selected": 1,
+  "memory:read.ok": 2,
+  "memory:write.ok": 2,
+};
+
+export type ProfileCounters = {
+  /** Number of memory reads, including the ones to fetch the instructions. */
+  memoryReads: number;
+  /** Number of memory writes. */
+  memoryWrites: number;
+  /** Number of reads from the I/O memory. */
+  ioReads: number;
+  /** Number of writes to the I/O memory. */
+  ioWrites: number;
+  /** Number of hardware interrupts handled (through the PIC). */
+  interrupts: number;
+  /** Total cost in execution units (see {@link EXECUTION_UNITS}). */
+  units: number;
+};
+
+export type InstructionProfile = ProfileCounters & {
+  /** Name of the instruction. */
+  name: InstructionMetadata["name"];
+  /** Position of the instruction in the source code. */
+  position: Position;
+  /** Number of times the instruction was executed. */
+  executions: number;
+};
+
+export type Profile = {
+  /** Counters of the whole execution, syscalls included. */
+  total: ProfileCounters & { instructions: number };
+  /** Counters of each instruction that was executed, in order of appearance in the source code. */
+  instructions: InstructionProfile[];
+};
+
+const emptyCounters = (): ProfileCounters => ({
+  memoryReads: 0,
+  memoryWrites: 0,
+  ioReads: 0,
+  ioWrites: 0,
+  interrupts: 0,
+  units: 0,
+});
+
+/**
+ * Aggregates the events of the CPU into counters of each instruction in the
+ * source code: how many times it was executed, how many memory and I/O accesses
+ * it made, how many interrupts were handled right after it and how many
+ * execution units it took. Useful to compare the cost of different instructions
+ * (e.g. direct vs. indirect addressing).
+ *
+ * The profiler is fed by the CPU, which records every event even in turbo mode.
+ * Syscalls don't belong to any instruction, so they only count in the total.
+ * Neither do instructions modified at runtime (see the `selfModifyingCode`
+ * option of the computer), since they aren't in the source code anymore.
+ *
+ * ---
+ * This class is: MUTABLE
+ */
+export class Profiler {
+  #total = { ...emptyCounters(), instructions: 0 };
+  #instructions = new Map<string, InstructionProfile>();
+  #current: InstructionProfile | null = null;
+  #ioAccess = false;
+
+  /**
+   * Records an event. Must be called for every event of the CPU, in order.
+   *
+   * ---
+   * Called by the CPU ({@link CPU.run}).
+   */
+  observe(event: SimulatorEvent) {
+    switch (event.type) {
+      case "cpu:cycle.start": {
+        const { position, name } = event.instruction;
+        this.#total.instructions++;
+        if (!position) {
+          this.#current = null;
+          break;
+        }
+
+        let profile = this.#instructions.get(position.toString());
+        if (!profile) {
+          profile = { ...emptyCounters(), name, position, executions: 0 };
+          this.#instructions.set(position.toString(), profile);
+        }
+        profile.executions++;
+        this.#current = profile;
+        break;
+      }
+
+      case "cpu:cycle.end":
+      case "cpu:int.0":
+      case "cpu:int.3":
+      case "cpu:int.6":
+      case "cpu:int.7": {
+        // What comes next doesn't belong to any instruction until the next
+        // cycle starts (syscalls don't start one)
+        this.#current = null;
+        break;
+      }
+
+      case "cpu:iom.on": {
+        this.#ioAccess = true;
+        break;
+      }
+
+      case "cpu:rd.on":
+      case "cpu:wr.on": {
+        if (this.#ioAccess) this.#count(event.type === "cpu:rd.on" ? "ioReads" : "ioWrites");
+        break;
+      }
+
+      case "bus:reset": {
+        this.#ioAccess = false;
+        break;
+      }
+
+      case "memory:read.ok": {
+        this.#count("memoryReads");
+        break;
+      }
+
+      case "memory:write.ok": {
+        this.#count("memoryWrites");
+        break;
+      }
+
+      case "cpu:cycle.interrupt": {
+        this.#count("interrupts");
+        break;
+      }
+
+      default:
+        break;
+    }
+
+    const units = EXECUTION_UNITS[event.type];
+    if (units) this.#count("units", units);
+  }
+
+  /**
+   * Counts the next events as part of the given instruction, without counting
+   * a new execution of it. Used when the CPU continues an instruction whose
+   * start was replayed without the profiler, since it had already been counted.
+   *
+   * ---
+   * Called by the Simulator ({@link Simulator.stepBack}).
+   */
+  resume(instruction: InstructionMetadata | null) {
+    const position = instruction?.position;
+    this.#current = position ? (this.#instructions.get(position.toString()) ?? null) : null;
+    this.#ioAccess = false;
+  }
+
+  #count(counter: keyof ProfileCounters, amount = 1) {
+    this.#total[counter] += amount;
+    if (this.#current) this.#current[counter] += amount;
+  }
+
+  /**
+   * Returns a copy of the counters recorded so far.
+   */
+  toJSON(): Profile {
+    return {
+      total: { ...this.#total },
+      instructions: Array.from(this.#instructions.values(), profile => ({ ...profile })).sort(
+        (a, b) => a.position.start - b.position.start,
+      ),
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { MemoryAddress } from "@vonsim/common/address";
+import { Byte } from "@vonsim/common/byte";
+
+import type { ConditionContext } from "./condition";
+import type { Flag, WordRegister } from "./cpu/types";
+import type { SimulatorEvent } from "./events";
+
+const TRACE_REGISTERS = [
+  "AX",
+  "BX",
+  "CX",
+  "DX",
+  "SP",
+  "BP",
+  "SI",
+  "DI",
+  "IP",
+  "FLAGS",
+] as const satisfies WordRegister[];
+const TRACE_FLAGS = ["CF", "ZF", "SF", "IF", "DF", "OF"] as const satisfies Flag[];
+
+/**
+ * One executed instruction (or syscall) of a trace.
+ */
+export type TraceEntry = {
+  /** Address of the instruction (or of the syscall routine). */
+  address: number;
+  /** Name of the instruction (with its prefix, if any), or `SYSCALL` for the syscalls. */
+  mnemonic: string;
+  /** Operands, as shown by the simulator, or the number of the syscall. */
+  operands: string[];
+  /** Registers after executing the instruction. */
+  registers: Record<(typeof TRACE_REGISTERS)[number], number>;
+  /** Flags after executing the instruction. */
+  flags: Record<(typeof TRACE_FLAGS)[number], boolean>;
+  /** Memory writes made by the instruction, in order. */
+  writes: { address: number; value: number }[];
+};
+
+/**
+ * Records every instruction executed by the CPU, along with the state of the
+ * registers after it and the memory writes it made. The trace can be exported
+ * as JSON ({@link TraceRecorder.toJSON}) or CSV ({@link TraceRecorder.toCSV}),
+ * for example to compare it against a reference trace.
+ *
+ * The recorder is fed with the events of the CPU (see {@link TraceRecorder.observe}).
+ * In turbo mode, the events in {@link TraceRecorder.EVENTS} must be kept.
+ *
+ * ---
+ * This class is: MUTABLE
+ */
+export class TraceRecorder {
+  /**
+   * Events needed by the recorder that aren't emitted in turbo mode by default.
+   */
+  static readonly EVENTS = [
+    "memory:write.ok",
+    "cpu:int.6",
+    "cpu:int.7",
+  ] as const satisfies SimulatorEvent["type"][];
+
+  readonly #limit: number;
+  #entries: TraceEntry[] = [];
+  #current: Pick<TraceEntry, "address" | "mnemonic" | "operands" | "writes"> | null = null;
+  #truncated = false;
+
+  /**
+   * @param limit Maximum number of entries to record. The following ones are discarded.
+   */
+  constructor(limit = Infinity) {
+    this.#limit = limit;
+  }
+
+  /**
+   * Records an event. Must be called right after the event is generated,
+   * so the registers can be read from the context.
+   *
+   * @param context Where to read the registers and flags from (usually, the {@link Simulator}).
+   */
+  observe(event: SimulatorEvent, context: ConditionContext) {
+    switch (event.type) {
+      case "cpu:cycle.start": {
+        this.#current = {
+          address: context.getRegister("IP").unsigned,
+          mnemonic: event.instruction.prefix
+            ? `${event.instruction.prefix} ${event.instruction.name}`
+            : event.instruction.name,
+          operands: event.instruction.operands,
+          writes: [],
+        };
+        return;
+      }
+
+      case "cpu:int.0":
+      case "cpu:int.3":
+      case "cpu:int.6":
+      case "cpu:int.7": {
+        // Syscalls don't start a cycle
+        this.#current ??= {
+          address: context.getRegister("IP").unsigned,
+          mnemonic: "SYSCALL",
+          operands: [event.type.slice("cpu:int.".length)],
+          writes: [],
+        };
+        if (event.type === "cpu:int.0") this.#commit(context);
+        return;
+      }
+
+      case "memory:write.ok": {
+        this.#current?.writes.push({ address: event.address.value, value: event.value.unsigned });
+        return;
+      }
+
+      case "cpu:cycle.end":
+      case "cpu:halt":
+      case "cpu:error": {
+        this.#commit(context);
+        return;
+      }
+
+      default:
+        return;
+    }
+  }
+
+  #commit(context: ConditionContext) {
+    if (!this.#current) return;
+
+    if (this.#entries.length < this.#limit) {
+      this.#entries.push({
+        ...this.#current,
+        registers: Object.fromEntries(
+          TRACE_REGISTERS.map(reg => [reg, context.getRegister(reg).unsigned]),
+        ) as TraceEntry["registers"],
+        flags: Object.fromEntries(
+          TRACE_FLAGS.map(flag => [flag, context.getFlag(flag)]),
+        ) as TraceEntry["flags"],
+      });
+    } else {
+      this.#truncated = true;
+    }
+    this.#current = null;
+  }
+
+  /**
+   * The recorded entries, in order of execution.
+   */
+  get entries(): readonly TraceEntry[] {
+    return this.#entries;
+  }
+
+  /**
+   * Whether some entries were discarded because the limit was reached.
+   */
+  get truncated(): boolean {
+    return this.#truncated;
+  }
+
+  /**
+   * Discards all the recorded entries.
+   */
+  clear() {
+    this.#entries = [];
+    this.#current = null;
+    this.#truncated = false;
+  }
+
+  /**
+   * Returns the trace as CSV, with one row per entry. Values are in hexadecimal,
+   * like the ones shown by the simulator, and memory writes are listed as
+   * `address=value` separated by spaces.
+   */
+  toCSV(): string {
+    const header = ["address", "instruction", ...TRACE_REGISTERS, ...TRACE_FLAGS, "writes"];
+    const rows = this.#entries.map(entry => [
+      MemoryAddress.format(entry.address),
+      formatInstruction(entry),
+      ...TRACE_REGISTERS.map(reg => Byte.fromUnsigned(entry.registers[reg], 16).toString("hex")),
+      ...TRACE_FLAGS.map(flag => (entry.flags[flag] ? "1" : "0")),
+      entry.writes
+        .map(
+          write =>
+            `${MemoryAddress.format(write.address)}=${Byte.fromUnsigned(write.value, 8).toString("hex")}`,
+        )
+        .join(" "),
+    ]);
+
+    return [header, ...rows].map(row => row.map(escapeCSV).join(",")).join("\n") + "\n";
+  }
+
+  toJSON() {
+    return this.#entries;
+  }
+}
+
+function formatInstruction(entry: TraceEntry): string {
+  if (entry.operands.length === 0) return entry.mnemonic;
+  return `${entry.mnemonic} ${entry.operands.join(", ")}`;
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
@@ -0,0 +1,100 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+/**
+ * Runs the given instructions until the end of the program.
+ */
+function run(instructions: string, turbo = true) {
+  const result = assemble(`
+    org 1000h
+    tabla dw 1111h, 2222h, 3333h, 4444h
+    org 2000h
+    ${instructions}
+    hlt
+    end
+  `);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  const events = Array.from(simulator.startCPU({ turbo }));
+  return { simulator, events };
+}
+
+describe("Indirect addressing", () => {
+  it("reads through SI, DI and BX with a displacement", () => {
+    const { simulator } = run(`
+      mov si, offset tabla
+      mov di, 4
+      mov bx, offset tabla
+      mov ax, [si]
+      mov cx, [bx+di]
+      mov dx, [bx+6]
+    `);
+    expect(simulator.getRegister("AX").unsigned).toBe(0x1111);
+    expect(simulator.getRegister("CX").unsigned).toBe(0x3333);
+    expect(simulator.getRegister("DX").unsigned).toBe(0x4444);
+  });
+
+  it("combines base, index and displacement", () => {
+    const { simulator } = run(`
+      mov bx, offset tabla
+      mov si, 2
+      add word ptr [bx+si+2], 1
+      mov bp, offset tabla + 8
+      mov di, 0
+      mov al, [bp+di-1]
+      inc byte ptr [di+1000h]
+    `);
+    const { memory } = simulator.getComputerState();
+    expect(memory[0x1004]).toBe(0x34);
+    expect(memory[0x1000]).toBe(0x12);
+    expect(simulator.getRegister("AL").unsigned).toBe(0x44);
+  });
+
+  it("wraps the effective address around at 0FFFFh", () => {
+    const { simulator } = run(`
+      mov bp, offset tabla
+      mov si, 0FFFDh
+      mov ax, [bp+si+5]
+      mov bx, 1
+      mov cx, [bx-1+1006h]
+    `);
+    expect(simulator.getRegister("AX").unsigned).toBe(0x2222);
+    expect(simulator.getRegister("CX").unsigned).toBe(0x4444);
+  });
+
+  it("accesses stack parameters through BP", () => {
+    const { simulator } = run(`
+      mov ax, 5
+      push ax
+      call rutina
+      pop ax
+      hlt
+    rutina: push bp
+      mov bp, sp
+      mov cx, [bp+4]
+      shl word ptr [bp+4], 1
+      pop bp
+      ret
+    `);
+    expect(simulator.getRegister("CX").unsigned).toBe(5);
+    expect(simulator.getRegister("AX").unsigned).toBe(10);
+  });
+
+  it("fetches the addressing byte and adds the index", () => {
+    const { events } = run("mov si, 1000h \n mov bx, 2 \n mov al, [bx+si]", false);
+    const starts = events.flatMap((event, i) => (event.type === "cpu:cycle.start" ? [i] : []));
+    // The third instruction
+    const cycle = events.slice(starts[2], starts[3]);
+    expect(cycle[0]).toMatchObject({ instruction: { name: "MOV", operands: ["AL", "[BX+SI]"] } });
+    expect(cycle.filter(event => event.type === "cpu:decode")).toHaveLength(3);
+    expect(cycle).toContainEqual({ type: "cpu:register.copy", size: 16, src: "BX", dest: "ri" });
+  });
+});
@@ -0,0 +1,45 @@
+import { Byte } from "@vonsim/common/byte";
+import { describe, expect, it } from "vitest";
+
+import { Condition, ConditionContext, SimulatorError } from "../src";
+
+const context: ConditionContext = {
+  getRegister: register => {
+    switch (register) {
+      case "AX":
+        return Byte.fromUnsigned(0x1234, 16);
+      case "AL":
+        return Byte.fromUnsigned(0x34, 8);
+      case "CX":
+        return Byte.zero(16);
+      default:
+        return Byte.fromUnsigned(0xff, 8);
+    }
+  },
+  getFlag: flag => flag === "ZF",
+};
+
+const evaluate = (source: string) => Condition.parse(source).evaluate(context);
+
+describe("Condition", () => {
+  it("compares registers and numbers", () => {
+    expect(evaluate("CX == 0")).toBe(true);
+    expect(evaluate("AX == 1234h")).toBe(true);
+    expect(evaluate("al != 00110100b")).toBe(false);
+    expect(evaluate("AL < 53")).toBe(true);
+    expect(evaluate("DL >= 255")).toBe(true);
+  });
+
+  it("supports flags and logical operators", () => {
+    expect(evaluate("CX == 0 && ZF")).toBe(true);
+    expect(evaluate("CX == 0 && CF")).toBe(false);
+    expect(evaluate("CF || !(AX > 1000h)")).toBe(false);
+    expect(evaluate("!CF && (ZF || CF) && AX")).toBe(true);
+  });
+
+  it("rejects invalid conditions", () => {
+    for (const source of ["", "CX ==", "CX = 0", "(ZF", "XX", "ZF ZF", "0FFh && @"]) {
+      expect(() => Condition.parse(source), source).toThrow(SimulatorError);
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDevices } from "../src";
+
+describe("parseDevices", () => {
+  it("parses the metadata syntax", () => {
+    expect(parseDevices("keyboard, pic")).toEqual({ keyboardAndScreen: true, pic: true });
+    expect(parseDevices("printer-pio, printer-handshake")).toEqual({
+      pio: null,
+      handshake: "printer",
+    });
+    expect(parseDevices("none")).toEqual({
+      keyboardAndScreen: false,
+      pic: false,
+      pio: null,
+      handshake: null,
+    });
+  });
+});
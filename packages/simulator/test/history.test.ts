@@ -0,0 +1,148 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { EventGenerator, Simulator } from "../src";
+
+function load(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+/**
+ * Runs the generator until the end of the current instruction.
+ * @returns Whether the generator is done.
+ */
+function runInstruction(generator: EventGenerator): boolean {
+  for (let event = generator.next(); !event.done; event = generator.next()) {
+    if (event.value.type === "cpu:cycle.end") return false;
+  }
+  return true;
+}
+
+const program = `
+  org 1000h
+  msg db "hello"
+  org 2000h
+  mov bx, offset msg
+  mov cl, 5
+  loop: inc byte ptr [bx]
+  inc bx
+  dec cl
+  jnz loop
+  mov bx, offset msg
+  mov al, 5
+  int 7
+  hlt
+  end
+`;
+
+describe("Step back", () => {
+  it("can't step back without history", () => {
+    const simulator = load(program);
+    runInstruction(simulator.startCPU());
+    expect(simulator.canStepBack()).toBe(false);
+    expect(simulator.stepBack()).toBeNull();
+  });
+
+  it("only rewinds the instructions recorded while enabled", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU({ turbo: true });
+    runInstruction(generator);
+    runInstruction(generator);
+
+    simulator.setHistory(true);
+    const state = simulator.getComputerState();
+    runInstruction(generator);
+
+    expect(simulator.stepBack()).not.toBeNull();
+    expect(simulator.getComputerState()).toEqual(state);
+    expect(simulator.canStepBack()).toBe(false);
+  });
+
+  it("rewinds every instruction", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU({ history: true });
+
+    const states = [simulator.getComputerState()];
+    while (!runInstruction(generator)) states.push(simulator.getComputerState());
+    expect(simulator.getComputerState().io.screen).toBe("ifmmp");
+
+    // The last (halted) instruction didn't finish, so it's rewound first
+    while (states.length > 0) {
+      expect(simulator.stepBack()).not.toBeNull();
+      expect(simulator.getComputerState()).toEqual(states.pop());
+    }
+
+    expect(simulator.canStepBack()).toBe(false);
+    expect(simulator.stepBack()).toBeNull();
+  });
+
+  it("continues from the rewound state", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU({ history: true });
+    for (let i = 0; i < 8; i++) runInstruction(generator);
+    const state = simulator.getComputerState();
+    runInstruction(generator);
+    runInstruction(generator);
+
+    simulator.stepBack();
+    const step = simulator.stepBack()!;
+    expect(simulator.getComputerState()).toEqual(state);
+    expect(step.instruction).not.toBeNull();
+
+    Array.from(step.generator);
+    expect(simulator.getComputerState().io.screen).toBe("ifmmp");
+  });
+
+  it("rewinds one micro-cycle", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU({ history: true });
+    runInstruction(generator);
+
+    // Stop after the second micro-cycle of the instruction
+    const states = [];
+    for (let event = generator.next(); states.length < 2; event = generator.next()) {
+      if (event.done) throw new Error("Unexpected end of program");
+      if (event.value.type === "cpu:cycle.update" || event.value.type === "cpu:cycle.interrupt") {
+        states.push(simulator.getComputerState());
+      }
+    }
+
+    const step = simulator.stepBack("cycle-change")!;
+    expect(simulator.getComputerState()).toEqual(states[0]);
+    expect(step.replayed[0]).toMatchObject({ type: "cpu:cycle.start" });
+    expect(step.replayed.at(-1)).toMatchObject({ type: "cpu:cycle.update" });
+  });
+
+  it("reads again the characters of the rewound instructions", () => {
+    const simulator = load(`
+      org 1000h
+      char db ?
+      org 2000h
+      mov bx, offset char
+      int 6
+      hlt
+      end
+    `);
+    simulator.devices.keyboard.enqueue("a");
+    const generator = simulator.startCPU({ history: true });
+    while (!runInstruction(generator));
+
+    simulator.stepBack();
+    simulator.stepBack();
+    expect(simulator.devices.keyboard.pending()).toBe(1);
+
+    const step = simulator.stepBack()!;
+    Array.from(step.generator);
+    expect(simulator.devices.keyboard.pending()).toBe(0);
+    expect(simulator.getComputerState().memory[0x1000]).toBe("a".charCodeAt(0));
+  });
+});
@@ -0,0 +1,85 @@
+import { assemble, createImage, intelHexToImage, MemoryImage } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+/**
+ * Runs the given image until the end.
+ */
+function run(image: MemoryImage, selfModifyingCode = false) {
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: image,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+    selfModifyingCode,
+  });
+  const events = Array.from(simulator.startCPU({ turbo: true }));
+  return { simulator, events };
+}
+
+function imageOf(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+  return createImage(result.program);
+}
+
+describe("Memory images", () => {
+  it("runs the image of an assembled program", () => {
+    const image = imageOf(`
+      org 1000h
+      num db 5
+      org 2000h
+      mov al, num
+      add al, 2
+      hlt
+      end
+    `);
+    const { simulator, events } = run(image);
+    expect(events.at(-1)).toMatchObject({ type: "cpu:halt" });
+    expect(simulator.getRegister("AL").unsigned).toBe(7);
+
+    // There are no statements, so there are no positions either
+    const starts = events.filter(event => event.type === "cpu:cycle.start");
+    expect(starts.map(event => event.instruction.position)).toEqual([null, null, null]);
+  });
+
+  it("protects the code segments", () => {
+    const image = imageOf(`
+      org 2000h
+      mov bx, 2009h
+      mov byte ptr [bx], 7
+      mov al, 5
+      hlt
+      end
+    `);
+    expect(run(image).events.at(-1)).toMatchObject({
+      type: "memory:write.error",
+      error: { code: "address-has-instruction" },
+    });
+
+    const { simulator, events } = run(image, true);
+    expect(events.at(-1)).toMatchObject({ type: "cpu:halt" });
+    expect(simulator.getRegister("AL").unsigned).toBe(7);
+  });
+
+  it("starts at the entry point", () => {
+    // mov al, 3 (80h 48h 03h) + hlt (11h) at 3000h, starting at 3000h
+    const result = intelHexToImage(":0430000080480311F0\n:0400000300003000C9\n:00000001FF\n");
+    if (!result.success) throw new Error(result.errors.join("\n"));
+    const { image } = result;
+    expect(image.entryPoint).toBe(0x3000);
+
+    const { simulator, events } = run(image);
+    expect(events.at(-1)).toMatchObject({ type: "cpu:halt" });
+    expect(simulator.getRegister("AL").unsigned).toBe(3);
+  });
+
+  it("stops at invalid instructions", () => {
+    const { events } = run({ entryPoint: 0x2000, segments: [] });
+    expect(events.at(-1)).toMatchObject({
+      type: "cpu:error",
+      error: { code: "invalid-instruction" },
+    });
+  });
+});
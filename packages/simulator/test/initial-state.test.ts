@@ -0,0 +1,48 @@
+import { assemble } from "@vonsim/assembler";
+import { Byte } from "@vonsim/common/byte";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+function load(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: false, pic: false, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+describe("Initial state", () => {
+  it("overrides registers and memory before running", () => {
+    const simulator = load(`
+      org 1000h
+      n db 1
+      org 2000h
+      add al, n
+      hlt
+      end
+    `);
+    simulator.setRegister("AX", Byte.fromUnsigned(0x1234, 16));
+    simulator.setRegister("AL", Byte.fromUnsigned(0x10, 8));
+    simulator.setMemory(0x1000, [Byte.fromUnsigned(5, 8)]);
+
+    const generator = simulator.startCPU();
+    while (!generator.next().done);
+
+    const state = simulator.getComputerState();
+    expect(state.cpu.AX).toBe(0x1215);
+    expect(state.memory[0x1000]).toBe(5);
+  });
+
+  it("can't override instructions or reserved memory", () => {
+    const simulator = load("org 2000h\nhlt\nend");
+    expect(() => simulator.setMemory(0x2000, [Byte.zero(8)])).toThrowError(/instruction/);
+    expect(() => simulator.setMemory(0, [Byte.zero(8)])).toThrowError(/reserved/);
+    expect(() => simulator.setRegister("AX", Byte.zero(8) as any)).toThrowError(TypeError);
+  });
+});
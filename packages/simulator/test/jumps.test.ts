@@ -0,0 +1,117 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+/**
+ * Runs the given instructions until the end of the program.
+ */
+function run(instructions: string) {
+  const result = assemble(`
+    org 2000h
+    ${instructions}
+    hlt
+    end
+  `);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  Array.from(simulator.startCPU({ turbo: true }));
+  return simulator;
+}
+
+/**
+ * Compares `a` and `b` and returns whether each conditional jump was taken.
+ */
+function compare(a: number, b: number) {
+  const jumps = ["JA", "JAE", "JB", "JBE", "JG", "JGE", "JL", "JLE"];
+  const simulator = run(`
+    mov dx, 0
+    ${jumps
+      .map(
+        (jump, i) => `
+          mov al, ${a}
+          cmp al, ${b}
+          ${jump} taken${i}
+          jmp next${i}
+          taken${i}: or dx, ${1 << i}
+          next${i}: nop`,
+      )
+      .join("\n")}
+  `);
+  const taken = simulator.getRegister("DX").unsigned;
+  return Object.fromEntries(jumps.map((jump, i) => [jump, (taken & (1 << i)) !== 0]));
+}
+
+describe("Conditional jumps", () => {
+  it("compares unsigned and signed numbers", () => {
+    // 1 < 0FFh unsigned, but 1 > -1 signed
+    expect(compare(1, 0xff)).toEqual({
+      JA: false,
+      JAE: false,
+      JB: true,
+      JBE: true,
+      JG: true,
+      JGE: true,
+      JL: false,
+      JLE: false,
+    });
+  });
+
+  it("jumps when equal", () => {
+    expect(compare(5, 5)).toEqual({
+      JA: false,
+      JAE: true,
+      JB: false,
+      JBE: true,
+      JG: false,
+      JGE: true,
+      JL: false,
+      JLE: true,
+    });
+  });
+
+  it("handles signed overflow", () => {
+    // -128 - 1 overflows, but -128 < 1
+    expect(compare(0x80, 1)).toMatchObject({ JA: true, JG: false, JL: true });
+  });
+});
+
+describe("Loops", () => {
+  it("LOOP repeats CX times", () => {
+    const simulator = run("mov cx, 5 \n mov al, 0 \n again: add al, 2 \n loop again");
+    expect(simulator.getRegister("AL").unsigned).toBe(10);
+    expect(simulator.getRegister("CX").unsigned).toBe(0);
+  });
+
+  it("LOOPZ and LOOPNZ also check ZF", () => {
+    let simulator = run("mov cx, 5 \n mov al, 3 \n again: dec al \n loopnz again");
+    expect(simulator.getRegister("AL").unsigned).toBe(0);
+    expect(simulator.getRegister("CX").unsigned).toBe(2);
+
+    simulator = run("mov cx, 5 \n mov al, 0 \n again: cmp al, 0 \n inc al \n loopz again");
+    expect(simulator.getRegister("CX").unsigned).toBe(4);
+  });
+
+  it("LOOP wraps CX around when it starts at 0", () => {
+    let simulator = run("mov cx, 0 \n mov al, 0 \n loop taken \n mov al, 1 \n taken: nop");
+    expect(simulator.getRegister("CX").unsigned).toBe(0xffff);
+    expect(simulator.getRegister("AL").unsigned).toBe(0);
+
+    simulator = run("mov cx, 0 \n mov al, 3 \n again: dec al \n loopnz again");
+    expect(simulator.getRegister("AL").unsigned).toBe(0);
+    expect(simulator.getRegister("CX").unsigned).toBe(0xfffd);
+  });
+
+  it("JCXZ skips the loop when CX is 0", () => {
+    const simulator = run(
+      "mov cx, 0 \n mov al, 0 \n jcxz fin \n again: inc al \n loop again \n fin: nop",
+    );
+    expect(simulator.getRegister("AL").unsigned).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { assemble } from "@vonsim/assembler";
+import { Byte } from "@vonsim/common/byte";
+import { describe, expect, it } from "vitest";
+
+import { Simulator, SimulatorEvent } from "../src";
+
+function load(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+const echo = `
+  org 1000h
+  char db ?
+  org 2000h
+  mov bx, offset char
+  mov al, 1
+  int 6
+  int 7
+  int 6
+  int 7
+  hlt
+  end
+`;
+
+describe("Keyboard input queue", () => {
+  it("feeds INT 6 without waiting for a key", () => {
+    const simulator = load(echo);
+    simulator.devices.keyboard.enqueue("ok");
+
+    const events: SimulatorEvent["type"][] = [];
+    for (const event of simulator.startCPU()) events.push(event.type);
+
+    expect(events).not.toContain("keyboard:listen-key");
+    expect(events.filter(type => type === "keyboard:read")).toHaveLength(2);
+    expect(simulator.devices.keyboard.pending()).toBe(0);
+    expect(simulator.devices.screen.output()).toBe("ok");
+  });
+
+  it("waits for a key once the queue is empty", () => {
+    const simulator = load(echo);
+    simulator.devices.keyboard.enqueue("o");
+
+    const generator = simulator.startCPU();
+    let event = generator.next();
+    while (!event.done && event.value.type !== "keyboard:listen-key") event = generator.next();
+    expect(event.done).toBe(false);
+    expect(simulator.devices.screen.output()).toBe("o");
+
+    simulator.devices.keyboard.readChar(Byte.fromChar("k"));
+    while (!event.done) event = generator.next();
+    expect(simulator.devices.screen.output()).toBe("ok");
+  });
+
+  it("rejects characters outside the ASCII table", () => {
+    const simulator = load(echo);
+    expect(() => simulator.devices.keyboard.enqueue("→")).toThrowError(/ASCII/);
+  });
+});
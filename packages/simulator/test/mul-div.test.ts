@@ -0,0 +1,95 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator, SimulatorEvent } from "../src";
+
+/**
+ * Runs the given instructions until the end of the program.
+ * @returns The simulator and the events generated.
+ */
+function run(instructions: string) {
+  const result = assemble(`
+    org 1000h
+    data dw 0
+    org 2000h
+    ${instructions}
+    hlt
+    end
+  `);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  const events: SimulatorEvent[] = Array.from(simulator.startCPU());
+  return { simulator, events };
+}
+
+describe("Multiplication", () => {
+  it("MUL multiplies AL into AX", () => {
+    const { simulator } = run("mov al, 200 \n mov bl, 3 \n mul bl");
+    expect(simulator.getRegister("AX").unsigned).toBe(600);
+    expect(simulator.getFlag("CF")).toBe(true);
+    expect(simulator.getFlag("OF")).toBe(true);
+  });
+
+  it("MUL multiplies AX into DX:AX", () => {
+    const { simulator } = run(
+      "mov bx, offset data \n mov word ptr [bx], 1000h \n mov ax, 20h \n mul data",
+    );
+    expect(simulator.getRegister("DX").unsigned).toBe(0x0002);
+    expect(simulator.getRegister("AX").unsigned).toBe(0x0000);
+  });
+
+  it("IMUL keeps the sign", () => {
+    const { simulator } = run("mov al, -5 \n mov cl, 6 \n imul cl");
+    expect(simulator.getRegister("AX").signed).toBe(-30);
+    expect(simulator.getFlag("CF")).toBe(false);
+    expect(simulator.getFlag("OF")).toBe(false);
+  });
+
+  it("computes the result in two steps", () => {
+    const { events } = run("mov ax, 3 \n mov cx, 4 \n mul cx");
+    const steps = events
+      .filter(event => event.type === "cpu:alu.execute")
+      .map(event => [event.operation, event.part, event.result.unsigned]);
+    expect(steps).toEqual([
+      ["MUL", "low", 12],
+      ["MUL", "high", 0],
+    ]);
+  });
+});
+
+describe("Division", () => {
+  it("DIV divides AX into AL and AH", () => {
+    const { simulator } = run("mov ax, 1000 \n mov bl, 7 \n div bl");
+    expect(simulator.getRegister("AL").unsigned).toBe(142);
+    expect(simulator.getRegister("AH").unsigned).toBe(6);
+  });
+
+  it("DIV divides DX:AX into AX and DX", () => {
+    const { simulator } = run("mov dx, 1 \n mov ax, 0 \n mov cx, 3 \n div cx");
+    expect(simulator.getRegister("AX").unsigned).toBe(21845);
+    expect(simulator.getRegister("DX").unsigned).toBe(1);
+  });
+
+  it("IDIV rounds towards zero", () => {
+    const { simulator } = run("mov ax, -7 \n mov bl, 2 \n idiv bl");
+    expect(simulator.getRegister("AL").signed).toBe(-3);
+    expect(simulator.getRegister("AH").signed).toBe(-1);
+  });
+
+  it("faults when dividing by zero", () => {
+    const { simulator, events } = run("mov ax, 5 \n mov bl, 0 \n div bl");
+    expect(events.at(-1)).toMatchObject({ type: "cpu:error", error: { code: "divide-by-zero" } });
+    expect(simulator.getRegister("AX").unsigned).toBe(5);
+  });
+
+  it("faults when the quotient doesn't fit", () => {
+    const { events } = run("mov ax, 1000 \n mov bl, 2 \n div bl");
+    expect(events.at(-1)).toMatchObject({ type: "cpu:error", error: { code: "divide-overflow" } });
+  });
+});
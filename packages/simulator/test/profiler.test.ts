@@ -0,0 +1,94 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+function load(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+const program = `
+  org 1000h
+  num db 5
+  org 2000h
+  mov cl, 3
+  loop: mov al, num
+  mov bx, offset num
+  mov al, [bx]
+  dec cl
+  jnz loop
+  hlt
+  end
+`;
+
+describe("Profiler", () => {
+  it("isn't enabled by default", () => {
+    const simulator = load(program);
+    Array.from(simulator.startCPU());
+    expect(simulator.getProfile()).toBeNull();
+  });
+
+  it("counts each instruction", () => {
+    const simulator = load(program);
+    Array.from(simulator.startCPU({ profile: true }));
+    const profile = simulator.getProfile()!;
+
+    expect(profile.instructions.map(i => [i.name, i.executions])).toEqual([
+      ["MOV", 1],
+      ["MOV", 3],
+      ["MOV", 3],
+      ["MOV", 3],
+      ["DEC", 3],
+      ["JNZ", 3],
+      ["HLT", 1],
+    ]);
+    expect(profile.total.instructions).toBe(17);
+    expect(profile.total.memoryWrites).toBe(0);
+  });
+
+  it("shows the cost of the addressing modes", () => {
+    const simulator = load(program);
+    Array.from(simulator.startCPU({ profile: true }));
+    const [, direct, , indirect] = simulator.getProfile()!.instructions;
+
+    // Direct: 4 bytes of instruction and 1 of data. Indirect: 2 bytes of instruction and 1 of data.
+    expect(direct.memoryReads).toBe(3 * 5);
+    expect(indirect.memoryReads).toBe(3 * 3);
+    expect(direct.units).toBeGreaterThan(indirect.units);
+  });
+
+  it("doesn't count the events replayed when stepping back", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU({ profile: true, history: true });
+    for (let event = generator.next(); !event.done; event = generator.next()) {
+      if (
+        event.value.type === "cpu:cycle.end" &&
+        simulator.getProfile()!.total.instructions === 3
+      ) {
+        break;
+      }
+    }
+
+    const profile = simulator.getProfile();
+    const step = simulator.stepBack("cycle-change")!;
+    expect(step.replayed.length).toBeGreaterThan(0);
+    expect(simulator.getProfile()).toEqual(profile);
+  });
+
+  it("counts the same in turbo mode", () => {
+    const normal = load(program);
+    Array.from(normal.startCPU({ profile: true }));
+    const turbo = load(program);
+    Array.from(turbo.startCPU({ profile: true, turbo: true }));
+    expect(turbo.getProfile()).toEqual(normal.getProfile());
+  });
+});
@@ -0,0 +1,85 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { ComputerState, Simulator, SimulatorError } from "../src";
+
+function load(source: string, devices = { keyboardAndScreen: true, pic: false }) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { ...devices, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+const program = `
+  org 1000h
+  msg db "hello"
+  org 2000h
+  mov bx, offset msg
+  mov cl, 5
+  loop: inc byte ptr [bx]
+  inc bx
+  dec cl
+  jnz loop
+  mov bx, offset msg
+  mov al, 5
+  int 7
+  mov al, 2
+  int 7
+  hlt
+  end
+`;
+
+describe("Restore state", () => {
+  it("continues from a saved state", () => {
+    const original = load(program);
+    const generator = original.startCPU();
+    let snapshot: ComputerState | null = null;
+    for (const event of generator) {
+      // Take a snapshot after the first INT 7
+      if (event.type === "cpu:cycle.end" && original.getComputerState().io.screen === "ifmmp") {
+        snapshot ??= JSON.parse(JSON.stringify(original.getComputerState())) as ComputerState;
+      }
+    }
+    expect(snapshot).not.toBeNull();
+
+    const restored = load(program);
+    restored.restoreState(snapshot!);
+    expect(restored.getComputerState()).toEqual(snapshot);
+    expect(restored.getRegister("BX").unsigned).toBe(0x1000);
+
+    Array.from(restored.startCPU());
+    expect(restored.getComputerState()).toEqual(original.getComputerState());
+    expect(restored.getComputerState().io.screen).toBe("ifmmpif");
+  });
+
+  it("can only take states between instructions", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU();
+    expect(simulator.isBetweenInstructions()).toBe(true);
+
+    // Paused at the start of `mov bx, offset msg`
+    expect(generator.next().value).toMatchObject({ type: "cpu:cycle.start" });
+    expect(simulator.isBetweenInstructions()).toBe(true);
+
+    // Paused after its first micro-cycle, with IP past the fetched bytes
+    let event = generator.next();
+    while (!event.done && event.value.type !== "cpu:cycle.update") event = generator.next();
+    expect(simulator.getRegister("IP").unsigned).toBeGreaterThan(0x2000);
+    expect(simulator.isBetweenInstructions()).toBe(false);
+
+    while (!event.done && event.value.type !== "cpu:cycle.end") event = generator.next();
+    expect(simulator.isBetweenInstructions()).toBe(true);
+  });
+
+  it("rejects states of other devices", () => {
+    const state = load(program).getComputerState();
+    const simulator = load(program, { keyboardAndScreen: false, pic: true });
+    expect(() => simulator.restoreState(state)).toThrow(SimulatorError);
+  });
+});
@@ -0,0 +1,91 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+/**
+ * Runs the given program until the end.
+ */
+function run(source: string, selfModifyingCode: boolean) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+    selfModifyingCode,
+  });
+  const events = Array.from(simulator.startCPU({ turbo: true }));
+  return { simulator, events };
+}
+
+// Overwrites the immediate of `mov al, 5` (bytes 80h 48h 05h, at 2007h) with a 7
+const patch = `
+  org 2000h
+  mov bx, 2009h
+  mov byte ptr [bx], 7
+  mov al, 5
+  hlt
+  end
+`;
+
+// Jumps into the data segment with PUSH + RET
+const jumpIntoData = (...bytes: number[]) => `
+  org 1000h
+  codigo db ${bytes.join(", ")}
+  org 2000h
+  mov ax, offset codigo
+  push ax
+  ret
+  end
+`;
+
+describe("Self-modifying code", () => {
+  it("doesn't allow writing over instructions by default", () => {
+    const { events } = run(patch, false);
+    expect(events.at(-1)).toMatchObject({
+      type: "memory:write.error",
+      error: { code: "address-has-instruction" },
+    });
+  });
+
+  it("executes instructions written at runtime", () => {
+    const { simulator, events } = run(patch, true);
+    expect(events.at(-1)).toMatchObject({ type: "cpu:halt" });
+    expect(simulator.getRegister("AL").unsigned).toBe(7);
+  });
+
+  it("loses the position of modified instructions", () => {
+    const { events } = run(patch, true);
+    const starts = events.filter(event => event.type === "cpu:cycle.start");
+    expect(starts.map(event => event.instruction.position === null)).toEqual([
+      false,
+      false,
+      true, // mov al, 7
+      false,
+    ]);
+  });
+
+  it("executes instructions stored as data", () => {
+    // mov al, 3 (80h 48h 03h) + hlt (11h)
+    const { simulator, events } = run(jumpIntoData(0x80, 0x48, 0x03, 0x11), true);
+    expect(events.at(-1)).toMatchObject({ type: "cpu:halt" });
+    expect(simulator.getRegister("AL").unsigned).toBe(3);
+
+    // Without self-modifying code, there are no instructions in data
+    expect(run(jumpIntoData(0x11), false).events.at(-1)).toMatchObject({
+      type: "cpu:error",
+      error: { code: "no-instruction" },
+    });
+  });
+
+  it("stops at invalid instructions", () => {
+    const { events } = run(jumpIntoData(0xff), true);
+    expect(events.at(-1)).toMatchObject({
+      type: "cpu:error",
+      error: { code: "invalid-instruction" },
+    });
+  });
+});
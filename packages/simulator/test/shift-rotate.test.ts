@@ -0,0 +1,101 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+/**
+ * Runs the given instructions until the end of the program.
+ */
+function run(instructions: string) {
+  const result = assemble(`
+    org 1000h
+    data db 0
+    org 2000h
+    ${instructions}
+    hlt
+    end
+  `);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  Array.from(simulator.startCPU({ turbo: true }));
+  return simulator;
+}
+
+function flags(simulator: Simulator) {
+  return {
+    CF: simulator.getFlag("CF"),
+    ZF: simulator.getFlag("ZF"),
+    SF: simulator.getFlag("SF"),
+    OF: simulator.getFlag("OF"),
+  };
+}
+
+describe("Shifts", () => {
+  it("SHL moves the most significant bit to CF", () => {
+    const simulator = run("mov al, 81h \n shl al, 1");
+    expect(simulator.getRegister("AL").unsigned).toBe(0x02);
+    expect(flags(simulator)).toEqual({ CF: true, ZF: false, SF: false, OF: true });
+  });
+
+  it("SHR shifts CL bits", () => {
+    const simulator = run("mov al, 0C0h \n mov cl, 7 \n shr al, cl");
+    expect(simulator.getRegister("AL").unsigned).toBe(0x01);
+    expect(flags(simulator)).toEqual({ CF: true, ZF: false, SF: false, OF: false });
+  });
+
+  it("SAR keeps the sign", () => {
+    const simulator = run("mov ax, 0F001h \n sar ax, 1");
+    expect(simulator.getRegister("AX").unsigned).toBe(0xf800);
+    expect(flags(simulator)).toEqual({ CF: true, ZF: false, SF: true, OF: false });
+  });
+
+  it("shifts memory operands", () => {
+    const simulator = run(
+      "mov bx, offset data \n mov byte ptr [bx], 3 \n mov cl, 2 \n shl data, cl",
+    );
+    expect(simulator.getComputerState().memory[0x1000]).toBe(0x0c);
+  });
+
+  it("doesn't change anything when CL is 0", () => {
+    const simulator = run("mov al, 80h \n add al, al \n mov cl, 0 \n shl al, cl");
+    expect(simulator.getRegister("AL").unsigned).toBe(0x00);
+    expect(flags(simulator)).toEqual({ CF: true, ZF: true, SF: false, OF: true });
+  });
+});
+
+describe("Rotations", () => {
+  it("ROL and ROR wrap the bits around", () => {
+    let simulator = run("mov ax, 8001h \n rol ax, 1");
+    expect(simulator.getRegister("AX").unsigned).toBe(0x0003);
+    expect(simulator.getFlag("CF")).toBe(true);
+    expect(simulator.getFlag("OF")).toBe(true);
+
+    simulator = run("mov al, 01h \n ror al, 1");
+    expect(simulator.getRegister("AL").unsigned).toBe(0x80);
+    expect(simulator.getFlag("CF")).toBe(true);
+    expect(simulator.getFlag("OF")).toBe(true);
+  });
+
+  it("RCL and RCR rotate through CF", () => {
+    // 80h + 80h leaves CF=1 and ZF=1
+    let simulator = run("mov al, 80h \n add al, al \n rcl al, 1");
+    expect(simulator.getRegister("AL").unsigned).toBe(0x01);
+    expect(flags(simulator)).toEqual({ CF: false, ZF: true, SF: false, OF: false });
+
+    simulator = run("mov al, 80h \n add al, al \n mov bl, 0Ah \n mov cl, 2 \n rcr bl, cl");
+    expect(simulator.getRegister("BL").unsigned).toBe(0x42);
+    expect(flags(simulator)).toEqual({ CF: true, ZF: true, SF: false, OF: true });
+  });
+
+  it("only accepts 1 or CL as count", () => {
+    expect(assemble("org 2000h \n shl al, 2 \n end").success).toBe(false);
+    expect(assemble("org 2000h \n shl al, bl \n end").success).toBe(false);
+    expect(assemble("org 2000h \n shl al \n end").success).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator } from "../src";
+
+/**
+ * Runs the given instructions until the end of the program.
+ */
+function run(instructions: string, turbo = true) {
+  const result = assemble(`
+    org 1000h
+    origen db "Hola"
+    destino db 0, 0, 0, 0
+    org 2000h
+    ${instructions}
+    hlt
+    end
+  `);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  const events = Array.from(simulator.startCPU({ turbo }));
+  return { simulator, events };
+}
+
+function read(simulator: Simulator, from: number, length: number) {
+  return simulator.getComputerState().memory.slice(from, from + length);
+}
+
+describe("String instructions", () => {
+  it("MOVSB, LODSB and STOSB move one byte and advance SI and DI", () => {
+    const { simulator } = run(`
+      mov si, offset origen
+      mov di, offset destino
+      movsb
+      lodsb
+      stosb
+    `);
+    expect(read(simulator, 0x1004, 2)).toEqual([0x48, 0x6f]); // "Ho"
+    expect(simulator.getRegister("AL").unsigned).toBe(0x6f);
+    expect(simulator.getRegister("SI").unsigned).toBe(0x1002);
+    expect(simulator.getRegister("DI").unsigned).toBe(0x1006);
+  });
+
+  it("goes backwards when DF=1", () => {
+    const { simulator } = run(`
+      mov si, offset origen + 3
+      mov di, offset destino + 3
+      mov cx, 4
+      std
+      rep movsb
+    `);
+    expect(read(simulator, 0x1004, 4)).toEqual([0x48, 0x6f, 0x6c, 0x61]);
+    expect(simulator.getRegister("SI").unsigned).toBe(0x0fff);
+    expect(simulator.getFlag("DF")).toBe(true);
+  });
+
+  it("wraps SI and DI around at 0", () => {
+    const { simulator } = run("mov si, 0 \n mov di, 0 \n std \n cmpsb");
+    expect(simulator.getRegister("SI").unsigned).toBe(0xffff);
+    expect(simulator.getRegister("DI").unsigned).toBe(0xffff);
+  });
+
+  it("REP repeats the instruction CX times", () => {
+    const { simulator } = run(`
+      mov di, offset destino
+      mov al, '*'
+      mov cx, 3
+      rep stosb
+    `);
+    expect(read(simulator, 0x1004, 4)).toEqual([0x2a, 0x2a, 0x2a, 0]);
+    expect(simulator.getRegister("CX").unsigned).toBe(0);
+  });
+
+  it("REP doesn't do anything when CX=0", () => {
+    const { simulator } = run("mov di, offset destino \n mov cx, 0 \n rep stosb");
+    expect(simulator.getRegister("DI").unsigned).toBe(0x1004);
+  });
+
+  it("REPNE SCASB stops at the first match", () => {
+    const { simulator } = run(`
+      mov di, offset origen
+      mov al, 'l'
+      mov cx, 4
+      repne scasb
+    `);
+    expect(simulator.getFlag("ZF")).toBe(true);
+    expect(simulator.getRegister("DI").unsigned).toBe(0x1003);
+    expect(simulator.getRegister("CX").unsigned).toBe(1);
+  });
+
+  it("REPE CMPSB stops at the first difference", () => {
+    const { simulator } = run(`
+      mov destino, 'H'
+      mov destino + 1, 'i'
+      mov si, offset origen
+      mov di, offset destino
+      mov cx, 4
+      repe cmpsb
+    `);
+    expect(simulator.getFlag("ZF")).toBe(false);
+    expect(simulator.getFlag("CF")).toBe(false); // 'o' > 'i'
+    expect(simulator.getRegister("SI").unsigned).toBe(0x1002);
+    expect(simulator.getRegister("CX").unsigned).toBe(2);
+  });
+
+  it("animates each repetition as its own cycle", () => {
+    const { events } = run("mov di, offset destino \n mov cx, 3 \n rep stosb", false);
+    const starts = events.filter(event => event.type === "cpu:cycle.start");
+    expect(starts.slice(2).map(event => event.instruction)).toMatchObject([
+      { name: "STOSB", prefix: "REP" },
+      { name: "STOSB", prefix: "REP" },
+      { name: "STOSB", prefix: "REP" },
+      { name: "HLT" },
+    ]);
+  });
+
+  it("only accepts the matching prefixes", () => {
+    expect(assemble("org 2000h \n rep cmpsb \n end")).toMatchObject({
+      success: false,
+      errors: [{ code: "rep-with-comparison" }],
+    });
+    expect(assemble("org 2000h \n repe movsb \n end").success).toBe(false);
+    expect(assemble("org 2000h \n rep mov al, bl \n end").success).toBe(false);
+    expect(assemble("org 2000h \n repz scasb \n end").success).toBe(true);
+  });
+});
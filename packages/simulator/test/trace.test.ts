@@ -0,0 +1,80 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator, TraceRecorder } from "../src";
+
+function load(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+function record(simulator: Simulator, turbo: boolean) {
+  const trace = new TraceRecorder();
+  for (const event of simulator.startCPU({ turbo, keep: TraceRecorder.EVENTS })) {
+    trace.observe(event, simulator);
+  }
+  return trace;
+}
+
+const program = `
+  org 1000h
+  msg db "hi"
+  org 2000h
+  mov bx, offset msg
+  mov byte ptr [bx], 48h
+  mov al, 2
+  int 7
+  hlt
+  end
+`;
+
+describe("Trace recorder", () => {
+  it("records every instruction and syscall", () => {
+    const trace = record(load(program), false);
+
+    expect(trace.entries.map(entry => [entry.mnemonic, ...entry.operands])).toEqual([
+      ["MOV", "BX", "1000h"],
+      ["MOV", "[BX]", "48h"],
+      ["MOV", "AL", "02h"],
+      ["INT", "7"],
+      ["SYSCALL", "7"],
+      ["HLT"],
+    ]);
+    expect(trace.entries[0]).toMatchObject({ address: 0x2000, registers: { BX: 0x1000 } });
+    expect(trace.entries[1].writes).toEqual([{ address: 0x1000, value: 0x48 }]);
+    expect(trace.entries.at(-1)!.flags).toEqual({
+      CF: false,
+      ZF: false,
+      SF: false,
+      IF: true,
+      DF: false,
+      OF: false,
+    });
+  });
+
+  it("records the same trace in turbo mode", () => {
+    const normal = record(load(program), false);
+    const turbo = record(load(program), true);
+    expect(turbo.toJSON()).toEqual(normal.toJSON());
+  });
+
+  it("exports as CSV", () => {
+    const csv = record(load(program), true).toCSV();
+    const lines = csv.trimEnd().split("\n");
+    expect(lines[0]).toBe(
+      "address,instruction,AX,BX,CX,DX,SP,BP,SI,DI,IP,FLAGS,CF,ZF,SF,IF,DF,OF,writes",
+    );
+    expect(lines[2]).toBe(
+      '2004h,"MOV [BX], 48h",0000,1000,0000,0000,8000,0000,0000,0000,2007,0200,0,0,0,1,0,0,1000h=48',
+    );
+    expect(lines).toHaveLength(7);
+  });
+});
@@ -0,0 +1,83 @@
+import { assemble } from "@vonsim/assembler";
+import { describe, expect, it } from "vitest";
+
+import { Simulator, SimulatorEvent } from "../src";
+
+function load(source: string) {
+  const result = assemble(source);
+  if (!result.success) throw new Error(result.errors.join("\n"));
+
+  const simulator = new Simulator();
+  simulator.loadProgram({
+    program: result.program,
+    data: "clean",
+    devices: { keyboardAndScreen: true, pic: false, pio: null, handshake: null },
+  });
+  return simulator;
+}
+
+const program = `
+  org 1000h
+  msg db "hello"
+  org 2000h
+  mov bx, offset msg
+  mov cl, 5
+  loop: inc byte ptr [bx]
+  inc bx
+  dec cl
+  jnz loop
+  mov bx, offset msg
+  mov al, 5
+  int 7
+  hlt
+  end
+`;
+
+describe("Turbo mode", () => {
+  it("only emits the boundaries of each instruction", () => {
+    const simulator = load(program);
+    const types = new Set(Array.from(simulator.startCPU({ turbo: true }), event => event.type));
+    expect(types).toEqual(new Set(["cpu:cycle.start", "cpu:cycle.end", "cpu:halt"]));
+  });
+
+  it("keeps the events asked for", () => {
+    const simulator = load(program);
+    const events = Array.from(simulator.startCPU({ turbo: true, keep: ["memory:write.ok"] }));
+    const writes = events.flatMap(event =>
+      event.type === "memory:write.ok" ? [event.address.value] : [],
+    );
+    expect(writes.filter(address => address < 0x2000)).toEqual([
+      0x1000, 0x1001, 0x1002, 0x1003, 0x1004,
+    ]);
+    expect(events.some(event => event.type === "memory:read.ok")).toBe(false);
+  });
+
+  it("reaches the same state as the normal mode", () => {
+    const normal = load(program);
+    const normalEvents = Array.from(normal.startCPU());
+
+    const turbo = load(program);
+    const turboEvents = Array.from(turbo.startCPU({ turbo: true }));
+
+    expect(turboEvents.length).toBeLessThan(normalEvents.length);
+    expect(turbo.getComputerState()).toEqual(normal.getComputerState());
+    expect(turbo.getComputerState().io.screen).toBe("ifmmp");
+  });
+
+  it("can be toggled while running", () => {
+    const simulator = load(program);
+    const generator = simulator.startCPU();
+    const events: SimulatorEvent[] = [];
+
+    let event = generator.next();
+    while (!event.done && event.value.type !== "cpu:cycle.end") event = generator.next();
+
+    simulator.setTurbo(true);
+    for (event = generator.next(); !event.done; event = generator.next()) {
+      events.push(event.value);
+    }
+
+    expect(events.some(event => event.type.startsWith("memory:"))).toBe(false);
+    expect(events.at(-1)).toEqual({ type: "cpu:halt" });
+  });
+});